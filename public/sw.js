@@ -120,7 +120,7 @@ self.addEventListener('periodicsync', (event) => {
   console.log('Periodic background sync triggered:', event.tag);
   
   if (event.tag === 'calendar-periodic-sync') {
-    event.waitUntil(syncCalendarsInBackground());
+    event.waitUntil(Promise.all([syncCalendarsInBackground(), fireDueReminders().catch(err => console.error('Reminder check failed:', err))]));
   }
 });
 
@@ -131,7 +131,8 @@ async function syncCalendarsInBackground() {
     
     // Get stored calendars from IndexedDB
     const calendars = await getStoredCalendars();
-    const enabledCalendars = calendars.filter(cal => cal.enabled);
+    // Calendars imported from a file and the local Family Calendar have no URL to download
+    const enabledCalendars = calendars.filter(cal => cal.enabled && cal.sourceType !== 'file' && cal.sourceType !== 'local');
     
     if (enabledCalendars.length === 0) {
       console.log('No enabled calendars to sync');
@@ -179,7 +180,7 @@ async function syncCalendarsInBackground() {
 // Helper function to get calendars from IndexedDB
 async function getStoredCalendars() {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open('FamilyCalendarDB', 1);
+    const request = indexedDB.open('FamilyCalendarDB');
     
     request.onerror = () => reject(request.error);
     request.onsuccess = () => {
@@ -233,17 +234,76 @@ async function getStoredCalendars() {
   });
 }
 
+// HTTP validators of a full response, stored with the calendar for the next conditional request
+function readValidators(response) {
+  return {
+    etag: response.headers.get('ETag') || undefined,
+    lastModified: response.headers.get('Last-Modified') || undefined
+  };
+}
+
+// Whether the last downloaded feed of a calendar is stored (see src/services/calendarStorage.ts)
+async function hasStoredSource(calendarId) {
+  try {
+    return await new Promise((resolve, reject) => {
+      const request = indexedDB.open('FamilyCalendarDB');
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('calendar_sources')) {
+          resolve(false);
+          return;
+        }
+        const getRequest = db.transaction(['calendar_sources'], 'readonly').objectStore('calendar_sources').get(calendarId);
+        getRequest.onsuccess = () => resolve(!!getRequest.result);
+        getRequest.onerror = () => reject(getRequest.error);
+      };
+    });
+  } catch (error) {
+    return false;
+  }
+}
+
+// CORS proxy templates from the page's proxy registry (src/services/proxyRegistry.ts),
+// healthiest first. Kept in the cache so syncs after the worker restarts use them too.
+const PROXY_TEMPLATES_KEY = 'proxy-templates';
+
+async function saveProxyTemplates(templates) {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.put(PROXY_TEMPLATES_KEY, new Response(JSON.stringify(templates), { headers: { 'Content-Type': 'application/json' } }));
+}
+
+async function getProxyTemplates() {
+  try {
+    const cached = await caches.match(PROXY_TEMPLATES_KEY);
+    const templates = cached ? await cached.json() : [];
+    return Array.isArray(templates) ? templates.filter(template => typeof template === 'string') : [];
+  } catch (error) {
+    return [];
+  }
+}
+
+// Same placeholders as buildProxyUrl in the registry
+function buildProxyUrl(template, targetUrl) {
+  if (template.includes('{url}')) return template.replace('{url}', encodeURIComponent(targetUrl));
+  if (template.includes('{rawUrl}')) return template.replace('{rawUrl}', targetUrl);
+  return `${template}${template.includes('?') ? '&' : '?'}url=${encodeURIComponent(targetUrl)}`;
+}
+
 // Helper function to sync a single calendar
 async function syncSingleCalendar(calendar) {
-  const CORS_PROXIES = [
-    (url) => `https://api.codetabs.com/v1/proxy?quest=${encodeURIComponent(url)}`,
-    (url) => `https://cors-anywhere.herokuapp.com/${url}`,
-    (url) => `https://thingproxy.freeboard.io/fetch/${url}`,
-    (url) => `https://cors.bridged.cc/${url}`,
-  ];
-  
+
+  // Send back the validators from the last download so unchanged feeds answer 304,
+  // but only when the stored source is there to fall back on, as the page does
+  const conditionalHeaders = {};
+  if (await hasStoredSource(calendar.id)) {
+    if (calendar.etag) conditionalHeaders['If-None-Match'] = calendar.etag;
+    if (calendar.lastModified) conditionalHeaders['If-Modified-Since'] = calendar.lastModified;
+  }
+
   // Try direct fetch first, then proxies
   let icalData = null;
+  let validators = {};
   
   try {
     const response = await fetch(calendar.url, {
@@ -251,13 +311,19 @@ async function syncSingleCalendar(calendar) {
       headers: {
         'Accept': 'text/calendar, text/plain, */*',
         'User-Agent': 'Mozilla/5.0 (compatible; FamilyCalendarApp/1.0)',
+        ...conditionalHeaders
       }
     });
     
+    if (response.status === 304) {
+      // Nothing changed since the last sync; the stored occurrences are current
+      return;
+    }
     if (response.ok) {
       const data = await response.text();
       if (data && data.toLowerCase().includes('begin:vcalendar')) {
         icalData = data;
+        validators = readValidators(response);
       }
     }
   } catch (error) {
@@ -266,15 +332,19 @@ async function syncSingleCalendar(calendar) {
   
   // Try proxies if direct fetch failed
   if (!icalData) {
-    for (const proxy of CORS_PROXIES) {
+    for (const template of await getProxyTemplates()) {
       try {
-        const proxyUrl = proxy(calendar.url);
-        const response = await fetch(proxyUrl);
+        const proxyUrl = buildProxyUrl(template, calendar.url);
+        const response = await fetch(proxyUrl, { headers: conditionalHeaders });
         
+        if (response.status === 304) {
+          return;
+        }
         if (response.ok) {
           const data = await response.text();
           if (data && data.toLowerCase().includes('begin:vcalendar')) {
             icalData = data;
+            validators = readValidators(response);
             break;
           }
         }
@@ -294,11 +364,12 @@ async function syncSingleCalendar(calendar) {
     calendarId: calendar.id,
     icalData: icalData,
     syncTime: new Date().toISOString(),
+    ...validators,
     isBackgroundSync: true // Flag to indicate this came from background sync
   };
   
   // Store in a temporary location for the main thread to pick up
-  const request = indexedDB.open('FamilyCalendarDB', 1);
+  const request = indexedDB.open('FamilyCalendarDB');
   return new Promise((resolve, reject) => {
     request.onerror = () => reject(request.error);
     request.onsuccess = () => {
@@ -328,6 +399,81 @@ async function syncSingleCalendar(calendar) {
   });
 }
 
+// Reminders the page scheduled in IndexedDB (see src/services/reminderStore.ts)
+const REMINDERS_DB_NAME = 'FamilyRemindersDB';
+const REMINDER_SCHEDULE_STORE = 'schedule';
+// Same grace as the page: reminders found later than this are skipped
+const REMINDER_GRACE_MS = 15 * 60 * 1000;
+
+function formatReminderBody(reminder) {
+  const time = new Date(reminder.start).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  return reminder.location ? `${time} · ${reminder.location}` : time;
+}
+
+// Show notifications for due reminders that haven't fired, mark them fired and tell open pages
+async function fireDueReminders() {
+  if (self.Notification && self.Notification.permission !== 'granted') {
+    return;
+  }
+
+  const db = await new Promise((resolve) => {
+    const request = indexedDB.open(REMINDERS_DB_NAME);
+    request.onerror = () => resolve(null);
+    request.onsuccess = () => resolve(request.result);
+    // The page creates the stores; don't create an empty database here
+    request.onupgradeneeded = () => request.transaction.abort();
+  });
+  if (!db || !db.objectStoreNames.contains(REMINDER_SCHEDULE_STORE)) {
+    return;
+  }
+
+  const now = Date.now();
+  const due = await new Promise((resolve, reject) => {
+    const transaction = db.transaction([REMINDER_SCHEDULE_STORE], 'readwrite');
+    const store = transaction.objectStore(REMINDER_SCHEDULE_STORE);
+    const getAllRequest = store.getAll();
+    let found = [];
+    getAllRequest.onsuccess = () => {
+      found = (getAllRequest.result || []).filter(reminder =>
+        !reminder.firedAt && reminder.fireAt <= now && reminder.fireAt > now - REMINDER_GRACE_MS
+      );
+      found.forEach(reminder => store.put({ ...reminder, firedAt: now }));
+    };
+    transaction.oncomplete = () => resolve(found);
+    transaction.onerror = () => reject(transaction.error);
+  });
+  db.close();
+
+  if (due.length === 0) {
+    return;
+  }
+
+  await Promise.all(due.map(reminder =>
+    self.registration.showNotification(reminder.title, {
+      body: formatReminderBody(reminder),
+      tag: reminder.id,
+      requireInteraction: true,
+      data: { eventId: reminder.eventId }
+    })
+  ));
+
+  const clients = await self.clients.matchAll();
+  clients.forEach(client => {
+    client.postMessage({ type: 'REMINDERS_FIRED', ids: due.map(reminder => reminder.id) });
+  });
+}
+
+// Bring the calendar to the front when a reminder is tapped
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(clients => {
+      const client = clients.find(c => 'focus' in c);
+      return client ? client.focus() : self.clients.openWindow(BASE);
+    })
+  );
+});
+
 // Activate event - clean up old caches
 self.addEventListener('activate', (event) => {
   const currentCaches = [CACHE_NAME];
@@ -356,6 +502,12 @@ self.addEventListener('activate', (event) => {
 self.addEventListener('message', (event) => {
   if (event.data && event.data.type === 'SKIP_WAITING') {
     self.skipWaiting();
+  } else if (event.data && event.data.type === 'SET_PROXIES') {
+    // Sent by the page whenever its proxy registry changes
+    event.waitUntil(saveProxyTemplates(event.data.templates || []).catch(err => console.error('Saving proxies failed:', err)));
+  } else if (event.data && event.data.type === 'CHECK_REMINDERS') {
+    // Sent by a backgrounded page on each reminder tick
+    event.waitUntil(fireDueReminders().catch(err => console.error('Reminder check failed:', err)));
   } else if (event.data && event.data.type === 'REGISTER_BACKGROUND_SYNC') {
     // Register for background sync
     self.registration.sync.register('calendar-sync')
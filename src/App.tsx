@@ -10,6 +10,7 @@ import { SettingsProvider } from "@/contexts/settings/SettingsProvider";
 import { WeatherProvider } from "@/contexts/weather/WeatherProvider";
 import { CalendarSelectionProvider } from "@/hooks/CalendarSelectionProvider";
 import InstallPrompt from "@/components/InstallPrompt";
+import IcsFileLaunchHandler from "@/components/IcsFileLaunchHandler";
 import UpdateNotification from "@/components/UpdateNotification";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
@@ -47,6 +48,7 @@ const App = () => {
                 <Toaster />
                 <Sonner />
                 <InstallPrompt />
+                <IcsFileLaunchHandler />
                 <UpdateNotification />
                 <WhatsNewModal 
                   open={showWhatsNew} 
@@ -0,0 +1,169 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { addWeeks, differenceInCalendarDays, format, isToday, isTomorrow, isYesterday, startOfDay } from 'date-fns';
+import { History } from 'lucide-react';
+import { Event } from '@/types/calendar';
+import { Button } from '@/components/ui/button';
+import EventCard from './EventCard';
+import MultiDayEventBar from './event/MultiDayEventBar';
+import WeatherDisplay from './WeatherDisplay';
+import { compareEventsByTime } from '@/utils/timeUtils';
+import { getSpanContinuation, groupEventsByDay, isSpanningEvent } from '@/utils/multiDayLayout';
+
+interface AgendaViewProps {
+  events: Event[];
+  getWeatherForDate: (date: Date) => { temp: number; condition: string; highTemp?: number; lowTemp?: number };
+  onEventClick?: (event: Event) => void;
+  onVisibleRangeChange?: (start: Date, end: Date) => void;
+  /** Day to bring into view, e.g. after jumping to a search result */
+  focusDate?: Date | null;
+}
+
+// Weeks listed at first, and added each time the end of the list scrolls into view
+const INITIAL_WEEKS = 2;
+const WEEKS_PER_LOAD = 2;
+// Scrolling stops loading here; a quiet stretch would otherwise keep the end in view forever
+const MAX_WEEKS_AHEAD = 52;
+// Weeks of past events shown when they are included, and added by "Show earlier"
+const PAST_WEEKS = 2;
+
+const getDateLabel = (date: Date) => {
+  if (isToday(date)) return 'Today';
+  if (isTomorrow(date)) return 'Tomorrow';
+  if (isYesterday(date)) return 'Yesterday';
+  return format(date, 'EEEE, MMMM d');
+};
+
+const sortDayEvents = (events: Event[]) =>
+  [...events].sort((a, b) => {
+    // Spanning events first, like the timeline's all-day row
+    const aSpans = isSpanningEvent(a);
+    if (aSpans !== isSpanningEvent(b)) return aSpans ? -1 : 1;
+    return compareEventsByTime(a, b);
+  });
+
+const AgendaView = ({ events, getWeatherForDate, onEventClick, onVisibleRangeChange, focusDate }: AgendaViewProps) => {
+  const [weeksAhead, setWeeksAhead] = useState(INITIAL_WEEKS);
+  const [weeksBack, setWeeksBack] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const today = startOfDay(new Date());
+  const rangeStart = addWeeks(today, -weeksBack);
+  const rangeEnd = addWeeks(today, weeksAhead);
+  const rangeStartTime = rangeStart.getTime();
+  const rangeEndTime = rangeEnd.getTime();
+
+  useEffect(() => {
+    onVisibleRangeChange?.(new Date(rangeStartTime), new Date(rangeEndTime));
+  }, [rangeStartTime, rangeEndTime, onVisibleRangeChange]);
+
+  // Load further weeks while the end of the list is in view; observing again after each
+  // load keeps going until the list is longer than the screen
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || typeof IntersectionObserver === 'undefined' || weeksAhead >= MAX_WEEKS_AHEAD) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) setWeeksAhead(prev => Math.min(prev + WEEKS_PER_LOAD, MAX_WEEKS_AHEAD));
+    }, { root: scrollRef.current, rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [weeksAhead]);
+
+  // Extend the list to the focused day, then scroll its header into view
+  useEffect(() => {
+    if (!focusDate) return;
+    const offset = differenceInCalendarDays(focusDate, new Date());
+    if (offset < 0) setWeeksBack(prev => Math.max(prev, Math.ceil(-offset / 7)));
+    else setWeeksAhead(prev => Math.max(prev, Math.ceil((offset + 1) / 7)));
+    const frame = requestAnimationFrame(() => {
+      document.getElementById(`agenda-${format(focusDate, 'yyyy-MM-dd')}`)?.scrollIntoView?.({ block: 'start' });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [focusDate]);
+
+  const days = useMemo(() => {
+    const dayCount = differenceInCalendarDays(new Date(rangeEndTime), new Date(rangeStartTime));
+    return groupEventsByDay(events, new Date(rangeStartTime), dayCount)
+      // Empty days are skipped; today stays as the anchor of the list
+      .filter(({ day, events: dayEvents }) => dayEvents.length > 0 || isToday(day))
+      .map(({ day, events: dayEvents }) => ({ day, events: sortDayEvents(dayEvents) }));
+  }, [events, rangeStartTime, rangeEndTime]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setWeeksBack(prev => prev + PAST_WEEKS)}
+          className="text-white hover:bg-white/20 hover:text-white"
+        >
+          <History className="h-4 w-4 mr-1" />
+          {weeksBack > 0 ? 'Show earlier' : 'Include past events'}
+        </Button>
+        {weeksBack > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setWeeksBack(0)}
+            className="text-white/80 hover:bg-white/20 hover:text-white"
+          >
+            Hide past events
+          </Button>
+        )}
+      </div>
+
+      <div ref={scrollRef} className="max-h-[70vh] overflow-y-auto pr-1 space-y-4" role="feed" aria-label="Agenda">
+        {days.map(({ day, events: dayEvents }) => {
+          const dateStr = format(day, 'yyyy-MM-dd');
+          return (
+            <section key={dateStr} id={`agenda-${dateStr}`} aria-label={getDateLabel(day)} className="space-y-2">
+              <div className="sticky top-0 z-10 flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-black/50 backdrop-blur-sm">
+                <div className="flex items-baseline gap-3">
+                  <h3 className="text-base sm:text-lg font-semibold text-white">{getDateLabel(day)}</h3>
+                  {(isToday(day) || isTomorrow(day) || isYesterday(day)) && (
+                    <span className="text-xs sm:text-sm text-white/70">{format(day, 'EEE, MMM d')}</span>
+                  )}
+                </div>
+                <WeatherDisplay weather={getWeatherForDate(day)} className="text-xs sm:text-sm" forceWhite={true} />
+              </div>
+
+              <div className="space-y-2">
+                {dayEvents.map(event => (
+                  <div key={`${event.id}-${dateStr}`}>
+                    {isSpanningEvent(event) ? (
+                      <MultiDayEventBar
+                        event={event}
+                        variant="card"
+                        {...getSpanContinuation(event, day)}
+                        onEventClick={onEventClick}
+                      />
+                    ) : (
+                      <EventCard event={event} viewMode="timeline" onEventClick={onEventClick} />
+                    )}
+                  </div>
+                ))}
+                {dayEvents.length === 0 && (
+                  <p className="text-center py-3 text-sm text-white/70">No events scheduled</p>
+                )}
+              </div>
+            </section>
+          );
+        })}
+
+        <div ref={sentinelRef} className="flex justify-center py-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setWeeksAhead(prev => prev + WEEKS_PER_LOAD)}
+            className="text-white/80 hover:bg-white/20 hover:text-white"
+          >
+            Load more
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AgendaView;
@@ -1,6 +1,7 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { createPortal } from 'react-dom';
+import { addMonths, differenceInCalendarWeeks, isSameDay, startOfMonth } from 'date-fns';
 import CalendarHeader from './calendar/CalendarHeader';
 import CalendarContent from './calendar/CalendarContent';
 import { useSettings } from '@/contexts/settings/SettingsContext';
@@ -8,20 +9,35 @@ import { useWeather } from '@/contexts/weather/WeatherContext';
 import { useLocalEvents } from '@/hooks/useLocalEvents';
 import { useIntegratedEvents } from '@/hooks/useIntegratedEvents';
 import { useCalendarRefresh } from '@/hooks/useCalendarRefresh';
-import { Event } from '@/types/calendar';
+import { useCalendarSelection } from '@/hooks/useCalendarSelection';
+import { useReminders } from '@/hooks/useReminders';
+import { useConflicts } from '@/hooks/useConflicts';
+import { Event, ViewMode } from '@/types/calendar';
+import { LOCAL_CALENDAR_ID, LocalEventDraft, createLocalEventDraft, createLocalEventDraftFrom } from '@/utils/localEvents';
+import EventEditorDialog from './event/EventEditorDialog';
+import EventDetailModal from './event/EventDetailModal';
+import EventSearchPalette from './calendar/EventSearchPalette';
+import ConflictsPanel from './calendar/ConflictsPanel';
+import ReminderBanner from './ReminderBanner';
+import { DEFAULT_TIMELINE_OPTIONS, getViewFromUrl } from '@/utils/viewModes';
+import { getTimelineDays } from '@/utils/dateUtils';
 
 interface CalendarProps {
   onNotionEventClick?: (event: Event) => void;
 }
 
 const Calendar = ({ onNotionEventClick }: CalendarProps) => {
-  const [view, setView] = useState<'timeline' | 'week' | 'month'>('month');
+  const [view, setView] = useState<ViewMode>(() => getViewFromUrl() || 'month');
   const [weekOffset, setWeekOffset] = useState(0);
   const [refreshKey, setRefreshKey] = useState(0); // triggers data recompute
   const [viewInstance, setViewInstance] = useState(0); // forces view remount for timeline/week/month
   const [barVisible, setBarVisible] = useState(false);
   const [progress, setProgress] = useState(0); // 0..100 width
   const [fading, setFading] = useState(false);
+  const [editorDraft, setEditorDraft] = useState<LocalEventDraft | null>(null);
+  const [detailEvent, setDetailEvent] = useState<Event | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [focusDate, setFocusDate] = useState<Date | null>(null);
   const rafRef = useRef<number | null>(null);
   const fadeTimeoutRef = useRef<number | null>(null);
   const removeTimeoutRef = useRef<number | null>(null);
@@ -52,17 +68,110 @@ const Calendar = ({ onNotionEventClick }: CalendarProps) => {
     };
     rafRef.current = requestAnimationFrame(tick);
   };
-  const { defaultView } = useSettings();
+  const { defaultView, householdTimeZone, timelineOptions = DEFAULT_TIMELINE_OPTIONS } = useSettings();
   const { getWeatherForDate } = useWeather();
-  const { googleEvents, forceRefresh } = useLocalEvents(); // Now contains iCal events
+  const { googleEvents, forceRefresh, ensureRange, loadSearchRange, saveLocalEvent, deleteLocalEvent, getLocalEvent } = useLocalEvents(); // Now contains iCal events
   const { useRefreshListener } = useCalendarRefresh();
+  const { toggleCalendar } = useCalendarSelection();
   
-  const { filteredEvents, eventStats } = useIntegratedEvents(googleEvents, refreshKey);
+  const { filteredEvents, reminderEvents, eventStats } = useIntegratedEvents(googleEvents, refreshKey);
+  const { activeReminders, dismissReminder, dismissAllReminders } = useReminders(reminderEvents);
+  const { conflicts, dismissConflict } = useConflicts(filteredEvents);
 
+  // A `?view=` URL parameter wins over the saved default, e.g. for a wall display
   useEffect(() => {
-    setView(defaultView);
+    setView(getViewFromUrl() || defaultView);
   }, [defaultView]);
 
+  // Stored iCal times are formatted for one zone; a new zone gives views a new callback,
+  // so they report their range again and it is re-expanded for that zone
+  const handleVisibleRangeChange = useCallback((start: Date, end: Date) => {
+    ensureRange(start, end, householdTimeZone);
+  }, [ensureRange, householdTimeZone]);
+
+  const handleCreateEvent = useCallback((day: Date) => {
+    setEditorDraft(createLocalEventDraft(day));
+  }, []);
+
+  // Recurring local events are edited as a whole series, so open the stored master
+  const handleEditEvent = useCallback(async (event: Event) => {
+    if (!event.uid) return;
+    const draft = await getLocalEvent(event.uid);
+    if (draft) setEditorDraft(draft);
+  }, [getLocalEvent]);
+
+  // Notion events keep their own modal with the page's properties
+  const handleEventClick = useCallback((event: Event) => {
+    if (event.source === 'notion') {
+      onNotionEventClick?.(event);
+    } else {
+      setDetailEvent(event);
+    }
+  }, [onNotionEventClick]);
+
+  // Reminders also fire for events filtered out of view, so look them up where they came from
+  const handleOpenReminder = useCallback((eventId: string) => {
+    const event = reminderEvents.find(candidate => String(candidate.id) === eventId);
+    if (event) handleEventClick(event);
+  }, [reminderEvents, handleEventClick]);
+
+  const handleEditFromDetails = useCallback((event: Event) => {
+    setDetailEvent(null);
+    handleEditEvent(event);
+  }, [handleEditEvent]);
+
+  const handleCopyToLocal = useCallback((event: Event) => {
+    setDetailEvent(null);
+    setEditorDraft(createLocalEventDraftFrom(event));
+  }, []);
+
+  const handleViewChange = useCallback((nextView: ViewMode) => {
+    setView(nextView);
+    setFocusDate(null);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Search covers half a year back and a year ahead, not just the days on screen
+  useEffect(() => {
+    const monthStart = startOfMonth(new Date());
+    loadSearchRange(
+      isSearchOpen ? { start: addMonths(monthStart, -6), end: addMonths(monthStart, 13) } : null,
+      householdTimeZone
+    );
+  }, [isSearchOpen, loadSearchRange, householdTimeZone]);
+
+  // Bring the result's day on screen, then open it; the timeline only shows the next days
+  const handleSearchSelect = useCallback((event: Event) => {
+    setIsSearchOpen(false);
+    const date = new Date(event.date);
+    const today = new Date();
+    if (view === 'month' || view === 'year' || view === 'agenda' || view === 'schedule') {
+      setFocusDate(date);
+    } else {
+      setWeekOffset(differenceInCalendarWeeks(date, today));
+      if (view === 'timeline' && !getTimelineDays(timelineOptions, today).some(day => isSameDay(day, date))) {
+        setView('week');
+      }
+    }
+    handleEventClick(event);
+  }, [view, timelineOptions, handleEventClick]);
+
+  const handleSaveEvent = useCallback(async (draft: LocalEventDraft) => {
+    await saveLocalEvent(draft);
+    // A new local calendar would otherwise stay hidden behind an earlier selection
+    toggleCalendar(LOCAL_CALENDAR_ID, true);
+  }, [saveLocalEvent, toggleCalendar]);
+
   // Listen for calendar refresh events
   useRefreshListener((evt) => {
     // Start phase: show bar and animate; Complete phase: finish early if still running
@@ -111,7 +220,14 @@ const Calendar = ({ onNotionEventClick }: CalendarProps) => {
       <CalendarHeader
         hasGoogleEvents={true} // Always pass true to show the header
         view={view}
-        onViewChange={setView}
+        onViewChange={handleViewChange}
+        onSearch={() => setIsSearchOpen(true)}
+      />
+
+      <ConflictsPanel
+        conflicts={conflicts}
+        onDismiss={dismissConflict}
+        onEventClick={handleEventClick}
       />
 
       <CalendarContent
@@ -122,8 +238,47 @@ const Calendar = ({ onNotionEventClick }: CalendarProps) => {
         onPreviousWeek={() => setWeekOffset(prev => prev - 1)}
         onNextWeek={() => setWeekOffset(prev => prev + 1)}
         getWeatherForDate={getWeatherForDate}
-        onNotionEventClick={onNotionEventClick}
+        onEventClick={handleEventClick}
+        onVisibleRangeChange={handleVisibleRangeChange}
+        onCreateEvent={handleCreateEvent}
+        onEditEvent={handleEditEvent}
+        focusDate={focusDate}
+        timelineOptions={timelineOptions}
+        conflicts={conflicts}
+      />
+
+      <EventSearchPalette
+        open={isSearchOpen}
+        onOpenChange={setIsSearchOpen}
+        events={filteredEvents}
+        onSelectEvent={handleSearchSelect}
       />
+
+      <EventDetailModal
+        open={!!detailEvent}
+        onOpenChange={(open) => !open && setDetailEvent(null)}
+        event={detailEvent}
+        getWeatherForDate={getWeatherForDate}
+        onEdit={handleEditFromDetails}
+        onCopyToLocal={handleCopyToLocal}
+      />
+
+      <ReminderBanner
+        reminders={activeReminders}
+        onDismiss={dismissReminder}
+        onDismissAll={dismissAllReminders}
+        onOpen={handleOpenReminder}
+      />
+
+      {editorDraft && (
+        <EventEditorDialog
+          open={!!editorDraft}
+          onOpenChange={(open) => !open && setEditorDraft(null)}
+          draft={editorDraft}
+          onSave={handleSaveEvent}
+          onDelete={deleteLocalEvent}
+        />
+      )}
     </div>
   );
 };
@@ -8,8 +8,10 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { Sun, Cloud, CloudRain, Calendar, Clock, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Sun, Cloud, CloudRain, Calendar, Clock, ChevronLeft, ChevronRight, Plus, Pencil, CalendarClock, List } from 'lucide-react';
+import TimeGrid from './TimeGrid';
 import { getWeatherIcon } from '@/utils/weatherIcons';
+import { compareEventsByTime } from '@/utils/timeUtils';
 
 interface DayViewModalProps {
   open: boolean;
@@ -18,7 +20,9 @@ interface DayViewModalProps {
   events: Event[];
   getWeatherForDate: (date: Date) => { temp: number; condition: string };
   onNavigateDay?: (direction: 'prev' | 'next') => void;
-  onNotionEventClick?: (event: Event) => void;
+  onEventClick?: (event: Event) => void;
+  onCreateEvent?: (date: Date) => void;
+  onEditEvent?: (event: Event) => void;
 }
 
 const DayViewModal = ({ 
@@ -28,10 +32,13 @@ const DayViewModal = ({
   events, 
   getWeatherForDate,
   onNavigateDay,
-  onNotionEventClick
+  onEventClick,
+  onCreateEvent,
+  onEditEvent
 }: DayViewModalProps) => {
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [transitionDirection, setTransitionDirection] = useState<'prev' | 'next' | null>(null);
+  const [layout, setLayout] = useState<'grid' | 'list'>('grid');
   
   const weather = getWeatherForDate(date);
   const isToday = date.toDateString() === new Date().toDateString();
@@ -66,49 +73,46 @@ const DayViewModal = ({
   }, [open]);
 
   const sortEventsByTimeAndType = (events: Event[]) => {
-    return events.sort((a, b) => {
-      const aIsAllDay = a.time.toLowerCase().includes('all day');
-      const bIsAllDay = b.time.toLowerCase().includes('all day');
-      const aIsMultiDay = a.time.includes('days');
-      const bIsMultiDay = b.time.includes('days');
-      
-      // Multi-day events first
-      if (aIsMultiDay && !bIsMultiDay) return -1;
-      if (!aIsMultiDay && bIsMultiDay) return 1;
-      
-      // All-day events next
-      if (aIsAllDay && !bIsAllDay) return -1;
-      if (!aIsAllDay && bIsAllDay) return 1;
-      
-      // For timed events, sort by time
-      if (!aIsAllDay && !bIsAllDay) {
-        const getTimeValue = (timeStr: string) => {
-          const match = timeStr.match(/(\d{1,2}):(\d{2})\s*(AM|PM)?/i);
-          if (match) {
-            let hours = parseInt(match[1]);
-            const minutes = parseInt(match[2]);
-            const period = match[3]?.toUpperCase();
-            
-            if (period === 'PM' && hours !== 12) hours += 12;
-            if (period === 'AM' && hours === 12) hours = 0;
-            
-            return hours * 60 + minutes;
-          }
-          return 0;
-        };
-        
-        return getTimeValue(a.time) - getTimeValue(b.time);
-      }
-      
-      return 0;
+    return [...events].sort((a, b) => {
+      // Multi-day events first, then the usual all-day / chronological order
+      if (!!a.isMultiDay !== !!b.isMultiDay) return a.isMultiDay ? -1 : 1;
+      return compareEventsByTime(a, b);
     });
   };
 
   const sortedEvents = sortEventsByTimeAndType(events);
-  const allDayEvents = sortedEvents.filter(event => event.time.toLowerCase().includes('all day'));
-  const timedEvents = sortedEvents.filter(event => !event.time.toLowerCase().includes('all day'));
+  const allDayEvents = sortedEvents.filter(event => event.allDay);
+  const timedEvents = sortedEvents.filter(event => !event.allDay);
 
 
+  // Local events can be edited; events from feeds and Notion are read-only here
+  const renderEvent = (event: Event) => {
+    const card = (
+      <EventCard 
+        key={event.id} 
+        event={event}
+        className="bg-white/80 border border-gray-200 shadow-sm w-full"
+        viewMode="timeline"
+        onEventClick={onEventClick}
+      />
+    );
+    if (!onEditEvent || event.source !== 'local' || !event.uid) return card;
+    return (
+      <div key={event.id} className="flex items-start gap-2">
+        <div className="flex-1 min-w-0">{card}</div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onEditEvent(event)}
+          aria-label={`Edit ${event.title}`}
+          className="text-gray-600 hover:text-gray-900 hover:bg-gray-100/50"
+        >
+          <Pencil className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  };
+
   // Get transition classes based on current state
   const getContentTransitionClasses = () => {
     if (!isTransitioning) {
@@ -147,6 +151,17 @@ const DayViewModal = ({
               <div className="text-xs text-gray-500">
                 {sortedEvents.length} event{sortedEvents.length !== 1 ? 's' : ''}
               </div>
+              {onCreateEvent && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onCreateEvent(date)}
+                  className="flex items-center gap-1"
+                >
+                  <Plus className="h-4 w-4" />
+                  Add event
+                </Button>
+              )}
             </div>
           </DialogTitle>
           
@@ -172,6 +187,28 @@ const DayViewModal = ({
               Next Day
               <ChevronRight className="h-4 w-4" />
             </Button>
+            <div className="flex items-center gap-1 ml-4" role="group" aria-label="Day layout">
+              <Button
+                variant={layout === 'grid' ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setLayout('grid')}
+                aria-pressed={layout === 'grid'}
+                className="flex items-center gap-1 text-gray-600 hover:text-gray-900"
+              >
+                <CalendarClock className="h-4 w-4" />
+                Grid
+              </Button>
+              <Button
+                variant={layout === 'list' ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setLayout('list')}
+                aria-pressed={layout === 'list'}
+                className="flex items-center gap-1 text-gray-600 hover:text-gray-900"
+              >
+                <List className="h-4 w-4" />
+                List
+              </Button>
+            </div>
           </div>
           
           {/* Debug info */}
@@ -183,7 +220,9 @@ const DayViewModal = ({
         </DialogHeader>
         
         <div className={`flex-1 overflow-y-auto px-6 pb-6 ${getContentTransitionClasses()}`}>
-          {sortedEvents.length > 0 ? (
+          {layout === 'grid' ? (
+            <TimeGrid days={[date]} events={sortedEvents} onEventClick={onEventClick} hourHeight={56} />
+          ) : sortedEvents.length > 0 ? (
             <div className="space-y-6">
               {/* All-day events section */}
               {allDayEvents.length > 0 && (
@@ -193,15 +232,7 @@ const DayViewModal = ({
                     All Day Events
                   </div>
                   <div className="space-y-3">
-                    {allDayEvents.map((event) => (
-                      <EventCard 
-                        key={event.id} 
-                        event={event}
-                        className="bg-white/80 border border-gray-200 shadow-sm w-full"
-                        viewMode="timeline"
-                        onNotionEventClick={onNotionEventClick}
-                      />
-                    ))}
+                    {allDayEvents.map(renderEvent)}
                   </div>
                 </div>
               )}
@@ -216,15 +247,7 @@ const DayViewModal = ({
                     </div>
                   )}
                   <div className="space-y-3">
-                    {timedEvents.map((event) => (
-                      <EventCard 
-                        key={event.id} 
-                        event={event}
-                        className="bg-white/80 border border-gray-200 shadow-sm w-full"
-                        viewMode="timeline"
-                        onNotionEventClick={onNotionEventClick}
-                      />
-                    ))}
+                    {timedEvents.map(renderEvent)}
                   </div>
                 </div>
               )}
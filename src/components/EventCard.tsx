@@ -11,7 +11,7 @@ interface EventCardProps {
   showBoldHeader?: boolean;
   viewMode?: 'week' | 'timeline' | 'month';
   isMultiDayDisplay?: boolean;
-  onNotionEventClick?: (event: Event) => void;
+  onEventClick?: (event: Event) => void;
 }
 
 const EventCard = ({ 
@@ -20,10 +20,10 @@ const EventCard = ({
   showBoldHeader = false, 
   viewMode = 'month',
   isMultiDayDisplay = false,
-  onNotionEventClick
+  onEventClick
 }: EventCardProps) => {
   const [isExpanded, setIsExpanded] = useState(false);
-  const isAllDay = isAllDayEvent(event.time);
+  const isAllDay = isAllDayEvent(event);
 
   const handleToggleExpanded = () => {
     setIsExpanded(!isExpanded);
@@ -36,7 +36,7 @@ const EventCard = ({
         event={event}
         viewMode={viewMode}
         className={className}
-        onNotionEventClick={onNotionEventClick}
+        onEventClick={onEventClick}
       />
     );
   }
@@ -49,7 +49,7 @@ const EventCard = ({
       showBoldHeader={showBoldHeader}
       isExpanded={isExpanded}
       onToggleExpanded={handleToggleExpanded}
-      onNotionEventClick={onNotionEventClick}
+      onEventClick={onEventClick}
     />
   );
 };
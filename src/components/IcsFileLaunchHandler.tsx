@@ -0,0 +1,68 @@
+import { useEffect } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useICalCalendars } from '@/hooks/useICalCalendars';
+import { calendarStorageService } from '@/services/calendarStorage';
+import { getImportedCalendarName } from '@/utils/icalEventUtils';
+
+// File Handling API (installed PWA opened with an .ics file); not yet in the DOM typings
+interface LaunchParams {
+  files: FileSystemFileHandle[];
+}
+
+interface LaunchQueue {
+  setConsumer: (consumer: (params: LaunchParams) => void) => void;
+}
+
+/**
+ * Imports .ics files the installed app was opened with. A file whose name matches an
+ * earlier import replaces that calendar's events; any other file becomes a new calendar.
+ */
+const IcsFileLaunchHandler = () => {
+  const { toast } = useToast();
+  const { importCalendarFile, reimportCalendarFile } = useICalCalendars();
+
+  useEffect(() => {
+    const launchQueue = (window as Window & { launchQueue?: LaunchQueue }).launchQueue;
+    if (!launchQueue) return;
+
+    launchQueue.setConsumer(async ({ files }) => {
+      for (const handle of files || []) {
+        try {
+          const file = await handle.getFile();
+          const calendars = await calendarStorageService.getAllCalendars();
+          const previousImport = calendars.find(cal => cal.sourceType === 'file' && cal.fileName === file.name);
+
+          if (previousImport) {
+            const events = await reimportCalendarFile(previousImport, file);
+            toast({
+              title: "Calendar updated",
+              description: `${previousImport.name} now has ${events.length} events from ${file.name}.`
+            });
+            continue;
+          }
+
+          const suggested = getImportedCalendarName(await file.text(), file.name);
+          const nameTaken = calendars.some(cal => cal.name.toLowerCase().trim() === suggested.toLowerCase());
+          const { calendar, eventCount } = await importCalendarFile(file, {
+            name: nameTaken ? `${suggested} (${file.name})` : suggested,
+            color: '#3b82f6'
+          });
+          toast({
+            title: "Calendar imported",
+            description: `${calendar.name} was imported with ${eventCount} events.`
+          });
+        } catch (error) {
+          toast({
+            title: "Import failed",
+            description: error instanceof Error ? error.message : 'Could not import the calendar file.',
+            variant: "destructive"
+          });
+        }
+      }
+    });
+  }, [importCalendarFile, reimportCalendarFile, toast]);
+
+  return null;
+};
+
+export default IcsFileLaunchHandler;
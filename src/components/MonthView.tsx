@@ -1,25 +1,58 @@
 
-import React, { useState } from 'react';
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, getDay, addMonths, subMonths, isSameDay, isToday, isSameMonth, addDays, subDays } from 'date-fns';
+import React, { useState, useEffect } from 'react';
+import { format, startOfMonth, endOfMonth, eachDayOfInterval, getDay, addMonths, subMonths, isToday, isSameMonth, addDays, subDays } from 'date-fns';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { Event } from '@/types/calendar';
 import { Button } from '@/components/ui/button';
 import DayViewModal from './DayViewModal';
+import MultiDayEventBar from './event/MultiDayEventBar';
+import { getEventStatusClasses } from './event/eventUtils';
 import WeatherDisplay from './WeatherDisplay';
+import ConflictBadge from './event/ConflictBadge';
 
-import { compareTimeStrings } from '@/utils/timeUtils';
+import { compareEventsByTime } from '@/utils/timeUtils';
+import { eventOccursOnDay, isSpanningEvent, layoutSpanningEvents } from '@/utils/multiDayLayout';
+import { EventConflict, getConflictsOnDay } from '@/utils/conflicts';
+
+// Spanning bars shown per week row before the rest fold into "+N more"
+const MAX_BAR_LANES = 3;
+// Height of one bar lane including its gap, in px
+const BAR_LANE_HEIGHT = 22;
 
 interface MonthViewProps {
   events: Event[];
   getWeatherForDate: (date: Date) => { temp: number; condition: string; highTemp?: number; lowTemp?: number };
-  onNotionEventClick?: (event: Event) => void;
+  onEventClick?: (event: Event) => void;
+  onVisibleRangeChange?: (start: Date, end: Date) => void;
+  /** Opens the event editor for a new event on the day */
+  onCreateEvent?: (day: Date) => void;
+  /** Opens the event editor for a local event */
+  onEditEvent?: (event: Event) => void;
+  /** Shows this date's month when set */
+  focusDate?: Date | null;
+  /** Double-bookings to flag on their days */
+  conflicts?: EventConflict[];
 }
 
-const MonthView = ({ events, getWeatherForDate, onNotionEventClick }: MonthViewProps) => {
+const MonthView = ({ events, getWeatherForDate, onEventClick, onVisibleRangeChange, onCreateEvent, onEditEvent, focusDate, conflicts = [] }: MonthViewProps) => {
   // Move useState calls to the top level, outside any conditional logic
-  const [currentDate, setCurrentDate] = useState(new Date());
+  const [currentDate, setCurrentDate] = useState(() => focusDate || new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
 
+  useEffect(() => {
+    if (focusDate) setCurrentDate(focusDate);
+  }, [focusDate]);
+
+  // Ask for occurrences covering the whole visible grid, including leading/trailing weeks
+  useEffect(() => {
+    if (!onVisibleRangeChange) return;
+    const monthStart = startOfMonth(currentDate);
+    const gridStart = subDays(monthStart, getDay(monthStart));
+    const monthEnd = endOfMonth(currentDate);
+    const gridEnd = addDays(monthEnd, 7 - getDay(monthEnd));
+    onVisibleRangeChange(gridStart, new Date(gridEnd.getFullYear(), gridEnd.getMonth(), gridEnd.getDate()));
+  }, [currentDate, onVisibleRangeChange]);
+
   try {
     const monthStart = startOfMonth(currentDate);
     const monthEnd = endOfMonth(currentDate);
@@ -30,6 +63,7 @@ const MonthView = ({ events, getWeatherForDate, onNotionEventClick }: MonthViewP
     calendarEnd.setDate(calendarEnd.getDate() + (6 - getDay(monthEnd)));
 
     const calendarDays = eachDayOfInterval({ start: calendarStart, end: calendarEnd });
+    const calendarWeeks = Array.from({ length: Math.ceil(calendarDays.length / 7) }, (_, i) => calendarDays.slice(i * 7, i * 7 + 7));
 
     const getDayEvents = (day: Date) => {
       try {
@@ -37,7 +71,7 @@ const MonthView = ({ events, getWeatherForDate, onNotionEventClick }: MonthViewP
         
         const dayEvents = events.filter(event => {
           try {
-            return event && event.date && isSameDay(event.date, day);
+            return event && event.date && eventOccursOnDay(event, day);
           } catch (error) {
             console.warn('Error filtering event:', error);
             return false;
@@ -47,15 +81,7 @@ const MonthView = ({ events, getWeatherForDate, onNotionEventClick }: MonthViewP
         // Sort events: all-day events first (alphabetically), then timed events chronologically
         dayEvents.sort((a, b) => {
           try {
-            const aIsAllDay = a.time === 'All day' || a.time.toLowerCase().includes('all day');
-            const bIsAllDay = b.time === 'All day' || b.time.toLowerCase().includes('all day');
-            
-            if (aIsAllDay && !bIsAllDay) return -1;
-            if (!aIsAllDay && bIsAllDay) return 1;
-            if (aIsAllDay && bIsAllDay) return (a.title || '').localeCompare(b.title || '');
-            
-            // Both are timed events - sort chronologically
-            return compareTimeStrings(a.time || '', b.time || '');
+            return compareEventsByTime(a, b);
           } catch (error) {
             console.warn('Error sorting events:', error);
             return 0;
@@ -90,6 +116,9 @@ const MonthView = ({ events, getWeatherForDate, onNotionEventClick }: MonthViewP
         const dayEvents = getDayEvents(day);
         if (dayEvents.length > 0) {
           setSelectedDate(day);
+        } else if (onCreateEvent) {
+          // Empty days go straight to adding an event
+          onCreateEvent(day);
         }
       } catch (error) {
         console.warn('Error handling day click:', error);
@@ -151,74 +180,115 @@ const MonthView = ({ events, getWeatherForDate, onNotionEventClick }: MonthViewP
             ))}
           </div>
 
-          {/* Responsive Calendar Days */}
-          <div className="grid grid-cols-7">
-            {calendarDays.map((day, index) => {
-              try {
-                const dayEvents = getDayEvents(day);
-                const isCurrentMonth = isSameMonth(day, currentDate);
-                const isDayToday = isToday(day);
+          {/* Responsive Calendar Days - one row per week so spanning events draw as bars */}
+          {calendarWeeks.map((week, weekIndex) => {
+            const spanLayout = layoutSpanningEvents(events || [], week[0], 7);
+            const visibleLanes = Math.min(spanLayout.laneCount, MAX_BAR_LANES);
 
-                return (
-                  <div
-                    key={index}
-                    className={`min-h-[80px] sm:min-h-[100px] md:min-h-[120px] p-1 sm:p-2 border-b border-r border-gray-200 dark:border-gray-700 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 ${
-                      !isCurrentMonth ? 'text-gray-400 dark:text-gray-600' : 'text-gray-900 dark:text-gray-100'
-                    } ${isDayToday ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
-                    onClick={() => handleDayClick(day)}
-                  >
-                    <div className="flex items-center justify-between mb-1">
-                      <span className={`text-xs sm:text-sm font-medium ${isDayToday ? 'text-blue-600 dark:text-blue-400' : ''}`}>
-                        {format(day, 'd')}
-                      </span>
-                      {isCurrentMonth && (() => {
-                        const weather = getWeatherForDate(day);
-                        const highTemp = weather.highTemp ?? weather.temp;
-                        const lowTemp = weather.lowTemp ?? (weather.temp - 10);
-                        return (
-                          <span className="text-xs text-gray-600 dark:text-gray-300 hidden sm:block">
-                            {highTemp}/{lowTemp}
+            return (
+              <div key={weekIndex} className="relative grid grid-cols-7">
+                {week.map((day, dayIndex) => {
+                  try {
+                    const dayEvents = getDayEvents(day).filter(event => !isSpanningEvent(event));
+                    const hiddenSpans = spanLayout.segments.filter(segment =>
+                      segment.lane >= MAX_BAR_LANES &&
+                      dayIndex >= segment.startIndex &&
+                      dayIndex < segment.startIndex + segment.length
+                    ).length;
+                    const moreCount = Math.max(0, dayEvents.length - 2) + hiddenSpans;
+                    const isCurrentMonth = isSameMonth(day, currentDate);
+                    const isDayToday = isToday(day);
+
+                    return (
+                      <div
+                        key={dayIndex}
+                        className={`min-h-[80px] sm:min-h-[100px] md:min-h-[120px] p-1 sm:p-2 border-b border-r border-gray-200 dark:border-gray-700 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 ${
+                          !isCurrentMonth ? 'text-gray-400 dark:text-gray-600' : 'text-gray-900 dark:text-gray-100'
+                        } ${isDayToday ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                        onClick={() => handleDayClick(day)}
+                      >
+                        <div className="flex items-center justify-between mb-1">
+                          <span className={`inline-flex items-center gap-1 text-xs sm:text-sm font-medium ${isDayToday ? 'text-blue-600 dark:text-blue-400' : ''}`}>
+                            {format(day, 'd')}
+                            <ConflictBadge conflicts={getConflictsOnDay(conflicts, day)} />
                           </span>
-                        );
-                      })()}
-                    </div>
-                    
-                    <div className="space-y-1">
-                      {dayEvents.slice(0, 2).map(event => (
-                        <div
-                          key={event.id}
-                          className="flex items-center gap-1 text-xs p-1 rounded truncate"
-                          style={{ backgroundColor: `${event.color || '#3b82f6'}20` }}
-                        >
-                          <div 
-                            className="w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full flex-shrink-0"
-                            style={{ backgroundColor: event.color || '#3b82f6' }}
-                          />
-                          <span className="truncate text-xs">{event.title}</span>
+                          {isCurrentMonth && (() => {
+                            const weather = getWeatherForDate(day);
+                            const highTemp = weather.highTemp ?? weather.temp;
+                            const lowTemp = weather.lowTemp ?? (weather.temp - 10);
+                            return (
+                              <span className="text-xs text-gray-600 dark:text-gray-300 hidden sm:block">
+                                {highTemp}/{lowTemp}
+                              </span>
+                            );
+                          })()}
                         </div>
-                      ))}
-                      
-                      {dayEvents.length > 2 && (
-                        <div className="text-xs text-gray-500 dark:text-gray-400 px-1">
-                          +{dayEvents.length - 2} more
+                        
+                        {/* Room for the spanning bars drawn over this week */}
+                        {visibleLanes > 0 && <div style={{ height: visibleLanes * BAR_LANE_HEIGHT }} />}
+
+                        <div className="space-y-1">
+                          {dayEvents.slice(0, 2).map(event => (
+                            <div
+                              key={event.id}
+                              className={`flex items-center gap-1 text-xs p-1 rounded truncate ${getEventStatusClasses(event).container} ${event.pinned ? 'ring-1 ring-amber-400' : ''}`}
+                              style={{ backgroundColor: `${event.color || '#3b82f6'}20` }}
+                            >
+                              <div 
+                                className="w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full flex-shrink-0"
+                                style={{ backgroundColor: event.color || '#3b82f6' }}
+                              />
+                              <span className={`truncate text-xs ${getEventStatusClasses(event).title}`}>{event.title}</span>
+                            </div>
+                          ))}
+                          
+                          {moreCount > 0 && (
+                            <div className="text-xs text-gray-500 dark:text-gray-400 px-1">
+                              +{moreCount} more
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
-                  </div>
-                );
-              } catch (error) {
-                console.warn('Error rendering calendar day:', error);
-                return (
+                      </div>
+                    );
+                  } catch (error) {
+                    console.warn('Error rendering calendar day:', error);
+                    return (
+                      <div
+                        key={dayIndex}
+                        className="min-h-[80px] sm:min-h-[100px] md:min-h-[120px] p-1 sm:p-2 border-b border-r border-gray-200 dark:border-gray-700"
+                      >
+                        <span className="text-xs text-gray-400">Error</span>
+                      </div>
+                    );
+                  }
+                })}
+
+                {/* Bars sit just below the day numbers; clicks fall through to the day cells */}
+                {visibleLanes > 0 && (
                   <div
-                    key={index}
-                    className="min-h-[80px] sm:min-h-[100px] md:min-h-[120px] p-1 sm:p-2 border-b border-r border-gray-200 dark:border-gray-700"
+                    className="absolute inset-x-0 top-6 sm:top-8 grid grid-cols-7 gap-y-0.5 pointer-events-none"
+                    style={{ gridTemplateRows: `repeat(${visibleLanes}, 20px)` }}
                   >
-                    <span className="text-xs text-gray-400">Error</span>
+                    {spanLayout.segments
+                      .filter(segment => segment.lane < MAX_BAR_LANES)
+                      .map(segment => (
+                        <MultiDayEventBar
+                          key={`${segment.event.id}-${segment.startIndex}`}
+                          event={segment.event}
+                          continuesBefore={segment.continuesBefore}
+                          continuesAfter={segment.continuesAfter}
+                          className={`${segment.continuesBefore ? '' : 'ml-1'} ${segment.continuesAfter ? '' : 'mr-1'}`}
+                          style={{
+                            gridColumn: `${segment.startIndex + 1} / span ${segment.length}`,
+                            gridRow: segment.lane + 1
+                          }}
+                        />
+                      ))}
                   </div>
-                );
-              }
-            })}
-          </div>
+                )}
+              </div>
+            );
+          })}
         </div>
 
         {/* Day View Modal */}
@@ -230,7 +300,9 @@ const MonthView = ({ events, getWeatherForDate, onNotionEventClick }: MonthViewP
             onOpenChange={() => setSelectedDate(null)}
             getWeatherForDate={getWeatherForDate}
             onNavigateDay={handleNavigateDay}
-            onNotionEventClick={onNotionEventClick}
+            onEventClick={onEventClick}
+            onCreateEvent={onCreateEvent}
+            onEditEvent={onEditEvent}
           />
         )}
       </div>
@@ -0,0 +1,89 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { BellRing, MapPin, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { formatReminderLead, ScheduledReminder } from '@/utils/reminders';
+
+interface ReminderBannerProps {
+  reminders: ScheduledReminder[];
+  onDismiss: (id: string) => void;
+  onDismissAll: () => void;
+  /** Opens the event's details */
+  onOpen?: (eventId: string) => void;
+}
+
+/** Full-screen alert for reminders that fire while the calendar is on screen, readable across a room */
+const ReminderBanner = ({ reminders, onDismiss, onDismissAll, onOpen }: ReminderBannerProps) => {
+  if (reminders.length === 0) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 sm:p-8"
+      role="alertdialog"
+      aria-modal="true"
+      aria-label="Reminders"
+    >
+      <div className="w-full max-w-3xl space-y-4">
+        {reminders.map(reminder => (
+          <div
+            key={reminder.id}
+            className="rounded-2xl bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 shadow-2xl p-6 sm:p-10 animate-in fade-in zoom-in-95"
+          >
+            <div className="flex items-start gap-4">
+              <BellRing className="h-10 w-10 sm:h-14 sm:w-14 flex-shrink-0 text-amber-500 animate-pulse" aria-hidden="true" />
+              <div className="flex-1 min-w-0 space-y-2">
+                <p className="text-sm sm:text-base uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                  {formatReminderLead(reminder.minutesBefore)}
+                </p>
+                <h2 className="text-3xl sm:text-5xl font-bold leading-tight break-words">{reminder.title}</h2>
+                <p className="text-xl sm:text-2xl text-gray-700 dark:text-gray-300">
+                  {format(new Date(reminder.start), 'EEEE h:mm a')}
+                </p>
+                {reminder.location && (
+                  <p className="flex items-center gap-2 text-lg sm:text-xl text-gray-600 dark:text-gray-400">
+                    <MapPin className="h-5 w-5 flex-shrink-0" aria-hidden="true" />
+                    <span className="truncate">{reminder.location}</span>
+                  </p>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onDismiss(reminder.id)}
+                aria-label={`Dismiss reminder for ${reminder.title}`}
+              >
+                <X className="h-6 w-6" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2 mt-6">
+              <Button size="lg" onClick={() => onDismiss(reminder.id)}>
+                Got it
+              </Button>
+              {onOpen && (
+                <Button
+                  size="lg"
+                  variant="outline"
+                  onClick={() => {
+                    onDismiss(reminder.id);
+                    onOpen(reminder.eventId);
+                  }}
+                >
+                  Details
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+        {reminders.length > 1 && (
+          <div className="text-center">
+            <Button variant="secondary" onClick={onDismissAll}>
+              Dismiss all
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReminderBanner;
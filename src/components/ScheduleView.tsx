@@ -0,0 +1,242 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { addDays, format, isToday, startOfDay } from 'date-fns';
+import { ChevronLeft, ChevronRight, UserRound } from 'lucide-react';
+import { Event } from '@/types/calendar';
+import { Button } from '@/components/ui/button';
+import { useCalendarSelection } from '@/hooks/useCalendarSelection';
+import WeatherDisplay from './WeatherDisplay';
+import { MemberAvatar } from './event/MemberAvatars';
+import { formatEventTime, getEventStatusClasses, getEventStyles } from './event/eventUtils';
+import { getScheduleLanes, layoutSchedule } from '@/utils/scheduleLayout';
+
+interface ScheduleViewProps {
+  events: Event[];
+  getWeatherForDate: (date: Date) => { temp: number; condition: string; highTemp?: number; lowTemp?: number };
+  onEventClick?: (event: Event) => void;
+  onVisibleRangeChange?: (start: Date, end: Date) => void;
+  /** Shows this date when set */
+  focusDate?: Date | null;
+  /** Pixel height of one hour */
+  hourHeight?: number;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+// Hour the grid scrolls to when nothing is happening that day
+const DEFAULT_SCROLL_HOUR = 7;
+
+const minutesIntoDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+/** One day as a column per family member on a shared hour grid, for seeing who needs to be where */
+const ScheduleView = ({ events, getWeatherForDate, onEventClick, onVisibleRangeChange, focusDate, hourHeight = 56 }: ScheduleViewProps) => {
+  const { familyMembers, memberFilter } = useCalendarSelection();
+  const [day, setDay] = useState(() => startOfDay(focusDate || new Date()));
+  const [now, setNow] = useState(() => new Date());
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (focusDate) setDay(startOfDay(focusDate));
+  }, [focusDate]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const dayTime = day.getTime();
+  useEffect(() => {
+    const start = new Date(dayTime);
+    onVisibleRangeChange?.(start, addDays(start, 1));
+  }, [dayTime, onVisibleRangeChange]);
+
+  const lanes = useMemo(() => getScheduleLanes(familyMembers, memberFilter), [familyMembers, memberFilter]);
+  const { allDay, blocks } = useMemo(
+    () => layoutSchedule(events || [], lanes, new Date(dayTime)),
+    [events, lanes, dayTime]
+  );
+
+  // Open at the current hour today, otherwise just before the first event
+  const firstMinute = useMemo(() => {
+    if (isToday(dayTime)) return minutesIntoDay(new Date());
+    return blocks.length > 0 ? Math.min(...blocks.map(block => block.startMinute)) : DEFAULT_SCROLL_HOUR * 60;
+  }, [dayTime, blocks]);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = Math.max(0, (firstMinute / 60 - 1) * hourHeight);
+    }
+    // Only when the day changes, so refreshes don't yank the grid around
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dayTime]);
+
+  const gridTemplateColumns = `3rem repeat(${lanes.length}, minmax(7rem, 1fr))`;
+
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setDay(addDays(day, -1))}
+          className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-white/20 dark:border-gray-600/20 h-9 w-9 sm:h-10 sm:w-auto sm:px-4"
+        >
+          <ChevronLeft className="h-4 w-4" />
+          <span className="hidden sm:inline ml-1">Previous</span>
+        </Button>
+
+        <div className="flex flex-col sm:flex-row items-center gap-2">
+          <h2 className="text-sm sm:text-base md:text-lg font-semibold text-white">{format(day, 'EEEE, MMMM d')}</h2>
+          <WeatherDisplay weather={getWeatherForDate(day)} className="text-xs text-white hidden sm:flex" />
+          {!isToday(day) && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDay(startOfDay(new Date()))}
+              className="h-8 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-white/20 dark:border-gray-600/20"
+            >
+              Today
+            </Button>
+          )}
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setDay(addDays(day, 1))}
+          className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-white/20 dark:border-gray-600/20 h-9 w-9 sm:h-10 sm:w-auto sm:px-4"
+        >
+          <span className="hidden sm:inline mr-1">Next</span>
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {familyMembers.length === 0 && (
+        <p className="text-sm text-white/90 text-center">
+          Add family members in Settings, under Calendars, to get a column for each person.
+        </p>
+      )}
+
+      <div className="rounded-lg bg-white/90 dark:bg-gray-900/85 backdrop-blur-sm border border-gray-200/50 dark:border-gray-700/30 text-gray-900 dark:text-gray-100 overflow-x-auto">
+        <div className="min-w-fit">
+          <div className="grid border-b border-gray-200 dark:border-gray-700" style={{ gridTemplateColumns }}>
+            <div />
+            {lanes.map(lane => (
+              <div key={lane.id} className="flex items-center justify-center gap-2 px-1 py-2 border-l border-gray-200 dark:border-gray-700 min-w-0">
+                {lane.member ? (
+                  <MemberAvatar member={lane.member} className="h-6 w-6 text-[10px] ring-0" />
+                ) : (
+                  <UserRound className="h-5 w-5 text-gray-400 dark:text-gray-500" aria-hidden="true" />
+                )}
+                <span className="text-sm font-medium truncate">{lane.member ? lane.member.name : 'Unassigned'}</span>
+              </div>
+            ))}
+          </div>
+
+          {allDay.length > 0 && (
+            <div className="grid grid-flow-row-dense gap-y-0.5 py-1 border-b border-gray-200 dark:border-gray-700" style={{ gridTemplateColumns }}>
+              <div className="px-1 text-[10px] uppercase tracking-wide text-gray-500 dark:text-gray-400 self-center" style={{ gridRow: `1 / span ${allDay.length}` }}>
+                All day
+              </div>
+              {allDay.map(({ event, lane, laneSpan }) => (
+                <button
+                  key={`${event.id}-${lane}`}
+                  type="button"
+                  onClick={() => onEventClick?.(event)}
+                  className={`mx-1 truncate text-left text-xs px-1 rounded ${getEventStatusClasses(event).container}`}
+                  style={{
+                    gridColumn: `${lane + 2} / span ${laneSpan}`,
+                    backgroundColor: `${event.color}33`,
+                    borderLeft: `3px solid ${event.color}`
+                  }}
+                  title={event.title}
+                >
+                  <span className={getEventStatusClasses(event).title}>{event.title}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div ref={scrollRef} className="max-h-[65vh] overflow-y-auto">
+            <div className="grid relative" style={{ gridTemplateColumns, height: 24 * hourHeight }}>
+              <div className="relative">
+                {HOURS.map(hour => (
+                  <div
+                    key={hour}
+                    className="absolute right-1 -translate-y-1/2 text-[10px] text-gray-500 dark:text-gray-400"
+                    style={{ top: hour * hourHeight }}
+                  >
+                    {hour === 0 ? '' : format(new Date(2000, 0, 1, hour), 'h a')}
+                  </div>
+                ))}
+              </div>
+
+              {lanes.map(lane => (
+                <div key={lane.id} className="relative border-l border-gray-200 dark:border-gray-700">
+                  {HOURS.map(hour => (
+                    <div
+                      key={hour}
+                      className="absolute inset-x-0 border-t border-gray-100 dark:border-gray-800"
+                      style={{ top: hour * hourHeight }}
+                      aria-hidden="true"
+                    />
+                  ))}
+                </div>
+              ))}
+
+              {/* Events sit on one layer over all lanes so shared ones can stretch across several */}
+              <div className="absolute inset-y-0 right-0 left-12 pointer-events-none">
+                {blocks.map(({ event, startMinute, endMinute, lane, laneSpan, column, columnCount, columnSpan }) => {
+                  const height = Math.max(((endMinute - startMinute) / 60) * hourHeight, 18);
+                  const styles = getEventStyles(event, 'schedule');
+                  const statusClasses = getEventStatusClasses(event);
+                  const left = (lane + column / columnCount) / lanes.length;
+                  const width = (laneSpan - 1 + columnSpan / columnCount) / lanes.length;
+                  return (
+                    <button
+                      key={`${event.id}-${lane}`}
+                      type="button"
+                      onClick={() => onEventClick?.(event)}
+                      className={`absolute pointer-events-auto overflow-hidden rounded px-1 py-0.5 text-left leading-tight shadow-sm hover:z-10 hover:shadow-md ${styles.backgroundOpacity} ${
+                        event.pinned ? 'ring-2 ring-amber-400' : ''
+                      } ${statusClasses.container}`}
+                      style={{
+                        top: (startMinute / 60) * hourHeight,
+                        height,
+                        left: `calc(${left * 100}% + 1px)`,
+                        width: `calc(${width * 100}% - 2px)`,
+                        backgroundImage: `linear-gradient(${event.color}40, ${event.color}40)`,
+                        borderLeft: `3px solid ${event.color}`
+                      }}
+                      title={`${event.title}, ${formatEventTime(event)}`}
+                    >
+                      <div className={`${styles.textColors.title} ${styles.fontSizes.title} truncate ${statusClasses.title}`}>{event.title}</div>
+                      {height >= 36 && (
+                        <div className={`${styles.textColors.time} ${styles.fontSizes.time} truncate`}>{formatEventTime(event)}</div>
+                      )}
+                      {height >= 52 && event.location && (
+                        <div className={`${styles.textColors.location} ${styles.fontSizes.location} truncate`}>{event.location}</div>
+                      )}
+                    </button>
+                  );
+                })}
+
+                {isToday(day) && (
+                  <div
+                    className="absolute inset-x-0 z-20"
+                    style={{ top: (minutesIntoDay(now) / 60) * hourHeight }}
+                    aria-label={`Now, ${format(now, 'h:mm a')}`}
+                  >
+                    <div className="relative border-t-2 border-red-500">
+                      <span className="absolute -left-1 -top-[5px] h-2 w-2 rounded-full bg-red-500" />
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleView;
@@ -53,7 +53,12 @@ const SettingsModal = ({ open, onOpenChange }: SettingsModalProps) => {
     theme, 
     setTheme, 
     defaultView, 
-    setDefaultView
+    setDefaultView,
+    timelineOptions,
+    setTimelineOptions,
+    displayProfile,
+    householdTimeZone,
+    setHouseholdTimeZone
   } = useSettings();
   
   const { handleThemeChange, versionInfo } = useSettingsModal();
@@ -99,6 +104,11 @@ const SettingsModal = ({ open, onOpenChange }: SettingsModalProps) => {
                   onThemeChange={onThemeChange}
                   defaultView={defaultView}
                   onDefaultViewChange={setDefaultView}
+                  timelineOptions={timelineOptions}
+                  onTimelineOptionsChange={setTimelineOptions}
+                  displayProfile={displayProfile}
+                  householdTimeZone={householdTimeZone}
+                  onHouseholdTimeZoneChange={setHouseholdTimeZone}
                 />
               </TabsContent>
 
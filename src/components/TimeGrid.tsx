@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { format, isToday } from 'date-fns';
+import { Event } from '@/types/calendar';
+import WeatherDisplay from './WeatherDisplay';
+import ConflictBadge from './event/ConflictBadge';
+import { formatEventTime, getEventStatusClasses } from './event/eventUtils';
+import { eventOccursOnDay, isSpanningEvent } from '@/utils/multiDayLayout';
+import { layoutDayEvents } from '@/utils/timeGridLayout';
+import { EventConflict, getConflictsOnDay } from '@/utils/conflicts';
+
+interface TimeGridProps {
+  days: Date[];
+  events: Event[];
+  onEventClick?: (event: Event) => void;
+  /** Shows the day's weather next to each day name */
+  getWeatherForDate?: (date: Date) => { temp: number; condition: string; highTemp?: number; lowTemp?: number };
+  /** Pixel height of one hour */
+  hourHeight?: number;
+  /** Double-bookings to flag next to each day name */
+  conflicts?: EventConflict[];
+  className?: string;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+// Hour the grid scrolls to when nothing is happening today
+const DEFAULT_SCROLL_HOUR = 7;
+
+const minutesIntoDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+/** Scrollable 24-hour grid with one column per day, all-day events in a strip above it */
+const TimeGrid = ({ days, events, onEventClick, getWeatherForDate, hourHeight = 48, conflicts = [], className = '' }: TimeGridProps) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const columns = useMemo(() => days.map(day => {
+    const dayEvents = events.filter(event => event && event.date && eventOccursOnDay(event, day));
+    const allDay = dayEvents.filter(event => event.allDay || isSpanningEvent(event));
+    const timed = dayEvents.filter(event => !event.allDay && !isSpanningEvent(event));
+    return { day, allDay, items: layoutDayEvents(timed, day) };
+  }), [days, events]);
+
+  // Open at the current hour on today, otherwise just before the first event
+  const firstMinute = useMemo(() => {
+    if (days.some(day => isToday(day))) return minutesIntoDay(new Date());
+    const starts = columns.flatMap(column => column.items.map(item => item.startMinute));
+    return starts.length > 0 ? Math.min(...starts) : DEFAULT_SCROLL_HOUR * 60;
+  }, [days, columns]);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = Math.max(0, (firstMinute / 60 - 1) * hourHeight);
+    }
+    // Only when the days change, so refreshes don't yank the grid around
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [days.map(day => day.toDateString()).join()]);
+
+  const gridTemplateColumns = `3rem repeat(${days.length}, minmax(0, 1fr))`;
+  const hasAllDay = columns.some(column => column.allDay.length > 0);
+
+  return (
+    <div className={`rounded-lg bg-white/90 dark:bg-gray-900/85 backdrop-blur-sm border border-gray-200/50 dark:border-gray-700/30 text-gray-900 dark:text-gray-100 ${className}`}>
+      {days.length > 1 && (
+        <div className="grid border-b border-gray-200 dark:border-gray-700" style={{ gridTemplateColumns }}>
+          <div />
+          {days.map(day => (
+            <div key={day.toDateString()} className="px-1 py-2 text-center border-l border-gray-200 dark:border-gray-700">
+              <div className={`text-xs font-medium ${isToday(day) ? 'text-blue-600 dark:text-blue-400' : 'text-gray-600 dark:text-gray-400'}`}>
+                {format(day, 'EEE')}
+              </div>
+              <div className={`flex items-center justify-center gap-1 text-lg font-bold leading-tight ${isToday(day) ? 'text-blue-600 dark:text-blue-400' : ''}`}>
+                {format(day, 'd')}
+                <ConflictBadge conflicts={getConflictsOnDay(conflicts, day)} />
+              </div>
+              {getWeatherForDate && (
+                <WeatherDisplay weather={getWeatherForDate(day)} className="text-xs justify-center hidden md:flex" />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {hasAllDay && (
+        <div className="grid border-b border-gray-200 dark:border-gray-700" style={{ gridTemplateColumns }}>
+          <div className="px-1 py-1 text-[10px] uppercase tracking-wide text-gray-500 dark:text-gray-400 self-center">All day</div>
+          {columns.map(({ day, allDay }) => (
+            <div key={day.toDateString()} className="p-1 space-y-0.5 border-l border-gray-200 dark:border-gray-700 min-w-0">
+              {allDay.map(event => (
+                <button
+                  key={`${event.id}-${day.toDateString()}`}
+                  type="button"
+                  onClick={() => onEventClick?.(event)}
+                  className={`block w-full truncate text-left text-xs px-1 rounded ${getEventStatusClasses(event).container}`}
+                  style={{ backgroundColor: `${event.color}33`, borderLeft: `3px solid ${event.color}` }}
+                  title={event.title}
+                >
+                  <span className={getEventStatusClasses(event).title}>{event.title}</span>
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div ref={scrollRef} className="max-h-[60vh] overflow-y-auto">
+        <div className="grid relative" style={{ gridTemplateColumns, height: 24 * hourHeight }}>
+          <div className="relative">
+            {HOURS.map(hour => (
+              <div
+                key={hour}
+                className="absolute right-1 -translate-y-1/2 text-[10px] text-gray-500 dark:text-gray-400"
+                style={{ top: hour * hourHeight }}
+              >
+                {hour === 0 ? '' : format(new Date(2000, 0, 1, hour), 'h a')}
+              </div>
+            ))}
+          </div>
+
+          {columns.map(({ day, items }) => (
+            <div key={day.toDateString()} className="relative border-l border-gray-200 dark:border-gray-700">
+              {HOURS.map(hour => (
+                <div
+                  key={hour}
+                  className="absolute inset-x-0 border-t border-gray-100 dark:border-gray-800"
+                  style={{ top: hour * hourHeight }}
+                  aria-hidden="true"
+                />
+              ))}
+
+              {items.map(({ event, startMinute, endMinute, column, columnCount, columnSpan }) => {
+                const height = Math.max(((endMinute - startMinute) / 60) * hourHeight, 18);
+                const statusClasses = getEventStatusClasses(event);
+                return (
+                  <button
+                    key={event.id}
+                    type="button"
+                    onClick={() => onEventClick?.(event)}
+                    className={`absolute overflow-hidden rounded px-1 py-0.5 text-left text-xs leading-tight bg-white dark:bg-gray-800 shadow-sm hover:z-10 hover:shadow-md ${
+                      event.pinned ? 'ring-2 ring-amber-400' : ''
+                    } ${statusClasses.container}`}
+                    style={{
+                      top: (startMinute / 60) * hourHeight,
+                      height,
+                      left: `calc(${(column / columnCount) * 100}% + 1px)`,
+                      width: `calc(${(columnSpan / columnCount) * 100}% - 2px)`,
+                      backgroundImage: `linear-gradient(${event.color}40, ${event.color}40)`,
+                      borderLeft: `3px solid ${event.color}`
+                    }}
+                    title={`${event.title}, ${formatEventTime(event)}`}
+                  >
+                    <div className={`font-medium truncate ${statusClasses.title}`}>{event.title}</div>
+                    {height >= 32 && (
+                      <div className="truncate text-gray-600 dark:text-gray-300">{formatEventTime(event)}</div>
+                    )}
+                  </button>
+                );
+              })}
+
+              {isToday(day) && (
+                <div
+                  className="absolute inset-x-0 z-20 pointer-events-none"
+                  style={{ top: (minutesIntoDay(now) / 60) * hourHeight }}
+                  aria-label={`Now, ${format(now, 'h:mm a')}`}
+                >
+                  <div className="relative border-t-2 border-red-500">
+                    <span className="absolute -left-1 -top-[5px] h-2 w-2 rounded-full bg-red-500" />
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimeGrid;
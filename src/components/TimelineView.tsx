@@ -1,67 +1,45 @@
 
 import React from 'react';
-import { format, isToday, isTomorrow, isYesterday, addDays, startOfDay, differenceInDays, isSameDay } from 'date-fns';
+import { format, isToday, isTomorrow, isYesterday } from 'date-fns';
 import { Event } from '@/types/calendar';
 import EventCard from './EventCard';
+import MultiDayEventBar from './event/MultiDayEventBar';
 import WeatherDisplay from './WeatherDisplay';
 
-import { compareTimeStrings } from '@/utils/timeUtils';
+import { compareEventsByTime } from '@/utils/timeUtils';
+import { eventOccursOnDay, getSpanContinuation, isSpanningEvent } from '@/utils/multiDayLayout';
+import { getTimelineDays } from '@/utils/dateUtils';
+import { DEFAULT_TIMELINE_OPTIONS } from '@/utils/viewModes';
 
 interface TimelineViewProps {
   events: Event[];
+  /** Days to list; defaults to the next three */
+  days?: Date[];
   getWeatherForDate: (date: Date) => { temp: number; condition: string; highTemp?: number; lowTemp?: number };
-  onNotionEventClick?: (event: Event) => void;
+  onEventClick?: (event: Event) => void;
 }
 
-const TimelineView = ({ events, getWeatherForDate, onNotionEventClick }: TimelineViewProps) => {
+const TimelineView = ({ events, days = getTimelineDays(DEFAULT_TIMELINE_OPTIONS), getWeatherForDate, onEventClick }: TimelineViewProps) => {
   try {
-    // Get today and the next 2 days (total of 3 days starting from today)
-    const today = new Date();
-    const next3Days = Array.from({ length: 3 }, (_, i) => addDays(today, i));
-    
     // Helper function to check if an event is all-day
     const isAllDayEvent = (event: Event) => {
       try {
-        return event.time === 'All day' || event.time.toLowerCase().includes('all day');
+        return event.allDay === true;
       } catch (error) {
         console.warn('Error checking if event is all-day:', error);
         return false;
       }
     };
 
-    // Helper function to check if an event spans multiple days - VERY CONSERVATIVE
-    const isMultiDayEvent = (event: Event) => {
-      try {
-        // Only return true if the event explicitly has isMultiDay property set to true
-        return 'isMultiDay' in event && event.isMultiDay === true;
-      } catch (error) {
-        console.warn('Error checking if event is multi-day:', error);
-        return false;
-      }
-    };
-
-    // Get events for each day - STRICT date matching with proper multi-day range checking
+    // Get events for each day - spanning events appear on every day they cover
     const getEventsForDay = (day: Date) => {
       try {
         if (!events || !Array.isArray(events)) return [];
         
-        const dayStart = startOfDay(day);
-        
         return events.filter(event => {
           try {
             if (!event || !event.date) return false;
-            
-            const eventDate = startOfDay(new Date(event.date));
-            
-            // For explicitly multi-day events, we need to check if this day falls within their range
-            if (isMultiDayEvent(event)) {
-              // For now, we'll be conservative and only show on the exact event date
-              // TODO: Implement proper date range checking when we have end dates
-              return eventDate.getTime() === dayStart.getTime();
-            }
-            
-            // For single-day events, ONLY show on the exact date
-            return eventDate.getTime() === dayStart.getTime();
+            return eventOccursOnDay(event, day);
           } catch (error) {
             console.warn('Error filtering event for day:', error);
             return false;
@@ -74,17 +52,19 @@ const TimelineView = ({ events, getWeatherForDate, onNotionEventClick }: Timelin
     };
 
     // Group events by date and categorize them
-    const groupedEventsByDay = next3Days.map(day => {
+    const groupedEventsByDay = days.map(day => {
       try {
         const dayEvents = getEventsForDay(day);
         
-        // Separate all-day events from timed events
-        const allDayEvents = dayEvents.filter(isAllDayEvent);
-        const timedEvents = dayEvents.filter(event => !isAllDayEvent(event));
+        // Separate all-day and spanning events from timed events
+        const allDayEvents = dayEvents.filter(event => isAllDayEvent(event) || isSpanningEvent(event));
+        const timedEvents = dayEvents.filter(event => !isAllDayEvent(event) && !isSpanningEvent(event));
         
-        // Sort all-day events alphabetically by title
+        // Sort spanning events first, then all-day events alphabetically by title
         allDayEvents.sort((a, b) => {
           try {
+            const aSpans = isSpanningEvent(a);
+            if (aSpans !== isSpanningEvent(b)) return aSpans ? -1 : 1;
             return (a.title || '').localeCompare(b.title || '');
           } catch (error) {
             console.warn('Error sorting all-day events:', error);
@@ -95,7 +75,7 @@ const TimelineView = ({ events, getWeatherForDate, onNotionEventClick }: Timelin
         // Sort timed events chronologically by start time
         timedEvents.sort((a, b) => {
           try {
-            return compareTimeStrings(a.time || '', b.time || '');
+            return compareEventsByTime(a, b);
           } catch (error) {
             console.warn('Error sorting timed events:', error);
             return 0;
@@ -172,12 +152,20 @@ const TimelineView = ({ events, getWeatherForDate, onNotionEventClick }: Timelin
                   <div className="flex flex-wrap gap-2 mb-3 sm:mb-4 w-full sm:w-[45%]">
                     {allDayEvents.map(event => (
                       <div key={`${event.id}-${dateStr}`} className="flex-shrink-0 w-full sm:w-auto">
-                        <EventCard 
-                          event={event} 
-                          viewMode="timeline" 
-                          isMultiDayDisplay={isMultiDayEvent(event)}
-                          onNotionEventClick={onNotionEventClick}
-                        />
+                        {isSpanningEvent(event) ? (
+                          <MultiDayEventBar
+                            event={event}
+                            variant="card"
+                            {...getSpanContinuation(event, day)}
+                            onEventClick={onEventClick}
+                          />
+                        ) : (
+                          <EventCard 
+                            event={event} 
+                            viewMode="timeline" 
+                            onEventClick={onEventClick}
+                          />
+                        )}
                       </div>
                     ))}
                   </div>
@@ -187,7 +175,7 @@ const TimelineView = ({ events, getWeatherForDate, onNotionEventClick }: Timelin
                 <div className="space-y-2 sm:space-y-3">
                   {timedEvents.map(event => (
                     <div key={event.id}>
-                      <EventCard event={event} viewMode="timeline" onNotionEventClick={onNotionEventClick} />
+                      <EventCard event={event} viewMode="timeline" onEventClick={onEventClick} />
                     </div>
                   ))}
                   
@@ -1,13 +1,18 @@
 
-import React from 'react';
-import { format, addDays, startOfWeek, isSameDay, startOfDay } from 'date-fns';
-import { ChevronLeft, ChevronRight } from 'lucide-react';
+import React, { useState } from 'react';
+import { format, addDays, startOfWeek } from 'date-fns';
+import { CalendarClock, ChevronLeft, ChevronRight, Columns3 } from 'lucide-react';
 import { Event } from '@/types/calendar';
 import { Button } from '@/components/ui/button';
 import EventCard from './EventCard';
+import MultiDayEventBar from './event/MultiDayEventBar';
 import WeatherDisplay from './WeatherDisplay';
+import TimeGrid from './TimeGrid';
+import ConflictBadge from './event/ConflictBadge';
 
-import { compareTimeStrings } from '@/utils/timeUtils';
+import { compareEventsByTime } from '@/utils/timeUtils';
+import { eventOccursOnDay, getSpanContinuation, isSpanningEvent, layoutSpanningEvents } from '@/utils/multiDayLayout';
+import { EventConflict, getConflictsOnDay } from '@/utils/conflicts';
 
 interface WeekViewProps {
   events: Event[];
@@ -15,59 +20,52 @@ interface WeekViewProps {
   onPreviousWeek: () => void;
   onNextWeek: () => void;
   getWeatherForDate: (date: Date) => { temp: number; condition: string; highTemp?: number; lowTemp?: number };
-  onNotionEventClick?: (event: Event) => void;
+  onEventClick?: (event: Event) => void;
+  /** Weeks shown one below the other, e.g. 2 for this week and the next */
+  weekCount?: number;
+  /** Double-bookings to flag on their days */
+  conflicts?: EventConflict[];
 }
 
-const WeekView = ({ events, weekOffset, onPreviousWeek, onNextWeek, getWeatherForDate, onNotionEventClick }: WeekViewProps) => {
+type WeekLayout = 'columns' | 'grid';
+
+const WEEK_LAYOUT_KEY = 'weekViewLayout';
+
+const WeekView = ({ events, weekOffset, onPreviousWeek, onNextWeek, getWeatherForDate, onEventClick, weekCount = 1, conflicts = [] }: WeekViewProps) => {
+  const [layout, setLayout] = useState<WeekLayout>(() =>
+    localStorage.getItem(WEEK_LAYOUT_KEY) === 'grid' ? 'grid' : 'columns'
+  );
+
+  const handleLayoutChange = (next: WeekLayout) => {
+    setLayout(next);
+    localStorage.setItem(WEEK_LAYOUT_KEY, next);
+  };
+
   try {
     const today = new Date();
     const weekStart = addDays(startOfWeek(today, { weekStartsOn: 0 }), weekOffset * 7);
     
-    const weekDays = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+    const weekDays = Array.from({ length: 7 * weekCount }, (_, i) => addDays(weekStart, i));
 
     // Helper function to check if an event is all-day
     const isAllDayEvent = (event: Event) => {
       try {
-        return event.time === 'All day' || event.time.toLowerCase().includes('all day');
+        return event.allDay === true;
       } catch (error) {
         console.warn('Error checking if event is all-day:', error);
         return false;
       }
     };
 
-    // Helper function to check if an event spans multiple days - VERY CONSERVATIVE
-    const isMultiDayEvent = (event: Event) => {
-      try {
-        // Only return true if the event explicitly has isMultiDay property set to true
-        return 'isMultiDay' in event && event.isMultiDay === true;
-      } catch (error) {
-        console.warn('Error checking if event is multi-day:', error);
-        return false;
-      }
-    };
-
-    // Get events for each day - STRICT date matching with proper multi-day range checking
+    // Get events for each day - spanning events appear on every day they cover
     const getEventsForDay = (day: Date) => {
       try {
         if (!events || !Array.isArray(events)) return [];
         
-        const dayStart = startOfDay(day);
-        
         return events.filter(event => {
           try {
             if (!event || !event.date) return false;
-            
-            const eventDate = startOfDay(new Date(event.date));
-            
-            // For explicitly multi-day events, we need to check if this day falls within their range
-            if (isMultiDayEvent(event)) {
-              // For now, we'll be conservative and only show on the exact event date
-              // TODO: Implement proper date range checking when we have end dates
-              return eventDate.getTime() === dayStart.getTime();
-            }
-            
-            // For single-day events, ONLY show on the exact date
-            return eventDate.getTime() === dayStart.getTime();
+            return eventOccursOnDay(event, day);
           } catch (error) {
             console.warn('Error filtering event for day:', error);
             return false;
@@ -84,9 +82,10 @@ const WeekView = ({ events, weekOffset, onPreviousWeek, onNextWeek, getWeatherFo
       try {
         const dayEvents = getEventsForDay(day);
         
-        // Separate all-day events from timed events
-        const allDayEvents = dayEvents.filter(isAllDayEvent);
-        const timedEvents = dayEvents.filter(event => !isAllDayEvent(event));
+        // Separate spanning, all-day and timed events
+        const spanningEvents = dayEvents.filter(isSpanningEvent);
+        const allDayEvents = dayEvents.filter(event => isAllDayEvent(event) && !isSpanningEvent(event));
+        const timedEvents = dayEvents.filter(event => !isAllDayEvent(event) && !isSpanningEvent(event));
         
         // Sort all-day events alphabetically by title
         allDayEvents.sort((a, b) => {
@@ -101,7 +100,7 @@ const WeekView = ({ events, weekOffset, onPreviousWeek, onNextWeek, getWeatherFo
         // Sort timed events chronologically by start time
         timedEvents.sort((a, b) => {
           try {
-            return compareTimeStrings(a.time || '', b.time || '');
+            return compareEventsByTime(a, b);
           } catch (error) {
             console.warn('Error sorting timed events:', error);
             return 0;
@@ -110,6 +109,7 @@ const WeekView = ({ events, weekOffset, onPreviousWeek, onNextWeek, getWeatherFo
         
         return { 
           day, 
+          spanningEvents,
           allDayEvents,
           timedEvents,
           totalEvents: dayEvents.length
@@ -118,6 +118,7 @@ const WeekView = ({ events, weekOffset, onPreviousWeek, onNextWeek, getWeatherFo
         console.warn('Error grouping events for day:', error);
         return { 
           day, 
+          spanningEvents: [],
           allDayEvents: [],
           timedEvents: [],
           totalEvents: 0
@@ -125,6 +126,16 @@ const WeekView = ({ events, weekOffset, onPreviousWeek, onNextWeek, getWeatherFo
       }
     });
 
+    // One row of seven days per week, each with lanes for its spanning events drawn as bars
+    const weekRows = Array.from({ length: weekCount }, (_, index) => {
+      const rowStart = addDays(weekStart, index * 7);
+      return {
+        rowStart,
+        rowDays: eventsByDay.slice(index * 7, index * 7 + 7),
+        spanLayout: layoutSpanningEvents(events || [], rowStart, 7)
+      };
+    });
+
     return (
       <div className="space-y-4">
         {/* Responsive Week Navigation */}
@@ -141,9 +152,30 @@ const WeekView = ({ events, weekOffset, onPreviousWeek, onNextWeek, getWeatherFo
           
           <div className="text-center px-2">
             <h2 className="text-sm sm:text-base md:text-lg font-semibold text-white">
-              {format(weekStart, 'MMM d')} - {format(addDays(weekStart, 6), 'MMM d, yyyy')}
+              {format(weekStart, 'MMM d')} - {format(addDays(weekStart, weekDays.length - 1), 'MMM d, yyyy')}
             </h2>
-            
+            <div className="flex items-center justify-center gap-1 mt-1" role="group" aria-label="Week layout">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleLayoutChange('columns')}
+                aria-pressed={layout === 'columns'}
+                className={`h-7 px-2 text-xs text-white hover:bg-white/20 hover:text-white ${layout === 'columns' ? 'bg-white/20' : ''}`}
+              >
+                <Columns3 className="h-3.5 w-3.5 mr-1" />
+                Columns
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleLayoutChange('grid')}
+                aria-pressed={layout === 'grid'}
+                className={`h-7 px-2 text-xs text-white hover:bg-white/20 hover:text-white ${layout === 'grid' ? 'bg-white/20' : ''}`}
+              >
+                <CalendarClock className="h-3.5 w-3.5 mr-1" />
+                Time grid
+              </Button>
+            </div>
           </div>
           
           <Button
@@ -157,66 +189,117 @@ const WeekView = ({ events, weekOffset, onPreviousWeek, onNextWeek, getWeatherFo
           </Button>
         </div>
 
-        {/* Responsive Week Grid - Stack on mobile, grid on larger screens */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-7 gap-2 sm:gap-3 md:gap-4">
-          {eventsByDay.map(({ day, allDayEvents, timedEvents }, index) => {
-            try {
-              return (
-                <div key={index} className="rounded-lg p-2 sm:p-3 md:p-4 min-h-[200px] sm:min-h-[250px] lg:min-h-[300px] overflow-hidden">
-                  <div className="flex items-center justify-between mb-2 sm:mb-3">
-                    <div className="text-center sm:text-left">
-                      <div className="text-xs sm:text-sm font-medium text-white">
-                        {format(day, 'EEE')}
+        {layout === 'grid' && weekRows.map(({ rowStart, rowDays }) => (
+          <div key={rowStart.toDateString()} className="overflow-x-auto">
+            <TimeGrid
+              days={rowDays.map(({ day }) => day)}
+              events={events || []}
+              onEventClick={onEventClick}
+              getWeatherForDate={getWeatherForDate}
+              conflicts={conflicts}
+              className="min-w-[640px]"
+            />
+          </div>
+        ))}
+
+        {layout === 'columns' && weekRows.map(({ rowStart, rowDays, spanLayout }) => (
+          <div key={rowStart.toDateString()} className="space-y-4">
+            {/* Spanning events as continuous bars once the days sit side by side */}
+            {spanLayout.segments.length > 0 && (
+              <div
+                className="hidden lg:grid grid-cols-7 gap-x-4 gap-y-1"
+                style={{ gridTemplateRows: `repeat(${spanLayout.laneCount}, auto)` }}
+              >
+                {spanLayout.segments.map(segment => (
+                  <MultiDayEventBar
+                    key={`${segment.event.id}-${segment.startIndex}`}
+                    event={segment.event}
+                    continuesBefore={segment.continuesBefore}
+                    continuesAfter={segment.continuesAfter}
+                    onEventClick={onEventClick}
+                    style={{
+                      gridColumn: `${segment.startIndex + 1} / span ${segment.length}`,
+                      gridRow: segment.lane + 1
+                    }}
+                  />
+                ))}
+              </div>
+            )}
+
+            {/* Responsive Week Grid - Stack on mobile, grid on larger screens */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-7 gap-2 sm:gap-3 md:gap-4">
+              {rowDays.map(({ day, spanningEvents, allDayEvents, timedEvents }, index) => {
+                try {
+                  return (
+                    <div key={index} className="rounded-lg p-2 sm:p-3 md:p-4 min-h-[200px] sm:min-h-[250px] lg:min-h-[300px] overflow-hidden">
+                      <div className="flex items-center justify-between mb-2 sm:mb-3">
+                        <div className="text-center sm:text-left">
+                          <div className="text-xs sm:text-sm font-medium text-white">
+                            {format(day, 'EEE')}
+                          </div>
+                          <div className="flex items-center gap-1.5 text-base sm:text-lg font-bold text-white">
+                            {format(day, 'd')}
+                            <ConflictBadge conflicts={getConflictsOnDay(conflicts, day)} />
+                          </div>
+                        </div>
+                        <div className="text-right hidden sm:block">
+                          <WeatherDisplay 
+                            weather={getWeatherForDate(day)}
+                            className="text-xs"
+                            forceWhite={true}
+                          />
+                        </div>
                       </div>
-                      <div className="text-base sm:text-lg font-bold text-white">
-                        {format(day, 'd')}
+                
+                      <div className="space-y-1 sm:space-y-2 overflow-hidden">
+                        {/* Spanning events repeat per day while the days are stacked */}
+                        {spanningEvents.map(event => (
+                          <div key={`${event.id}-${format(day, 'yyyy-MM-dd')}`} className="lg:hidden">
+                            <MultiDayEventBar
+                              event={event}
+                              variant="card"
+                              {...getSpanContinuation(event, day)}
+                              onEventClick={onEventClick}
+                            />
+                          </div>
+                        ))}
+
+                        {/* All-day events at the top */}
+                        {allDayEvents.map(event => (
+                          <div key={`${event.id}-${format(day, 'yyyy-MM-dd')}`} className="truncate">
+                            <EventCard 
+                              event={event} 
+                              viewMode="week" 
+                              onEventClick={onEventClick}
+                            />
+                          </div>
+                        ))}
+                  
+                        {/* Timed events below */}
+                        {timedEvents.map(event => (
+                          <div key={event.id} className="truncate">
+                            <EventCard event={event} viewMode="week" onEventClick={onEventClick} />
+                          </div>
+                        ))}
+                  
+                        {spanningEvents.length === 0 && allDayEvents.length === 0 && timedEvents.length === 0 && (
+                          <p className="text-xs text-white/70 italic">No events</p>
+                        )}
                       </div>
                     </div>
-                    <div className="text-right hidden sm:block">
-                      <WeatherDisplay 
-                        weather={getWeatherForDate(day)}
-                        className="text-xs"
-                        forceWhite={true}
-                      />
+                  );
+                } catch (error) {
+                  console.warn('Error rendering day in week view:', error);
+                  return (
+                    <div key={index} className="rounded-lg p-2 sm:p-3 md:p-4 min-h-[200px] sm:min-h-[250px] lg:min-h-[300px] overflow-hidden">
+                      <p className="text-xs text-white/70 italic">Error loading day</p>
                     </div>
-                  </div>
-                  
-                  <div className="space-y-1 sm:space-y-2 overflow-hidden">
-                    {/* All-day events at the top */}
-                    {allDayEvents.map(event => (
-                      <div key={`${event.id}-${format(day, 'yyyy-MM-dd')}`} className="truncate">
-                        <EventCard 
-                          event={event} 
-                          viewMode="week" 
-                          isMultiDayDisplay={isMultiDayEvent(event)}
-                          onNotionEventClick={onNotionEventClick}
-                        />
-                      </div>
-                    ))}
-                    
-                    {/* Timed events below */}
-                    {timedEvents.map(event => (
-                      <div key={event.id} className="truncate">
-                        <EventCard event={event} viewMode="week" onNotionEventClick={onNotionEventClick} />
-                      </div>
-                    ))}
-                    
-                    {allDayEvents.length === 0 && timedEvents.length === 0 && (
-                      <p className="text-xs text-white/70 italic">No events</p>
-                    )}
-                  </div>
-                </div>
-              );
-            } catch (error) {
-              console.warn('Error rendering day in week view:', error);
-              return (
-                <div key={index} className="rounded-lg p-2 sm:p-3 md:p-4 min-h-[200px] sm:min-h-[250px] lg:min-h-[300px] overflow-hidden">
-                  <p className="text-xs text-white/70 italic">Error loading day</p>
-                </div>
-              );
-            }
-          })}
-        </div>
+                  );
+                }
+              })}
+            </div>
+          </div>
+        ))}
       </div>
     );
   } catch (error) {
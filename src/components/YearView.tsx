@@ -0,0 +1,240 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  addDays,
+  addYears,
+  differenceInCalendarDays,
+  eachWeekOfInterval,
+  endOfMonth,
+  format,
+  isSameMonth,
+  isToday,
+  startOfYear,
+  subDays
+} from 'date-fns';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Event } from '@/types/calendar';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import DayViewModal from './DayViewModal';
+import { compareEventsByTime } from '@/utils/timeUtils';
+import { EVENT_CATEGORIES } from '@/utils/eventCategories';
+import { isSpanningEvent, layoutSpanningEvents } from '@/utils/multiDayLayout';
+import { getDayDensity, getHeatLevel } from '@/utils/yearHeatmap';
+
+interface YearViewProps {
+  events: Event[];
+  getWeatherForDate: (date: Date) => { temp: number; condition: string; highTemp?: number; lowTemp?: number };
+  onEventClick?: (event: Event) => void;
+  onVisibleRangeChange?: (start: Date, end: Date) => void;
+  onCreateEvent?: (day: Date) => void;
+  onEditEvent?: (event: Event) => void;
+  /** Shows this date's year when set */
+  focusDate?: Date | null;
+}
+
+type Shading = 'all' | Event['category'];
+
+// Heat colors: blue for all events, otherwise the category's accent (Tailwind 500 shades)
+const SHADING_COLORS: Record<Shading, string> = {
+  all: '#3b82f6',
+  Personal: '#0ea5e9',
+  Work: '#64748b',
+  Family: '#10b981',
+  Kids: '#f59e0b',
+  Holidays: '#f43f5e'
+};
+// Alpha per heat level, as a hex suffix on the color
+const HEAT_ALPHAS = ['', '40', '70', 'a0', 'e0'];
+// Multi-day bar lanes drawn under each week before the rest are left out
+const MAX_BAR_LANES = 2;
+
+const WEEKDAY_INITIALS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const YearView = ({ events, getWeatherForDate, onEventClick, onVisibleRangeChange, onCreateEvent, onEditEvent, focusDate }: YearViewProps) => {
+  const [yearStart, setYearStart] = useState(() => startOfYear(focusDate || new Date()));
+  const [shading, setShading] = useState<Shading>('all');
+  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+
+  useEffect(() => {
+    if (focusDate) setYearStart(startOfYear(focusDate));
+  }, [focusDate]);
+
+  const yearStartTime = yearStart.getTime();
+  useEffect(() => {
+    const start = new Date(yearStartTime);
+    onVisibleRangeChange?.(start, addYears(start, 1));
+  }, [yearStartTime, onVisibleRangeChange]);
+
+  const density = useMemo(() => {
+    const start = new Date(yearStartTime);
+    const dayCount = differenceInCalendarDays(addYears(start, 1), start);
+    return getDayDensity(events || [], start, dayCount, shading === 'all' ? undefined : shading);
+  }, [events, yearStartTime, shading]);
+
+  const maxCount = useMemo(() => Math.max(0, ...density.map(day => day.count)), [density]);
+  const spanningEvents = useMemo(() => (events || []).filter(event => event && isSpanningEvent(event)), [events]);
+
+  const getDensity = (day: Date) => density[differenceInCalendarDays(day, new Date(yearStartTime))];
+
+  const getDayEvents = (day: Date) => {
+    const entry = getDensity(day);
+    // Days stepped to past the year's edges in the modal are looked up directly
+    const dayEvents = entry ? entry.events : getDayDensity(events || [], day, 1)[0].events;
+    return [...dayEvents].sort(compareEventsByTime);
+  };
+
+  const handleNavigateDay = (direction: 'prev' | 'next') => {
+    if (!selectedDate) return;
+    setSelectedDate(direction === 'next' ? addDays(selectedDate, 1) : subDays(selectedDate, 1));
+  };
+
+  const color = SHADING_COLORS[shading];
+
+  const renderMonth = (monthIndex: number) => {
+    const monthStart = new Date(yearStart.getFullYear(), monthIndex, 1);
+    const weeks = eachWeekOfInterval({ start: monthStart, end: endOfMonth(monthStart) });
+
+    return (
+      <div key={monthIndex} className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-lg border border-white/20 dark:border-gray-600/20 p-2">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-1">{format(monthStart, 'MMMM')}</h3>
+        <div className="grid grid-cols-7 text-center text-[10px] text-gray-500 dark:text-gray-400">
+          {WEEKDAY_INITIALS.map((initial, index) => <div key={index}>{initial}</div>)}
+        </div>
+
+        {weeks.map(weekStart => {
+          const weekDays = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+          const firstIndex = weekDays.findIndex(day => isSameMonth(day, monthStart));
+          const lastIndex = 6 - [...weekDays].reverse().findIndex(day => isSameMonth(day, monthStart));
+          // Bars are cut at the month's edges, the neighbouring mini-month draws the rest
+          const bars = layoutSpanningEvents(spanningEvents, weekStart, 7).segments
+            .filter(segment => segment.lane < MAX_BAR_LANES)
+            .map(segment => {
+              const from = Math.max(segment.startIndex, firstIndex);
+              const to = Math.min(segment.startIndex + segment.length - 1, lastIndex);
+              return { segment, from, to };
+            })
+            .filter(({ from, to }) => from <= to);
+
+          return (
+            <div key={weekStart.toISOString()}>
+              <div className="grid grid-cols-7 gap-px">
+                {weekDays.map((day, index) => {
+                  if (!isSameMonth(day, monthStart)) return <div key={index} />;
+                  const count = getDensity(day)?.count ?? 0;
+                  const level = getHeatLevel(count, maxCount);
+                  return (
+                    <button
+                      key={index}
+                      type="button"
+                      onClick={() => setSelectedDate(day)}
+                      title={`${format(day, 'EEE, MMM d')}: ${count} event${count !== 1 ? 's' : ''}`}
+                      aria-label={`${format(day, 'MMMM d')}, ${count} event${count !== 1 ? 's' : ''}`}
+                      className={`aspect-square rounded-sm text-[10px] leading-none flex items-center justify-center hover:ring-1 hover:ring-gray-400 ${
+                        isToday(day) ? 'ring-1 ring-yellow-500 font-bold' : ''
+                      } ${level >= 3 ? 'text-white' : 'text-gray-700 dark:text-gray-200'}`}
+                      style={level > 0 ? { backgroundColor: `${color}${HEAT_ALPHAS[level]}` } : undefined}
+                    >
+                      {format(day, 'd')}
+                    </button>
+                  );
+                })}
+              </div>
+              {bars.length > 0 && (
+                <div className="grid grid-cols-7 gap-px py-px">
+                  {bars.map(({ segment, from, to }) => (
+                    <button
+                      key={`${segment.event.id}-${from}`}
+                      type="button"
+                      onClick={() => onEventClick?.(segment.event)}
+                      title={segment.event.title}
+                      aria-label={segment.event.title}
+                      className="h-1 rounded-full"
+                      style={{
+                        gridColumn: `${from + 1} / ${to + 2}`,
+                        gridRow: segment.lane + 1,
+                        backgroundColor: segment.event.color
+                      }}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setYearStart(addYears(yearStart, -1))}
+          className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-white/20 dark:border-gray-600/20 h-9 w-9 sm:h-10 sm:w-auto sm:px-4"
+        >
+          <ChevronLeft className="h-4 w-4" />
+          <span className="hidden sm:inline ml-1">Previous</span>
+        </Button>
+
+        <div className="flex flex-col sm:flex-row items-center gap-2">
+          <h2 className="text-sm sm:text-base md:text-lg font-semibold text-white">{format(yearStart, 'yyyy')}</h2>
+          <Select value={shading} onValueChange={(value) => setShading(value as Shading)}>
+            <SelectTrigger aria-label="Shade days by" className="h-8 w-40 bg-white/80 dark:bg-gray-800/80 border-white/20 dark:border-gray-600/20 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All events</SelectItem>
+              {EVENT_CATEGORIES.map(category => (
+                <SelectItem key={category} value={category}>{category}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setYearStart(addYears(yearStart, 1))}
+          className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-white/20 dark:border-gray-600/20 h-9 w-9 sm:h-10 sm:w-auto sm:px-4"
+        >
+          <ChevronRight className="h-4 w-4" />
+          <span className="hidden sm:inline ml-1">Next</span>
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-2 sm:gap-3">
+        {Array.from({ length: 12 }, (_, monthIndex) => renderMonth(monthIndex))}
+      </div>
+
+      <div className="flex items-center justify-end gap-1 text-xs text-white/80">
+        <span>Fewer</span>
+        {HEAT_ALPHAS.map((alpha, level) => (
+          <span
+            key={level}
+            className="h-3 w-3 rounded-sm border border-white/30"
+            style={level > 0 ? { backgroundColor: `${color}${alpha}` } : undefined}
+          />
+        ))}
+        <span>More</span>
+      </div>
+
+      {selectedDate && (
+        <DayViewModal
+          date={selectedDate}
+          events={getDayEvents(selectedDate)}
+          open={!!selectedDate}
+          onOpenChange={() => setSelectedDate(null)}
+          getWeatherForDate={getWeatherForDate}
+          onNavigateDay={handleNavigateDay}
+          onEventClick={onEventClick}
+          onCreateEvent={onCreateEvent}
+          onEditEvent={onEditEvent}
+        />
+      )}
+    </div>
+  );
+};
+
+export default YearView;
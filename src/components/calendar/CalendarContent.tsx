@@ -1,9 +1,18 @@
 
-import { Event } from '@/types/calendar';
+import { useEffect, useMemo } from 'react';
+import { addDays, addWeeks, startOfWeek } from 'date-fns';
+import { Event, TimelineOptions, ViewMode } from '@/types/calendar';
 import { NotionEvent } from '@/types/notion';
+import { convertNotionEventToEvent } from '@/hooks/useEventFiltering';
 import TimelineView from '../TimelineView';
 import WeekView from '../WeekView';
 import MonthView from '../MonthView';
+import AgendaView from '../AgendaView';
+import YearView from '../YearView';
+import ScheduleView from '../ScheduleView';
+import { getTimelineDays } from '@/utils/dateUtils';
+import { DEFAULT_TIMELINE_OPTIONS } from '@/utils/viewModes';
+import { EventConflict } from '@/utils/conflicts';
 
 interface WeatherInfo {
   temp: number;
@@ -11,14 +20,22 @@ interface WeatherInfo {
 }
 
 interface CalendarContentProps {
-  view: 'timeline' | 'week' | 'month';
+  view: ViewMode;
   events: Event[];
   notionEvents?: NotionEvent[];
   weekOffset: number;
   onPreviousWeek: () => void;
   onNextWeek: () => void;
   getWeatherForDate: (date: Date) => WeatherInfo;
-  onNotionEventClick?: (event: Event) => void;
+  onEventClick?: (event: Event) => void;
+  onVisibleRangeChange?: (start: Date, end: Date) => void;
+  onCreateEvent?: (day: Date) => void;
+  onEditEvent?: (event: Event) => void;
+  /** Date the month, year, agenda and schedule views should show, e.g. after jumping to a search result */
+  focusDate?: Date | null;
+  timelineOptions?: TimelineOptions;
+  /** Double-bookings the week and month views flag */
+  conflicts?: EventConflict[];
 }
 
 const CalendarContent = ({ 
@@ -29,33 +46,42 @@ const CalendarContent = ({
   onPreviousWeek, 
   onNextWeek, 
   getWeatherForDate,
-  onNotionEventClick
+  onEventClick,
+  onVisibleRangeChange,
+  onCreateEvent,
+  onEditEvent,
+  focusDate,
+  timelineOptions = DEFAULT_TIMELINE_OPTIONS,
+  conflicts
 }: CalendarContentProps) => {
   // Convert NotionEvents to Events and merge with regular events
-  const convertedNotionEvents: Event[] = notionEvents.map(notionEvent => ({
-    id: notionEvent.id,
-    title: notionEvent.title,
-    time: notionEvent.time,
-    location: notionEvent.location || '',
-    attendees: 0,
-    category: 'Personal',
-    color: notionEvent.color,
-    description: notionEvent.description || '',
-    organizer: 'Notion',
-    date: notionEvent.date,
-    calendarId: notionEvent.calendarId,
-    calendarName: notionEvent.calendarName,
-    source: 'notion'
-  }));
+  const convertedNotionEvents: Event[] = notionEvents.map(convertNotionEventToEvent);
 
   // Merge all events
   const allEvents = [...events, ...convertedNotionEvents];
 
+  const { dayCount, skipWeekends, skipPastDays } = timelineOptions;
+  const timelineDays = useMemo(
+    () => getTimelineDays({ dayCount, skipWeekends, skipPastDays }),
+    [dayCount, skipWeekends, skipPastDays]
+  );
+
+  // Report the days on screen so they are expanded and loaded; month, year, agenda and schedule views report their own
+  useEffect(() => {
+    if (!onVisibleRangeChange) return;
+    if (view === 'week' || view === 'twoWeek') {
+      const weekStart = startOfWeek(addWeeks(new Date(), weekOffset));
+      onVisibleRangeChange(weekStart, addDays(weekStart, view === 'twoWeek' ? 14 : 7));
+    } else if (view === 'timeline') {
+      onVisibleRangeChange(timelineDays[0], addDays(timelineDays[timelineDays.length - 1], 1));
+    }
+  }, [view, weekOffset, timelineDays, onVisibleRangeChange]);
+
   if (view === 'timeline') {
-    return <TimelineView events={allEvents} getWeatherForDate={getWeatherForDate} onNotionEventClick={onNotionEventClick} />;
+    return <TimelineView events={allEvents} days={timelineDays} getWeatherForDate={getWeatherForDate} onEventClick={onEventClick} />;
   }
 
-  if (view === 'week') {
+  if (view === 'week' || view === 'twoWeek') {
     return (
       <WeekView 
         events={allEvents}
@@ -63,7 +89,9 @@ const CalendarContent = ({
         onPreviousWeek={onPreviousWeek}
         onNextWeek={onNextWeek}
         getWeatherForDate={getWeatherForDate}
-        onNotionEventClick={onNotionEventClick}
+        onEventClick={onEventClick}
+        weekCount={view === 'twoWeek' ? 2 : 1}
+        conflicts={conflicts}
       />
     );
   }
@@ -73,7 +101,50 @@ const CalendarContent = ({
       <MonthView 
         events={allEvents}
         getWeatherForDate={getWeatherForDate}
-        onNotionEventClick={onNotionEventClick}
+        onEventClick={onEventClick}
+        onVisibleRangeChange={onVisibleRangeChange}
+        onCreateEvent={onCreateEvent}
+        onEditEvent={onEditEvent}
+        focusDate={focusDate}
+        conflicts={conflicts}
+      />
+    );
+  }
+
+  if (view === 'year') {
+    return (
+      <YearView
+        events={allEvents}
+        getWeatherForDate={getWeatherForDate}
+        onEventClick={onEventClick}
+        onVisibleRangeChange={onVisibleRangeChange}
+        onCreateEvent={onCreateEvent}
+        onEditEvent={onEditEvent}
+        focusDate={focusDate}
+      />
+    );
+  }
+
+  if (view === 'schedule') {
+    return (
+      <ScheduleView
+        events={allEvents}
+        getWeatherForDate={getWeatherForDate}
+        onEventClick={onEventClick}
+        onVisibleRangeChange={onVisibleRangeChange}
+        focusDate={focusDate}
+      />
+    );
+  }
+
+  if (view === 'agenda') {
+    return (
+      <AgendaView
+        events={allEvents}
+        getWeatherForDate={getWeatherForDate}
+        onEventClick={onEventClick}
+        onVisibleRangeChange={onVisibleRangeChange}
+        focusDate={focusDate}
       />
     );
   }
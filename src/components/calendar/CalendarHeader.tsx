@@ -1,27 +1,55 @@
 
+import { Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import CalendarSelector from '../CalendarSelector';
+import CategoryFilter from './CategoryFilter';
+import MemberFilter from './MemberFilter';
 import ViewSwitcher from './ViewSwitcher';
+import type { ViewMode } from '@/types/calendar';
 
 interface CalendarHeaderProps {
   hasGoogleEvents: boolean;
-  view: 'timeline' | 'week' | 'month';
-  onViewChange: (view: 'timeline' | 'week' | 'month') => void;
+  view: ViewMode;
+  onViewChange: (view: ViewMode) => void;
+  onSearch?: () => void;
 }
 
 const CalendarHeader = ({
   hasGoogleEvents,
   view,
-  onViewChange
+  onViewChange,
+  onSearch
 }: CalendarHeaderProps) => {
   return (
     <div className="space-y-3 sm:space-y-4">
       {/* Responsive calendar controls */}
       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-end gap-3 sm:gap-4">
         <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3 sm:gap-4 w-full sm:w-auto">
+          {onSearch && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onSearch}
+              className="bg-gray-100 dark:bg-white/20 backdrop-blur-sm border border-gray-200 dark:border-white/20 text-gray-700 dark:text-white hover:bg-white dark:hover:bg-gray-700"
+              title="Search events (Ctrl+K)"
+            >
+              <Search className="h-4 w-4 mr-1.5" />
+              Search
+            </Button>
+          )}
+
           {/* Always show CalendarSelector - remove conditional rendering */}
           <div className="w-full sm:w-auto">
             <CalendarSelector />
           </div>
+
+          <div className="w-full sm:w-auto">
+            <CategoryFilter />
+          </div>
+
+          <div className="w-full sm:w-auto empty:hidden">
+            <MemberFilter />
+          </div>
           
           <div className="w-full sm:w-auto">
             <ViewSwitcher view={view} onViewChange={onViewChange} />
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { useCalendarSelection } from '@/hooks/useCalendarSelection';
+import { CATEGORY_STYLES } from '@/components/event/eventUtils';
+import { EVENT_CATEGORIES } from '@/utils/eventCategories';
+
+const CategoryFilter = () => {
+  const { categoryFilter, toggleCategory, showAllCategories } = useCalendarSelection();
+  const hiddenCount = EVENT_CATEGORIES.filter(category => categoryFilter[category] === false).length;
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-1 bg-gray-100 dark:bg-white/20 backdrop-blur-sm rounded-lg p-1 border border-gray-200 dark:border-white/20"
+      role="group"
+      aria-label="Filter events by category"
+    >
+      {EVENT_CATEGORIES.map(category => {
+        const isVisible = categoryFilter[category] !== false;
+        return (
+          <Button
+            key={category}
+            variant="ghost"
+            size="sm"
+            aria-pressed={isVisible}
+            onClick={() => toggleCategory(category)}
+            className={isVisible
+              ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm hover:bg-white dark:hover:bg-gray-700'
+              : 'text-gray-500 dark:text-gray-300 line-through hover:bg-white/60 dark:hover:bg-gray-700/60'
+            }
+          >
+            <span className={`h-2 w-2 rounded-full mr-1.5 ${CATEGORY_STYLES[category].dot} ${isVisible ? '' : 'opacity-40'}`} aria-hidden="true" />
+            {category}
+          </Button>
+        );
+      })}
+      {hiddenCount > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={showAllCategories}
+          className="text-gray-700 dark:text-white hover:bg-white dark:hover:bg-gray-700"
+        >
+          Show all
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default CategoryFilter;
@@ -0,0 +1,75 @@
+import React, { useMemo } from 'react';
+import { addDays, format, startOfWeek } from 'date-fns';
+import { AlertTriangle, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Event } from '@/types/calendar';
+import { EventConflict } from '@/utils/conflicts';
+
+interface ConflictsPanelProps {
+  conflicts: EventConflict[];
+  onDismiss: (conflictId: string) => void;
+  onEventClick?: (event: Event) => void;
+}
+
+/** "This week's conflicts": double-bookings from Sunday to Saturday, each dismissable */
+const ConflictsPanel = ({ conflicts, onDismiss, onEventClick }: ConflictsPanelProps) => {
+  const thisWeek = useMemo(() => {
+    const weekStart = startOfWeek(new Date());
+    const weekEnd = addDays(weekStart, 7);
+    return conflicts.filter(conflict => conflict.start >= weekStart && conflict.start < weekEnd);
+  }, [conflicts]);
+
+  if (thisWeek.length === 0) return null;
+
+  const renderEvent = (event: Event) => (
+    <button
+      type="button"
+      onClick={() => onEventClick?.(event)}
+      className="font-medium underline-offset-2 hover:underline"
+    >
+      {event.title}
+    </button>
+  );
+
+  return (
+    <section
+      className="rounded-lg bg-red-50/90 dark:bg-red-950/60 backdrop-blur-sm border border-red-200 dark:border-red-900/60 p-3 text-gray-900 dark:text-gray-100"
+      aria-label="This week's conflicts"
+    >
+      <h2 className="flex items-center gap-2 text-sm font-semibold text-red-700 dark:text-red-300 mb-2">
+        <AlertTriangle className="h-4 w-4" aria-hidden="true" />
+        This week's conflicts
+        <span className="font-normal text-red-600/80 dark:text-red-300/80">({thisWeek.length})</span>
+      </h2>
+      <ul className="space-y-1">
+        {thisWeek.map(conflict => (
+          <li key={conflict.id} className="flex items-center gap-2 text-sm">
+            <span className="w-24 flex-shrink-0 text-xs text-gray-600 dark:text-gray-400">
+              {format(conflict.start, 'EEE h:mm a')}
+            </span>
+            <span className="flex-1 min-w-0 truncate">
+              <span className="font-semibold">{conflict.ownerName}:</span>{' '}
+              {renderEvent(conflict.first)}
+              {conflict.kind === 'overlap'
+                ? ' overlaps '
+                : ` leaves ${conflict.gapMinutes} min to get to `}
+              {renderEvent(conflict.second)}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 flex-shrink-0"
+              onClick={() => onDismiss(conflict.id)}
+              aria-label={`Dismiss conflict between ${conflict.first.title} and ${conflict.second.title}`}
+              title="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default ConflictsPanel;
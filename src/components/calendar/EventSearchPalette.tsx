@@ -0,0 +1,114 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarRange } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Event } from '@/types/calendar';
+import { EventSearchSource, buildSearchIndex, parseSearchQuery, searchEvents } from '@/utils/eventSearch';
+import { formatEventTime } from '@/components/event/eventUtils';
+
+interface EventSearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  events: Event[];
+  onSelectEvent: (event: Event) => void;
+}
+
+const SOURCE_FILTERS: Array<{ source: EventSearchSource; label: string }> = [
+  { source: 'ical', label: 'Calendars' },
+  { source: 'local', label: 'Family' },
+  { source: 'notion', label: 'Notion' }
+];
+
+/** Ctrl+K palette finding events by title, description, location or calendar */
+const EventSearchPalette = ({ open, onOpenChange, events, onSelectEvent }: EventSearchPaletteProps) => {
+  const [input, setInput] = useState('');
+  const [sourceFilter, setSourceFilter] = useState<EventSearchSource[]>([]);
+
+  useEffect(() => {
+    if (!open) {
+      setInput('');
+      setSourceFilter([]);
+    }
+  }, [open]);
+
+  const index = useMemo(() => buildSearchIndex(events), [events]);
+  const query = useMemo(() => {
+    const parsed = parseSearchQuery(input);
+    const sources = [...(parsed.sources || []), ...sourceFilter];
+    return { ...parsed, sources: sources.length > 0 ? sources : undefined };
+  }, [input, sourceFilter]);
+  const results = useMemo(() => searchEvents(index, query), [index, query]);
+  const hasQuery = query.terms.length > 0 || !!query.range || !!query.sources;
+
+  const toggleSource = (source: EventSearchSource) => {
+    setSourceFilter(prev => (prev.includes(source) ? prev.filter(s => s !== source) : [...prev, source]));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg max-w-xl">
+        <DialogTitle className="sr-only">Search events</DialogTitle>
+        {/* Matching is done by the search index, so cmdk's own filter is off */}
+        <Command shouldFilter={false} className="[&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2">
+          <CommandInput
+            value={input}
+            onValueChange={setInput}
+            placeholder='Search events, e.g. "dentist next month"'
+          />
+          <div className="flex flex-wrap items-center gap-1 px-3 py-2 border-b">
+            {SOURCE_FILTERS.map(({ source, label }) => (
+              <Button
+                key={source}
+                size="sm"
+                variant={sourceFilter.includes(source) ? 'secondary' : 'ghost'}
+                aria-pressed={sourceFilter.includes(source)}
+                onClick={() => toggleSource(source)}
+                className="h-7 px-2 text-xs"
+              >
+                {label}
+              </Button>
+            ))}
+            {query.range && (
+              <Badge variant="outline" className="ml-auto">
+                <CalendarRange className="h-3 w-3 mr-1" aria-hidden="true" />
+                {query.range.label}
+              </Badge>
+            )}
+          </div>
+          <CommandList className="max-h-[60vh]">
+            {hasQuery ? (
+              <CommandEmpty>No matching events.</CommandEmpty>
+            ) : (
+              <p className="py-6 text-center text-sm text-muted-foreground">
+                Search by title, place or calendar. Add "tomorrow", "next week" or a month to narrow it down.
+              </p>
+            )}
+            {results.map(({ event }) => (
+              <CommandItem
+                key={String(event.id)}
+                value={String(event.id)}
+                onSelect={() => onSelectEvent(event)}
+                className="flex items-start gap-3"
+              >
+                <span className="mt-1.5 w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: event.color }} aria-hidden="true" />
+                <div className="min-w-0 flex-1">
+                  <div className="font-medium truncate">{event.title}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {format(new Date(event.date), 'EEE, MMM d, yyyy')} · {formatEventTime(event)}
+                    {event.calendarName && ` · ${event.calendarName}`}
+                    {event.location && ` · ${event.location}`}
+                  </div>
+                </div>
+              </CommandItem>
+            ))}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EventSearchPalette;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Palette } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useCalendarSelection } from '@/hooks/useCalendarSelection';
+import { MemberAvatar } from '@/components/event/MemberAvatars';
+
+const MemberFilter = () => {
+  const { familyMembers, memberFilter, toggleMember, showAllMembers, colorByMember, setColorByMember } = useCalendarSelection();
+
+  if (familyMembers.length === 0) return null;
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-1 bg-gray-100 dark:bg-white/20 backdrop-blur-sm rounded-lg p-1 border border-gray-200 dark:border-white/20"
+      role="group"
+      aria-label="Filter events by family member"
+    >
+      {familyMembers.map(member => {
+        // Nobody picked means everybody is shown
+        const isSelected = memberFilter.includes(member.id);
+        const isVisible = memberFilter.length === 0 || isSelected;
+        return (
+          <Button
+            key={member.id}
+            variant="ghost"
+            size="sm"
+            aria-pressed={isSelected}
+            onClick={() => toggleMember(member.id)}
+            className={isSelected
+              ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm hover:bg-white dark:hover:bg-gray-700'
+              : `${isVisible ? 'text-gray-700 dark:text-white' : 'text-gray-500 dark:text-gray-300 opacity-60'} hover:bg-white/60 dark:hover:bg-gray-700/60`
+            }
+          >
+            <MemberAvatar member={member} className="h-5 w-5 text-[9px] mr-1.5 ring-0" />
+            {member.name}
+          </Button>
+        );
+      })}
+      {memberFilter.length > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={showAllMembers}
+          className="text-gray-700 dark:text-white hover:bg-white dark:hover:bg-gray-700"
+        >
+          Show all
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        aria-pressed={colorByMember}
+        onClick={() => setColorByMember(!colorByMember)}
+        title="Color events by family member"
+        className={colorByMember
+          ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm hover:bg-white dark:hover:bg-gray-700'
+          : 'text-gray-700 dark:text-white hover:bg-white/60 dark:hover:bg-gray-700/60'
+        }
+      >
+        <Palette className="h-4 w-4 mr-1.5" />
+        Color by person
+      </Button>
+    </div>
+  );
+};
+
+export default MemberFilter;
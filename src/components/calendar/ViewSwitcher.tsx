@@ -1,11 +1,12 @@
 
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { Calendar as CalendarIcon, Clock, List } from 'lucide-react';
+import { Calendar as CalendarIcon, CalendarRange, Clock, Grid3x3, LayoutList, List, Users } from 'lucide-react';
+import type { ViewMode } from '@/types/calendar';
 
 interface ViewSwitcherProps {
-  view: 'timeline' | 'week' | 'month';
-  onViewChange: (view: 'timeline' | 'week' | 'month') => void;
+  view: ViewMode;
+  onViewChange: (view: ViewMode) => void;
 }
 
 const ViewSwitcher = ({ view, onViewChange }: ViewSwitcherProps) => {
@@ -23,6 +24,18 @@ const ViewSwitcher = ({ view, onViewChange }: ViewSwitcherProps) => {
         <List className="h-4 w-4 mr-1" />
         Timeline
       </Button>
+      <Button
+        variant={view === 'schedule' ? 'default' : 'ghost'}
+        size="sm"
+        onClick={() => onViewChange('schedule')}
+        className={view === 'schedule' 
+          ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm hover:bg-white dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white hover:shadow-sm' 
+          : 'text-gray-700 dark:text-white hover:bg-white dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white hover:shadow-sm'
+        }
+      >
+        <Users className="h-4 w-4 mr-1" />
+        People
+      </Button>
       <Button
         variant={view === 'week' ? 'default' : 'ghost'}
         size="sm"
@@ -35,6 +48,18 @@ const ViewSwitcher = ({ view, onViewChange }: ViewSwitcherProps) => {
         <Clock className="h-4 w-4 mr-1" />
         Week
       </Button>
+      <Button
+        variant={view === 'twoWeek' ? 'default' : 'ghost'}
+        size="sm"
+        onClick={() => onViewChange('twoWeek')}
+        className={view === 'twoWeek' 
+          ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm hover:bg-white dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white hover:shadow-sm' 
+          : 'text-gray-700 dark:text-white hover:bg-white dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white hover:shadow-sm'
+        }
+      >
+        <CalendarRange className="h-4 w-4 mr-1" />
+        2 Weeks
+      </Button>
       <Button
         variant={view === 'month' ? 'default' : 'ghost'}
         size="sm"
@@ -47,6 +72,30 @@ const ViewSwitcher = ({ view, onViewChange }: ViewSwitcherProps) => {
         <CalendarIcon className="h-4 w-4 mr-1" />
         Month
       </Button>
+      <Button
+        variant={view === 'year' ? 'default' : 'ghost'}
+        size="sm"
+        onClick={() => onViewChange('year')}
+        className={view === 'year' 
+          ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm hover:bg-white dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white hover:shadow-sm' 
+          : 'text-gray-700 dark:text-white hover:bg-white dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white hover:shadow-sm'
+        }
+      >
+        <Grid3x3 className="h-4 w-4 mr-1" />
+        Year
+      </Button>
+      <Button
+        variant={view === 'agenda' ? 'default' : 'ghost'}
+        size="sm"
+        onClick={() => onViewChange('agenda')}
+        className={view === 'agenda' 
+          ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm hover:bg-white dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white hover:shadow-sm' 
+          : 'text-gray-700 dark:text-white hover:bg-white dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white hover:shadow-sm'
+        }
+      >
+        <LayoutList className="h-4 w-4 mr-1" />
+        Agenda
+      </Button>
     </div>
   );
 };
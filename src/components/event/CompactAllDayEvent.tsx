@@ -1,45 +1,63 @@
 
 import React from 'react';
-import { Clock } from 'lucide-react';
+import { Clock, Pin, StickyNote } from 'lucide-react';
 import { Event } from '@/types/calendar';
 import EventIcon from './EventIcon';
-import { getEventStyles } from './eventUtils';
+import MemberAvatars from './MemberAvatars';
+import { getEventStatusClasses, getEventStatusLabel, getEventStyles } from './eventUtils';
 
 interface CompactAllDayEventProps {
   event: Event;
   viewMode: string;
   className?: string;
-  onNotionEventClick?: (event: Event) => void;
+  onEventClick?: (event: Event) => void;
 }
 
-const CompactAllDayEvent = ({ event, viewMode, className = '', onNotionEventClick }: CompactAllDayEventProps) => {
+const CompactAllDayEvent = ({ event, viewMode, className = '', onEventClick }: CompactAllDayEventProps) => {
   const styles = getEventStyles(event, viewMode);
+  const statusClasses = getEventStatusClasses(event);
+  const statusLabel = getEventStatusLabel(event);
+
+  const isClickable = !!onEventClick;
 
   const handleClick = () => {
-    if (event.source === 'notion' && onNotionEventClick) {
-      onNotionEventClick(event);
-    }
+    onEventClick?.(event);
   };
 
-  const isClickable = event.source === 'notion';
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (isClickable && (e.key === 'Enter' || e.key === ' ')) {
+      e.preventDefault();
+      onEventClick?.(event);
+    }
+  };
 
   return (
     <article 
-      className={`${styles.paddingClass} rounded-lg ${styles.backgroundOpacity} backdrop-blur-sm border border-gray-200/50 dark:border-gray-700/30 ${styles.timelineStyles} ${className} ${isClickable ? 'cursor-pointer hover:shadow-md transition-shadow' : ''}`}
-      role="article"
-      aria-label={`All day event: ${event.title}`}
+      className={`${styles.paddingClass} rounded-lg ${styles.backgroundOpacity} backdrop-blur-sm border border-gray-200/50 dark:border-gray-700/30 ${styles.categoryAccent} ${styles.timelineStyles} ${statusClasses.container} ${event.pinned ? 'ring-2 ring-amber-400 dark:ring-amber-500' : ''} ${className} ${isClickable ? 'cursor-pointer hover:shadow-md transition-shadow' : ''}`}
+      role={isClickable ? 'button' : 'article'}
+      tabIndex={isClickable ? 0 : undefined}
+      aria-label={`All day event: ${event.title}${statusLabel ? ` (${statusLabel})` : ''}`}
       onClick={handleClick}
+      onKeyDown={handleKeyDown}
     >
       <div className="flex items-center gap-2">
         <EventIcon event={event} isAllDay={true} />
-        <h3 className={`${styles.textColors.title} ${styles.fontSizes.title} truncate flex-1`}>
+        {event.pinned && <Pin className="h-3 w-3 flex-shrink-0 text-amber-500" aria-label="Pinned" />}
+        <h3 className={`${styles.textColors.title} ${styles.fontSizes.title} ${statusClasses.title} truncate flex-1`}>
           {event.title}
         </h3>
+        <MemberAvatars event={event} max={2} />
         <div className={`${styles.fontSizes.time} ${styles.textColors.time} flex items-center gap-1 flex-shrink-0`}>
           <Clock className="h-3 w-3" aria-hidden="true" />
           <span>All Day</span>
         </div>
       </div>
+      {event.note && (
+        <p className={`${styles.fontSizes.time} text-amber-800 dark:text-amber-200 flex items-center gap-1 mt-1 truncate`}>
+          <StickyNote className="h-3 w-3 flex-shrink-0" aria-hidden="true" />
+          {event.note}
+        </p>
+      )}
     </article>
   );
 };
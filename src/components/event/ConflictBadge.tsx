@@ -0,0 +1,27 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { describeConflict, EventConflict } from '@/utils/conflicts';
+
+interface ConflictBadgeProps {
+  conflicts: EventConflict[];
+  className?: string;
+}
+
+/** Warning count for a day's conflicts; hovering lists them */
+const ConflictBadge = ({ conflicts, className = '' }: ConflictBadgeProps) => {
+  if (conflicts.length === 0) return null;
+  const summary = conflicts.map(describeConflict).join('\n');
+
+  return (
+    <span
+      className={`inline-flex items-center gap-0.5 rounded-full bg-red-500 px-1.5 py-0.5 text-[10px] font-semibold leading-none text-white flex-shrink-0 ${className}`}
+      title={summary}
+      aria-label={`${conflicts.length} conflict${conflicts.length !== 1 ? 's' : ''}: ${summary}`}
+    >
+      <AlertTriangle className="h-3 w-3" aria-hidden="true" />
+      {conflicts.length}
+    </span>
+  );
+};
+
+export default ConflictBadge;
@@ -0,0 +1,206 @@
+import React from 'react';
+import { format, subDays } from 'date-fns';
+import { CalendarDays, CalendarPlus, Clock, Download, EyeOff, Layers, MapPin, Pencil, Repeat, StickyNote, User, Users } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import WeatherDisplay from '@/components/WeatherDisplay';
+import { Event } from '@/types/calendar';
+import { useEventOverrides } from '@/hooks/useEventOverrides';
+import { downloadEventICS } from '@/utils/eventExport';
+import { describeRRule } from '@/utils/localEvents';
+import { formatEventTime, getDescriptionSegments, getEventStatusLabel } from './eventUtils';
+import EventReminders from './EventReminders';
+
+interface WeatherInfo {
+  temp: number;
+  condition: string;
+  highTemp?: number;
+  lowTemp?: number;
+}
+
+interface EventDetailModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  event: Event | null;
+  getWeatherForDate?: (date: Date) => WeatherInfo;
+  /** Opens a local event in the editor */
+  onEdit?: (event: Event) => void;
+  /** Copies the occurrence into the Family Calendar */
+  onCopyToLocal?: (event: Event) => void;
+}
+
+const formatEventDate = (event: Event): string => {
+  if (event.allDay && event.isMultiDay && event.end) {
+    return `${format(new Date(event.start), 'EEE, MMM d')} - ${format(subDays(new Date(event.end), 1), 'EEE, MMM d, yyyy')}`;
+  }
+  return format(new Date(event.date), 'EEEE, MMMM d, yyyy');
+};
+
+const ATTENDEE_STATUS_LABELS: Record<string, string> = {
+  accepted: 'Going',
+  declined: 'Not going',
+  tentative: 'Maybe',
+  'needs-action': 'No reply'
+};
+
+/** Details of any event, whichever calendar it came from, with household actions */
+const EventDetailModal = ({ open, onOpenChange, event, getWeatherForDate, onEdit, onCopyToLocal }: EventDetailModalProps) => {
+  const { updateOverride } = useEventOverrides();
+
+  if (!event) return null;
+
+  const statusLabel = getEventStatusLabel(event);
+  const descriptionSegments = event.description ? getDescriptionSegments(event.description) : [];
+  const sources = event.mergedFrom && event.mergedFrom.length > 1
+    ? event.mergedFrom
+    : [{ calendarId: event.calendarId, calendarName: event.calendarName, color: event.color }];
+  const weather = getWeatherForDate?.(new Date(event.date));
+  const isLocal = event.source === 'local' && !!event.uid;
+
+  const handleHide = () => {
+    updateOverride(event, { hidden: true });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 pr-6 break-words">
+            {event.title}
+            {statusLabel && <Badge variant="outline" className="uppercase tracking-wide">{statusLabel}</Badge>}
+          </DialogTitle>
+          <DialogDescription className="flex flex-wrap items-center gap-x-3 gap-y-1">
+            <span className="inline-flex items-center gap-1">
+              <CalendarDays className="h-4 w-4" aria-hidden="true" />
+              {formatEventDate(event)}
+            </span>
+            <span className="inline-flex items-center gap-1">
+              <Clock className="h-4 w-4" aria-hidden="true" />
+              {formatEventTime(event)}
+            </span>
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 text-sm text-gray-700 dark:text-gray-300">
+          {event.recurrenceRule ? (
+            <p className="flex items-center gap-2">
+              <Repeat className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
+              {describeRRule(event.recurrenceRule)}
+            </p>
+          ) : event.isRecurring && (
+            <p className="flex items-center gap-2">
+              <Repeat className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
+              Repeats
+            </p>
+          )}
+
+          {event.location && (
+            <p className="flex items-start gap-2">
+              <MapPin className="h-4 w-4 flex-shrink-0 mt-0.5" aria-hidden="true" />
+              <address className="not-italic break-words">{event.location}</address>
+            </p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+            <Layers className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
+            {sources.map(source => (
+              <span key={source.calendarId || 'source'} className="inline-flex items-center gap-1">
+                <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: source.color }} aria-hidden="true" />
+                {source.calendarName || 'Unnamed calendar'}
+              </span>
+            ))}
+          </div>
+
+          {weather && (
+            <div className="flex items-center gap-2">
+              <WeatherDisplay weather={weather} />
+            </div>
+          )}
+
+          {event.note && (
+            <p className="flex items-start gap-2 text-amber-800 dark:text-amber-200">
+              <StickyNote className="h-4 w-4 flex-shrink-0 mt-0.5" aria-hidden="true" />
+              <span className="whitespace-pre-line">{event.note}</span>
+            </p>
+          )}
+
+          <EventReminders event={event} />
+
+          {event.organizerEmail && (
+            <p className="flex items-center gap-2">
+              <User className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
+              Organized by {event.organizer || event.organizerEmail}
+            </p>
+          )}
+
+          {event.attendeeList && event.attendeeList.length > 0 && (
+            <div className="space-y-1">
+              <p className="flex items-center gap-2 font-medium text-gray-900 dark:text-gray-100">
+                <Users className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
+                {event.attendeeList.length} attendee{event.attendeeList.length !== 1 ? 's' : ''}
+              </p>
+              <ul className="pl-6 space-y-0.5">
+                {event.attendeeList.map((attendee, index) => (
+                  <li key={attendee.email || index} className="flex items-center justify-between gap-2">
+                    <span className="truncate">{attendee.name || attendee.email || 'Unknown'}</span>
+                    {attendee.status && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                        {ATTENDEE_STATUS_LABELS[attendee.status] || attendee.status}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {descriptionSegments.length > 0 && (
+            <p className="whitespace-pre-line break-words border-t border-gray-200 dark:border-gray-700 pt-3">
+              {descriptionSegments.map((segment, index) =>
+                segment.href ? (
+                  <a
+                    key={index}
+                    href={segment.href}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 underline underline-offset-2 break-all"
+                  >
+                    {segment.text}
+                  </a>
+                ) : (
+                  <React.Fragment key={index}>{segment.text}</React.Fragment>
+                )
+              )}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-start flex-wrap">
+          {isLocal && onEdit ? (
+            <Button size="sm" variant="outline" onClick={() => onEdit(event)}>
+              <Pencil className="h-4 w-4 mr-1" />
+              Edit
+            </Button>
+          ) : onCopyToLocal && (
+            <Button size="sm" variant="outline" onClick={() => onCopyToLocal(event)}>
+              <CalendarPlus className="h-4 w-4 mr-1" />
+              Copy to Family Calendar
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={() => downloadEventICS(event)}>
+            <Download className="h-4 w-4 mr-1" />
+            Download .ics
+          </Button>
+          <Button size="sm" variant="ghost" onClick={handleHide} title="Restore hidden events from Settings">
+            <EyeOff className="h-4 w-4 mr-1" />
+            Hide this occurrence
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EventDetailModal;
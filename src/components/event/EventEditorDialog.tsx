@@ -0,0 +1,287 @@
+import React, { useEffect, useState } from 'react';
+import { addDays, format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Event } from '@/types/calendar';
+import { EVENT_CATEGORIES } from '@/utils/eventCategories';
+import { LocalEventDraft } from '@/utils/localEvents';
+import { EVENT_COLORS } from './eventUtils';
+import RecurrenceBuilder from './RecurrenceBuilder';
+
+interface EventEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Event to edit; drafts without a UID create a new event */
+  draft: LocalEventDraft;
+  onSave: (draft: LocalEventDraft) => Promise<unknown>;
+  onDelete?: (uid: string) => Promise<unknown>;
+}
+
+// Date and time inputs work on "yyyy-MM-dd" and "HH:mm" strings in local time
+const toDateValue = (date: Date) => format(date, 'yyyy-MM-dd');
+const toTimeValue = (date: Date) => format(date, 'HH:mm');
+const fromInputs = (dateValue: string, timeValue = '00:00'): Date | null => {
+  const [year, month, day] = dateValue.split('-').map(Number);
+  const [hours, minutes] = timeValue.split(':').map(Number);
+  if (!year || !month || !day) return null;
+  return new Date(year, month - 1, day, hours || 0, minutes || 0);
+};
+
+interface FormState {
+  title: string;
+  allDay: boolean;
+  startDate: string;
+  startTime: string;
+  endDate: string;
+  endTime: string;
+  location: string;
+  description: string;
+  category: Event['category'];
+  color?: string;
+  recurrence: LocalEventDraft['recurrence'];
+}
+
+const toFormState = (draft: LocalEventDraft): FormState => ({
+  title: draft.title,
+  allDay: draft.allDay,
+  startDate: toDateValue(draft.start),
+  startTime: toTimeValue(draft.start),
+  // All-day drafts end on the following midnight; the form shows the last day
+  endDate: toDateValue(draft.allDay ? addDays(draft.end, -1) : draft.end),
+  endTime: toTimeValue(draft.end),
+  location: draft.location,
+  description: draft.description,
+  category: draft.category,
+  color: draft.color,
+  recurrence: draft.recurrence
+});
+
+/** Creates, edits and deletes events of the local "Family Calendar" */
+const EventEditorDialog = ({ open, onOpenChange, draft, onSave, onDelete }: EventEditorDialogProps) => {
+  const { toast } = useToast();
+  const [form, setForm] = useState<FormState>(() => toFormState(draft));
+  const [isSaving, setIsSaving] = useState(false);
+  const isEditing = !!draft.uid;
+
+  useEffect(() => {
+    setForm(toFormState(draft));
+  }, [draft]);
+
+  const update = (updates: Partial<FormState>) => setForm(prev => ({ ...prev, ...updates }));
+
+  const start = fromInputs(form.startDate, form.allDay ? undefined : form.startTime);
+  const lastDay = fromInputs(form.endDate, form.allDay ? undefined : form.endTime);
+  const end = lastDay && form.allDay ? addDays(lastDay, 1) : lastDay;
+  const error = !form.title.trim()
+    ? 'Enter a title'
+    : !start || !end
+      ? 'Enter a start and end'
+      : end <= start
+        ? 'The event has to end after it starts'
+        : null;
+
+  const handleSave = async () => {
+    if (error || !start || !end) return;
+    setIsSaving(true);
+    try {
+      await onSave({
+        uid: draft.uid,
+        title: form.title.trim(),
+        start,
+        end,
+        allDay: form.allDay,
+        location: form.location,
+        description: form.description,
+        category: form.category,
+        color: form.color,
+        recurrence: form.recurrence
+      });
+      onOpenChange(false);
+    } catch (saveError) {
+      toast({
+        title: 'Could not save event',
+        description: saveError instanceof Error ? saveError.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft.uid || !onDelete) return;
+    const message = form.recurrence ? `Delete every occurrence of "${draft.title}"?` : `Delete "${draft.title}"?`;
+    if (!window.confirm(message)) return;
+    setIsSaving(true);
+    try {
+      await onDelete(draft.uid);
+      onOpenChange(false);
+    } catch (deleteError) {
+      toast({
+        title: 'Could not delete event',
+        description: deleteError instanceof Error ? deleteError.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800">
+        <DialogHeader>
+          <DialogTitle className="text-gray-900 dark:text-gray-100">{isEditing ? 'Edit event' : 'New event'}</DialogTitle>
+          <DialogDescription className="text-gray-600 dark:text-gray-400">
+            {isEditing && form.recurrence
+              ? 'Changes apply to every occurrence.'
+              : 'Saved to the Family Calendar on this device.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="event-title">Title</Label>
+            <Input
+              id="event-title"
+              value={form.title}
+              onChange={e => update({ title: e.target.value })}
+              placeholder="Soccer practice"
+              autoFocus
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="event-all-day">All day</Label>
+            <Switch id="event-all-day" checked={form.allDay} onCheckedChange={allDay => update({ allDay })} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="event-start-date">Starts</Label>
+              <Input
+                id="event-start-date"
+                type="date"
+                value={form.startDate}
+                onChange={e => {
+                  // Keep the end on the same offset from the start when the start day moves
+                  const previous = fromInputs(form.startDate);
+                  const next = fromInputs(e.target.value);
+                  const currentEnd = fromInputs(form.endDate);
+                  const endDate = previous && next && currentEnd
+                    ? toDateValue(addDays(currentEnd, Math.round((next.getTime() - previous.getTime()) / 86400000)))
+                    : form.endDate;
+                  update({ startDate: e.target.value, endDate });
+                }}
+              />
+              {!form.allDay && (
+                <Input
+                  type="time"
+                  value={form.startTime}
+                  onChange={e => update({ startTime: e.target.value })}
+                  aria-label="Start time"
+                />
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="event-end-date">Ends</Label>
+              <Input
+                id="event-end-date"
+                type="date"
+                value={form.endDate}
+                min={form.startDate}
+                onChange={e => update({ endDate: e.target.value })}
+              />
+              {!form.allDay && (
+                <Input
+                  type="time"
+                  value={form.endTime}
+                  onChange={e => update({ endTime: e.target.value })}
+                  aria-label="End time"
+                />
+              )}
+            </div>
+          </div>
+
+          {start && (
+            <RecurrenceBuilder
+              value={form.recurrence}
+              start={start}
+              onChange={recurrence => update({ recurrence })}
+            />
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="event-location">Location</Label>
+            <Input id="event-location" value={form.location} onChange={e => update({ location: e.target.value })} />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="event-description">Description</Label>
+            <Textarea
+              id="event-description"
+              value={form.description}
+              onChange={e => update({ description: e.target.value })}
+              rows={3}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 items-end">
+            <div className="space-y-1">
+              <Label>Category</Label>
+              <Select value={form.category} onValueChange={(category: Event['category']) => update({ category })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EVENT_CATEGORIES.map(category => (
+                    <SelectItem key={category} value={category}>{category}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-wrap items-center gap-1 pb-2" role="group" aria-label="Event color">
+              {EVENT_COLORS.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  className={`w-5 h-5 rounded-full border-2 ${form.color === color ? 'border-gray-900 dark:border-gray-100' : 'border-gray-300 dark:border-gray-600'}`}
+                  style={{ backgroundColor: color }}
+                  onClick={() => update({ color: form.color === color ? undefined : color })}
+                  aria-label={`Color ${color}`}
+                  aria-pressed={form.color === color}
+                />
+              ))}
+            </div>
+          </div>
+
+          {error && form.title && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {isEditing && onDelete ? (
+            <Button variant="destructive" onClick={handleDelete} disabled={isSaving}>
+              Delete
+            </Button>
+          ) : <span />}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !!error}>
+              {isEditing ? 'Save changes' : 'Add event'}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EventEditorDialog;
@@ -2,6 +2,7 @@
 import React from 'react';
 import { Utensils, Database } from 'lucide-react';
 import { Event } from '@/types/calendar';
+import { RULE_ICONS } from './eventUtils';
 
 interface EventIconProps {
   event: Event;
@@ -11,6 +12,18 @@ interface EventIconProps {
 const EventIcon = ({ event, isAllDay }: EventIconProps) => {
   const iconSize = isAllDay ? "h-2 w-2" : "h-3 w-3";
   const iconColor = event.color || '#3b82f6';
+
+  const ruleIcon = event.icon && RULE_ICONS[event.icon];
+  if (ruleIcon) {
+    const Icon = ruleIcon.icon;
+    return (
+      <Icon
+        className={`${iconSize} flex-shrink-0`}
+        style={{ color: iconColor }}
+        aria-label={`${ruleIcon.label}: ${event.calendarName || event.category}`}
+      />
+    );
+  }
   
   if (event.source === 'notion') {
     // Check if it's a scraped event (organizer contains "Scraped")
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { EyeOff, Pin, PinOff, StickyNote } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Event } from '@/types/calendar';
+import { useEventOverrides } from '@/hooks/useEventOverrides';
+
+interface EventOverrideControlsProps {
+  event: Event;
+}
+
+/** Pin, annotate or hide one occurrence without changing it at its source */
+const EventOverrideControls = ({ event }: EventOverrideControlsProps) => {
+  const { updateOverride } = useEventOverrides();
+  const [isEditingNote, setIsEditingNote] = useState(false);
+  const [note, setNote] = useState(event.note || '');
+
+  // Controls sit inside clickable event cards; keep clicks from toggling the card
+  const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+  const saveNote = () => {
+    updateOverride(event, { note });
+    setIsEditingNote(false);
+  };
+
+  return (
+    <div className="space-y-2" onClick={stop} onKeyDown={stop}>
+      {isEditingNote && (
+        <div className="space-y-1">
+          <Textarea
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            placeholder="Bring snacks"
+            rows={2}
+            className="text-sm"
+            aria-label="Household note"
+            autoFocus
+          />
+          <div className="flex gap-1">
+            <Button size="sm" onClick={saveNote}>Save note</Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                setNote(event.note || '');
+                setIsEditingNote(false);
+              }}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-1">
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => updateOverride(event, { pinned: !event.pinned })}
+          aria-pressed={!!event.pinned}
+          className="h-7 px-2 text-xs"
+        >
+          {event.pinned ? <PinOff className="h-3 w-3 mr-1" /> : <Pin className="h-3 w-3 mr-1" />}
+          {event.pinned ? 'Unpin' : 'Pin'}
+        </Button>
+        {!isEditingNote && (
+          <Button size="sm" variant="ghost" onClick={() => setIsEditingNote(true)} className="h-7 px-2 text-xs">
+            <StickyNote className="h-3 w-3 mr-1" />
+            {event.note ? 'Edit note' : 'Add note'}
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => updateOverride(event, { hidden: true })}
+          className="h-7 px-2 text-xs"
+          title="Hide this occurrence; restore it from Settings"
+        >
+          <EyeOff className="h-3 w-3 mr-1" />
+          Hide
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default EventOverrideControls;
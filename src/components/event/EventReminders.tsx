@@ -0,0 +1,72 @@
+import React from 'react';
+import { Bell, X } from 'lucide-react';
+import { Event } from '@/types/calendar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useReminderSettings } from '@/hooks/useReminders';
+import { formatReminderLead, getEventReminderLeads, REMINDER_PRESETS } from '@/utils/reminders';
+import { fromZoneWallTime, getHouseholdTimeZone } from '@/utils/timeZoneUtils';
+
+interface EventRemindersProps {
+  event: Event;
+}
+
+/** Reminders of one occurrence: the calendar's own, plus ones the household adds with "Remind me" */
+const EventReminders = ({ event }: EventRemindersProps) => {
+  const { reminders, calendarDefaults, addReminder, removeReminder } = useReminderSettings();
+  const added = reminders.filter(reminder => reminder.eventId === String(event.id));
+  const inherited = getEventReminderLeads(event, calendarDefaults);
+  const isUpcoming = fromZoneWallTime(new Date(event.start), getHouseholdTimeZone()).getTime() > Date.now();
+
+  if (!isUpcoming && added.length === 0 && inherited.length === 0) return null;
+
+  const available = REMINDER_PRESETS.filter(lead => !added.some(reminder => reminder.minutesBefore === lead));
+
+  return (
+    <div className="space-y-1">
+      <p className="flex items-center gap-2 font-medium text-gray-900 dark:text-gray-100">
+        <Bell className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
+        Reminders
+      </p>
+      <ul className="pl-6 space-y-0.5">
+        {inherited.map(lead => (
+          <li key={`calendar-${lead}`} className="flex items-center justify-between gap-2">
+            <span>{formatReminderLead(lead)}</span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {event.alarms?.length ? 'From the event' : 'Calendar default'}
+            </span>
+          </li>
+        ))}
+        {added.map(reminder => (
+          <li key={reminder.id} className="flex items-center justify-between gap-2">
+            <span>{formatReminderLead(reminder.minutesBefore)}</span>
+            <button
+              type="button"
+              onClick={() => removeReminder(reminder.id)}
+              className="text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300"
+              aria-label={`Remove reminder ${formatReminderLead(reminder.minutesBefore).toLowerCase()}`}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      {isUpcoming && available.length > 0 && (
+        <div className="pl-6">
+          {/* Keyed by count so the trigger goes back to its placeholder after each pick */}
+          <Select key={added.length} onValueChange={value => addReminder(event, Number(value))}>
+            <SelectTrigger className="h-8 w-48 text-xs" aria-label="Remind me">
+              <SelectValue placeholder="Remind me..." />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map(lead => (
+                <SelectItem key={lead} value={String(lead)}>{formatReminderLead(lead)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventReminders;
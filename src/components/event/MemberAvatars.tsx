@@ -0,0 +1,57 @@
+import React, { useContext } from 'react';
+import { Event, FamilyMember } from '@/types/calendar';
+import { CalendarSelectionContext } from '@/hooks/CalendarSelectionContext';
+import { getMemberInitials } from '@/utils/familyMembers';
+
+interface MemberAvatarProps {
+  member: FamilyMember;
+  className?: string;
+}
+
+/** Round picture of a member, or their initials on their color */
+export const MemberAvatar = ({ member, className = 'h-5 w-5 text-[9px]' }: MemberAvatarProps) => (
+  <span
+    className={`inline-flex items-center justify-center rounded-full font-semibold text-white ring-2 ring-white dark:ring-gray-800 overflow-hidden flex-shrink-0 ${className}`}
+    style={{ backgroundColor: member.color }}
+    title={member.name}
+  >
+    {member.avatarUrl ? (
+      <img src={member.avatarUrl} alt={member.name} className="h-full w-full object-cover" />
+    ) : (
+      <span aria-label={member.name}>{getMemberInitials(member.name)}</span>
+    )}
+  </span>
+);
+
+interface MemberAvatarsProps {
+  event: Pick<Event, 'memberIds'>;
+  /** Avatars shown before the rest fold into "+N" */
+  max?: number;
+  className?: string;
+}
+
+/** Overlapping avatars of the members an event belongs to; nothing when it has none */
+const MemberAvatars = ({ event, max = 3, className = '' }: MemberAvatarsProps) => {
+  // Optional so events still render outside the selection provider
+  const selection = useContext(CalendarSelectionContext);
+  if (!selection || !event.memberIds?.length) return null;
+
+  const members = event.memberIds
+    .map(id => selection.familyMembers.find(member => member.id === id))
+    .filter((member): member is FamilyMember => !!member);
+  if (members.length === 0) return null;
+
+  const hidden = members.length - max;
+  return (
+    <span className={`inline-flex items-center -space-x-1.5 flex-shrink-0 ${className}`} aria-label={`For ${members.map(member => member.name).join(', ')}`}>
+      {members.slice(0, max).map(member => <MemberAvatar key={member.id} member={member} />)}
+      {hidden > 0 && (
+        <span className="inline-flex h-5 w-5 items-center justify-center rounded-full bg-gray-200 dark:bg-gray-600 text-[9px] font-semibold text-gray-700 dark:text-gray-200 ring-2 ring-white dark:ring-gray-800">
+          +{hidden}
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default MemberAvatars;
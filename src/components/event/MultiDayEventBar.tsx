@@ -0,0 +1,112 @@
+import React from 'react';
+import { format, subDays } from 'date-fns';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Event } from '@/types/calendar';
+import { getEventDayRange } from '@/utils/multiDayLayout';
+import { getEventStatusClasses, getEventStatusLabel } from './eventUtils';
+import EventIcon from './EventIcon';
+
+interface MultiDayEventBarProps {
+  event: Event;
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+  /** `bar` is a compact lane in a day grid, `card` a standalone row in a list of days */
+  variant?: 'bar' | 'card';
+  className?: string;
+  style?: React.CSSProperties;
+  onEventClick?: (event: Event) => void;
+}
+
+const MultiDayEventBar = ({
+  event,
+  continuesBefore,
+  continuesAfter,
+  variant = 'bar',
+  className = '',
+  style,
+  onEventClick
+}: MultiDayEventBarProps) => {
+  const color = event.color || '#3b82f6';
+  const range = getEventDayRange(event);
+  const continuedFromLabel = `Continued from ${format(range.start, 'EEE, MMM d')}`;
+  const continuesLabel = `Continues until ${format(subDays(range.end, 1), 'EEE, MMM d')}`;
+  const isClickable = !!onEventClick;
+  const statusClasses = getEventStatusClasses(event);
+  const statusLabel = getEventStatusLabel(event);
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (!isClickable) return;
+    e.stopPropagation();
+    onEventClick?.(event);
+  };
+
+  const ariaLabel = [
+    `Multi-day event: ${event.title}`,
+    statusLabel,
+    continuesBefore ? continuedFromLabel : '',
+    continuesAfter ? continuesLabel : ''
+  ].filter(Boolean).join(', ');
+
+  if (variant === 'card') {
+    return (
+      <article
+        className={`px-2 py-1 rounded-lg bg-white/90 dark:bg-gray-800/75 backdrop-blur-sm border border-gray-200/50 dark:border-gray-700/30 border-l-4 ${statusClasses.container} ${className} ${isClickable ? 'cursor-pointer hover:shadow-md transition-shadow' : ''}`}
+        style={{ borderLeftColor: color, ...style }}
+        role="article"
+        aria-label={ariaLabel}
+        onClick={handleClick}
+      >
+        <div className="flex items-center gap-2">
+          <EventIcon event={event} isAllDay={true} />
+          <h3 className={`font-medium text-gray-800 dark:text-gray-100 text-sm truncate flex-1 ${statusClasses.title}`}>
+            {event.title}
+          </h3>
+        </div>
+        {(continuesBefore || continuesAfter) && (
+          <div className="flex items-center justify-between gap-2 mt-0.5 text-xs text-gray-600 dark:text-gray-300">
+            {continuesBefore ? (
+              <span className="flex items-center gap-0.5 truncate">
+                <ChevronLeft className="h-3 w-3 flex-shrink-0" aria-hidden="true" />
+                {continuedFromLabel}
+              </span>
+            ) : <span />}
+            {continuesAfter && (
+              <span className="flex items-center gap-0.5 truncate">
+                {continuesLabel}
+                <ChevronRight className="h-3 w-3 flex-shrink-0" aria-hidden="true" />
+              </span>
+            )}
+          </div>
+        )}
+      </article>
+    );
+  }
+
+  // Tint over an opaque base so bars stay readable on photo backgrounds
+  return (
+    <div
+      className={`flex items-center gap-0.5 h-5 px-1 text-xs text-gray-900 dark:text-gray-100 bg-white/90 dark:bg-gray-800/80 truncate ${
+        continuesBefore ? 'rounded-l-none' : 'rounded-l'
+      } ${continuesAfter ? 'rounded-r-none' : 'rounded-r'} ${isClickable ? 'cursor-pointer' : ''} ${statusClasses.container} ${className}`}
+      style={{ backgroundImage: `linear-gradient(${color}40, ${color}40)`, borderLeft: continuesBefore ? undefined : `3px solid ${color}`, ...style }}
+      role="article"
+      aria-label={ariaLabel}
+      title={event.title}
+      onClick={handleClick}
+    >
+      {continuesBefore && (
+        <ChevronLeft className="h-3 w-3 flex-shrink-0" aria-hidden="true">
+          <title>{continuedFromLabel}</title>
+        </ChevronLeft>
+      )}
+      <span className={`truncate flex-1 ${statusClasses.title}`}>{event.title}</span>
+      {continuesAfter && (
+        <ChevronRight className="h-3 w-3 flex-shrink-0" aria-hidden="true">
+          <title>{continuesLabel}</title>
+        </ChevronRight>
+      )}
+    </div>
+  );
+};
+
+export default MultiDayEventBar;
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from '@/components/ui/select';
+import { LocalRecurrence, RecurrenceFrequency, WEEKDAYS, Weekday, describeRecurrence } from '@/utils/localEvents';
+
+type RepeatMode = 'none' | 'daily' | 'weekly' | 'monthly' | 'custom';
+type EndMode = 'never' | 'until' | 'count';
+
+interface RecurrenceBuilderProps {
+  value?: LocalRecurrence;
+  /** Start of the event; weekly rules default to its weekday */
+  start: Date;
+  onChange: (value: LocalRecurrence | undefined) => void;
+}
+
+const WEEKDAY_LABELS: Record<Weekday, string> = { SU: 'S', MO: 'M', TU: 'T', WE: 'W', TH: 'T', FR: 'F', SA: 'S' };
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  SU: 'Sunday', MO: 'Monday', TU: 'Tuesday', WE: 'Wednesday', TH: 'Thursday', FR: 'Friday', SA: 'Saturday'
+};
+
+const getRepeatMode = (value: LocalRecurrence | undefined, start: Date): RepeatMode => {
+  if (!value) return 'none';
+  if (value.interval !== 1) return 'custom';
+  if (value.frequency === 'daily' || value.frequency === 'monthly') return value.frequency;
+  const startDay = WEEKDAYS[start.getDay()];
+  if (value.frequency === 'weekly' && (value.byDay.length === 0 || (value.byDay.length === 1 && value.byDay[0] === startDay))) {
+    return 'weekly';
+  }
+  return 'custom';
+};
+
+const getEndMode = (value: LocalRecurrence | undefined): EndMode =>
+  value?.until ? 'until' : value?.count ? 'count' : 'never';
+
+/** Builds the RRULE of a local event: simple presets, or a custom interval, weekdays and end */
+const RecurrenceBuilder = ({ value, start, onChange }: RecurrenceBuilderProps) => {
+  const [mode, setMode] = useState<RepeatMode>(() => getRepeatMode(value, start));
+  const endMode = getEndMode(value);
+
+  const handleModeChange = (next: RepeatMode) => {
+    setMode(next);
+    const ending = { until: value?.until, count: value?.count };
+    if (next === 'none') onChange(undefined);
+    else if (next === 'custom') onChange({ frequency: value?.frequency || 'weekly', interval: value?.interval || 1, byDay: value?.byDay || [], ...ending });
+    else onChange({ frequency: next, interval: 1, byDay: [], ...ending });
+  };
+
+  const handleEndModeChange = (next: EndMode) => {
+    if (!value) return;
+    if (next === 'never') onChange({ ...value, until: undefined, count: undefined });
+    else if (next === 'until') onChange({ ...value, until: value.until || new Date(start.getFullYear(), start.getMonth() + 3, start.getDate()), count: undefined });
+    else onChange({ ...value, until: undefined, count: value.count || 10 });
+  };
+
+  const toggleWeekday = (day: Weekday) => {
+    if (!value) return;
+    // An empty list means "the start's weekday"; make that explicit before toggling
+    const current = value.byDay.length > 0 ? value.byDay : [WEEKDAYS[start.getDay()]];
+    const byDay = current.includes(day) ? current.filter(d => d !== day) : [...current, day];
+    onChange({ ...value, byDay: byDay.length > 0 ? byDay : current });
+  };
+
+  const selectedDays = value && value.byDay.length > 0 ? value.byDay : [WEEKDAYS[start.getDay()]];
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label>Repeat</Label>
+          <Select value={mode} onValueChange={(next: RepeatMode) => handleModeChange(next)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Does not repeat</SelectItem>
+              <SelectItem value="daily">Daily</SelectItem>
+              <SelectItem value="weekly">Weekly on {format(start, 'EEEE')}</SelectItem>
+              <SelectItem value="monthly">Monthly on day {start.getDate()}</SelectItem>
+              <SelectItem value="custom">Custom…</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {value && (
+          <div className="space-y-1">
+            <Label>Ends</Label>
+            <Select value={endMode} onValueChange={(next: EndMode) => handleEndModeChange(next)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="until">On date</SelectItem>
+                <SelectItem value="count">After a number of times</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {value && mode === 'custom' && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-700 dark:text-gray-300">Every</span>
+          <Input
+            type="number"
+            min={1}
+            value={value.interval}
+            onChange={e => onChange({ ...value, interval: Math.max(1, Number(e.target.value) || 1) })}
+            className="w-20"
+            aria-label="Repeat interval"
+          />
+          <Select
+            value={value.frequency}
+            onValueChange={(frequency: RecurrenceFrequency) => onChange({ ...value, frequency, byDay: frequency === 'weekly' ? value.byDay : [] })}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="daily">day(s)</SelectItem>
+              <SelectItem value="weekly">week(s)</SelectItem>
+              <SelectItem value="monthly">month(s)</SelectItem>
+              <SelectItem value="yearly">year(s)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {value && mode === 'custom' && value.frequency === 'weekly' && (
+        <div className="flex items-center gap-1" role="group" aria-label="Repeat on">
+          {WEEKDAYS.map(day => {
+            const isSelected = selectedDays.includes(day);
+            return (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                aria-pressed={isSelected}
+                aria-label={WEEKDAY_NAMES[day]}
+                className={`w-8 h-8 rounded-full text-xs font-medium ${
+                  isSelected ? 'bg-blue-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                {WEEKDAY_LABELS[day]}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {value && endMode === 'until' && value.until && (
+        <Input
+          type="date"
+          value={format(value.until, 'yyyy-MM-dd')}
+          min={format(start, 'yyyy-MM-dd')}
+          onChange={e => {
+            const [year, month, day] = e.target.value.split('-').map(Number);
+            if (year && month && day) onChange({ ...value, until: new Date(year, month - 1, day) });
+          }}
+          aria-label="Repeat until"
+        />
+      )}
+
+      {value && endMode === 'count' && (
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={1}
+            value={value.count || 1}
+            onChange={e => onChange({ ...value, count: Math.max(1, Number(e.target.value) || 1) })}
+            className="w-20"
+            aria-label="Number of occurrences"
+          />
+          <span className="text-sm text-gray-700 dark:text-gray-300">times</span>
+        </div>
+      )}
+
+      {value && <p className="text-xs text-gray-500 dark:text-gray-400">{describeRecurrence(value)}</p>}
+    </div>
+  );
+};
+
+export default RecurrenceBuilder;
@@ -1,9 +1,12 @@
 
-import React from 'react';
-import { Clock, MapPin, ChevronDown, ChevronUp, ExternalLink } from 'lucide-react';
+import React, { useContext } from 'react';
+import { Clock, MapPin, ChevronDown, ChevronUp, ExternalLink, Repeat, Video, Link2, Lock, Layers, Pin, StickyNote, Info } from 'lucide-react';
 import { Event } from '@/types/calendar';
+import { CalendarSelectionContext } from '@/hooks/CalendarSelectionContext';
 import EventIcon from './EventIcon';
-import { getEventStyles, hasAdditionalData } from './eventUtils';
+import EventOverrideControls from './EventOverrideControls';
+import MemberAvatars from './MemberAvatars';
+import { formatEventTime, getEventLink, getEventStatusClasses, getEventStatusLabel, getEventStyles } from './eventUtils';
 
 interface RegularEventProps {
   event: Event;
@@ -12,7 +15,7 @@ interface RegularEventProps {
   showBoldHeader?: boolean;
   isExpanded: boolean;
   onToggleExpanded: () => void;
-  onNotionEventClick?: (event: Event) => void;
+  onEventClick?: (event: Event) => void;
 }
 
 const RegularEvent = ({ 
@@ -22,10 +25,17 @@ const RegularEvent = ({
   showBoldHeader = false,
   isExpanded,
   onToggleExpanded,
-  onNotionEventClick
+  onEventClick
 }: RegularEventProps) => {
   const styles = getEventStyles(event, viewMode);
-  const isInteractive = (viewMode === 'timeline' || viewMode === 'week') && hasAdditionalData(event) && !styles.isAllDay;
+  const statusClasses = getEventStatusClasses(event);
+  const statusLabel = getEventStatusLabel(event);
+  const link = getEventLink(event);
+  // Optional so events still render outside the selection provider
+  const selection = useContext(CalendarSelectionContext);
+  const mergedSources = event.mergedFrom && event.mergedFrom.length > 1 ? event.mergedFrom : null;
+  // Every timed event expands, at least to offer the household pin/note/hide controls
+  const isInteractive = (viewMode === 'timeline' || viewMode === 'week') && !styles.isAllDay;
   
   // Check if this is a Notion event with a source URL
   const hasNotionUrl = event.source === 'notion' && 'notionUrl' in event && event.notionUrl;
@@ -33,9 +43,12 @@ const RegularEvent = ({
   // Check if this is a Notion API event (has properties indicating it came from Notion API)
   const isNotionApiEvent = event.source === 'notion' && 'properties' in event;
 
+  // Notion pages open right away; other cards expand first where they can
+  const opensDetails = !!onEventClick && (isNotionApiEvent || !isInteractive);
+
   const handleClick = () => {
-    if (isNotionApiEvent && onNotionEventClick) {
-      onNotionEventClick(event);
+    if (opensDetails) {
+      onEventClick?.(event);
     } else if (isInteractive) {
       onToggleExpanded();
     }
@@ -44,11 +57,7 @@ const RegularEvent = ({
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' || e.key === ' ') {
       e.preventDefault();
-      if (isNotionApiEvent && onNotionEventClick) {
-        onNotionEventClick(event);
-      } else if (isInteractive) {
-        onToggleExpanded();
-      }
+      handleClick();
     }
   };
 
@@ -63,24 +72,39 @@ const RegularEvent = ({
     ? `font-bold ${styles.textColors.title.replace('font-medium', '')}` 
     : styles.textColors.title;
 
-  const isClickable = isInteractive || isNotionApiEvent;
+  const isClickable = isInteractive || opensDetails;
+
+  const handleLinkClick = (e: React.MouseEvent) => {
+    // Opening a link shouldn't also toggle or open the event
+    e.stopPropagation();
+  };
+
+  const handleShowDetails = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onEventClick?.(event);
+  };
+
+  const handleKeepSeparate = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    selection?.keepEventsSeparate(event);
+  };
 
   return (
     <article 
-      className={`${styles.paddingClass} rounded-lg ${styles.backgroundOpacity} backdrop-blur-sm border border-gray-200/50 dark:border-gray-700/30 ${
+      className={`${styles.paddingClass} rounded-lg ${styles.backgroundOpacity} backdrop-blur-sm border border-gray-200/50 dark:border-gray-700/30 ${styles.categoryAccent} ${
         isClickable ? `cursor-pointer ${styles.hoverBackgroundOpacity} transition-colors` : ''
-      } ${styles.timelineStyles} ${className} self-start`}
+      } ${event.pinned ? 'ring-2 ring-amber-400 dark:ring-amber-500' : ''} ${styles.timelineStyles} ${statusClasses.container} ${className} self-start`}
       onClick={handleClick}
       onKeyDown={handleKeyDown}
       tabIndex={isClickable ? 0 : undefined}
       role={isClickable ? 'button' : 'article'}
-      aria-expanded={isInteractive ? isExpanded : undefined}
+      aria-expanded={isInteractive && !opensDetails ? isExpanded : undefined}
       aria-label={
-        isNotionApiEvent 
-          ? `Open Notion event details for ${event.title}`
+        opensDetails
+          ? `Open ${isNotionApiEvent ? 'Notion ' : ''}event details for ${event.title}`
           : isInteractive 
             ? `${isExpanded ? 'Collapse' : 'Expand'} event details for ${event.title}` 
-            : `Event: ${event.title}`
+            : `Event: ${event.title}${statusLabel ? ` (${statusLabel})` : ''}`
       }
     >
       <div className="flex items-start gap-3">
@@ -89,9 +113,18 @@ const RegularEvent = ({
             <div className="flex-1 min-w-0">
               <div className="flex items-center gap-2 mb-1">
                 <EventIcon event={event} isAllDay={false} />
-                <h3 className={`${titleClasses} ${styles.fontSizes.title} leading-tight truncate`}>
+                {event.pinned && <Pin className="h-3 w-3 flex-shrink-0 text-amber-500" aria-label="Pinned" />}
+                <h3 className={`${titleClasses} ${styles.fontSizes.title} ${statusClasses.title} leading-tight truncate`}>
                   {event.title}
                 </h3>
+                {statusLabel && (
+                  <span className={`${styles.fontSizes.time} ${styles.textColors.time} flex-shrink-0 uppercase tracking-wide`}>
+                    {statusLabel}
+                  </span>
+                )}
+                {(event.visibility === 'private' || event.visibility === 'confidential') && (
+                  <Lock className="h-3 w-3 flex-shrink-0 text-gray-400 dark:text-gray-500" aria-label="Private event" />
+                )}
                 {hasNotionUrl && (
                   <button
                     onClick={handleNotionLinkClick}
@@ -102,13 +135,17 @@ const RegularEvent = ({
                     <ExternalLink className="h-3 w-3" />
                   </button>
                 )}
+                <MemberAvatars event={event} className="ml-auto" />
               </div>
               
               <div className={`flex items-center gap-2 ${styles.fontSizes.time} ${styles.textColors.time} mb-2`}>
                 <Clock className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
-                <time dateTime={styles.isAllDay ? event.date.toISOString().split('T')[0] : undefined}>
-                  {event.time}
+                <time dateTime={styles.isAllDay ? event.date.toISOString().split('T')[0] : new Date(event.start).toISOString()}>
+                  {formatEventTime(event)}
                 </time>
+                {event.isRecurring && (
+                  <Repeat className="h-3 w-3 flex-shrink-0" aria-label="Recurring event" />
+                )}
               </div>
               
               {event.location && ((viewMode !== 'timeline' && viewMode !== 'week') || isExpanded) && (
@@ -118,12 +155,70 @@ const RegularEvent = ({
                 </div>
               )}
 
+              {event.note && (
+                <div className={`flex items-start gap-2 ${styles.fontSizes.location} text-amber-800 dark:text-amber-200 mb-2`}>
+                  <StickyNote className="h-4 w-4 flex-shrink-0 mt-0.5" aria-hidden="true" />
+                  <p className="whitespace-pre-line">{event.note}</p>
+                </div>
+              )}
+
+              {mergedSources && ((viewMode !== 'timeline' && viewMode !== 'week') || isExpanded) && (
+                <div className={`flex flex-wrap items-center gap-x-2 gap-y-1 ${styles.fontSizes.location} ${styles.textColors.location} mb-2`}>
+                  <Layers className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
+                  <span>In</span>
+                  {mergedSources.map(ref => (
+                    <span key={`${ref.calendarId}-${ref.eventId}`} className="inline-flex items-center gap-1">
+                      <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: ref.color }} aria-hidden="true" />
+                      {ref.calendarName || 'Unnamed calendar'}
+                    </span>
+                  ))}
+                  {selection && (
+                    <button
+                      type="button"
+                      onClick={handleKeepSeparate}
+                      className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 underline-offset-2 hover:underline"
+                    >
+                      Keep separate
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {link && viewMode !== 'month' && (
+                <a
+                  href={link.href}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  onClick={handleLinkClick}
+                  className={`inline-flex items-center gap-1 ${styles.fontSizes.location} text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 underline-offset-2 hover:underline mb-2`}
+                >
+                  {link.isMeeting ? <Video className="h-4 w-4 flex-shrink-0" aria-hidden="true" /> : <Link2 className="h-4 w-4 flex-shrink-0" aria-hidden="true" />}
+                  {link.isMeeting ? 'Join meeting' : 'Open link'}
+                </a>
+              )}
+
               {(viewMode === 'timeline' || viewMode === 'week') && isExpanded && event.description && (
                 <div className={`${styles.fontSizes.description} ${styles.textColors.description} mb-2 line-clamp-3`}>
                   {event.description}
                 </div>
               )}
 
+              {isInteractive && isExpanded && (
+                <div className="flex flex-wrap items-start gap-1">
+                  <EventOverrideControls event={event} />
+                  {onEventClick && (
+                    <button
+                      type="button"
+                      onClick={handleShowDetails}
+                      className="h-7 px-2 inline-flex items-center gap-1 rounded-md text-xs text-blue-600 hover:text-blue-800 hover:bg-accent dark:text-blue-400 dark:hover:text-blue-300"
+                    >
+                      <Info className="h-3 w-3" aria-hidden="true" />
+                      Details
+                    </button>
+                  )}
+                </div>
+              )}
+
               {viewMode === 'month' && (
                 <div className={`${styles.fontSizes.category} ${styles.textColors.category}`}>
                   {event.category}
@@ -131,7 +226,7 @@ const RegularEvent = ({
               )}
             </div>
 
-            {isInteractive && (
+            {isInteractive && !opensDetails && (
               <div className="ml-2 flex-shrink-0">
                 {isExpanded ? (
                   <ChevronUp className="h-4 w-4 text-gray-400 dark:text-gray-500" aria-hidden="true" />
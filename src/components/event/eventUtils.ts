@@ -1,109 +1,167 @@
-import { Event } from '@/types/calendar';
+import { Briefcase, GraduationCap, Utensils, Dumbbell, Music, Stethoscope, Plane, Cake, Star, LucideIcon } from 'lucide-react';
+import { Event, EventIconName } from '@/types/calendar';
+import { getHouseholdTimeZone, toZoneWallTime } from '@/utils/timeZoneUtils';
 
-export const hasAdditionalData = (event: Event): boolean => {
-  return !!(event.location || event.description);
+// Icons calendar rules can assign
+export const RULE_ICONS: Record<EventIconName, { icon: LucideIcon; label: string }> = {
+  briefcase: { icon: Briefcase, label: 'Work' },
+  school: { icon: GraduationCap, label: 'School' },
+  utensils: { icon: Utensils, label: 'Meal' },
+  dumbbell: { icon: Dumbbell, label: 'Sports' },
+  music: { icon: Music, label: 'Music' },
+  stethoscope: { icon: Stethoscope, label: 'Doctor' },
+  plane: { icon: Plane, label: 'Travel' },
+  cake: { icon: Cake, label: 'Birthday' },
+  star: { icon: Star, label: 'Highlight' }
 };
 
-export const isAllDayEvent = (time: string): boolean => {
-  // Handle undefined, null, or empty time values
-  if (!time || time.trim() === '') {
-    
-    return true;
+// Per-category accents: left border on event cards, dot in the filter bar, label color
+export const CATEGORY_STYLES: Record<Event['category'], { accent: string; dot: string; text: string }> = {
+  Personal: { accent: 'border-l-sky-500', dot: 'bg-sky-500', text: 'text-sky-700 dark:text-sky-300' },
+  Work: { accent: 'border-l-slate-500', dot: 'bg-slate-500', text: 'text-slate-700 dark:text-slate-300' },
+  Family: { accent: 'border-l-emerald-500', dot: 'bg-emerald-500', text: 'text-emerald-700 dark:text-emerald-300' },
+  Kids: { accent: 'border-l-amber-500', dot: 'bg-amber-500', text: 'text-amber-700 dark:text-amber-300' },
+  Holidays: { accent: 'border-l-rose-500', dot: 'bg-rose-500', text: 'text-rose-700 dark:text-rose-300' }
+};
+
+// Swatches offered when picking a color for events
+export const EVENT_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#06b6d4', '#3b82f6', '#8b5cf6', '#ec4899', '#6b7280'];
+
+export const isAllDayEvent = (event: Pick<Event, 'allDay'>): boolean => {
+  return event.allDay === true;
+};
+
+const formatClockTime = (date: Date): string =>
+  date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Human-readable time for an event, formatted in the viewer's locale.
+ * Timed events show their range and, when imported from another zone,
+ * the original wall-clock start, e.g. "3:00 PM - 4:00 PM (12:00 PM PDT)".
+ */
+export const formatEventTime = (event: Pick<Event, 'start' | 'end' | 'allDay' | 'isMultiDay' | 'sourceTimeZone'>): string => {
+  if (event.allDay) {
+    return event.isMultiDay ? 'All day (Multi-day)' : 'All day';
   }
-  
-  const timeStr = time.toLowerCase().trim();
-  
-  // Explicit all-day indicators
-  if (timeStr.includes('all day') || timeStr.includes('all-day')) {
-    
-    return true;
+  const start = new Date(event.start);
+  let text = event.end ? `${formatClockTime(start)} - ${formatClockTime(new Date(event.end))}` : formatClockTime(start);
+  if (event.sourceTimeZone) {
+    text += ` (${formatClockTime(new Date(event.sourceTimeZone.start))} ${event.sourceTimeZone.name})`;
   }
-  
-  // Full day time ranges
-  if (timeStr === '00:00 - 23:59' || timeStr === '0:00 - 23:59') {
-    
-    return true;
+  return text;
+};
+
+/** Title and container classes marking cancelled (struck through) and tentative (dashed) events */
+export const getEventStatusClasses = (event: Pick<Event, 'status'>): { title: string; container: string } => {
+  if (event.status === 'cancelled') {
+    return { title: 'line-through decoration-2', container: 'opacity-60' };
   }
-  
-  // Multi-day indicators
-  if (timeStr.includes('days') || timeStr.includes('day')) {
-    
-    return true;
+  if (event.status === 'tentative') {
+    return { title: 'italic', container: 'border-dashed' };
   }
-  
-  
-  return false;
+  return { title: '', container: '' };
 };
 
-export const hasEventPassed = (event: Event, viewMode: string): boolean => {
-  if (viewMode === 'month') return false;
-  
-  const isAllDay = isAllDayEvent(event.time);
-  if (isAllDay) return false;
-  
-  const now = new Date();
-  const eventDate = new Date(event.date);
-  
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  eventDate.setHours(0, 0, 0, 0);
-  
-  if (eventDate < today) {
-    return true;
-  } else if (eventDate > today) {
-    return false;
-  }
-  
-  const timeString = event.time.toLowerCase();
-  
-  if (timeString.includes('days')) {
+export const getEventStatusLabel = (event: Pick<Event, 'status'>): string => {
+  if (event.status === 'cancelled') return 'Cancelled';
+  if (event.status === 'tentative') return 'Tentative';
+  return '';
+};
+
+// Hosts whose links are video meetings rather than general info pages
+const MEETING_HOSTS = /(^|\.)(zoom\.us|meet\.google\.com|teams\.microsoft\.com|teams\.live\.com|webex\.com|whereby\.com|gotomeeting\.com|meet\.jit\.si)$/i;
+const URL_PATTERN = /https?:\/\/[^\s<>"')\]]+/gi;
+
+const isMeetingUrl = (url: string): boolean => {
+  try {
+    return MEETING_HOSTS.test(new URL(url).hostname);
+  } catch {
     return false;
   }
-  
-  const timeMatch = timeString.match(/(\d{1,2}):?(\d{0,2})\s*(am|pm)?\s*-\s*(\d{1,2}):?(\d{0,2})\s*(am|pm)?/);
-  
-  if (timeMatch) {
-    let endHour = parseInt(timeMatch[4]);
-    const endMinute = parseInt(timeMatch[5]) || 0;
-    const endPeriod = timeMatch[6];
-    
-    if (endPeriod === 'pm' && endHour !== 12) {
-      endHour += 12;
-    } else if (endPeriod === 'am' && endHour === 12) {
-      endHour = 0;
-    }
-    
-    const endTime = new Date(event.date);
-    endTime.setHours(endHour, endMinute, 0, 0);
-    
-    return now > endTime;
-  } else {
-    const singleTimeMatch = timeString.match(/(\d{1,2}):?(\d{0,2})\s*(am|pm)?/);
-    
-    if (singleTimeMatch) {
-      let startHour = parseInt(singleTimeMatch[1]);
-      const startMinute = parseInt(singleTimeMatch[2]) || 0;
-      const startPeriod = singleTimeMatch[3];
-      
-      if (startPeriod === 'pm' && startHour !== 12) {
-        startHour += 12;
-      } else if (startPeriod === 'am' && startHour === 12) {
-        startHour = 0;
-      }
-      
-      const endTime = new Date(event.date);
-      endTime.setHours(startHour, startMinute + 20, 0, 0);
-      
-      return now > endTime;
-    }
+};
+
+/**
+ * Link to show with an event: a video meeting found in its URL, location or description
+ * (shown as a join link), otherwise the event's own URL.
+ */
+export const getEventLink = (
+  event: Pick<Event, 'url' | 'location' | 'description'>
+): { href: string; isMeeting: boolean } | null => {
+  const candidates = [
+    event.url,
+    ...[event.location, event.description].flatMap(text => (text ? text.match(URL_PATTERN) || [] : []))
+  ]
+    .filter((url): url is string => !!url)
+    // Sentence punctuation right after a link in free text is not part of it
+    .map(url => url.replace(/[.,;:!?]+$/, ''));
+  const meeting = candidates.find(isMeetingUrl);
+  if (meeting) return { href: meeting, isMeeting: true };
+  return event.url ? { href: event.url, isMeeting: false } : null;
+};
+
+/** Piece of an event description: plain text, or a link when `href` is set */
+export interface DescriptionSegment {
+  text: string;
+  href?: string;
+}
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", '#39': "'", nbsp: ' ' };
+const SAFE_HREF = /^https?:\/\//i;
+
+/**
+ * Description as plain text with its web links picked out. Feeds often send HTML
+ * (Google Calendar does): tags are dropped, anchors keep their URL, and only http(s)
+ * URLs become links, so markup in a feed can't inject anything.
+ */
+export const getDescriptionSegments = (description: string): DescriptionSegment[] => {
+  const text = description
+    .replace(/<a\s[^>]*href\s*=\s*["']([^"']*)["'][^>]*>([\s\S]*?)<\/a>/gi, (_match, href: string, label: string) => {
+      const labelText = label.replace(/<[^>]*>/g, '').trim();
+      if (!SAFE_HREF.test(href)) return labelText;
+      return !labelText || labelText === href ? href : `${labelText} (${href})`;
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(amp|lt|gt|quot|apos|#39|nbsp);/g, (_match, entity: string) => HTML_ENTITIES[entity])
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  const segments: DescriptionSegment[] = [];
+  let plain = '';
+  let index = 0;
+  for (const match of text.matchAll(URL_PATTERN)) {
+    // Sentence punctuation right after a link belongs to the text
+    const href = match[0].replace(/[.,;:!?]+$/, '');
+    plain += text.slice(index, match.index);
+    if (plain) segments.push({ text: plain });
+    segments.push({ text: href, href });
+    plain = match[0].slice(href.length);
+    index = (match.index ?? 0) + match[0].length;
   }
-  
-  return false;
+  plain += text.slice(index);
+  if (plain) segments.push({ text: plain });
+  return segments;
+};
+
+export const hasEventPassed = (event: Event, viewMode: string): boolean => {
+  if (viewMode === 'month') return false;
+  if (isAllDayEvent(event)) return false;
+
+  // Events without an end are treated as lasting 20 minutes
+  const endTime = event.end
+    ? new Date(event.end)
+    : new Date(new Date(event.start).getTime() + 20 * 60 * 1000);
+  // Feed and local event times are household wall-clock times, so compare against the household
+  // clock; Notion times are parsed on the device clock
+  const now = event.source === 'notion' ? new Date() : toZoneWallTime(new Date(), getHouseholdTimeZone());
+  return now > endTime;
 };
 
 export const getEventStyles = (event: Event, viewMode: string) => {
-  const isAllDay = isAllDayEvent(event.time);
+  const isAllDay = isAllDayEvent(event);
   const isPast = hasEventPassed(event, viewMode);
+  const categoryStyle = CATEGORY_STYLES[event.category] ?? CATEGORY_STYLES.Personal;
   
   const getBackgroundOpacity = () => {
     if (isPast && (viewMode === 'timeline' || viewMode === 'week')) {
@@ -134,7 +192,7 @@ export const getEventStyles = (event: Event, viewMode: string) => {
       time: 'text-gray-600 dark:text-gray-300',
       location: 'text-gray-600 dark:text-gray-300',
       description: 'text-gray-600 dark:text-gray-300',
-      category: 'text-gray-600 dark:text-gray-300 font-medium'
+      category: `${categoryStyle.text} font-medium`
     };
   };
 
@@ -181,6 +239,7 @@ export const getEventStyles = (event: Event, viewMode: string) => {
     fontSizes: getFontSizeClasses(),
     timelineStyles: getTimelineStyles(),
     paddingClass: getPaddingClass(),
+    categoryAccent: `border-l-4 ${categoryStyle.accent}`,
     isAllDay,
     isPast
   };
@@ -3,6 +3,12 @@ import React from 'react';
 import LocalDataManager from '@/components/LocalDataManager';
 import ICalSettings from './ICalSettings';
 import NotionIntegration from './NotionIntegration';
+import ProxyDiagnostics from './ProxyDiagnostics';
+import DuplicateMergingSettings from './DuplicateMergingSettings';
+import FamilyMembersSettings from './FamilyMembersSettings';
+import ReminderSettings from './ReminderSettings';
+import ConflictSettings from './ConflictSettings';
+import EventOverridesSettings from './EventOverridesSettings';
 import { useCalendarSelection } from '@/hooks/useCalendarSelection';
 
 const CalendarsTab = () => {
@@ -19,6 +25,12 @@ const CalendarsTab = () => {
         selectedCalendarIds={selectedCalendarIds}
         onToggleSelection={toggleCalendar}
       />
+      <FamilyMembersSettings />
+      <ReminderSettings />
+      <ConflictSettings />
+      <DuplicateMergingSettings />
+      <EventOverridesSettings />
+      <ProxyDiagnostics />
     </div>
   );
 };
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { AlertTriangle, Plus, Trash2 } from 'lucide-react';
+import { SharedResource } from '@/types/calendar';
+import { useConflictSettings } from '@/hooks/useConflicts';
+import { CONFLICT_BUFFER_OPTIONS, createSharedResource } from '@/utils/conflicts';
+
+const ConflictSettings = () => {
+  const { settings, updateSettings, restoreDismissed } = useConflictSettings();
+  const [newName, setNewName] = useState('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    updateSettings({ resources: [...settings.resources, createSharedResource(newName)] });
+    setNewName('');
+  };
+
+  const updateResource = (resource: SharedResource, changes: Partial<SharedResource>) => {
+    updateSettings({
+      resources: settings.resources.map(candidate => candidate.id === resource.id ? { ...candidate, ...changes } : candidate)
+    });
+  };
+
+  const removeResource = (resource: SharedResource) => {
+    updateSettings({ resources: settings.resources.filter(candidate => candidate.id !== resource.id) });
+  };
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-gray-900 dark:text-gray-100">
+          <AlertTriangle className="h-5 w-5" />
+          Conflicts
+        </CardTitle>
+        <CardDescription className="text-gray-600 dark:text-gray-400">
+          Flags timed events that overlap for the same family member or shared resource, or that leave too little time to get from one place to the next.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="detect-conflicts" className="text-gray-900 dark:text-gray-100">
+            Detect conflicts
+          </Label>
+          <Switch
+            id="detect-conflicts"
+            checked={settings.enabled}
+            onCheckedChange={enabled => updateSettings({ enabled })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <Label className="text-gray-900 dark:text-gray-100">Travel time between locations</Label>
+          <Select
+            value={String(settings.bufferMinutes)}
+            onValueChange={value => updateSettings({ bufferMinutes: Number(value) })}
+            disabled={!settings.enabled}
+          >
+            <SelectTrigger className="h-8 w-32 text-xs" aria-label="Travel time between locations">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONFLICT_BUFFER_OPTIONS.map(minutes => (
+                <SelectItem key={minutes} value={String(minutes)}>
+                  {minutes === 0 ? 'None' : `${minutes} minutes`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-gray-900 dark:text-gray-100">Shared resources</Label>
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Things only one person can use at a time, like the car. Events mentioning the resource or one of its keywords in the title, location or description are checked against each other.
+          </p>
+          <form onSubmit={handleAdd} className="flex gap-2">
+            <Input
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              placeholder="Car"
+              aria-label="New shared resource name"
+            />
+            <Button type="submit" size="sm" disabled={!newName.trim()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </form>
+          {settings.resources.map(resource => (
+            <div key={resource.id} className="space-y-2 p-2 rounded border border-gray-200 dark:border-gray-700">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={resource.name}
+                  onChange={e => updateResource(resource, { name: e.target.value })}
+                  aria-label="Resource name"
+                  className="flex-1"
+                />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => removeResource(resource)}
+                  aria-label={`Remove ${resource.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`${resource.id}-keywords`} className="text-xs text-gray-600 dark:text-gray-400">Keywords</Label>
+                <Input
+                  id={`${resource.id}-keywords`}
+                  defaultValue={resource.keywords.join(', ')}
+                  onBlur={e => updateResource(resource, { keywords: e.target.value.split(',').map(keyword => keyword.trim()).filter(Boolean) })}
+                  placeholder="Minivan, drive, pick up"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {settings.dismissed.length > 0 && (
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm text-gray-600 dark:text-gray-400">
+              {settings.dismissed.length} dismissed conflict{settings.dismissed.length !== 1 ? 's' : ''}
+            </span>
+            <Button size="sm" variant="outline" onClick={restoreDismissed}>
+              Show again
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConflictSettings;
@@ -4,16 +4,44 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { Moon, Sun, Monitor } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from '@/components/ui/select';
+import { Moon, Sun, Monitor, Globe, List } from 'lucide-react';
+import { getBrowserTimeZone, getSupportedTimeZones } from '@/utils/timeZoneUtils';
+import { DEFAULT_DISPLAY_PROFILE, TIMELINE_DAY_COUNTS } from '@/utils/viewModes';
+import type { TimelineOptions, ViewMode } from '@/types/calendar';
 
 interface DisplayTabProps {
   theme: 'light' | 'dark' | 'system';
   onThemeChange: (theme: 'light' | 'dark' | 'system') => void;
-  defaultView: 'month' | 'timeline' | 'week';
-  onDefaultViewChange: (view: 'month' | 'timeline' | 'week') => void;
+  defaultView: ViewMode;
+  onDefaultViewChange: (view: ViewMode) => void;
+  timelineOptions: TimelineOptions;
+  onTimelineOptionsChange: (options: TimelineOptions) => void;
+  displayProfile?: string;
+  householdTimeZone: string;
+  onHouseholdTimeZoneChange: (timeZone: string) => void;
 }
 
-const DisplayTab = ({ theme, onThemeChange, defaultView, onDefaultViewChange }: DisplayTabProps) => {
+const DisplayTab = ({
+  theme,
+  onThemeChange,
+  defaultView,
+  onDefaultViewChange,
+  timelineOptions,
+  onTimelineOptionsChange,
+  displayProfile = DEFAULT_DISPLAY_PROFILE,
+  householdTimeZone,
+  onHouseholdTimeZoneChange
+}: DisplayTabProps) => {
+  const deviceTimeZone = getBrowserTimeZone();
+  const selectedTimeZone = householdTimeZone || deviceTimeZone;
+  const timeZones = React.useMemo(() => {
+    const zones = getSupportedTimeZones();
+    // Keep the current selection listed even if the runtime does not report it
+    return zones.includes(selectedTimeZone) ? zones : [selectedTimeZone, ...zones];
+  }, [selectedTimeZone]);
+
   return (
     <div className="space-y-6">
       <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
@@ -65,21 +93,123 @@ const DisplayTab = ({ theme, onThemeChange, defaultView, onDefaultViewChange }:
                 Month View
               </Label>
             </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="year" id="year" className="border-gray-400 dark:border-gray-500 text-blue-600 dark:text-blue-400" />
+              <Label htmlFor="year" className="cursor-pointer text-gray-700 dark:text-gray-300">
+                Year View
+              </Label>
+            </div>
             <div className="flex items-center space-x-2">
               <RadioGroupItem value="timeline" id="timeline" className="border-gray-400 dark:border-gray-500 text-blue-600 dark:text-blue-400" />
               <Label htmlFor="timeline" className="cursor-pointer text-gray-700 dark:text-gray-300">
                 Timeline View
               </Label>
             </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="schedule" id="schedule" className="border-gray-400 dark:border-gray-500 text-blue-600 dark:text-blue-400" />
+              <Label htmlFor="schedule" className="cursor-pointer text-gray-700 dark:text-gray-300">
+                People View
+              </Label>
+            </div>
             <div className="flex items-center space-x-2">
               <RadioGroupItem value="week" id="week" className="border-gray-400 dark:border-gray-500 text-blue-600 dark:text-blue-400" />
               <Label htmlFor="week" className="cursor-pointer text-gray-700 dark:text-gray-300">
                 Week View
               </Label>
             </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="twoWeek" id="twoWeek" className="border-gray-400 dark:border-gray-500 text-blue-600 dark:text-blue-400" />
+              <Label htmlFor="twoWeek" className="cursor-pointer text-gray-700 dark:text-gray-300">
+                2-Week View
+              </Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="agenda" id="agenda" className="border-gray-400 dark:border-gray-500 text-blue-600 dark:text-blue-400" />
+              <Label htmlFor="agenda" className="cursor-pointer text-gray-700 dark:text-gray-300">
+                Agenda View
+              </Label>
+            </div>
           </RadioGroup>
         </CardContent>
       </Card>
+
+      <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+        <CardHeader>
+          <CardTitle className="text-gray-900 dark:text-gray-100 flex items-center gap-2">
+            <List className="h-4 w-4" />
+            Timeline
+          </CardTitle>
+          <CardDescription className="text-gray-600 dark:text-gray-400">
+            How many days the timeline shows on this display
+            {displayProfile !== DEFAULT_DISPLAY_PROFILE && ` ("${displayProfile}"). Other displays keep their own choice`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="timeline-days" className="text-gray-700 dark:text-gray-300">Days shown</Label>
+            <Select
+              value={String(timelineOptions.dayCount)}
+              onValueChange={(value) => onTimelineOptionsChange({ ...timelineOptions, dayCount: Number(value) })}
+            >
+              <SelectTrigger id="timeline-days" className="w-32 bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-100">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TIMELINE_DAY_COUNTS.map(count => (
+                  <SelectItem key={count} value={String(count)}>
+                    {count} day{count !== 1 ? 's' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="timeline-skip-weekends" className="text-gray-700 dark:text-gray-300">Skip weekends</Label>
+            <Switch
+              id="timeline-skip-weekends"
+              checked={timelineOptions.skipWeekends}
+              onCheckedChange={(checked) => onTimelineOptionsChange({ ...timelineOptions, skipWeekends: checked })}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="timeline-skip-past" className="text-gray-700 dark:text-gray-300">Skip past days</Label>
+              <p className="text-xs text-gray-500 dark:text-gray-400">When off, earlier days of this week are shown too</p>
+            </div>
+            <Switch
+              id="timeline-skip-past"
+              checked={timelineOptions.skipPastDays}
+              onCheckedChange={(checked) => onTimelineOptionsChange({ ...timelineOptions, skipPastDays: checked })}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+        <CardHeader>
+          <CardTitle className="text-gray-900 dark:text-gray-100 flex items-center gap-2">
+            <Globe className="h-4 w-4" />
+            Household Time Zone
+          </CardTitle>
+          <CardDescription className="text-gray-600 dark:text-gray-400">
+            Event times are shown in this zone. Events from calendars in another zone also show their original time.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Select value={selectedTimeZone} onValueChange={onHouseholdTimeZoneChange}>
+            <SelectTrigger className="bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-100">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="max-h-72">
+              {timeZones.map(zone => (
+                <SelectItem key={zone} value={zone}>
+                  {zone.replace(/_/g, ' ')}{zone === deviceTimeZone ? ' (this device)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
     </div>
   );
 };
@@ -0,0 +1,134 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ArrowDown, ArrowUp, Layers, Trash2 } from 'lucide-react';
+import { useCalendarSelection } from '@/hooks/useCalendarSelection';
+
+const DuplicateMergingSettings = () => {
+  const { allCalendars, mergeSettings, updateMergeSettings } = useCalendarSelection();
+
+  // Calendars in priority order; ones never ranked follow in their usual order
+  const rankedCalendars = useMemo(() => {
+    const rank = (id: string) => {
+      const position = mergeSettings.calendarPriority.indexOf(id);
+      return position === -1 ? mergeSettings.calendarPriority.length : position;
+    };
+    return allCalendars
+      .map((calendar, index) => ({ calendar, index }))
+      .sort((a, b) => rank(a.calendar.id) - rank(b.calendar.id) || a.index - b.index)
+      .map(({ calendar }) => calendar);
+  }, [allCalendars, mergeSettings.calendarPriority]);
+
+  const calendarNames = useMemo(
+    () => new Map(allCalendars.map(calendar => [calendar.id, calendar.name])),
+    [allCalendars]
+  );
+
+  const moveCalendar = (index: number, offset: number) => {
+    const order = rankedCalendars.map(calendar => calendar.id);
+    const [moved] = order.splice(index, 1);
+    order.splice(index + offset, 0, moved);
+    updateMergeSettings({ calendarPriority: order });
+  };
+
+  const removeExclusion = (index: number) => {
+    updateMergeSettings({ exclusions: mergeSettings.exclusions.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-gray-900 dark:text-gray-100">
+          <Layers className="h-5 w-5" />
+          Duplicate Events
+        </CardTitle>
+        <CardDescription className="text-gray-600 dark:text-gray-400">
+          Shows one event when several calendars contain the same event: same title, overlapping time and a similar location.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="merge-duplicates" className="text-gray-900 dark:text-gray-100">
+            Merge duplicates across calendars
+          </Label>
+          <Switch
+            id="merge-duplicates"
+            checked={mergeSettings.enabled}
+            onCheckedChange={enabled => updateMergeSettings({ enabled })}
+          />
+        </div>
+
+        {mergeSettings.enabled && rankedCalendars.length > 1 && (
+          <div className="space-y-2">
+            <Label className="text-gray-900 dark:text-gray-100">Calendar priority</Label>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              A merged event takes its title, time and details from the highest calendar that has it.
+            </p>
+            <ol className="space-y-1">
+              {rankedCalendars.map((calendar, index) => (
+                <li
+                  key={calendar.id}
+                  className="flex items-center gap-2 p-2 rounded border border-gray-200 dark:border-gray-700"
+                >
+                  <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: calendar.color }} />
+                  <span className="flex-1 text-sm text-gray-900 dark:text-gray-100 truncate">{calendar.name}</span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => moveCalendar(index, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${calendar.name} up`}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => moveCalendar(index, 1)}
+                    disabled={index === rankedCalendars.length - 1}
+                    aria-label={`Move ${calendar.name} down`}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {mergeSettings.exclusions.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-gray-900 dark:text-gray-100">Never merged</Label>
+            <ul className="space-y-1">
+              {mergeSettings.exclusions.map((exclusion, index) => (
+                <li
+                  key={`${exclusion.titleKey}-${exclusion.calendarIds.join(',')}`}
+                  className="flex items-center justify-between gap-2 p-2 rounded border border-gray-200 dark:border-gray-700"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-900 dark:text-gray-100 truncate">"{exclusion.titleKey}"</p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400 truncate">
+                      {exclusion.calendarIds.map(id => calendarNames.get(id) || 'Removed calendar').join(', ')}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => removeExclusion(index)}
+                    aria-label={`Allow merging "${exclusion.titleKey}" again`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DuplicateMergingSettings;
@@ -5,9 +5,15 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Edit2, Save, X, RefreshCw, Trash2, ExternalLink } from 'lucide-react';
+import { Edit2, Save, X, RefreshCw, Trash2, ExternalLink, FileText, Upload, Wand2 } from 'lucide-react';
 import { ICalCalendar } from '@/types/ical';
 import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from '@/components/ui/select';
+import { DEFAULT_EXPANSION_PAST_MONTHS, DEFAULT_EXPANSION_FUTURE_MONTHS } from '@/utils/icalExpansionTestable';
+import { formatSyncReport } from '@/utils/icalEventUtils';
+import { EVENT_CATEGORIES } from '@/utils/eventCategories';
+import { calendarStorageService } from '@/services/calendarStorage';
+import type { Event } from '@/types/calendar';
+import EventRulesEditor from './EventRulesEditor';
 
 const CALENDAR_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#06b6d4', '#3b82f6', '#8b5cf6', '#ec4899'];
 
@@ -16,6 +22,9 @@ interface EditData {
   url: string;
   color: string;
   syncFrequencyPerDay?: number;
+  expansionPastMonths?: number;
+  expansionFutureMonths?: number;
+  defaultCategory?: Event['category'];
 }
 
 interface EditableCalendarCardProps {
@@ -24,6 +33,8 @@ interface EditableCalendarCardProps {
   syncStatus: string;
   onUpdate: (id: string, updates: Partial<ICalCalendar>) => void;
   onSync: (calendar: ICalCalendar) => void;
+  /** Replace an imported file calendar's events with a newer file */
+  onReimport?: (calendar: ICalCalendar, file: File) => void;
   onRemove: (calendar: ICalCalendar) => void;
   onToggleSelection: (id: string, checked: boolean) => void;
 }
@@ -34,15 +45,22 @@ const EditableCalendarCard = ({
   syncStatus,
   onUpdate,
   onSync,
+  onReimport,
   onRemove,
   onToggleSelection
 }: EditableCalendarCardProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [isEditing, setIsEditing] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+  const [previewEvents, setPreviewEvents] = useState<Event[]>([]);
   const [editData, setEditData] = useState<EditData>({
     name: calendar.name,
     url: calendar.url,
   color: calendar.color,
-  syncFrequencyPerDay: calendar.syncFrequencyPerDay || 0
+  syncFrequencyPerDay: calendar.syncFrequencyPerDay || 0,
+  expansionPastMonths: calendar.expansionPastMonths ?? DEFAULT_EXPANSION_PAST_MONTHS,
+  expansionFutureMonths: calendar.expansionFutureMonths ?? DEFAULT_EXPANSION_FUTURE_MONTHS,
+  defaultCategory: calendar.defaultCategory
   });
   const ORIGINAL_REF = useRef(calendar);
   const draftKey = `calendar_edit_draft_${calendar.id}`;
@@ -54,7 +72,10 @@ const EditableCalendarCard = ({
       if (raw) {
         const draft = JSON.parse(raw) as EditData;
         // Basic validation: ensure URL or name differs before applying
-        const differs = draft.url !== calendar.url || draft.name !== calendar.name || draft.color !== calendar.color || draft.syncFrequencyPerDay !== calendar.syncFrequencyPerDay;
+        const differs = draft.url !== calendar.url || draft.name !== calendar.name || draft.color !== calendar.color || draft.syncFrequencyPerDay !== calendar.syncFrequencyPerDay ||
+          draft.expansionPastMonths !== (calendar.expansionPastMonths ?? DEFAULT_EXPANSION_PAST_MONTHS) ||
+          draft.expansionFutureMonths !== (calendar.expansionFutureMonths ?? DEFAULT_EXPANSION_FUTURE_MONTHS) ||
+          draft.defaultCategory !== calendar.defaultCategory;
         if (differs) {
           setEditData(draft);
           setIsEditing(true);
@@ -73,7 +94,10 @@ const EditableCalendarCard = ({
   useEffect(() => {
     if (!isEditing) return;
     const original = ORIGINAL_REF.current;
-    const changed = editData.name !== original.name || editData.url !== original.url || editData.color !== original.color || (editData.syncFrequencyPerDay || 0) !== (original.syncFrequencyPerDay || 0);
+    const changed = editData.name !== original.name || editData.url !== original.url || editData.color !== original.color || (editData.syncFrequencyPerDay || 0) !== (original.syncFrequencyPerDay || 0) ||
+      editData.expansionPastMonths !== (original.expansionPastMonths ?? DEFAULT_EXPANSION_PAST_MONTHS) ||
+      editData.expansionFutureMonths !== (original.expansionFutureMonths ?? DEFAULT_EXPANSION_FUTURE_MONTHS) ||
+      editData.defaultCategory !== original.defaultCategory;
     if (changed) {
       try {
         localStorage.setItem(draftKey, JSON.stringify(editData));
@@ -97,12 +121,38 @@ const EditableCalendarCard = ({
         name: calendar.name,
         url: calendar.url,
     color: calendar.color,
-    syncFrequencyPerDay: calendar.syncFrequencyPerDay || 0
+    syncFrequencyPerDay: calendar.syncFrequencyPerDay || 0,
+    expansionPastMonths: calendar.expansionPastMonths ?? DEFAULT_EXPANSION_PAST_MONTHS,
+    expansionFutureMonths: calendar.expansionFutureMonths ?? DEFAULT_EXPANSION_FUTURE_MONTHS,
+    defaultCategory: calendar.defaultCategory
       });
       setIsEditing(false);
     try { localStorage.removeItem(draftKey); } catch (e) { /* ignore remove draft errors */ }
     };
 
+  const isFileCalendar = calendar.sourceType === 'file';
+  const ruleCount = calendar.rules?.length || 0;
+
+  // Stored occurrences feed the rule preview; reload when a sync changes them
+  useEffect(() => {
+    if (!showRules) return;
+    let cancelled = false;
+    calendarStorageService.getOccurrences(calendar.id)
+      .then(occurrences => {
+        if (!cancelled) setPreviewEvents(occurrences);
+      })
+      .catch(error => console.warn('Failed to load events for rule preview:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [showRules, calendar.id, calendar.lastSync]);
+
+  const handleReimportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onReimport?.(calendar, file);
+    event.target.value = '';
+  };
+
   const getSyncStatusBadge = () => {
     if (syncStatus === 'syncing') {
       return <Badge variant="secondary">Syncing...</Badge>;
@@ -110,6 +160,9 @@ const EditableCalendarCard = ({
     if (syncStatus === 'error') {
       return <Badge variant="destructive" className="bg-red-500 hover:bg-red-600 text-white">Error</Badge>;
     }
+    if ((syncStatus === 'success' || calendar.lastSync) && isFileCalendar) {
+      return <Badge variant="default" className="bg-green-500 hover:bg-green-600 text-white">Imported</Badge>;
+    }
     if (syncStatus === 'success' || calendar.lastSync) {
       return <Badge variant="default" className="bg-green-500 hover:bg-green-600 text-white">Synced</Badge>;
     }
@@ -120,6 +173,7 @@ const EditableCalendarCard = ({
   };
 
   const hasValidUrl = calendar.url && calendar.url.trim() !== '';
+  const latestReport = calendar.syncHistory?.[0];
 
   return (
     <div className="border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-800/50">
@@ -141,12 +195,14 @@ const EditableCalendarCard = ({
                   className="font-medium" 
                   placeholder="Calendar name" 
                 />
-                <Input 
-                  value={editData.url} 
-                  onChange={e => setEditData(prev => ({ ...prev, url: e.target.value }))} 
-                  className="text-sm" 
-                  placeholder="Calendar URL" 
-                />
+                {!isFileCalendar && (
+                  <Input 
+                    value={editData.url} 
+                    onChange={e => setEditData(prev => ({ ...prev, url: e.target.value }))} 
+                    className="text-sm" 
+                    placeholder="Calendar URL" 
+                  />
+                )}
                 <div className="flex gap-1">
                   {CALENDAR_COLORS.map(color => (
                     <button 
@@ -157,7 +213,7 @@ const EditableCalendarCard = ({
                     />
                   ))}
                 </div>
-                <div className="mt-3">
+                {!isFileCalendar && <div className="mt-3">
                   <label className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1 block">Auto Sync (per day)</label>
                   <Select
                     value={String(editData.syncFrequencyPerDay || 0)}
@@ -177,6 +233,60 @@ const EditableCalendarCard = ({
                       <SelectItem value="24">24 / day (hourly)</SelectItem>
                     </SelectContent>
                   </Select>
+                </div>}
+                <div className="mt-3 grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1 block">Past History</label>
+                    <Select
+                      value={String(editData.expansionPastMonths)}
+                      onValueChange={(val) => setEditData(prev => ({ ...prev, expansionPastMonths: Number(val) }))}
+                    >
+                      <SelectTrigger className="h-8 text-xs bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="1">1 month</SelectItem>
+                        <SelectItem value="3">3 months</SelectItem>
+                        <SelectItem value="6">6 months</SelectItem>
+                        <SelectItem value="12">12 months</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <label className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1 block">Look Ahead</label>
+                    <Select
+                      value={String(editData.expansionFutureMonths)}
+                      onValueChange={(val) => setEditData(prev => ({ ...prev, expansionFutureMonths: Number(val) }))}
+                    >
+                      <SelectTrigger className="h-8 text-xs bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="6">6 months</SelectItem>
+                        <SelectItem value="12">12 months</SelectItem>
+                        <SelectItem value="18">18 months</SelectItem>
+                        <SelectItem value="24">24 months</SelectItem>
+                        <SelectItem value="36">36 months</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="mt-3">
+                  <label className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1 block">Default Category</label>
+                  <Select
+                    value={editData.defaultCategory || 'none'}
+                    onValueChange={(val) => setEditData(prev => ({ ...prev, defaultCategory: val === 'none' ? undefined : val as Event['category'] }))}
+                  >
+                    <SelectTrigger className="h-8 text-xs bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">From event labels</SelectItem>
+                      {EVENT_CATEGORIES.map(category => (
+                        <SelectItem key={category} value={category}>{category}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
               </div>
             ) : (
@@ -184,19 +294,36 @@ const EditableCalendarCard = ({
                 <h4 className="font-medium text-gray-900 dark:text-gray-100">
                   {calendar.name}
                 </h4>
-                <p className="text-sm text-gray-500 dark:text-gray-400 flex items-center gap-1">
-                  <ExternalLink className="h-3 w-3" />
-                  {hasValidUrl ? (calendar.url.length > 50 ? `${calendar.url.substring(0, 50)}...` : calendar.url) : 'No URL available'}
-                </p>
+                {isFileCalendar ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 flex items-center gap-1">
+                    <FileText className="h-3 w-3" />
+                    {calendar.fileName || 'Imported file'}
+                  </p>
+                ) : (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 flex items-center gap-1">
+                    <ExternalLink className="h-3 w-3" />
+                    {hasValidUrl ? (calendar.url.length > 50 ? `${calendar.url.substring(0, 50)}...` : calendar.url) : 'No URL available'}
+                  </p>
+                )}
                 {calendar.lastSync && (
                   <p className="text-xs text-gray-400 dark:text-gray-500">
-                    Last synced: {new Date(calendar.lastSync).toLocaleString()}
+                    {isFileCalendar ? 'Last imported' : 'Last synced'}: {new Date(calendar.lastSync).toLocaleString()}
                     {calendar.eventCount !== undefined && ` • ${calendar.eventCount} events`}
                     {typeof calendar.syncFrequencyPerDay === 'number' && calendar.syncFrequencyPerDay > 0 && (
                       <> • Auto: {calendar.syncFrequencyPerDay}/day</>
                     )}
                   </p>
                 )}
+                {latestReport && (
+                  <p
+                    className="text-xs text-gray-500 dark:text-gray-400"
+                    title={calendar.syncHistory!
+                      .map(report => `${new Date(report.syncedAt).toLocaleString()}: ${formatSyncReport(report)}`)
+                      .join('\n')}
+                  >
+                    {formatSyncReport(latestReport)} since last {isFileCalendar ? 'import' : 'sync'}
+                  </p>
+                )}
               </>
             )}
           </div>
@@ -243,16 +370,38 @@ const EditableCalendarCard = ({
             </Button>
           )}
           
-          <Button 
-            size="sm" 
-            variant="outline" 
-            onClick={() => onSync(calendar)} 
-            disabled={!hasValidUrl} 
-            title={hasValidUrl ? "Sync this calendar" : "No URL available for syncing"} 
-            className="text-blue-600 hover:text-blue-700 border-blue-300 hover:border-blue-400 bg-gray-100 hover:bg-blue-50 dark:text-blue-400 dark:hover:text-blue-300 dark:border-blue-600 dark:hover:border-blue-500 dark:bg-gray-800 dark:hover:bg-blue-900/20 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            <RefreshCw className={`h-4 w-4 ${syncStatus === 'syncing' ? 'animate-spin' : ''}`} />
-          </Button>
+          {isFileCalendar ? (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".ics,text/calendar"
+                className="hidden"
+                onChange={handleReimportFile}
+              />
+              <Button 
+                size="sm" 
+                variant="outline" 
+                onClick={() => fileInputRef.current?.click()} 
+                disabled={!onReimport || syncStatus === 'syncing'} 
+                title="Import a newer file to replace this calendar's events" 
+                className="text-blue-600 hover:text-blue-700 border-blue-300 hover:border-blue-400 bg-gray-100 hover:bg-blue-50 dark:text-blue-400 dark:hover:text-blue-300 dark:border-blue-600 dark:hover:border-blue-500 dark:bg-gray-800 dark:hover:bg-blue-900/20 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Upload className="h-4 w-4" />
+              </Button>
+            </>
+          ) : (
+            <Button 
+              size="sm" 
+              variant="outline" 
+              onClick={() => onSync(calendar)} 
+              disabled={!hasValidUrl} 
+              title={hasValidUrl ? "Sync this calendar" : "No URL available for syncing"} 
+              className="text-blue-600 hover:text-blue-700 border-blue-300 hover:border-blue-400 bg-gray-100 hover:bg-blue-50 dark:text-blue-400 dark:hover:text-blue-300 dark:border-blue-600 dark:hover:border-blue-500 dark:bg-gray-800 dark:hover:bg-blue-900/20 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RefreshCw className={`h-4 w-4 ${syncStatus === 'syncing' ? 'animate-spin' : ''}`} />
+            </Button>
+          )}
           
           <Button 
             size="sm" 
@@ -279,12 +428,34 @@ const EditableCalendarCard = ({
             </label>
           </div>
           
-          {calendar.hasEvents && (
-            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 dark:bg-green-900/50 text-green-800 dark:text-green-200">
-              {calendar.eventCount || 0} event{(calendar.eventCount || 0) !== 1 ? 's' : ''}
-            </span>
-          )}
+          <div className="flex items-center gap-2">
+            {calendar.source !== 'events' && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setShowRules(prev => !prev)}
+                className="h-7 text-xs text-gray-600 dark:text-gray-300"
+              >
+                <Wand2 className="h-3 w-3 mr-1" />
+                Rules{ruleCount > 0 && ` (${ruleCount})`}
+              </Button>
+            )}
+            {calendar.hasEvents && (
+              <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 dark:bg-green-900/50 text-green-800 dark:text-green-200">
+                {calendar.eventCount || 0} event{(calendar.eventCount || 0) !== 1 ? 's' : ''}
+              </span>
+            )}
+          </div>
         </div>
+        {showRules && (
+          <div className="mt-3">
+            <EventRulesEditor
+              rules={calendar.rules || []}
+              previewEvents={previewEvents}
+              onSave={rules => onUpdate(calendar.id, { rules })}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
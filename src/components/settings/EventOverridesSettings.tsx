@@ -0,0 +1,64 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { EyeOff, Pin, StickyNote, Undo2 } from 'lucide-react';
+import { useEventOverrides } from '@/hooks/useEventOverrides';
+
+const EventOverridesSettings = () => {
+  const { overrides, removeOverride } = useEventOverrides();
+  const entries = Object.entries(overrides).sort(([, a], [, b]) => a.date.localeCompare(b.date));
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-gray-900 dark:text-gray-100">
+          <StickyNote className="h-5 w-5" />
+          Hidden, Pinned & Noted Events
+        </CardTitle>
+        <CardDescription className="text-gray-600 dark:text-gray-400">
+          Changes made on this device to single occurrences. They stay in place when calendars sync.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Open an event, or expand it in the timeline or week view, to pin it, add a note or hide it.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {entries.map(([id, override]) => (
+              <li
+                key={id}
+                className="flex items-center justify-between gap-3 p-2 rounded border border-gray-200 dark:border-gray-700"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{override.title}</span>
+                    {override.hidden && <Badge variant="secondary"><EyeOff className="h-3 w-3 mr-1" />Hidden</Badge>}
+                    {override.pinned && <Badge variant="outline"><Pin className="h-3 w-3 mr-1" />Pinned</Badge>}
+                  </div>
+                  <p className="text-xs text-gray-600 dark:text-gray-400 truncate">
+                    {format(new Date(override.date), 'EEE, MMM d, yyyy')}
+                    {override.note && ` · ${override.note}`}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => removeOverride(id)}
+                  aria-label={`Undo changes to ${override.title}`}
+                >
+                  <Undo2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EventOverridesSettings;
@@ -0,0 +1,269 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2, EyeOff } from 'lucide-react';
+import { Event, EventIconName, EventRule, EventRuleActions } from '@/types/calendar';
+import { EVENT_COLORS, RULE_ICONS } from '@/components/event/eventUtils';
+import { EVENT_CATEGORIES } from '@/utils/eventCategories';
+import {
+  EVENT_RULE_FIELDS,
+  createEventRule,
+  getRuleMatches,
+  previewRuleResult,
+  validateRulePattern
+} from '@/utils/eventRules';
+
+const PREVIEW_LIMIT = 5;
+// Select values can't be empty strings
+const KEEP = 'keep';
+
+interface EventRulesEditorProps {
+  rules: EventRule[];
+  /** Events of this calendar used to preview what each rule matches */
+  previewEvents: Event[];
+  onSave: (rules: EventRule[]) => void;
+}
+
+interface RuleRowProps {
+  rule: EventRule;
+  previewEvents: Event[];
+  onChange: (rule: EventRule) => void;
+  onRemove: () => void;
+}
+
+const RulePreview = ({ rule, previewEvents }: { rule: EventRule; previewEvents: Event[] }) => {
+  const matches = useMemo(() => getRuleMatches(previewEvents, rule), [previewEvents, rule]);
+  // Recurring series repeat the same title; show each title once
+  const distinct = useMemo(() => {
+    const byTitle = new Map<string, Event>();
+    matches.forEach(event => {
+      if (!byTitle.has(event.title)) byTitle.set(event.title, event);
+    });
+    return [...byTitle.values()];
+  }, [matches]);
+
+  if (validateRulePattern(rule)) return null;
+  if (matches.length === 0) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">No current events match</p>;
+  }
+
+  return (
+    <div className="text-xs text-gray-600 dark:text-gray-300 space-y-1">
+      <p>Matches {matches.length} event{matches.length !== 1 ? 's' : ''}:</p>
+      <ul className="space-y-0.5">
+        {distinct.slice(0, PREVIEW_LIMIT).map(event => {
+          const result = previewRuleResult(event, rule);
+          return (
+            <li key={String(event.id)} className="flex items-center gap-1 truncate">
+              <span className="truncate">{event.title}</span>
+              {!result ? (
+                <span className="flex items-center gap-1 text-gray-400"><EyeOff className="h-3 w-3" /> hidden</span>
+              ) : result.title !== event.title ? (
+                <span className="truncate">→ <span className="font-medium">{result.title}</span></span>
+              ) : null}
+              {result?.color && result.color !== event.color && (
+                <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: result.color }} />
+              )}
+            </li>
+          );
+        })}
+        {distinct.length > PREVIEW_LIMIT && <li className="text-gray-400">and {distinct.length - PREVIEW_LIMIT} more</li>}
+      </ul>
+    </div>
+  );
+};
+
+const RuleRow = ({ rule, previewEvents, onChange, onRemove }: RuleRowProps) => {
+  const patternError = rule.pattern ? validateRulePattern(rule) : null;
+  const setActions = (updates: Partial<EventRuleActions>) => onChange({ ...rule, actions: { ...rule.actions, ...updates } });
+
+  const toggleField = (field: EventRule['fields'][number], checked: boolean) => {
+    const fields = checked ? [...rule.fields, field] : rule.fields.filter(f => f !== field);
+    onChange({ ...rule, fields: EVENT_RULE_FIELDS.filter(f => fields.includes(f)) });
+  };
+
+  return (
+    <div className="space-y-2 p-3 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900/40">
+      <div className="flex items-center gap-2">
+        <Switch
+          checked={rule.enabled}
+          onCheckedChange={enabled => onChange({ ...rule, enabled })}
+          aria-label="Rule enabled"
+        />
+        <Select
+          value={rule.matchType}
+          onValueChange={(matchType: EventRule['matchType']) => onChange({ ...rule, matchType })}
+        >
+          <SelectTrigger className="h-8 w-28 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="keywords">Keywords</SelectItem>
+            <SelectItem value="regex">Regex</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          value={rule.pattern}
+          onChange={e => onChange({ ...rule, pattern: e.target.value })}
+          placeholder={rule.matchType === 'keywords' ? 'Focus time, Lunch' : '^\\[HS\\]\\s*'}
+          className={`h-8 text-xs font-mono ${patternError ? 'border-red-500' : ''}`}
+        />
+        <Button size="sm" variant="ghost" onClick={onRemove} aria-label="Remove rule">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      {patternError && <p className="text-xs text-red-600 dark:text-red-400">{patternError}</p>}
+
+      <div className="flex items-center gap-3 text-xs text-gray-700 dark:text-gray-300">
+        <span className="text-gray-500 dark:text-gray-400">Match in</span>
+        {EVENT_RULE_FIELDS.map(field => (
+          <label key={field} className="flex items-center gap-1 capitalize cursor-pointer">
+            <Checkbox
+              checked={rule.fields.includes(field)}
+              onCheckedChange={checked => toggleField(field, checked === true)}
+            />
+            {field}
+          </label>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300 cursor-pointer">
+        <Checkbox
+          checked={!!rule.actions.hide}
+          onCheckedChange={checked => setActions({ hide: checked === true })}
+        />
+        Hide matching events
+      </label>
+
+      {!rule.actions.hide && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {rule.matchType === 'regex' ? (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                checked={rule.actions.title !== undefined}
+                onCheckedChange={checked => setActions({ title: checked === true ? '' : undefined })}
+                aria-label="Rewrite matched text in the title"
+              />
+              <Input
+                value={rule.actions.title ?? ''}
+                onChange={e => setActions({ title: e.target.value })}
+                disabled={rule.actions.title === undefined}
+                placeholder="Replace match with (blank removes it)"
+                className="h-8 text-xs"
+              />
+            </div>
+          ) : (
+            <Input
+              value={rule.actions.title ?? ''}
+              onChange={e => setActions({ title: e.target.value || undefined })}
+              placeholder="New title"
+              className="h-8 text-xs"
+            />
+          )}
+          <Select
+            value={rule.actions.category ?? KEEP}
+            onValueChange={value => setActions({ category: value === KEEP ? undefined : value as Event['category'] })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={KEEP}>Keep category</SelectItem>
+              {EVENT_CATEGORIES.map(category => (
+                <SelectItem key={category} value={category}>{category}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={rule.actions.icon ?? KEEP}
+            onValueChange={value => setActions({ icon: value === KEEP ? undefined : value as EventIconName })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={KEEP}>No icon</SelectItem>
+              {(Object.keys(RULE_ICONS) as EventIconName[]).map(name => {
+                const { icon: Icon, label } = RULE_ICONS[name];
+                return (
+                  <SelectItem key={name} value={name}>
+                    <span className="flex items-center gap-2"><Icon className="h-3 w-3" />{label}</span>
+                  </SelectItem>
+                );
+              })}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-1 sm:col-span-3">
+            <span className="text-xs text-gray-500 dark:text-gray-400 mr-1">Color</span>
+            {EVENT_COLORS.map(color => (
+              <button
+                key={color}
+                type="button"
+                className={`w-5 h-5 rounded-full border-2 ${rule.actions.color === color ? 'border-gray-900 dark:border-gray-100' : 'border-gray-300 dark:border-gray-600'}`}
+                style={{ backgroundColor: color }}
+                onClick={() => setActions({ color: rule.actions.color === color ? undefined : color })}
+                aria-label={`Color ${color}`}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      <RulePreview rule={rule} previewEvents={previewEvents} />
+    </div>
+  );
+};
+
+/** Edits a calendar's transformation rules, previewing each against the calendar's events */
+const EventRulesEditor = ({ rules, previewEvents, onSave }: EventRulesEditorProps) => {
+  const [draft, setDraft] = useState<EventRule[]>(rules);
+
+  useEffect(() => {
+    setDraft(rules);
+  }, [rules]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(rules);
+  const hasErrors = draft.some(rule => validateRulePattern(rule));
+
+  const updateRule = (updated: EventRule) => setDraft(prev => prev.map(rule => (rule.id === updated.id ? updated : rule)));
+
+  return (
+    <div className="space-y-2">
+      {draft.length === 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Rules hide, rename, recolor or recategorize events from this calendar, e.g. hide "Focus time" or strip an "[HS]" prefix.
+        </p>
+      )}
+      {draft.map(rule => (
+        <RuleRow
+          key={rule.id}
+          rule={rule}
+          previewEvents={previewEvents}
+          onChange={updateRule}
+          onRemove={() => setDraft(prev => prev.filter(r => r.id !== rule.id))}
+        />
+      ))}
+      <div className="flex items-center gap-2">
+        <Button size="sm" variant="outline" onClick={() => setDraft(prev => [...prev, createEventRule()])}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add rule
+        </Button>
+        {isDirty && (
+          <>
+            <Button size="sm" onClick={() => onSave(draft)} disabled={hasErrors}>
+              Save rules
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setDraft(rules)}>
+              Discard
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EventRulesEditor;
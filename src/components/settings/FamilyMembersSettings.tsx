@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Trash2, Users } from 'lucide-react';
+import { FamilyMember } from '@/types/calendar';
+import { useCalendarSelection } from '@/hooks/useCalendarSelection';
+import { EVENT_COLORS } from '@/components/event/eventUtils';
+import { MemberAvatar } from '@/components/event/MemberAvatars';
+import { createFamilyMember } from '@/utils/familyMembers';
+
+const FamilyMembersSettings = () => {
+  const { allCalendars, familyMembers, saveFamilyMember, deleteFamilyMember } = useCalendarSelection();
+  const [newName, setNewName] = useState('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    saveFamilyMember(createFamilyMember(newName, EVENT_COLORS[familyMembers.length % EVENT_COLORS.length]));
+    setNewName('');
+  };
+
+  const update = (member: FamilyMember, changes: Partial<FamilyMember>) => {
+    saveFamilyMember({ ...member, ...changes });
+  };
+
+  const toggleCalendar = (member: FamilyMember, calendarId: string, checked: boolean) => {
+    update(member, {
+      calendarIds: checked
+        ? [...member.calendarIds, calendarId]
+        : member.calendarIds.filter(id => id !== calendarId)
+    });
+  };
+
+  const handleDelete = (member: FamilyMember) => {
+    if (window.confirm(`Remove ${member.name}? Their events stay on the calendar.`)) {
+      deleteFamilyMember(member.id);
+    }
+  };
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-gray-900 dark:text-gray-100">
+          <Users className="h-5 w-5" />
+          Family Members
+        </CardTitle>
+        <CardDescription className="text-gray-600 dark:text-gray-400">
+          Events belong to a member when they come from one of the member's calendars, or when the member's name appears in the title.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <Input
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            placeholder="Name"
+            aria-label="New family member name"
+          />
+          <Button type="submit" size="sm" disabled={!newName.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </form>
+
+        {familyMembers.map(member => (
+          <div key={member.id} className="space-y-3 p-3 rounded border border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-2">
+              <MemberAvatar member={member} className="h-8 w-8 text-xs" />
+              <Input
+                value={member.name}
+                onChange={e => update(member, { name: e.target.value })}
+                aria-label="Member name"
+                className="flex-1"
+              />
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleDelete(member)}
+                aria-label={`Remove ${member.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="flex items-center gap-1">
+              <span className="text-xs text-gray-500 dark:text-gray-400 mr-1">Color</span>
+              {EVENT_COLORS.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  className={`w-5 h-5 rounded-full border-2 ${member.color === color ? 'border-gray-900 dark:border-gray-100' : 'border-gray-300 dark:border-gray-600'}`}
+                  style={{ backgroundColor: color }}
+                  onClick={() => update(member, { color })}
+                  aria-label={`Color ${color}`}
+                />
+              ))}
+            </div>
+
+            <div className="grid gap-2 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor={`${member.id}-avatar`} className="text-xs text-gray-600 dark:text-gray-400">Picture URL</Label>
+                <Input
+                  id={`${member.id}-avatar`}
+                  value={member.avatarUrl || ''}
+                  onChange={e => update(member, { avatarUrl: e.target.value.trim() || undefined })}
+                  placeholder="Initials are shown without one"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`${member.id}-aliases`} className="text-xs text-gray-600 dark:text-gray-400">Also known as</Label>
+                <Input
+                  id={`${member.id}-aliases`}
+                  defaultValue={member.aliases.join(', ')}
+                  onBlur={e => update(member, { aliases: e.target.value.split(',').map(alias => alias.trim()).filter(Boolean) })}
+                  placeholder="Nicknames, comma separated"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor={`${member.id}-match-title`} className="text-sm text-gray-900 dark:text-gray-100">
+                Tag events that mention {member.name || 'them'} in the title
+              </Label>
+              <Switch
+                id={`${member.id}-match-title`}
+                checked={member.matchTitle}
+                onCheckedChange={matchTitle => update(member, { matchTitle })}
+              />
+            </div>
+
+            {allCalendars.length > 0 && (
+              <div className="space-y-1">
+                <Label className="text-xs text-gray-600 dark:text-gray-400">Calendars</Label>
+                <div className="grid gap-1 sm:grid-cols-2">
+                  {allCalendars.map(calendar => (
+                    <label key={calendar.id} className="flex items-center gap-2 text-sm text-gray-900 dark:text-gray-100 cursor-pointer">
+                      <Checkbox
+                        checked={member.calendarIds.includes(calendar.id)}
+                        onCheckedChange={checked => toggleCalendar(member, calendar.id, checked === true)}
+                      />
+                      <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: calendar.color }} />
+                      <span className="truncate">{calendar.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FamilyMembersSettings;
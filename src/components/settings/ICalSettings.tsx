@@ -7,11 +7,13 @@ import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { useICalCalendars } from '@/hooks/useICalCalendars';
 import { useCalendarSelection } from '@/hooks/useCalendarSelection';
-import { Calendar, Plus, RotateCcw, BarChart3, AlertCircle } from 'lucide-react';
+import { Calendar, Plus, RotateCcw, BarChart3, AlertCircle, Upload } from 'lucide-react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import EditableCalendarCard from './EditableCalendarCard';
 import { ICalCalendar } from '@/types/ical';
+import { DEFAULT_EXPANSION_PAST_MONTHS, DEFAULT_EXPANSION_FUTURE_MONTHS } from '@/utils/icalExpansionTestable';
+import { getImportedCalendarName } from '@/utils/icalEventUtils';
 
 const CALENDAR_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#06b6d4', '#3b82f6', '#8b5cf6', '#ec4899'];
 
@@ -32,7 +34,9 @@ const ICalSettings = ({
     updateCalendar,
     removeCalendar,
     syncCalendar,
-    syncAllCalendars
+    syncAllCalendars,
+    importCalendarFile,
+    reimportCalendarFile
   } = useICalCalendars();
   const {
     selectedCalendarIds: hookSelectedCalendarIds,
@@ -51,8 +55,13 @@ const ICalSettings = ({
     url: '',
     color: CALENDAR_COLORS[0],
   enabled: true,
-  syncFrequencyPerDay: 0
+  syncFrequencyPerDay: 0,
+  expansionPastMonths: DEFAULT_EXPANSION_PAST_MONTHS,
+  expansionFutureMonths: DEFAULT_EXPANSION_FUTURE_MONTHS
   });
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importDetails, setImportDetails] = useState({ name: '', color: CALENDAR_COLORS[0] });
 
   // Debug logging for calendar state
   useEffect(() => {
@@ -63,9 +72,9 @@ const ICalSettings = ({
   const iCalOnlyCalendars = React.useMemo(() => {
     const calendarMap = new Map<string, ICalCalendar>();
 
-    // Only add calendars from IndexedDB that have URLs (are actual iCal feeds)
+    // Only add calendars from IndexedDB that are actual iCal feeds: subscribed URLs or imported files
     calendars.forEach(cal => {
-      if (cal.url && cal.url.trim() !== '') {
+      if ((cal.url && cal.url.trim() !== '') || cal.sourceType === 'file') {
   // debug removed: processing iCal calendar from IndexedDB
         calendarMap.set(cal.id, {
           ...cal,
@@ -147,7 +156,10 @@ const ICalSettings = ({
         name: newCalendar.name,
         url: newCalendar.url,
         color: newCalendar.color,
-        enabled: newCalendar.enabled
+        enabled: newCalendar.enabled,
+        syncFrequencyPerDay: newCalendar.syncFrequencyPerDay,
+        expansionPastMonths: newCalendar.expansionPastMonths,
+        expansionFutureMonths: newCalendar.expansionFutureMonths
       });
   // debug removed: calendar added successfully
 
@@ -180,7 +192,9 @@ const ICalSettings = ({
         url: '',
         color: CALENDAR_COLORS[0],
   enabled: true,
-  syncFrequencyPerDay: 0
+  syncFrequencyPerDay: 0,
+  expansionPastMonths: DEFAULT_EXPANSION_PAST_MONTHS,
+  expansionFutureMonths: DEFAULT_EXPANSION_FUTURE_MONTHS
       });
       setShowAddDialog(false);
     } catch (error) {
@@ -193,6 +207,67 @@ const ICalSettings = ({
     }
   };
 
+  const handleImportFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] || null;
+    setImportFile(file);
+    if (!file) return;
+    try {
+      // Suggest the calendar's own name while keeping anything the user already typed
+      const suggested = getImportedCalendarName(await file.text(), file.name);
+      setImportDetails(prev => (prev.name.trim() ? prev : { ...prev, name: suggested }));
+    } catch (error) {
+      console.warn('Could not read calendar name from file:', error);
+    }
+  };
+
+  const handleImportCalendar = async () => {
+    if (!importFile || !importDetails.name.trim()) {
+      toast({
+        title: "Missing information",
+        description: "Please choose an .ics file and give the calendar a name.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const { calendar, eventCount } = await importCalendarFile(importFile, importDetails);
+      forceRefresh();
+      toast({
+        title: "Calendar imported",
+        description: `${calendar.name} was imported with ${eventCount} events.`
+      });
+      setImportFile(null);
+      setImportDetails({ name: '', color: CALENDAR_COLORS[0] });
+      setShowImportDialog(false);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      toast({
+        title: "Import failed",
+        description: errorMessage,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleReimport = async (calendar: ICalCalendar, file: File) => {
+    try {
+      const events = await reimportCalendarFile(calendar, file);
+      forceRefresh();
+      toast({
+        title: "Calendar updated",
+        description: `${calendar.name} now has ${events.length} events from ${file.name}.`
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      toast({
+        title: "Import failed",
+        description: `Failed to import ${file.name}: ${errorMessage}`,
+        variant: "destructive"
+      });
+    }
+  };
+
   const handleSync = async (calendar: ICalCalendar) => {
   // debug removed: attempting to sync calendar
     if (!calendar.url || calendar.url.trim() === '') {
@@ -257,6 +332,17 @@ const ICalSettings = ({
   const handleUpdateCalendar = async (id: string, updates: Partial<ICalCalendar>) => {
     try {
       await updateCalendar(id, updates);
+      // A new horizon changes which occurrences are stored, so re-expand right away
+      const existing = calendars.find(cal => cal.id === id);
+      const horizonChanged = existing && (
+        (updates.expansionPastMonths !== undefined && updates.expansionPastMonths !== existing.expansionPastMonths) ||
+        (updates.expansionFutureMonths !== undefined && updates.expansionFutureMonths !== existing.expansionFutureMonths)
+      );
+      if (existing && horizonChanged && (existing.url || existing.sourceType === 'file')) {
+        syncCalendar({ ...existing, ...updates }).catch((error) => {
+          console.warn('Re-sync after horizon change failed:', error);
+        });
+      }
       toast({
         title: "Calendar updated",
         description: "Calendar has been updated successfully."
@@ -271,7 +357,7 @@ const ICalSettings = ({
     }
   };
 
-  const enabledCalendarsCount = iCalOnlyCalendars.filter(cal => cal.enabled && cal.source === 'config').length;
+  const enabledCalendarsCount = iCalOnlyCalendars.filter(cal => cal.enabled && cal.source === 'config' && cal.sourceType !== 'file').length;
   const totalEvents = calendarsFromEvents
     .filter(cal => !cal.id.startsWith('notion_') && !cal.id.includes('scraped') && cal.id !== 'local_calendar')
     .reduce((sum, cal) => sum + cal.eventCount, 0);
@@ -289,7 +375,7 @@ const ICalSettings = ({
               Calendar Feeds
             </CardTitle>
             <CardDescription className="text-gray-600 dark:text-gray-400">
-              Add external calendar feeds using iCal/ICS URLs. Does not include Notion calendars.
+              Add external calendar feeds using iCal/ICS URLs or import .ics files. Does not include Notion calendars.
             </CardDescription>
           </div>
           {iCalOnlyCalendars.length > 0 && (
@@ -401,6 +487,35 @@ const ICalSettings = ({
                   </select>
                 </div>
                 </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label className="text-gray-700 dark:text-gray-300">Past History</Label>
+                    <select
+                      value={newCalendar.expansionPastMonths}
+                      onChange={(e) => setNewCalendar(prev => ({ ...prev, expansionPastMonths: Number(e.target.value) }))}
+                      className="mt-1 w-full h-10 rounded-md border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 px-3 text-sm text-gray-900 dark:text-gray-100 focus:outline-none"
+                    >
+                      <option value={1}>1 month</option>
+                      <option value={3}>3 months</option>
+                      <option value={6}>6 months</option>
+                      <option value={12}>12 months</option>
+                    </select>
+                  </div>
+                  <div>
+                    <Label className="text-gray-700 dark:text-gray-300">Look Ahead</Label>
+                    <select
+                      value={newCalendar.expansionFutureMonths}
+                      onChange={(e) => setNewCalendar(prev => ({ ...prev, expansionFutureMonths: Number(e.target.value) }))}
+                      className="mt-1 w-full h-10 rounded-md border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 px-3 text-sm text-gray-900 dark:text-gray-100 focus:outline-none"
+                    >
+                      <option value={6}>6 months</option>
+                      <option value={12}>12 months</option>
+                      <option value={18}>18 months</option>
+                      <option value={24}>24 months</option>
+                      <option value={36}>36 months</option>
+                    </select>
+                  </div>
+                </div>
                 <div className="flex justify-end gap-2">
                 <Button
                   variant="outline"
@@ -421,6 +536,80 @@ const ICalSettings = ({
           </DialogContent>
         </Dialog>
 
+        {/* Import File Button */}
+        <Dialog open={showImportDialog} onOpenChange={setShowImportDialog}>
+          <DialogTrigger asChild>
+            <Button
+              variant="outline"
+              className="w-full border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import .ics File
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+            <DialogHeader>
+              <DialogTitle className="text-gray-900 dark:text-gray-100">Import Calendar File</DialogTitle>
+              <DialogDescription className="text-gray-600 dark:text-gray-400">
+                For calendars published only as a downloadable .ics file. Import a newer file later to replace its events.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="calendar-file" className="text-gray-700 dark:text-gray-300">Calendar File</Label>
+                <Input
+                  id="calendar-file"
+                  type="file"
+                  accept=".ics,text/calendar"
+                  onChange={handleImportFileChange}
+                  className="bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 text-gray-900 dark:text-gray-100"
+                />
+              </div>
+              <div>
+                <Label htmlFor="import-calendar-name" className="text-gray-700 dark:text-gray-300">Calendar Name</Label>
+                <Input
+                  id="import-calendar-name"
+                  placeholder="School Calendar"
+                  value={importDetails.name}
+                  onChange={(e) => setImportDetails(prev => ({ ...prev, name: e.target.value }))}
+                  className="bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 text-gray-900 dark:text-gray-100"
+                />
+              </div>
+              <div>
+                <Label className="text-gray-700 dark:text-gray-300">Calendar Color</Label>
+                <div className="flex gap-2 mt-2">
+                  {CALENDAR_COLORS.map(color => (
+                    <button
+                      key={color}
+                      className={`w-6 h-6 rounded-full border-2 ${
+                        importDetails.color === color ? 'border-gray-900 dark:border-gray-100' : 'border-gray-300 dark:border-gray-600'
+                      }`}
+                      style={{ backgroundColor: color }}
+                      onClick={() => setImportDetails(prev => ({ ...prev, color }))}
+                    />
+                  ))}
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setShowImportDialog(false)}
+                  className="border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleImportCalendar}
+                  disabled={!importFile}
+                  className="bg-gray-600 hover:bg-gray-700 dark:bg-blue-600 dark:hover:bg-blue-700 text-white"
+                >
+                  Import Calendar
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+
         {/* Calendar List */}
         {iCalOnlyCalendars.length > 0 && (
           <div className="space-y-3">
@@ -432,6 +621,7 @@ const ICalSettings = ({
                 syncStatus={syncStatus[calendar.id] || ''}
                 onUpdate={handleUpdateCalendar}
                 onSync={handleSync}
+                onReimport={handleReimport}
                 onRemove={handleRemove}
                 onToggleSelection={(calendarId: string, selected: boolean) => {
                   // debug removed: toggle selection
@@ -460,6 +650,7 @@ const ICalSettings = ({
             <p>• Use the sync buttons to manually refresh calendar data</p>
             <p>• Look for "Export" or "Share" options in your calendar application</p>
             <p>• Typical feed URLs end with .ics, include /ical/ in the path, or use format=ical</p>
+            <p>• Calendars only offered as a download can be imported as an .ics file instead</p>
           </AlertDescription>
         </Alert>
       </CardContent>
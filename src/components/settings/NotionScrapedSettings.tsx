@@ -8,6 +8,8 @@ import { useSettings } from '@/contexts/settings/SettingsContext';
 import { NotionUrlForm } from './NotionUrlForm';
 import ScrapedCalendarCard from './ScrapedCalendarCard';
 import { toast } from 'sonner';
+import { convertScrapedEventToEvent } from '@/hooks/useEventFiltering';
+import type { Event, EventRule } from '@/types/calendar';
 
 interface NotionScrapedSettingsProps {
   selectedCalendarIds: string[];
@@ -18,6 +20,7 @@ const NotionScrapedSettings = ({ selectedCalendarIds, onToggleSelection }: Notio
   const [showAddForm, setShowAddForm] = React.useState(false);
   const { 
     calendars, 
+    events,
     isLoading, 
     addCalendar, 
     removeCalendar, 
@@ -115,6 +118,35 @@ const NotionScrapedSettings = ({ selectedCalendarIds, onToggleSelection }: Notio
     }
   };
 
+  const handleUpdateDefaultCategory = async (id: string, defaultCategory: Event['category'] | undefined) => {
+    try {
+      await updateCalendar(id, { defaultCategory });
+      toast.success(defaultCategory ? `Events default to ${defaultCategory}` : 'Default category cleared');
+    } catch (e) {
+      toast.error('Failed to update category');
+    }
+  };
+
+  const handleUpdateRules = async (id: string, rules: EventRule[]) => {
+    try {
+      await updateCalendar(id, { rules });
+      toast.success('Rules saved');
+    } catch (e) {
+      toast.error('Failed to save rules');
+    }
+  };
+
+  const previewEventsByCalendar = React.useMemo(() => {
+    const byCalendar = new Map<string, Event[]>();
+    events.forEach(event => {
+      if (!event.calendarId) return;
+      const list = byCalendar.get(event.calendarId) || [];
+      list.push(convertScrapedEventToEvent(event));
+      byCalendar.set(event.calendarId, list);
+    });
+    return byCalendar;
+  }, [events]);
+
   const handleToggleSelection = (calendarId: string, selected: boolean) => {
     // debug removed: notion scraped settings toggle selection
     onToggleSelection(calendarId, selected);
@@ -210,7 +242,9 @@ const NotionScrapedSettings = ({ selectedCalendarIds, onToggleSelection }: Notio
               eventCount: calendar.eventCount || 0,
               lastSync: calendar.lastSync,
               type: calendar.type,
-              syncFrequencyPerDay: calendar.syncFrequencyPerDay
+              syncFrequencyPerDay: calendar.syncFrequencyPerDay,
+              defaultCategory: calendar.defaultCategory,
+              rules: calendar.rules
             }}
             onToggle={handleToggleCalendar}
             onDelete={handleDeleteCalendar}
@@ -219,6 +253,9 @@ const NotionScrapedSettings = ({ selectedCalendarIds, onToggleSelection }: Notio
             isSelected={selectedCalendarIds.includes(calendar.id)}
             onToggleSelection={handleToggleSelection}
             onUpdateFrequency={handleUpdateFrequency}
+            onUpdateDefaultCategory={handleUpdateDefaultCategory}
+            onUpdateRules={handleUpdateRules}
+            previewEvents={previewEventsByCalendar.get(calendar.id)}
           />
         ))}
       </div>
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Network, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { proxyRegistry, ProxyStatus } from '@/services/proxyRegistry';
+
+const getHealthBadge = (status: ProxyStatus) => {
+  if (status.inCooldown) {
+    return <Badge variant="destructive">Cooling down</Badge>;
+  }
+  if (status.successRate === null) {
+    return <Badge variant="outline">Untested</Badge>;
+  }
+  if (status.health.consecutiveFailures > 0) {
+    return <Badge variant="secondary">Failing</Badge>;
+  }
+  return <Badge className="bg-green-600 hover:bg-green-600 text-white">Healthy</Badge>;
+};
+
+const ProxyDiagnostics = () => {
+  const { toast } = useToast();
+  const [statuses, setStatuses] = useState<ProxyStatus[]>(() => proxyRegistry.getStatuses());
+  const [newProxy, setNewProxy] = useState({ label: '', template: '' });
+
+  useEffect(() => proxyRegistry.subscribe(() => setStatuses(proxyRegistry.getStatuses())), []);
+
+  const handleAddProxy = () => {
+    try {
+      const proxy = proxyRegistry.addCustomProxy(newProxy.label, newProxy.template);
+      setNewProxy({ label: '', template: '' });
+      toast({
+        title: "Proxy added",
+        description: `${proxy.label} will be tried alongside the public proxies.`
+      });
+    } catch (error) {
+      toast({
+        title: "Invalid proxy",
+        description: error instanceof Error ? error.message : 'Could not add proxy.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-gray-900 dark:text-gray-100">
+          <Network className="h-5 w-5" />
+          Proxy Diagnostics
+        </CardTitle>
+        <CardDescription className="text-gray-600 dark:text-gray-400">
+          CORS proxies used to reach calendar feeds, photo albums and Notion pages. The healthiest are tried first.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="space-y-2">
+          {statuses.map(status => (
+            <li
+              key={status.id}
+              className="flex items-center justify-between gap-3 p-2 rounded border border-gray-200 dark:border-gray-700"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{status.label}</span>
+                  {status.custom && <Badge variant="outline">Custom</Badge>}
+                </div>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  {status.successRate === null
+                    ? 'Not used yet'
+                    : `${Math.round(status.successRate * 100)}% of ${status.health.successCount + status.health.failureCount} requests`}
+                  {status.health.avgLatencyMs !== null && ` · ${status.health.avgLatencyMs} ms avg`}
+                  {status.health.lastSuccessAt && ` · last worked ${formatDistanceToNow(status.health.lastSuccessAt, { addSuffix: true })}`}
+                </p>
+                {status.health.consecutiveFailures > 0 && status.health.lastError && (
+                  <p className="text-xs text-red-600 dark:text-red-400 truncate" title={status.health.lastError}>
+                    {status.health.lastError}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {getHealthBadge(status)}
+                {status.custom && status.id !== 'env' && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => proxyRegistry.removeCustomProxy(status.id)}
+                    aria-label={`Remove ${status.label}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="space-y-2">
+          <Label htmlFor="custom-proxy-template" className="text-gray-700 dark:text-gray-300">
+            Add a self-hosted proxy
+          </Label>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              id="custom-proxy-label"
+              placeholder="Name (optional)"
+              value={newProxy.label}
+              onChange={(e) => setNewProxy(prev => ({ ...prev, label: e.target.value }))}
+              className="sm:w-40"
+            />
+            <Input
+              id="custom-proxy-template"
+              placeholder="https://proxy.example.com/?url={url}"
+              value={newProxy.template}
+              onChange={(e) => setNewProxy(prev => ({ ...prev, template: e.target.value }))}
+            />
+            <Button onClick={handleAddProxy} disabled={!newProxy.template.trim()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Use {'{url}'} for the encoded address or {'{rawUrl}'} for the address as-is; otherwise it is sent as a url parameter.
+          </p>
+        </div>
+
+        <Button variant="outline" size="sm" onClick={() => proxyRegistry.resetHealth()}>
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Reset statistics
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProxyDiagnostics;
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Bell, Trash2 } from 'lucide-react';
+import { useCalendarSelection } from '@/hooks/useCalendarSelection';
+import { useReminderSettings } from '@/hooks/useReminders';
+import { formatReminderLead, REMINDER_PRESETS } from '@/utils/reminders';
+
+const getPermission = (): NotificationPermission | 'unsupported' =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+const ReminderSettings = () => {
+  const { allCalendars } = useCalendarSelection();
+  const { reminders, calendarDefaults, removeReminder, setCalendarDefault } = useReminderSettings();
+  const [permission, setPermission] = useState(getPermission);
+
+  const handleAllowNotifications = async () => {
+    try {
+      setPermission(await Notification.requestPermission());
+    } catch (error) {
+      console.warn('Failed to request notification permission:', error);
+    }
+  };
+
+  const upcoming = [...reminders].sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-gray-900 dark:text-gray-100">
+          <Bell className="h-5 w-5" />
+          Reminders
+        </CardTitle>
+        <CardDescription className="text-gray-600 dark:text-gray-400">
+          Reminders fill the screen while the calendar is showing, and arrive as notifications while it is in the background. Events keep the reminders set in their own calendar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <Label className="text-gray-900 dark:text-gray-100">Notifications</Label>
+          {permission === 'default' && (
+            <Button size="sm" variant="outline" onClick={handleAllowNotifications}>
+              Allow notifications
+            </Button>
+          )}
+          {permission === 'granted' && <span className="text-sm text-green-700 dark:text-green-400">Allowed</span>}
+          {permission === 'denied' && (
+            <span className="text-sm text-gray-600 dark:text-gray-400">Blocked in the browser's site settings</span>
+          )}
+          {permission === 'unsupported' && (
+            <span className="text-sm text-gray-600 dark:text-gray-400">Not supported by this browser</span>
+          )}
+        </div>
+
+        {allCalendars.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-gray-900 dark:text-gray-100">Default reminder per calendar</Label>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              For timed events that have no reminder of their own.
+            </p>
+            <ul className="space-y-1">
+              {allCalendars.map(calendar => (
+                <li
+                  key={calendar.id}
+                  className="flex items-center gap-2 p-2 rounded border border-gray-200 dark:border-gray-700"
+                >
+                  <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: calendar.color }} />
+                  <span className="flex-1 text-sm text-gray-900 dark:text-gray-100 truncate">{calendar.name}</span>
+                  <Select
+                    value={calendarDefaults[calendar.id] !== undefined ? String(calendarDefaults[calendar.id]) : 'none'}
+                    onValueChange={value => setCalendarDefault(calendar.id, value === 'none' ? undefined : Number(value))}
+                  >
+                    <SelectTrigger className="h-8 w-44 text-xs" aria-label={`Default reminder for ${calendar.name}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No reminder</SelectItem>
+                      {REMINDER_PRESETS.map(lead => (
+                        <SelectItem key={lead} value={String(lead)}>{formatReminderLead(lead)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {upcoming.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-gray-900 dark:text-gray-100">Added reminders</Label>
+            <ul className="space-y-1">
+              {upcoming.map(reminder => (
+                <li
+                  key={reminder.id}
+                  className="flex items-center justify-between gap-2 p-2 rounded border border-gray-200 dark:border-gray-700"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-900 dark:text-gray-100 truncate">{reminder.title}</p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">
+                      {format(new Date(reminder.start), 'EEE, MMM d, h:mm a')} · {formatReminderLead(reminder.minutesBefore)}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => removeReminder(reminder.id)}
+                    aria-label={`Remove reminder for ${reminder.title}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReminderSettings;
@@ -4,8 +4,11 @@ import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/componen
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Trash2, RefreshCw, Calendar, Eye, EyeOff } from 'lucide-react';
+import { Trash2, RefreshCw, Calendar, Eye, EyeOff, Wand2 } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Event, EventRule } from '@/types/calendar';
+import EventRulesEditor from './EventRulesEditor';
+import { EVENT_CATEGORIES } from '@/utils/eventCategories';
 
 export interface ScrapedCalendarData {
   id: string;
@@ -16,6 +19,8 @@ export interface ScrapedCalendarData {
   lastSync?: string;
   type: 'notion-scraped';
   syncFrequencyPerDay?: number;
+  defaultCategory?: Event['category'];
+  rules?: EventRule[];
 }
 
 interface ScrapedCalendarCardProps {
@@ -27,6 +32,10 @@ interface ScrapedCalendarCardProps {
   isSelected?: boolean;
   onToggleSelection?: (id: string, selected: boolean) => void;
   onUpdateFrequency?: (id: string, freq: number) => void;
+  onUpdateDefaultCategory?: (id: string, category: Event['category'] | undefined) => void;
+  onUpdateRules?: (id: string, rules: EventRule[]) => void;
+  /** This calendar's events, for previewing rules */
+  previewEvents?: Event[];
 }
 
 const ScrapedCalendarCard = ({ 
@@ -37,8 +46,14 @@ const ScrapedCalendarCard = ({
   isSyncing = false,
   isSelected = false,
   onToggleSelection,
-  onUpdateFrequency
+  onUpdateFrequency,
+  onUpdateDefaultCategory,
+  onUpdateRules,
+  previewEvents = []
 }: ScrapedCalendarCardProps) => {
+  const [showRules, setShowRules] = React.useState(false);
+  const ruleCount = calendar.rules?.length || 0;
+
   const handleToggle = (checked: boolean) => {
     onToggle(calendar.id, checked);
   };
@@ -169,6 +184,45 @@ const ScrapedCalendarCard = ({
             <option value={24}>24 / day (hourly)</option>
           </select>
         </div>
+
+        {/* Default Category */}
+        {onUpdateDefaultCategory && (
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Default Category</label>
+            <select
+              value={calendar.defaultCategory || ''}
+              onChange={e => onUpdateDefaultCategory(calendar.id, (e.target.value || undefined) as Event['category'] | undefined)}
+              className="w-full h-8 rounded border border-gray-300 bg-white text-xs px-2"
+            >
+              <option value="">From select properties</option>
+              {EVENT_CATEGORIES.map(category => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Transformation Rules */}
+        {onUpdateRules && (
+          <div className="space-y-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowRules(prev => !prev)}
+              className="gap-2 px-0 text-sm font-medium"
+            >
+              <Wand2 className="h-4 w-4" />
+              Rules{ruleCount > 0 && ` (${ruleCount})`}
+            </Button>
+            {showRules && (
+              <EventRulesEditor
+                rules={calendar.rules || []}
+                previewEvents={previewEvents}
+                onSave={rules => onUpdateRules(calendar.id, rules)}
+              />
+            )}
+          </div>
+        )}
       </CardContent>
 
       {/* Visibility Control Footer */}
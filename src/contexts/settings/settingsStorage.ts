@@ -8,10 +8,11 @@
 
 import { secureStorage } from '@/utils/security/secureStorage';
 import { settingsStorageService } from '@/services/settingsStorageService';
+import type { ViewMode } from '@/types/calendar';
 
 interface LoadedSettings {
   theme?: 'light' | 'dark' | 'system' | null;
-  defaultView?: 'month' | 'week' | 'timeline' | null;
+  defaultView?: ViewMode | null;
   backgroundDuration?: string | null;
   selectedAlbum?: string | null;
   coordinates?: string | null;
@@ -76,7 +77,7 @@ export class SettingsStorage {
       // Fallback to direct localStorage access
       return {
         theme: localStorage.getItem('theme') as 'light' | 'dark' | 'system' | null,
-        defaultView: localStorage.getItem('defaultView') as 'month' | 'week' | 'timeline' | null,
+        defaultView: localStorage.getItem('defaultView') as ViewMode | null,
         backgroundDuration: localStorage.getItem('backgroundDuration'),
         selectedAlbum: localStorage.getItem('selectedAlbum'),
         coordinates: localStorage.getItem('coordinates'),
@@ -5,6 +5,8 @@
  * Type definitions for all application settings and context interfaces.
  */
 
+import type { TimelineOptions, ViewMode } from '@/types/calendar';
+
 export interface SettingsContextType {
   // Display Settings
   /** Current theme preference (light/dark/system) */
@@ -12,9 +14,19 @@ export interface SettingsContextType {
   /** Update theme setting and apply immediately */
   setTheme: (theme: 'light' | 'dark' | 'system') => void;
   /** Default calendar view on app load */
-  defaultView: 'month' | 'week' | 'timeline';
+  defaultView: ViewMode;
   /** Update default view preference */
-  setDefaultView: (view: 'month' | 'week' | 'timeline') => void;
+  setDefaultView: (view: ViewMode) => void;
+  /** Days the timeline lists on this display */
+  timelineOptions: TimelineOptions;
+  /** Update timeline length and skipped days */
+  setTimelineOptions: (options: TimelineOptions) => void;
+  /** Display the timeline options belong to, from `?display=` ('default' without one) */
+  displayProfile: string;
+  /** IANA zone event times are displayed in (defaults to the device zone) */
+  householdTimeZone: string;
+  /** Update household display zone; stored iCal occurrences are re-expanded */
+  setHouseholdTimeZone: (timeZone: string) => void;
   
   // Weather Settings (Sensitive - encrypted when possible)
   /** User's coordinates for weather location */
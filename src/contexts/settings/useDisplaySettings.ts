@@ -7,40 +7,71 @@
 
 import { useState, useEffect } from 'react';
 import { settingsStorageService } from '@/services/settingsStorageService';
+import { getHouseholdTimeZone, HOUSEHOLD_TIME_ZONE_KEY } from '@/utils/timeZoneUtils';
+import {
+  DEFAULT_DISPLAY_PROFILE,
+  DEFAULT_TIMELINE_OPTIONS,
+  getDisplayProfileFromUrl,
+  getTimelineOptionsKey,
+  isViewMode,
+  parseTimelineOptions
+} from '@/utils/viewModes';
+import type { TimelineOptions, ViewMode } from '@/types/calendar';
 
 export const useDisplaySettings = () => {
   const [theme, setTheme] = useState<'light' | 'dark' | 'system'>('light');
-  const [defaultView, setDefaultView] = useState<'month' | 'week' | 'timeline'>('timeline');
+  const [defaultView, setDefaultView] = useState<ViewMode>('timeline');
+  const [timelineOptions, setTimelineOptions] = useState<TimelineOptions>(DEFAULT_TIMELINE_OPTIONS);
+  // Timeline options are kept per display; a display without a saved choice starts from the default one
+  const [displayProfile] = useState<string>(() => getDisplayProfileFromUrl());
+  const timelineOptionsKey = getTimelineOptionsKey(displayProfile);
+  const defaultTimelineOptionsKey = getTimelineOptionsKey(DEFAULT_DISPLAY_PROFILE);
+  // Read synchronously from localStorage, the same source iCal sync uses outside React
+  const [householdTimeZone, setHouseholdTimeZone] = useState<string>(getHouseholdTimeZone);
   const [isInitialized, setIsInitialized] = useState(false);
 
   // Load initial settings from tiered storage
   useEffect(() => {
+    let cancelled = false;
     const loadSettings = async () => {
       try {
-        const savedTheme = await settingsStorageService.getValue('theme') as 'light' | 'dark' | 'system' | null;
-        const savedDefaultView = await settingsStorageService.getValue('defaultView') as 'month' | 'week' | 'timeline' | null;
+        const [savedTheme, savedDefaultView, savedTimelineOptions, defaultTimelineOptions] = await Promise.all([
+          settingsStorageService.getValue('theme') as Promise<'light' | 'dark' | 'system' | null>,
+          settingsStorageService.getValue('defaultView'),
+          settingsStorageService.getValue(timelineOptionsKey),
+          settingsStorageService.getValue(defaultTimelineOptionsKey)
+        ]);
+        if (cancelled) return;
         
         if (savedTheme) {
           setTheme(savedTheme);
         }
-        if (savedDefaultView) {
+        if (isViewMode(savedDefaultView)) {
           setDefaultView(savedDefaultView);
         }
+        if (savedTimelineOptions || defaultTimelineOptions) {
+          setTimelineOptions(parseTimelineOptions(savedTimelineOptions ?? defaultTimelineOptions));
+        }
       } catch (error) {
+        if (cancelled) return;
         console.warn('Failed to load display settings:', error);
         // Fallback to localStorage for compatibility
         const fallbackTheme = localStorage.getItem('theme') as 'light' | 'dark' | 'system' | null;
-        const fallbackDefaultView = localStorage.getItem('defaultView') as 'month' | 'week' | 'timeline' | null;
+        const fallbackDefaultView = localStorage.getItem('defaultView');
         
         if (fallbackTheme) setTheme(fallbackTheme);
-        if (fallbackDefaultView) setDefaultView(fallbackDefaultView);
+        if (isViewMode(fallbackDefaultView)) setDefaultView(fallbackDefaultView);
+        setTimelineOptions(parseTimelineOptions(
+          localStorage.getItem(timelineOptionsKey) ?? localStorage.getItem(defaultTimelineOptionsKey)
+        ));
       } finally {
-        setIsInitialized(true);
+        if (!cancelled) setIsInitialized(true);
       }
     };
     
     loadSettings();
-  }, []);
+    return () => { cancelled = true; };
+  }, [timelineOptionsKey, defaultTimelineOptionsKey]);
 
   // Auto-save theme to tiered storage (only after initialization)
   useEffect(() => {
@@ -64,10 +95,38 @@ export const useDisplaySettings = () => {
     });
   }, [defaultView, isInitialized]);
 
+  // Auto-save timeline options to tiered storage (only after initialization)
+  useEffect(() => {
+    if (!isInitialized) return;
+    
+    const value = JSON.stringify(timelineOptions);
+    settingsStorageService.setValue(timelineOptionsKey, value).catch(error => {
+      console.warn('Failed to save timelineOptions to tiered storage:', error);
+      // Fallback to localStorage
+      localStorage.setItem(timelineOptionsKey, value);
+    });
+  }, [timelineOptions, timelineOptionsKey, isInitialized]);
+
+  // Auto-save household time zone to tiered storage (only after initialization)
+  useEffect(() => {
+    if (!isInitialized) return;
+    
+    settingsStorageService.setValue(HOUSEHOLD_TIME_ZONE_KEY, householdTimeZone).catch(error => {
+      console.warn('Failed to save householdTimeZone to tiered storage:', error);
+      // Fallback to localStorage
+      localStorage.setItem(HOUSEHOLD_TIME_ZONE_KEY, householdTimeZone);
+    });
+  }, [householdTimeZone, isInitialized]);
+
   return {
     theme,
     setTheme,
     defaultView,
     setDefaultView,
+    timelineOptions,
+    setTimelineOptions,
+    displayProfile,
+    householdTimeZone,
+    setHouseholdTimeZone,
   };
 };
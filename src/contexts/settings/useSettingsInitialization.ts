@@ -8,10 +8,12 @@
 import { useEffect, useState } from 'react';
 import { SettingsStorage } from './settingsStorage';
 import { isTestEnv } from '@/utils/env';
+import { isViewMode } from '@/utils/viewModes';
+import type { ViewMode } from '@/types/calendar';
 
 interface InitializationProps {
   setTheme: (theme: 'light' | 'dark' | 'system') => void;
-  setDefaultView: (view: 'month' | 'week' | 'timeline') => void;
+  setDefaultView: (view: ViewMode) => void;
   setCoordinates: (coordinates: string) => void;
   setUseManualLocation: (useManual: boolean) => void;
   setPublicAlbumUrl: (url: string) => void;
@@ -47,7 +49,7 @@ export const useSettingsInitialization = (props: InitializationProps) => {
         const settings = await SettingsStorage.loadAllSettings();
         if (cancelled) return;
         if (settings.theme) props.setTheme(settings.theme);
-        if (settings.defaultView) props.setDefaultView(settings.defaultView);
+        if (isViewMode(settings.defaultView)) props.setDefaultView(settings.defaultView);
         if (settings.backgroundDuration) props.setBackgroundDuration(parseInt(settings.backgroundDuration) || 30);
         if (settings.selectedAlbum) props.setSelectedAlbum(settings.selectedAlbum);
         if (settings.coordinates) props.setCoordinates(settings.coordinates);
@@ -5,7 +5,9 @@ export const sampleEvents: Event[] = [
   {
     id: 1,
     title: 'Team Building Activity',
-    time: '1:00 PM - 5:00 PM',
+    start: new Date(2024, 11, 15, 13, 0),
+    end: new Date(2024, 11, 15, 17, 0),
+    allDay: false,
     location: 'Adventure Park',
     attendees: 1,
     category: 'Work',
@@ -17,7 +19,9 @@ export const sampleEvents: Event[] = [
   {
     id: 2,
     title: 'Parent-Teacher Conference',
-    time: '4:00 PM - 5:00 PM',
+    start: new Date(2024, 11, 15, 16, 0),
+    end: new Date(2024, 11, 15, 17, 0),
+    allDay: false,
     location: 'Elementary School',
     attendees: 1,
     category: 'Kids',
@@ -29,7 +33,9 @@ export const sampleEvents: Event[] = [
   {
     id: 3,
     title: 'Book Club Meeting',
-    time: '7:00 PM - 9:00 PM',
+    start: new Date(2024, 11, 16, 19, 0),
+    end: new Date(2024, 11, 16, 21, 0),
+    allDay: false,
     location: 'Local Library',
     attendees: 1,
     category: 'Personal',
@@ -41,7 +47,9 @@ export const sampleEvents: Event[] = [
   {
     id: 4,
     title: 'Family Hiking Trip',
-    time: '9:00 AM - 4:00 PM',
+    start: new Date(2024, 11, 17, 9, 0),
+    end: new Date(2024, 11, 17, 16, 0),
+    allDay: false,
     location: 'State Park Trail',
     attendees: 4,
     category: 'Family',
@@ -53,7 +61,9 @@ export const sampleEvents: Event[] = [
   {
     id: 5,
     title: 'Birthday Party',
-    time: '3:00 PM - 6:00 PM',
+    start: new Date(2024, 11, 16, 15, 0),
+    end: new Date(2024, 11, 16, 18, 0),
+    allDay: false,
     location: 'Community Center',
     attendees: 1,
     category: 'Personal',
@@ -65,7 +75,9 @@ export const sampleEvents: Event[] = [
   {
     id: 6,
     title: 'Weekly Meal Prep',
-    time: '10:00 AM - 1:00 PM',
+    start: new Date(2024, 11, 17, 10, 0),
+    end: new Date(2024, 11, 17, 13, 0),
+    allDay: false,
     location: 'Home Kitchen',
     attendees: 1,
     category: 'Personal',
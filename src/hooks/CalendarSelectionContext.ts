@@ -1,6 +1,7 @@
 import { createContext } from 'react';
 import type { ICalCalendar } from './useICalCalendars';
 import type { NotionScrapedCalendar, NotionScrapedEvent } from '@/types/notion';
+import type { Event, FamilyMember, FilterState, MergeSettings } from '@/types/calendar';
 
 // Union type representing all calendar kinds the selection system can handle.
 export type CombinedCalendar = ICalCalendar | NotionScrapedCalendar;
@@ -33,6 +34,27 @@ export interface CalendarSelectionValue {
   updateSelectedCalendars: (ids: string[]) => void;
   cleanupDeletedCalendar: (id: string) => void;
   forceRefresh: () => void;
+  /** Categories shown; applied together with the calendar selection */
+  categoryFilter: FilterState;
+  toggleCategory: (category: Event['category'], visible?: boolean) => void;
+  showAllCategories: () => void;
+  /** How copies of the same event in several calendars are merged */
+  mergeSettings: MergeSettings;
+  updateMergeSettings: (updates: Partial<MergeSettings>) => void;
+  /** Stops merging the calendars' copies of a merged event from now on */
+  keepEventsSeparate: (event: Event) => void;
+  /** People in the household; their calendars and names in titles tag events */
+  familyMembers: FamilyMember[];
+  /** Adds the member, or replaces the one with the same ID */
+  saveFamilyMember: (member: FamilyMember) => void;
+  deleteFamilyMember: (memberId: string) => void;
+  /** Members whose events are shown; empty shows everyone's */
+  memberFilter: string[];
+  toggleMember: (memberId: string) => void;
+  showAllMembers: () => void;
+  /** Color events like their first member instead of their calendar */
+  colorByMember: boolean;
+  setColorByMember: (enabled: boolean) => void;
 }
 
 export const CalendarSelectionContext = createContext<CalendarSelectionValue | null>(null);
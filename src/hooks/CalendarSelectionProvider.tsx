@@ -5,6 +5,48 @@ import { useCalendarRefresh } from './useCalendarRefresh';
 import { CalendarSelectionContext, CalendarSelectionValue, CombinedCalendar, CalendarFromEvents } from './CalendarSelectionContext';
 import type { NotionScrapedCalendar } from '@/types/notion';
 import type { ICalCalendar } from './useICalCalendars';
+import type { Event, FamilyMember, FilterState, MergeSettings } from '@/types/calendar';
+import { ALL_CATEGORIES_VISIBLE } from '@/utils/eventCategories';
+import { DEFAULT_MERGE_SETTINGS, createMergeExclusion } from '@/utils/eventDedupe';
+
+const CATEGORY_FILTER_KEY = 'categoryFilter';
+const MERGE_SETTINGS_KEY = 'mergeSettings';
+const FAMILY_MEMBERS_KEY = 'familyMembers';
+const MEMBER_FILTER_KEY = 'memberFilter';
+const COLOR_BY_MEMBER_KEY = 'colorByMember';
+
+const loadCategoryFilter = (): FilterState => {
+  try {
+    const stored = localStorage.getItem(CATEGORY_FILTER_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return { ...ALL_CATEGORIES_VISIBLE, ...parsed };
+  } catch (error) {
+    console.error('Failed to parse stored categoryFilter:', error);
+  }
+  return ALL_CATEGORIES_VISIBLE;
+};
+
+const loadMergeSettings = (): MergeSettings => {
+  try {
+    const stored = localStorage.getItem(MERGE_SETTINGS_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return { ...DEFAULT_MERGE_SETTINGS, ...parsed };
+  } catch (error) {
+    console.error('Failed to parse stored mergeSettings:', error);
+  }
+  return DEFAULT_MERGE_SETTINGS;
+};
+
+const loadStoredList = <T,>(key: string): T[] => {
+  try {
+    const stored = localStorage.getItem(key);
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (Array.isArray(parsed)) return parsed;
+  } catch (error) {
+    console.error(`Failed to parse stored ${key}:`, error);
+  }
+  return [];
+};
 
 // Type guards for discriminating calendar shapes
 const isNotionScrapedCalendar = (cal: CombinedCalendar): cal is NotionScrapedCalendar => (cal as NotionScrapedCalendar).type === 'notion-scraped';
@@ -15,6 +57,11 @@ const useProvideCalendarSelection = (): CalendarSelectionValue => {
   const [selectedCalendarIds, setSelectedCalendarIds] = useState<string[]>([]);
   const [refreshKey, setRefreshKey] = useState(0);
   const [hasUserMadeSelection, setHasUserMadeSelection] = useState(false);
+  const [categoryFilter, setCategoryFilter] = useState<FilterState>(loadCategoryFilter);
+  const [mergeSettings, setMergeSettings] = useState<MergeSettings>(loadMergeSettings);
+  const [familyMembers, setFamilyMembers] = useState<FamilyMember[]>(() => loadStoredList<FamilyMember>(FAMILY_MEMBERS_KEY));
+  const [memberFilter, setMemberFilter] = useState<string[]>(() => loadStoredList<string>(MEMBER_FILTER_KEY));
+  const [colorByMember, setColorByMemberState] = useState(() => localStorage.getItem(COLOR_BY_MEMBER_KEY) === 'true');
   const { useRefreshListener } = useCalendarRefresh();
 
   useEffect(() => {
@@ -38,7 +85,7 @@ const useProvideCalendarSelection = (): CalendarSelectionValue => {
     }
   }, [selectedCalendarIds, hasUserMadeSelection]);
 
-  const { calendars: iCalCalendars = [], isLoading: iCalLoading, getICalEvents } = useICalCalendars();
+  const { calendars: iCalCalendars = [], isLoading: iCalLoading } = useICalCalendars();
   const { calendars: scrapedCalendars = [], events: scrapedEvents = [], isLoading: scrapedLoading } = useNotionScrapedCalendars();
 
   useRefreshListener(() => {
@@ -54,7 +101,6 @@ const useProvideCalendarSelection = (): CalendarSelectionValue => {
   const enabledCalendars = useMemo<CombinedCalendar[]>(() => allCalendars.filter((cal) => cal && cal.enabled), [allCalendars]);
 
   const calendarsFromEvents = useMemo<CalendarFromEvents[]>(() => {
-    const iCalEvents = getICalEvents ? getICalEvents() : [];
     return allCalendars.map((cal: CombinedCalendar) => {
       let eventCount = 0;
       let hasEvents = false;
@@ -62,7 +108,8 @@ const useProvideCalendarSelection = (): CalendarSelectionValue => {
       const calendarId = (cal as { id?: string }).id || '';
       if (isICalCalendar(cal)) {
         source = 'ical';
-        eventCount = iCalEvents.filter((e) => e.calendarId === calendarId).length;
+        // Kept current by every sync and expansion, so occurrences need not be loaded here
+        eventCount = cal.eventCount || 0;
         hasEvents = eventCount > 0;
       } else if (isNotionScrapedCalendar(cal)) {
         source = 'notion-scraped';
@@ -85,7 +132,7 @@ const useProvideCalendarSelection = (): CalendarSelectionValue => {
         source
       };
     });
-  }, [allCalendars, getICalEvents, scrapedEvents]);
+  }, [allCalendars, scrapedEvents]);
 
   useEffect(() => {
     if (hasUserMadeSelection) return;
@@ -132,6 +179,81 @@ const useProvideCalendarSelection = (): CalendarSelectionValue => {
 
   const forceRefresh = useCallback(() => setRefreshKey(p => p + 1), []);
 
+  const updateCategoryFilter = useCallback((update: (prev: FilterState) => FilterState) => {
+    setCategoryFilter(prev => {
+      const next = update(prev);
+      localStorage.setItem(CATEGORY_FILTER_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const toggleCategory = useCallback((category: Event['category'], visible?: boolean) => {
+    updateCategoryFilter(prev => ({ ...prev, [category]: typeof visible === 'boolean' ? visible : !prev[category] }));
+  }, [updateCategoryFilter]);
+
+  const showAllCategories = useCallback(() => {
+    updateCategoryFilter(() => ALL_CATEGORIES_VISIBLE);
+  }, [updateCategoryFilter]);
+
+  const saveMergeSettings = useCallback((update: (prev: MergeSettings) => MergeSettings) => {
+    setMergeSettings(prev => {
+      const next = update(prev);
+      localStorage.setItem(MERGE_SETTINGS_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const updateMergeSettings = useCallback((updates: Partial<MergeSettings>) => {
+    saveMergeSettings(prev => ({ ...prev, ...updates }));
+  }, [saveMergeSettings]);
+
+  const keepEventsSeparate = useCallback((event: Event) => {
+    const exclusion = createMergeExclusion(event);
+    if (exclusion.calendarIds.length < 2) return;
+    saveMergeSettings(prev => ({ ...prev, exclusions: [...prev.exclusions, exclusion] }));
+  }, [saveMergeSettings]);
+
+  const updateMemberFilter = useCallback((update: (prev: string[]) => string[]) => {
+    setMemberFilter(prev => {
+      const next = update(prev);
+      localStorage.setItem(MEMBER_FILTER_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const saveFamilyMembers = useCallback((update: (prev: FamilyMember[]) => FamilyMember[]) => {
+    setFamilyMembers(prev => {
+      const next = update(prev);
+      localStorage.setItem(FAMILY_MEMBERS_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const saveFamilyMember = useCallback((member: FamilyMember) => {
+    saveFamilyMembers(prev => prev.some(existing => existing.id === member.id)
+      ? prev.map(existing => existing.id === member.id ? member : existing)
+      : [...prev, member]);
+  }, [saveFamilyMembers]);
+
+  const deleteFamilyMember = useCallback((memberId: string) => {
+    saveFamilyMembers(prev => prev.filter(member => member.id !== memberId));
+    // A filter on a removed member would otherwise hide everything
+    updateMemberFilter(prev => prev.filter(id => id !== memberId));
+  }, [saveFamilyMembers, updateMemberFilter]);
+
+  const toggleMember = useCallback((memberId: string) => {
+    updateMemberFilter(prev => prev.includes(memberId) ? prev.filter(id => id !== memberId) : [...prev, memberId]);
+  }, [updateMemberFilter]);
+
+  const showAllMembers = useCallback(() => {
+    updateMemberFilter(() => []);
+  }, [updateMemberFilter]);
+
+  const setColorByMember = useCallback((enabled: boolean) => {
+    setColorByMemberState(enabled);
+    localStorage.setItem(COLOR_BY_MEMBER_KEY, String(enabled));
+  }, []);
+
   return {
     allCalendars,
     enabledCalendars,
@@ -148,7 +270,21 @@ const useProvideCalendarSelection = (): CalendarSelectionValue => {
     selectCalendarsWithEvents,
     updateSelectedCalendars,
     cleanupDeletedCalendar,
-    forceRefresh
+    forceRefresh,
+    categoryFilter,
+    toggleCategory,
+    showAllCategories,
+    mergeSettings,
+    updateMergeSettings,
+    keepEventsSeparate,
+    familyMembers,
+    saveFamilyMember,
+    deleteFamilyMember,
+    memberFilter,
+    toggleMember,
+    showAllMembers,
+    colorByMember,
+    setColorByMember
   };
 };
 
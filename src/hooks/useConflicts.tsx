@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { ConflictSettings, Event } from '@/types/calendar';
+import { conflictStore } from '@/services/conflictStore';
+import { useCalendarSelection } from '@/hooks/useCalendarSelection';
+import { detectConflicts } from '@/utils/conflicts';
+
+/** Conflict detection settings, shared by every component that uses them */
+export const useConflictSettings = () => {
+  const [settings, setSettings] = useState<ConflictSettings>(() => conflictStore.get());
+
+  useEffect(() => conflictStore.subscribe(() => setSettings(conflictStore.get())), []);
+
+  const updateSettings = useCallback((changes: Partial<Omit<ConflictSettings, 'dismissed'>>) => {
+    conflictStore.update(changes);
+  }, []);
+
+  const dismissConflict = useCallback((conflictId: string) => {
+    conflictStore.dismiss(conflictId);
+  }, []);
+
+  const restoreDismissed = useCallback(() => {
+    conflictStore.restoreDismissed();
+  }, []);
+
+  return { settings, updateSettings, dismissConflict, restoreDismissed };
+};
+
+/** Double-bookings among `events` per family member and shared resource, less dismissed ones */
+export const useConflicts = (events: Event[]) => {
+  const { familyMembers } = useCalendarSelection();
+  const { settings, dismissConflict } = useConflictSettings();
+
+  const conflicts = useMemo(() => {
+    if (!settings.enabled) return [];
+    const dismissed = new Set(settings.dismissed);
+    return detectConflicts(events, familyMembers, settings.resources, settings.bufferMinutes)
+      .filter(conflict => !dismissed.has(conflict.id));
+  }, [events, familyMembers, settings]);
+
+  return { conflicts, dismissConflict };
+};
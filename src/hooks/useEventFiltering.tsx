@@ -1,9 +1,14 @@
 
 import { useMemo } from 'react';
-import { Event } from '@/types/calendar';
+import { Event, EventRule, FamilyMember, FilterState, MergeSettings } from '@/types/calendar';
 import { NotionEvent } from '@/types/notion';
 import { NotionScrapedEvent } from '@/services/NotionPageScraper';
 import { sampleEvents } from '@/data/sampleEvents';
+import { parseTimeRange } from '@/utils/timeUtils';
+import { applyCalendarRules } from '@/utils/eventRules';
+import { applyCategoryDefaults, categorizeFromLabels, isCategoryVisible } from '@/utils/eventCategories';
+import { mergeDuplicateEvents } from '@/utils/eventDedupe';
+import { assignEventMembers, colorEventsByMember, isMemberVisible } from '@/utils/familyMembers';
 
 interface UseEventFilteringProps {
   googleEvents: Event[];
@@ -11,14 +16,24 @@ interface UseEventFilteringProps {
   scrapedEvents?: NotionScrapedEvent[];
   selectedCalendarIds: string[];
   enabledCalendarIds?: string[]; // Add this to filter by sync status
+  calendarRules?: Record<string, EventRule[] | undefined>; // Transformation rules by calendar ID
+  categoryDefaults?: Record<string, Event['category'] | undefined>; // Default category by calendar ID
+  categoryFilter?: FilterState; // Categories to show
+  mergeSettings?: MergeSettings; // Cross-calendar duplicate merging
+  familyMembers?: FamilyMember[]; // Members tagged on events by calendar and title
+  memberFilter?: string[]; // Members whose events to show; empty shows all
+  colorByMember?: boolean; // Color events like their first member
 }
 
 // Helper function to convert NotionEvent to Event format
-const convertNotionEventToEvent = (notionEvent: NotionEvent): Event => {
+export const convertNotionEventToEvent = (notionEvent: NotionEvent): Event => {
+  const { start, end, allDay } = parseTimeRange(notionEvent.date, notionEvent.time);
   return {
     id: notionEvent.id,
     title: notionEvent.title,
-    time: notionEvent.time,
+    start,
+    end,
+    allDay,
     location: notionEvent.location || '',
     attendees: 0,
     category: 'Personal',
@@ -33,29 +48,31 @@ const convertNotionEventToEvent = (notionEvent: NotionEvent): Event => {
 };
 
 // Helper function to convert NotionScrapedEvent to Event format
-const convertScrapedEventToEvent = (scrapedEvent: NotionScrapedEvent): Event => {
+export const convertScrapedEventToEvent = (scrapedEvent: NotionScrapedEvent): Event => {
   // Use the calendar ID from the scraped event, which should match the calendar it belongs to
   const calendarId = scrapedEvent.calendarId || 'unknown';
   
-  // Enhanced time handling for all-day detection
-  let eventTime = scrapedEvent.time;
-  
-  // If time is undefined, null, or empty, treat as all-day
-  if (!eventTime || eventTime.trim() === '') {
-    eventTime = 'All day';
-    // debug removed: converting scraped event to all-day
-  } else {
-    // debug removed: converting scraped event with time
-  }
-  // debug removed: scraped event conversion details
+  // Missing or unparseable times are treated as all-day
+  const day = scrapedEvent.dateRange?.startDate || scrapedEvent.date;
+  const { start, end, allDay } = parseTimeRange(new Date(day), scrapedEvent.time);
+
+  // Date ranges spanning several days become all-day multi-day events ending after the last day
+  const rangeEnd = scrapedEvent.dateRange?.endDate ? new Date(scrapedEvent.dateRange.endDate) : undefined;
+  const isMultiDay = !!rangeEnd && rangeEnd.toDateString() !== start.toDateString() && rangeEnd > start;
 
   return {
     id: scrapedEvent.id,
     title: scrapedEvent.title,
-    time: eventTime,
+    start,
+    end: isMultiDay
+      ? new Date(rangeEnd.getFullYear(), rangeEnd.getMonth(), rangeEnd.getDate() + 1)
+      : end,
+    allDay: allDay || isMultiDay,
+    isMultiDay,
     location: scrapedEvent.location || '',
     attendees: 0,
-    category: 'Personal',
+    category: categorizeFromLabels(scrapedEvent.categories) ?? 'Personal',
+    categories: scrapedEvent.categories?.length ? scrapedEvent.categories : undefined,
     color: '#10B981', // Default green color for scraped events
     description: scrapedEvent.description || '',
     organizer: 'Notion (API)',
@@ -71,9 +88,16 @@ export const useEventFiltering = ({
   notionEvents = [], 
   scrapedEvents = [], 
   selectedCalendarIds = [],
-  enabledCalendarIds = []
+  enabledCalendarIds = [],
+  calendarRules,
+  categoryDefaults,
+  categoryFilter,
+  mergeSettings,
+  familyMembers,
+  memberFilter,
+  colorByMember
 }: UseEventFilteringProps) => {
-  const filteredEvents = useMemo(() => {
+  const { visible: filteredEvents, all: unfilteredEvents } = useMemo(() => {
   // debug removed: starting filtering inputs snapshot
 
     // Ensure all arrays are properly initialized
@@ -127,47 +151,50 @@ export const useEventFiltering = ({
 
   // debug removed: base events count before filtering
 
-    // Filter events by BOTH sync status (enabled) AND visibility selection
-    const filtered = baseEvents.filter(event => {
+    const isSampleData = !hasICalEvents && !hasNotionEvents && !hasScrapedEvents;
+
+    // First check: Calendar must be enabled for sync (if we have enabled calendar info)
+    const enabled = baseEvents.filter(event => {
       // For sample events, show all when no real events are available
-      if (!hasICalEvents && !hasNotionEvents && !hasScrapedEvents) {
+      if (isSampleData || safeEnabledCalendarIds.length === 0) {
         return true;
       }
-      
-      const eventCalendarId = event.calendarId || 'primary';
-      
-      // First check: Calendar must be enabled for sync (if we have enabled calendar info)
-      if (safeEnabledCalendarIds.length > 0) {
-        const isEnabledForSync = safeEnabledCalendarIds.includes(eventCalendarId);
-  if (!isEnabledForSync) {
-          return false;
-        }
-      }
-      
-      // Second check: Calendar must be selected for visibility
-      // If no calendars are selected, show nothing (user has explicitly deselected all)
-  if (safeSelectedCalendarIds.length === 0) {
-        return false;
-      }
-      
-      const isSelectedForVisibility = safeSelectedCalendarIds.includes(eventCalendarId);
-      
-      if (!isSelectedForVisibility) {
-        return false;
-      }
-      
-      // debug removed: event passed all checks
-      
-      return true;
+      return safeEnabledCalendarIds.includes(event.calendarId || 'primary');
     });
 
+    // Second check: Calendar must be selected for visibility
+    // If no calendars are selected, show nothing (user has explicitly deselected all)
+    const filtered = isSampleData
+      ? enabled
+      : enabled.filter(event => safeSelectedCalendarIds.includes(event.calendarId || 'primary'));
+
     // debug removed: filtering complete summary
 
-    return filtered;
-  }, [googleEvents, notionEvents, scrapedEvents, selectedCalendarIds, enabledCalendarIds]);
+    // Calendar default categories, then family members (from calendars and the original titles,
+    // before rules rewrite them), then per-calendar rules (which may hide or recategorize),
+    // then merging of copies across calendars
+    const transform = (events: Event[]) => {
+      const categorized = categoryDefaults ? applyCategoryDefaults(events, categoryDefaults) : events;
+      const withMembers = familyMembers ? assignEventMembers(categorized, familyMembers) : categorized;
+      const transformed = calendarRules ? applyCalendarRules(withMembers, calendarRules) : withMembers;
+      const merged = mergeSettings ? mergeDuplicateEvents(transformed, mergeSettings) : transformed;
+      return colorByMember && familyMembers ? colorEventsByMember(merged, familyMembers) : merged;
+    };
+
+    // Then the category and member filters, which only decide what is shown
+    const selected = transform(filtered);
+    const visible = selected.filter(event =>
+      (!categoryFilter || isCategoryVisible(event, categoryFilter)) &&
+      (!memberFilter || isMemberVisible(event, memberFilter))
+    );
+    // Reminders keep firing for calendars, categories and members that are filtered out of view
+    return { visible, all: filtered === enabled ? selected : transform(enabled) };
+  }, [googleEvents, notionEvents, scrapedEvents, selectedCalendarIds, enabledCalendarIds, calendarRules, categoryDefaults, categoryFilter, mergeSettings, familyMembers, memberFilter, colorByMember]);
 
   return {
     filteredEvents,
+    /** Events of every enabled calendar, ignoring visibility selection and view filters */
+    unfilteredEvents,
     hasGoogleEvents: Array.isArray(googleEvents) && googleEvents.length > 0,
     hasNotionEvents: Array.isArray(notionEvents) && notionEvents.length > 0,
     hasScrapedEvents: Array.isArray(scrapedEvents) && scrapedEvents.length > 0
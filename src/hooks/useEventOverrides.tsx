@@ -0,0 +1,20 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Event, EventOverride } from '@/types/calendar';
+import { EventOverrideChanges, eventOverrideStore } from '@/services/eventOverrideStore';
+
+/** Household overrides for individual occurrences, shared by every component that uses them */
+export const useEventOverrides = () => {
+  const [overrides, setOverrides] = useState<Record<string, EventOverride>>(() => eventOverrideStore.getAll());
+
+  useEffect(() => eventOverrideStore.subscribe(() => setOverrides(eventOverrideStore.getAll())), []);
+
+  const updateOverride = useCallback((event: Pick<Event, 'id' | 'title' | 'date'>, changes: EventOverrideChanges) => {
+    eventOverrideStore.update(event, changes);
+  }, []);
+
+  const removeOverride = useCallback((eventId: Event['id']) => {
+    eventOverrideStore.remove(eventId);
+  }, []);
+
+  return { overrides, updateOverride, removeOverride };
+};
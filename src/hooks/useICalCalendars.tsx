@@ -1,9 +1,22 @@
 import { useState, useEffect, useCallback } from 'react';
-import { generateOccurrenceId } from '@/utils/icalEventUtils';
+import { generateOccurrenceId, recordSyncReport, reviveStoredOccurrence } from '@/utils/icalEventUtils';
+import { expandCalendarEvents, getCalendarExpansionWindow, ExpansionWindow } from '@/utils/icalExpansionTestable';
+import { getHouseholdTimeZone } from '@/utils/timeZoneUtils';
+import {
+  LOCAL_CALENDAR_ID,
+  LOCAL_CALENDAR_NAME,
+  LocalEventDraft,
+  readLocalEvent,
+  removeLocalEvent,
+  upsertLocalEvent
+} from '@/utils/localEvents';
 import ICAL from 'ical.js';
+import type { Event, EventAttendee, EventRule, EventStatus, EventVisibility, SourceTimeZone } from '@/types/calendar';
+import type { ICalSyncReport } from '@/types/ical';
 import { calendarStorageService } from '@/services/calendarStorage';
+import { proxyRegistry } from '@/services/proxyRegistry';
 import { useBackgroundSync } from './useBackgroundSync';
-import { CalendarRefreshUtils } from './useCalendarRefresh';
+import { CalendarRefreshUtils, useCalendarRefresh } from './useCalendarRefresh';
 
 export interface ICalCalendar {
   id: string;
@@ -13,42 +26,120 @@ export interface ICalCalendar {
   enabled: boolean;
   lastSync?: string;
   eventCount?: number;
+  // 'file' for calendars imported from an uploaded .ics file (no URL), 'local' for the
+  // household calendar whose .ics document is written by the app
+  sourceType?: 'url' | 'file' | 'local';
+  fileName?: string;
   // Number of automatic syncs per day (0/undefined = manual only)
   syncFrequencyPerDay?: number;
+  // Rolling expansion horizon in months (undefined = app defaults)
+  expansionPastMonths?: number;
+  expansionFutureMonths?: number;
+  // ISO bounds of the range currently expanded into stored occurrences
+  materializedStart?: string;
+  materializedEnd?: string;
+  // Display zone the stored occurrences were formatted for
+  materializedTimeZone?: string;
+  // HTTP validators from the last full download, sent back on conditional requests
+  etag?: string;
+  lastModified?: string;
+  // Change reports from recent syncs, newest first
+  syncHistory?: ICalSyncReport[];
+  // Category for events whose source labels don't map onto one
+  defaultCategory?: Event['category'];
+  // Transformation rules applied to this calendar's events before display
+  rules?: EventRule[];
 }
 
 export interface ICalEventOccurrence {
   id: string;
+  uid?: string;
   title: string;
-  time: string;
+  start: Date;
+  end?: Date;
+  allDay: boolean;
+  isRecurring: boolean;
+  recurrenceRule?: string;
+  /** Original start of a recurring instance (RECURRENCE-ID), unchanged when the instance moves */
+  recurrenceId?: string;
+  isMultiDay: boolean;
+  sourceTimeZone?: SourceTimeZone;
   location: string;
   attendees: number;
-  category: 'Personal';
+  attendeeList?: EventAttendee[];
+  category: Event['category'];
+  categories?: string[];
   color: string;
   description: string;
   organizer: string;
+  organizerEmail?: string;
+  status?: EventStatus;
+  visibility?: EventVisibility;
+  url?: string;
+  alarms?: number[];
   date: Date;
   calendarId: string;
   calendarName: string;
-  source: 'ical';
-  isMultiDay: boolean;
+  source: 'ical' | 'local';
+}
+
+// Occurrences used to live in one JSON array under this localStorage key
+const LEGACY_ICAL_EVENTS_KEY = 'family_calendar_ical_events';
+
+// Deterministic ID for already stored event objects (no UID available)
+interface LegacyStoredEventLike {
+  id?: string;
+  calendarId: string;
+  title: string;
+  date: string | Date;
+  isMultiDay?: boolean;
+  [k: string]: unknown;
 }
 
-const ICAL_EVENTS_KEY = 'family_calendar_ical_events';
+// Minimal shape used for deterministic ID regeneration when legacy events lacked UID
+const generateStoredEventId = (e: LegacyStoredEventLike): string => {
+  const dateObj = typeof e.date === 'string' ? new Date(e.date) : e.date;
+  // Cast only the tiny piece we need instead of whole event as any
+  const pseudoEvent: Pick<ICAL.Event, 'uid' | 'summary'> = { uid: undefined as unknown as string, summary: e.title as unknown as string };
+  return generateOccurrenceId(pseudoEvent, { id: e.calendarId }, dateObj, !!e.isMultiDay);
+};
 
-// Multiple CORS proxy options for better reliability
-const CORS_PROXIES = [
-  (url: string) => `https://api.codetabs.com/v1/proxy?quest=${encodeURIComponent(url)}`,
-  (url: string) => `https://cors-anywhere.herokuapp.com/${url}`,
-  (url: string) => `https://thingproxy.freeboard.io/fetch/${url}`,
-  (url: string) => `https://cors.bridged.cc/${url}`,
-];
+/**
+ * One-time move of the legacy localStorage array into the IndexedDB occurrence store.
+ * Legacy random IDs are replaced with deterministic ones on the way. The key is only
+ * removed once the write succeeded, so a failed attempt is retried on next load.
+ */
+const migrateLegacyOccurrences = async (): Promise<void> => {
+  const storedRaw = localStorage.getItem(LEGACY_ICAL_EVENTS_KEY);
+  if (!storedRaw) return;
+  try {
+    const parsed = JSON.parse(storedRaw) as LegacyStoredEventLike[];
+    const migrated = parsed
+      .filter(ev => ev && typeof ev === 'object' && ev.calendarId && ev.date)
+      .map(ev => {
+        const hasDeterministic = typeof ev.id === 'string' && ev.id.startsWith('ical_');
+        const id = hasDeterministic || !ev.title ? ev.id : generateStoredEventId(ev);
+        return reviveStoredOccurrence({ ...ev, id } as Parameters<typeof reviveStoredOccurrence>[0]);
+      });
+    await calendarStorageService.putOccurrences(migrated);
+    localStorage.removeItem(LEGACY_ICAL_EVENTS_KEY);
+  } catch (error) {
+    console.warn('iCal occurrence migration failed:', error);
+  }
+};
+
+// Shared by every hook instance so reads wait for the migration exactly once
+let legacyMigration: Promise<void> | null = null;
+const ensureLegacyMigration = (): Promise<void> => {
+  if (!legacyMigration) legacyMigration = migrateLegacyOccurrences();
+  return legacyMigration;
+};
 
-// Optional custom proxy (e.g. Supabase Edge Function or self-hosted) configured via Vite env
-// Provide a URL where the raw ICS feed can be fetched with ?url= encoded param or path style
-interface ViteEnvLike { VITE_ICAL_PROXY_URL?: string; DEV?: boolean }
-// Narrow import.meta typing to avoid any
-const CUSTOM_ICAL_PROXY = (typeof import.meta !== 'undefined' ? (import.meta as unknown as { env: ViteEnvLike }).env?.VITE_ICAL_PROXY_URL : '') || '';
+// Range the calendar's stored occurrences were expanded over, if known
+const getMaterializedWindow = (calendar: ICalCalendar): Partial<ExpansionWindow> => ({
+  start: calendar.materializedStart ? new Date(calendar.materializedStart) : undefined,
+  end: calendar.materializedEnd ? new Date(calendar.materializedEnd) : undefined
+});
 
 // Basic normalization & sanity validation to avoid sending obviously invalid tokens like 'Family'
 const normalizeICalUrl = (raw: string): { url: string; valid: boolean; reason?: string } => {
@@ -77,58 +168,27 @@ const normalizeICalUrl = (raw: string): { url: string; valid: boolean; reason?:
   }
 };
 
+// Validators from the last full download of a feed
+interface FeedValidators { etag?: string; lastModified?: string }
+
+interface ICalFetchResult extends FeedValidators {
+  // Feed body; absent when the server confirmed our cached copy is current (304)
+  data?: string;
+  notModified: boolean;
+}
+
+const getConditionalHeaders = ({ etag, lastModified }: FeedValidators): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (etag) headers['If-None-Match'] = etag;
+  if (lastModified) headers['If-Modified-Since'] = lastModified;
+  return headers;
+};
+
 export const useICalCalendars = () => {
   const [calendars, setCalendars] = useState<ICalCalendar[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   type SyncState = '' | 'syncing' | 'success' | 'error';
   const [syncStatus, setSyncStatus] = useState<Record<string, SyncState>>({});
-  // Deterministic occurrence ID generation for better update detection
-
-  // Deterministic ID for already stored event objects (no UID available)
-  interface LegacyStoredEventLike {
-    id?: string;
-    calendarId: string;
-    title: string;
-    date: string | Date;
-    isMultiDay?: boolean;
-    [k: string]: unknown;
-  }
-
-  // Minimal shape used for deterministic ID regeneration when legacy events lacked UID
-  const generateStoredEventId = useCallback((e: LegacyStoredEventLike): string => {
-    const dateObj = typeof e.date === 'string' ? new Date(e.date) : e.date;
-    // Cast only the tiny piece we need instead of whole event as any
-    const pseudoEvent: Pick<ICAL.Event, 'uid' | 'summary'> = { uid: undefined as unknown as string, summary: e.title as unknown as string };
-    return generateOccurrenceId(pseudoEvent, { id: e.calendarId }, dateObj, !!e.isMultiDay);
-  }, []);
-
-  // One-time migration of legacy random IDs to deterministic IDs
-  useEffect(() => {
-    try {
-      const storedRaw = localStorage.getItem(ICAL_EVENTS_KEY);
-      if (!storedRaw) return;
-  const parsed: LegacyStoredEventLike[] = JSON.parse(storedRaw) as LegacyStoredEventLike[];
-      let changed = false;
-      const migrated = parsed.map(ev => {
-        if (ev && typeof ev === 'object') {
-          const hasDeterministic = typeof ev.id === 'string' && ev.id.startsWith('ical_');
-          if (!hasDeterministic && ev.calendarId && ev.title && ev.date) {
-            const newId = generateStoredEventId({ calendarId: ev.calendarId, title: ev.title, date: ev.date, isMultiDay: ev.isMultiDay });
-            if (newId !== ev.id) {
-              changed = true;
-              return { ...ev, id: newId };
-            }
-          }
-        }
-        return ev;
-      });
-      if (changed) {
-        localStorage.setItem(ICAL_EVENTS_KEY, JSON.stringify(migrated));
-      }
-    } catch (mErr) {
-      console.warn('iCal legacy ID migration failed:', mErr);
-    }
-  }, [generateStoredEventId]);
   const { 
     registerBackgroundSync, 
     registerPeriodicSync, 
@@ -137,151 +197,6 @@ export const useICalCalendars = () => {
     processSyncQueue
   } = useBackgroundSync();
 
-  // Helper functions defined first to avoid temporal dead zone issues
-  const isEventInCurrentYear = useCallback((eventDate: Date): boolean => {
-    const currentYear = new Date().getFullYear();
-    return eventDate.getFullYear() === currentYear;
-  }, []);
-
-  const isMultiDayEvent = useCallback((event: ICAL.Event): boolean => {
-    try {
-      if (!event.startDate || !event.endDate) {
-        return false;
-      }
-
-      if (event.startDate.isDate && event.endDate.isDate) {
-        const startDate = event.startDate.toJSDate();
-        const endDate = event.endDate.toJSDate();
-        
-        const diffTime = endDate.getTime() - startDate.getTime();
-        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-        
-        return diffDays > 1;
-      }
-
-      return false;
-    } catch (error) {
-      console.warn('Error checking if event is multi-day:', error);
-      return false;
-    }
-  }, []);
-
-  const createEventObject = useCallback((event: ICAL.Event, calendar: ICalCalendar, eventDate: Date, isRecurring: boolean, isMultiDay: boolean): ICalEventOccurrence => {
-    let timeString = 'All day';
-    
-    try {
-      if (event.startDate && !event.startDate.isDate) {
-        const endDate = event.endDate ? event.endDate.toJSDate() : eventDate;
-        timeString = `${eventDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} - ${endDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
-      } else if (isMultiDay) {
-        timeString = 'All day (Multi-day)';
-      }
-    } catch (dateError) {
-      console.warn('Error parsing event date:', dateError);
-    }
-
-    if (isRecurring && !timeString.includes('Recurring')) {
-      timeString = `${timeString} (Recurring)`;
-    }
-
-  return {
-      id: generateOccurrenceId(event, calendar, eventDate, isMultiDay),
-      title: (event.summary as string) || 'Untitled Event',
-      time: timeString,
-      location: (event.location as string) || '',
-      attendees: 0,
-      category: 'Personal' as const,
-      color: calendar.color,
-      description: (event.description as string) || '',
-      organizer: calendar.name,
-      date: eventDate,
-      calendarId: calendar.id,
-      calendarName: calendar.name,
-      source: 'ical',
-      isMultiDay: isMultiDay
-    };
-  }, []);
-
-  const generateMultiDayOccurrences = useCallback((event: ICAL.Event, calendar: ICalCalendar): ICalEventOccurrence[] => {
-    const occurrences: ICalEventOccurrence[] = [];
-    
-    try {
-      if (!isMultiDayEvent(event)) {
-        const eventDate = event.startDate.toJSDate();
-        if (isEventInCurrentYear(eventDate)) {
-          occurrences.push(createEventObject(event, calendar, eventDate, false, false));
-        }
-        return occurrences;
-      }
-
-      const startDate = event.startDate.toJSDate();
-      const endDate = event.endDate.toJSDate();
-      
-      const currentDate = new Date(startDate);
-      while (currentDate < endDate && isEventInCurrentYear(currentDate)) {
-        occurrences.push(createEventObject(event, calendar, new Date(currentDate), false, true));
-        currentDate.setDate(currentDate.getDate() + 1);
-      }
-      
-  // debug removed: generated multi-day occurrences
-    } catch (error) {
-      console.warn('Error generating multi-day occurrences:', error);
-      const eventDate = event.startDate ? event.startDate.toJSDate() : new Date();
-      if (isEventInCurrentYear(eventDate)) {
-        occurrences.push(createEventObject(event, calendar, eventDate, false, false));
-      }
-    }
-
-    return occurrences;
-  }, [createEventObject, isMultiDayEvent, isEventInCurrentYear]);
-
-  // Function to expand recurring events
-  const expandRecurringEvent = useCallback((event: ICAL.Event, calendar: ICalCalendar): ICalEventOccurrence[] => {
-    const currentYear = new Date().getFullYear();
-    const yearStart = new Date(currentYear, 0, 1);
-    const yearEnd = new Date(currentYear, 11, 31);
-  const occurrences: ICalEventOccurrence[] = [];
-
-    try {
-      if (event.isRecurring()) {
-        const iterator = event.iterator();
-        let next;
-        let count = 0;
-        const maxOccurrences = 366;
-
-        while ((next = iterator.next()) && count < maxOccurrences) {
-          const occurrenceDate = next.toJSDate();
-          
-          if (occurrenceDate >= yearStart && occurrenceDate <= yearEnd) {
-            if (isMultiDayEvent(event)) {
-              const multiDayOccurrences = generateMultiDayOccurrences(event, calendar);
-              occurrences.push(...multiDayOccurrences);
-            } else {
-              occurrences.push(createEventObject(event, calendar, occurrenceDate, true, false));
-            }
-          }
-          
-          if (occurrenceDate > yearEnd) {
-            break;
-          }
-          
-          count++;
-        }
-      } else {
-        const multiDayOccurrences = generateMultiDayOccurrences(event, calendar);
-        occurrences.push(...multiDayOccurrences);
-      }
-    } catch (error) {
-      console.warn('Error expanding recurring event:', error);
-      const eventDate = event.startDate ? event.startDate.toJSDate() : new Date();
-      if (isEventInCurrentYear(eventDate)) {
-        occurrences.push(createEventObject(event, calendar, eventDate, false, false));
-      }
-    }
-
-    return occurrences;
-  }, [generateMultiDayOccurrences, isMultiDayEvent, createEventObject, isEventInCurrentYear]);
-
   // Load calendars from IndexedDB
   const loadCalendars = useCallback(async () => {
     try {
@@ -299,15 +214,26 @@ export const useICalCalendars = () => {
   const updateCalendar = useCallback(async (id: string, updates: Partial<ICalCalendar>) => {
     try {
       await calendarStorageService.updateCalendar(id, updates);
-      await loadCalendars(); // Refresh the state
+      const updated = await loadCalendars(); // Refresh the state
+      if ('rules' in updates || 'defaultCategory' in updates) {
+        // Rules and default categories change what is displayed without a sync; let the calendar view reload them
+        CalendarRefreshUtils.triggerICalRefresh(id, updated.find(cal => cal.id === id)?.eventCount || 0, true, 'Rules updated');
+      }
     } catch (error) {
       console.error('Error updating calendar in IndexedDB:', error);
       throw new Error('Failed to update calendar');
     }
   }, [loadCalendars]);
 
-  interface BackgroundSyncData { calendarId: string; icalData: string; syncTime: string }
-  const processBackgroundSyncData = useCallback((syncData: BackgroundSyncData) => {
+  // Settings and the calendar view each use their own instance of this hook; reload
+  // when another instance reports finished work so rules and sync results show up
+  const { useRefreshListener } = useCalendarRefresh();
+  useRefreshListener((refresh) => {
+    if (refresh.phase === 'complete' && refresh.type !== 'notion') loadCalendars();
+  });
+
+  interface BackgroundSyncData { calendarId: string; icalData: string; syncTime: string; etag?: string; lastModified?: string }
+  const processBackgroundSyncData = useCallback(async (syncData: BackgroundSyncData) => {
     try {
       const { calendarId, icalData, syncTime } = syncData;
       
@@ -318,29 +244,32 @@ export const useICalCalendars = () => {
       // Parse the iCal data
       const jcalData = ICAL.parse(icalData);
       const vcalendar = new ICAL.Component(jcalData);
-      const vevents = vcalendar.getAllSubcomponents('vevent');
-
-  const allEvents: ICalEventOccurrence[] = [];
-      vevents.forEach((vevent) => {
-        const event = new ICAL.Event(vevent);
-        const eventOccurrences = expandRecurringEvent(event, calendar);
-        allEvents.push(...eventOccurrences);
+      const expansionWindow = getCalendarExpansionWindow(calendar);
+      const timeZone = getHouseholdTimeZone();
+      const allEvents = expandCalendarEvents(vcalendar, calendar, expansionWindow, timeZone);
+      calendarStorageService.saveSource(calendarId, icalData).catch((error) => {
+        console.warn('Failed to store raw iCal source:', error);
       });
 
-      // Update events in localStorage
-  const existingEvents: ICalEventOccurrence[] = JSON.parse(localStorage.getItem(ICAL_EVENTS_KEY) || '[]');
-  const filteredExisting = existingEvents.filter((event) => event.calendarId !== calendarId);
-      
       // Track sync changes for better reporting
-  // debug removed: sync counts for iCal calendar
+      await ensureLegacyMigration();
+      const previousEvents = await calendarStorageService.getOccurrences(calendarId);
+      const syncHistory = calendar.lastSync
+        ? recordSyncReport(calendar.syncHistory, previousEvents, allEvents, getMaterializedWindow(calendar), expansionWindow, syncTime)
+        : calendar.syncHistory;
       
-      const combinedEvents = [...filteredExisting, ...allEvents];
-      localStorage.setItem(ICAL_EVENTS_KEY, JSON.stringify(combinedEvents));
+      await calendarStorageService.replaceOccurrences(calendarId, allEvents);
 
       // Update calendar sync status
-      updateCalendar(calendarId, {
+      await updateCalendar(calendarId, {
         lastSync: syncTime,
-        eventCount: allEvents.length
+        eventCount: allEvents.length,
+        materializedStart: expansionWindow.start.toISOString(),
+        materializedEnd: expansionWindow.end.toISOString(),
+        materializedTimeZone: timeZone,
+        etag: syncData.etag,
+        lastModified: syncData.lastModified,
+        syncHistory
       });
 
   // debug removed: background sync processed events
@@ -350,7 +279,7 @@ export const useICalCalendars = () => {
     } catch (error) {
       console.error('Error processing background sync data:', error);
     }
-  }, [calendars, expandRecurringEvent, updateCalendar]);
+  }, [calendars, updateCalendar]);
 
   // Initialize background sync when calendars are loaded
   useEffect(() => {
@@ -426,7 +355,9 @@ export const useICalCalendars = () => {
       color: calendar.color || '#3b82f6',
       enabled: calendar.enabled !== undefined ? calendar.enabled : true,
   eventCount: 0,
-  syncFrequencyPerDay: (calendar as any).syncFrequencyPerDay || 0
+  syncFrequencyPerDay: (calendar as any).syncFrequencyPerDay || 0,
+  expansionPastMonths: calendar.expansionPastMonths,
+  expansionFutureMonths: calendar.expansionFutureMonths
     };
     
     try {
@@ -448,6 +379,7 @@ export const useICalCalendars = () => {
   // Remove a calendar and clean up all related data
   const removeCalendar = useCallback(async (id: string) => {
     try {
+      // Also drops the calendar's cached feed and stored occurrences
       await calendarStorageService.deleteCalendar(id);
       
       // Immediately update the local state to remove the calendar from UI
@@ -460,19 +392,6 @@ export const useICalCalendars = () => {
         return newStatus;
       });
       
-      // Remove events from this calendar from localStorage
-      try {
-        const storedEvents = localStorage.getItem(ICAL_EVENTS_KEY);
-        if (storedEvents) {
-          const events: ICalEventOccurrence[] = JSON.parse(storedEvents) as ICalEventOccurrence[];
-          const filteredEvents = events.filter((event) => event.calendarId !== id);
-          localStorage.setItem(ICAL_EVENTS_KEY, JSON.stringify(filteredEvents));
-          // debug removed: calendar events removed from localStorage
-        }
-      } catch (error) {
-        console.error('Error removing calendar events:', error);
-      }
-      
       // Force a refresh to ensure everything is in sync
       await loadCalendars();
       
@@ -512,85 +431,132 @@ export const useICalCalendars = () => {
     return true;
   }, []);
 
-  const fetchICalData = useCallback(async (url: string): Promise<string> => {
+  const fetchICalData = useCallback(async (url: string, validators: FeedValidators = {}): Promise<ICalFetchResult> => {
     // Normalize / validate upfront
     const { url: normalized, valid, reason } = normalizeICalUrl(url);
     if (!valid) {
       throw new Error(`Invalid iCal URL: ${reason || 'Unknown reason'}`);
     }
     const targetUrl = normalized;
+    const conditionalHeaders = getConditionalHeaders(validators);
+
+    // 304 means the copy we already have is current; anything else must be a valid feed
+    const readResponse = async (response: Response, label: string): Promise<ICalFetchResult | null> => {
+      if (response.status === 304) {
+        return { notModified: true };
+      }
+      if (!response.ok) {
+        console.warn(`${label} failed with status ${response.status}`);
+        return null;
+      }
+      const data = await response.text();
+      if (!isValidICalData(data)) {
+        console.warn(`${label} returned invalid iCal data`);
+        return null;
+      }
+      return {
+        data,
+        notModified: false,
+        etag: response.headers.get('ETag') || undefined,
+        lastModified: response.headers.get('Last-Modified') || undefined
+      };
+    };
+
     try {
       const response = await fetch(targetUrl, {
         mode: 'cors',
         headers: {
           'Accept': 'text/calendar, text/plain, */*',
           'User-Agent': 'Mozilla/5.0 (compatible; FamilyCalendarApp/1.0)',
+          ...conditionalHeaders
         }
       });
       
-      if (response.ok) {
-        const data = await response.text();
-        
-        if (isValidICalData(data)) {
-          return data;
-        } else {
-      console.warn('Direct fetch returned invalid iCal data');
-        }
-      }
+      const result = await readResponse(response, 'Direct fetch');
+      if (result) return result;
     } catch (error) {
     console.warn('Direct fetch failed, trying proxies');
     }
 
-    // Try custom proxy first if configured
-    if (CUSTOM_ICAL_PROXY) {
-      try {
-        const proxyEndpoint = CUSTOM_ICAL_PROXY.includes('{url}')
-          ? CUSTOM_ICAL_PROXY.replace('{url}', encodeURIComponent(targetUrl))
-          : `${CUSTOM_ICAL_PROXY}${CUSTOM_ICAL_PROXY.includes('?') ? '&' : '?'}url=${encodeURIComponent(targetUrl)}`;
-        const proxyResp = await fetch(proxyEndpoint, { headers: { 'Accept': 'text/calendar, text/plain, */*' } });
-        if (proxyResp.ok) {
-          const data = await proxyResp.text();
-          if (isValidICalData(data)) {
-            return data;
-          } else {
-            console.warn('Custom proxy returned invalid iCal data');
-          }
-        } else {
-          console.warn('Custom proxy request failed with status', proxyResp.status);
-        }
-      } catch (e) {
-        console.warn('Custom proxy request failed');
-      }
+    try {
+      return await proxyRegistry.fetchThroughProxies(targetUrl, {
+        headers: { 'Accept': 'text/calendar, text/plain, */*', ...conditionalHeaders },
+        read: (response, proxy) => readResponse(response, `Proxy ${proxy.label}`)
+      });
+    } catch (error) {
+      console.warn('Proxy fetch failed:', error);
     }
 
-    for (let i = 0; i < CORS_PROXIES.length; i++) {
-      try {
-        const proxyUrl = CORS_PROXIES[i](targetUrl);
-        
-        const response = await fetch(proxyUrl, {
-          headers: {
-            'Accept': 'text/calendar, text/plain, */*',
-          }
-        });
+    throw new Error('All fetch methods failed or returned invalid data. Please check if the iCal URL is publicly accessible and returns valid calendar data.');
+  }, [isValidICalData]);
 
-        if (response.ok) {
-          const data = await response.text();
-          
-          if (isValidICalData(data)) {
-            return data;
-          } else {
-            console.warn(`Proxy ${i + 1} returned invalid iCal data`);
-          }
-        } else {
-          console.warn(`Proxy ${i + 1} failed with status ${response.status}`);
-        }
-      } catch (error) {
-        console.warn(`Proxy ${i + 1} failed`);
+  /**
+   * Expand a downloaded or imported feed and store it as the calendar's source and
+   * occurrences, recording what changed since the previous copy. Returns the occurrences.
+   */
+  const storeFeed = useCallback(async (
+    calendar: ICalCalendar,
+    icalData: string,
+    updates: Partial<ICalCalendar> = {}
+  ): Promise<ICalEventOccurrence[]> => {
+    let jcalData;
+    try {
+      jcalData = ICAL.parse(icalData);
+    } catch (parseError) {
+      console.error('ICAL parsing error:', parseError);
+      throw new Error(`Invalid calendar format: ${parseError instanceof Error ? parseError.message : 'Unknown parsing error'}`);
+    }
+
+    const vcalendar = new ICAL.Component(jcalData);
+    const expansionWindow = getCalendarExpansionWindow(calendar);
+    const timeZone = getHouseholdTimeZone();
+    const allEvents = expandCalendarEvents(vcalendar, calendar, expansionWindow, timeZone);
+    const syncTime = new Date().toISOString();
+
+    try {
+      await calendarStorageService.saveSource(calendar.id, icalData);
+    } catch (error) {
+      console.warn('Failed to store raw iCal source:', error);
+    }
+
+  // debug removed: expansion details
+
+    let syncHistory = calendar.syncHistory;
+    try {
+      await ensureLegacyMigration();
+      const previousEvents = await calendarStorageService.getOccurrences(calendar.id);
+
+      // The first download has nothing to compare against
+      if (calendar.lastSync) {
+        syncHistory = recordSyncReport(
+          calendar.syncHistory,
+          previousEvents,
+          allEvents,
+          getMaterializedWindow(calendar),
+          expansionWindow,
+          syncTime
+        );
       }
+
+      await calendarStorageService.replaceOccurrences(calendar.id, allEvents);
+      
+  // debug removed: calendar sync counts
+    } catch (error) {
+      console.error('Error storing iCal events:', error);
     }
 
-    throw new Error('All fetch methods failed or returned invalid data. Please check if the iCal URL is publicly accessible and returns valid calendar data.');
-  }, [isValidICalData]);
+    await updateCalendar(calendar.id, {
+      lastSync: syncTime,
+      eventCount: allEvents.length,
+      materializedStart: expansionWindow.start.toISOString(),
+      materializedEnd: expansionWindow.end.toISOString(),
+      materializedTimeZone: timeZone,
+      syncHistory,
+      ...updates
+    });
+
+    return allEvents;
+  }, [updateCalendar]);
 
   const syncCalendar = useCallback(async (calendar: ICalCalendar) => {
     setIsLoading(true);
@@ -598,99 +564,43 @@ export const useICalCalendars = () => {
   CalendarRefreshUtils.triggerICalRefreshStart(calendar.id);
 
     try {
-      if (!calendar.url || calendar.url.trim() === '') {
-        throw new Error('Calendar does not have a valid URL for syncing.');
+      // Imported files and the local calendar have nothing to download; re-expand the stored copy instead
+      if (calendar.sourceType === 'file' || calendar.sourceType === 'local') {
+        const source = await calendarStorageService.getSource(calendar.id);
+        if (!source) {
+          throw new Error('The imported file is no longer stored. Please import it again.');
+        }
+        const reexpanded = await storeFeed({ ...calendar, lastSync: undefined }, source.data);
+        setSyncStatus(prev => ({ ...prev, [calendar.id]: 'success' }));
+        CalendarRefreshUtils.triggerICalRefresh(calendar.id, reexpanded.length, true, `Expanded ${reexpanded.length} events`);
+        return reexpanded;
       }
 
-      const icalData = await fetchICalData(calendar.url);
-      
-      if (!icalData || icalData.trim().length === 0) {
-        throw new Error('Received empty calendar data');
+      if (!calendar.url || calendar.url.trim() === '') {
+        throw new Error('Calendar does not have a valid URL for syncing.');
       }
 
-      let jcalData;
-      try {
-        jcalData = ICAL.parse(icalData);
-      } catch (parseError) {
-        console.error('ICAL parsing error:', parseError);
-        throw new Error(`Invalid calendar format: ${parseError instanceof Error ? parseError.message : 'Unknown parsing error'}`);
+      // Only ask for a 304 when the cached source is there to fall back on
+      const cachedSource = await calendarStorageService.getSource(calendar.id).catch(() => undefined);
+      const validators = cachedSource ? { etag: calendar.etag, lastModified: calendar.lastModified } : {};
+      const fetched = await fetchICalData(calendar.url, validators);
+
+      if (fetched.notModified) {
+        await updateCalendar(calendar.id, { lastSync: new Date().toISOString() });
+        setSyncStatus(prev => ({ ...prev, [calendar.id]: 'success' }));
+        const unchanged = await calendarStorageService.getOccurrences(calendar.id);
+        CalendarRefreshUtils.triggerICalRefresh(calendar.id, unchanged.length, true, 'Calendar unchanged since last sync');
+        return unchanged;
       }
 
-      const vcalendar = new ICAL.Component(jcalData);
-      const vevents = vcalendar.getAllSubcomponents('vevent');
-
-  // debug removed: processing events count
-
-  const allEvents: ICalEventOccurrence[] = [];
-      vevents.forEach((vevent) => {
-        const event = new ICAL.Event(vevent);
-        const eventOccurrences = expandRecurringEvent(event, calendar);
-        allEvents.push(...eventOccurrences);
-      });
-
-  // debug removed: expansion details
-
-      try {
-  const existingEvents = JSON.parse(localStorage.getItem(ICAL_EVENTS_KEY) || '[]') as (ICalEventOccurrence & { date: string | Date })[];
-  const filteredExisting = existingEvents.filter((event) => event.calendarId !== calendar.id);
-        
-        // Create a map for efficient event comparison by a stable identifier
-  const existingEventMap = new Map<string, ICalEventOccurrence & { date: string | Date }>();
-        filteredExisting.forEach(event => {
-          // Support both legacy random ids and new deterministic ids
-          const legacyKey = `${event.calendarId}-${event.title}-${event.date}`;
-          existingEventMap.set(legacyKey, event);
-          if (event.id) existingEventMap.set(String(event.id), event);
-        });
-        
-        // Track which events are new, updated, or unchanged
-  const updatedEvents: ICalEventOccurrence[] = [];
-        let newCount = 0;
-        let updatedCount = 0;
-        
-        allEvents.forEach(newEvent => {
-          const eventKey = `${newEvent.calendarId}-${newEvent.title}-${newEvent.date}`;
-          const existingEvent = existingEventMap.get(newEvent.id) || existingEventMap.get(eventKey);
-          
-          if (!existingEvent) {
-            // New event
-            updatedEvents.push(newEvent);
-            newCount++;
-          } else {
-            // Check if event details have changed
-            const hasChanges = 
-              existingEvent.description !== newEvent.description ||
-              existingEvent.location !== newEvent.location ||
-              existingEvent.time !== newEvent.time ||
-              existingEvent.organizer !== newEvent.organizer;
-            
-            if (hasChanges) {
-              // Event has been updated
-              updatedEvents.push({ ...newEvent, id: existingEvent.id }); // Preserve original ID
-              updatedCount++;
-            } else {
-              // Event unchanged
-              updatedEvents.push(existingEvent);
-            }
-            
-            // Remove from map to track which events were deleted
-            existingEventMap.delete(eventKey);
-            existingEventMap.delete(newEvent.id);
-          }
-        });
-        
-        // Combine with events from other calendars
-        const combinedEvents = [...filteredExisting, ...updatedEvents];
-        localStorage.setItem(ICAL_EVENTS_KEY, JSON.stringify(combinedEvents));
-        
-  // debug removed: calendar sync counts
-      } catch (error) {
-        console.error('Error storing iCal events:', error);
+      const icalData = fetched.data;
+      if (!icalData || icalData.trim().length === 0) {
+        throw new Error('Received empty calendar data');
       }
 
-      await updateCalendar(calendar.id, {
-        lastSync: new Date().toISOString(),
-        eventCount: allEvents.length
+      const allEvents = await storeFeed(calendar, icalData, {
+        etag: fetched.etag,
+        lastModified: fetched.lastModified
       });
 
       setSyncStatus(prev => ({ ...prev, [calendar.id]: 'success' }));
@@ -712,10 +622,150 @@ export const useICalCalendars = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [updateCalendar, expandRecurringEvent, fetchICalData]);
+  }, [updateCalendar, fetchICalData, storeFeed]);
+
+  const readICalFile = useCallback(async (file: File): Promise<string> => {
+    const icalData = await file.text();
+    if (!isValidICalData(icalData)) {
+      throw new Error(`${file.name} is not a valid iCal (.ics) file.`);
+    }
+    return icalData;
+  }, [isValidICalData]);
+
+  /**
+   * Add a calendar from an uploaded .ics file. It has no URL; its events come from the
+   * stored file and are replaced by importing a newer one with `reimportCalendarFile`.
+   */
+  const importCalendarFile = useCallback(async (
+    file: File,
+    details: Pick<ICalCalendar, 'name' | 'color'> & Partial<Pick<ICalCalendar, 'enabled' | 'expansionPastMonths' | 'expansionFutureMonths'>>
+  ) => {
+    const name = details.name.trim();
+    if (!name) {
+      throw new Error('Calendar name is required');
+    }
+    const icalData = await readICalFile(file);
+
+    const existingCalendars = await calendarStorageService.getAllCalendars();
+    if (existingCalendars.some(cal => cal.name.toLowerCase().trim() === name.toLowerCase())) {
+      throw new Error('A calendar with this name already exists');
+    }
+
+    const newCalendar: ICalCalendar = {
+      id: `ical_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      url: '',
+      color: details.color || '#3b82f6',
+      enabled: details.enabled !== undefined ? details.enabled : true,
+      eventCount: 0,
+      sourceType: 'file',
+      fileName: file.name,
+      expansionPastMonths: details.expansionPastMonths,
+      expansionFutureMonths: details.expansionFutureMonths
+    };
+
+    setSyncStatus(prev => ({ ...prev, [newCalendar.id]: 'syncing' }));
+    try {
+      await calendarStorageService.addCalendar(newCalendar);
+      const events = await storeFeed(newCalendar, icalData);
+      setSyncStatus(prev => ({ ...prev, [newCalendar.id]: 'success' }));
+      CalendarRefreshUtils.triggerICalRefresh(newCalendar.id, events.length, true, `Imported ${events.length} events`);
+      return { calendar: newCalendar, eventCount: events.length };
+    } catch (error) {
+      console.error('Error importing iCal file:', error);
+      // Don't leave an empty calendar behind when the file could not be stored
+      await calendarStorageService.deleteCalendar(newCalendar.id).catch(() => undefined);
+      await loadCalendars();
+      setSyncStatus(prev => {
+        const next = { ...prev };
+        delete next[newCalendar.id];
+        return next;
+      });
+      throw error;
+    }
+  }, [readICalFile, storeFeed, loadCalendars]);
+
+  /** Replace a file calendar's events with those of a newer export of the same file */
+  const reimportCalendarFile = useCallback(async (calendar: ICalCalendar, file: File) => {
+    setSyncStatus(prev => ({ ...prev, [calendar.id]: 'syncing' }));
+    CalendarRefreshUtils.triggerICalRefreshStart(calendar.id);
+    try {
+      const icalData = await readICalFile(file);
+      const events = await storeFeed(calendar, icalData, { sourceType: 'file', fileName: file.name });
+      setSyncStatus(prev => ({ ...prev, [calendar.id]: 'success' }));
+      CalendarRefreshUtils.triggerICalRefresh(calendar.id, events.length, true, `Imported ${events.length} events`);
+      return events;
+    } catch (error) {
+      console.error('Error re-importing iCal file:', error);
+      setSyncStatus(prev => ({ ...prev, [calendar.id]: 'error' }));
+      CalendarRefreshUtils.triggerICalRefresh(calendar.id, 0, false, error instanceof Error ? error.message : 'Import failed');
+      throw error;
+    }
+  }, [readICalFile, storeFeed]);
+
+  /** The household's own calendar, created the first time an event is added to it */
+  const ensureLocalCalendar = useCallback(async (): Promise<ICalCalendar> => {
+    const existing = await calendarStorageService.getCalendar(LOCAL_CALENDAR_ID);
+    if (existing) return existing;
+    const localCalendar: ICalCalendar = {
+      id: LOCAL_CALENDAR_ID,
+      name: LOCAL_CALENDAR_NAME,
+      url: '',
+      color: '#3b82f6',
+      enabled: true,
+      eventCount: 0,
+      sourceType: 'local'
+    };
+    await calendarStorageService.addCalendar(localCalendar);
+    return localCalendar;
+  }, []);
+
+  /**
+   * Rewrite the local calendar's .ics document and re-expand it like any other feed,
+   * so local events share recurrence handling, rules and range loading with iCal ones.
+   */
+  const writeLocalCalendar = useCallback(async (update: (icalData: string | undefined) => string, message: string) => {
+    try {
+      const localCalendar = await ensureLocalCalendar();
+      const source = await calendarStorageService.getSource(LOCAL_CALENDAR_ID);
+      const events = await storeFeed({ ...localCalendar, lastSync: undefined }, update(source?.data));
+      CalendarRefreshUtils.triggerICalRefresh(LOCAL_CALENDAR_ID, events.length, true, message);
+    } catch (error) {
+      console.error('Error saving local calendar:', error);
+      throw new Error('Failed to save event');
+    }
+  }, [ensureLocalCalendar, storeFeed]);
+
+  /** Add or update an event in the local calendar; returns its UID */
+  const saveLocalEvent = useCallback(async (draft: LocalEventDraft): Promise<string> => {
+    let uid = draft.uid || '';
+    await writeLocalCalendar((icalData) => {
+      const result = upsertLocalEvent(icalData, draft);
+      uid = result.uid;
+      return result.icalData;
+    }, draft.uid ? 'Event updated' : 'Event added');
+    return uid;
+  }, [writeLocalCalendar]);
+
+  /** Delete a local event with all of its occurrences */
+  const deleteLocalEvent = useCallback(async (uid: string) => {
+    await writeLocalCalendar((icalData) => removeLocalEvent(icalData, uid), 'Event deleted');
+  }, [writeLocalCalendar]);
+
+  /** Stored fields of a local event (the whole series for recurring ones), for editing */
+  const getLocalEvent = useCallback(async (uid: string): Promise<LocalEventDraft | null> => {
+    try {
+      const source = await calendarStorageService.getSource(LOCAL_CALENDAR_ID);
+      return readLocalEvent(source?.data, uid);
+    } catch (error) {
+      console.error('Error reading local event:', error);
+      return null;
+    }
+  }, []);
 
   const syncAllCalendars = useCallback(async () => {
-    const enabledCalendars = calendars.filter(cal => cal.enabled);
+    // Imported files and the local calendar have no feed to download
+    const enabledCalendars = calendars.filter(cal => cal.enabled && cal.sourceType !== 'file' && cal.sourceType !== 'local');
     
   // Emit bulk start event
   CalendarRefreshUtils.triggerAllRefreshStart();
@@ -771,6 +821,7 @@ export const useICalCalendars = () => {
     });
 
     calendars.forEach(calendar => {
+      if (calendar.sourceType === 'file' || calendar.sourceType === 'local') return;
       if (!calendar.enabled || !calendar.syncFrequencyPerDay || calendar.syncFrequencyPerDay <= 0) return;
       const existing = timers.get(calendar.id);
       if (existing) return; // already scheduled
@@ -817,21 +868,76 @@ export const useICalCalendars = () => {
     };
   }, [calendars, syncCalendar]);
 
-  const getICalEvents = useCallback((): ICalEventOccurrence[] => {
+  /**
+   * Stored occurrences, limited to those shown on a day in [start, end) when a range is
+   * given. Views pass the range they display so only that slice is read from IndexedDB.
+   */
+  const getICalEvents = useCallback(async (range?: { start: Date; end: Date }): Promise<ICalEventOccurrence[]> => {
     try {
-      const stored = localStorage.getItem(ICAL_EVENTS_KEY);
-      
-      if (stored) {
-        const events: (ICalEventOccurrence & { date: string | Date })[] = JSON.parse(stored);
-        return events.map(ev => ({ ...ev, date: new Date(ev.date) }));
-      }
-      return [];
+      await ensureLegacyMigration();
+      return range
+        ? await calendarStorageService.getOccurrencesInRange(range.start, range.end)
+        : await calendarStorageService.getOccurrences();
     } catch (error) {
       console.error('Error loading iCal events:', error);
       return [];
     }
   }, []);
 
+  /**
+   * Make sure occurrences exist for the given range in the given display zone. Calendars
+   * whose stored expansion does not cover it are re-expanded from their cached raw feed over
+   * the union of both ranges, so navigating far ahead or back works without refetching.
+   * Returns true if anything changed.
+   */
+  const ensureRangeMaterialized = useCallback(async (
+    start: Date,
+    end: Date,
+    timeZone: string = getHouseholdTimeZone()
+  ): Promise<boolean> => {
+    const stale = calendars.filter(cal => {
+      if (!cal.enabled || !cal.materializedStart || !cal.materializedEnd) return false;
+      return start < new Date(cal.materializedStart) ||
+        end > new Date(cal.materializedEnd) ||
+        (cal.materializedTimeZone || getHouseholdTimeZone()) !== timeZone;
+    });
+    if (stale.length === 0) return false;
+
+    let changed = false;
+    for (const calendar of stale) {
+      try {
+        const source = await calendarStorageService.getSource(calendar.id);
+        if (!source) continue;
+
+        const current = new Date(calendar.materializedStart!);
+        const currentEnd = new Date(calendar.materializedEnd!);
+        // Extend to whole months so neighbouring navigation does not re-expand again
+        const expansionWindow: ExpansionWindow = {
+          start: start < current ? new Date(start.getFullYear(), start.getMonth(), 1) : current,
+          end: end > currentEnd ? new Date(end.getFullYear(), end.getMonth() + 1, 1) : currentEnd
+        };
+
+        const vcalendar = new ICAL.Component(ICAL.parse(source.data));
+        const occurrences = expandCalendarEvents(vcalendar, calendar, expansionWindow, timeZone);
+
+        await calendarStorageService.replaceOccurrences(calendar.id, occurrences);
+
+        await calendarStorageService.updateCalendar(calendar.id, {
+          eventCount: occurrences.length,
+          materializedStart: expansionWindow.start.toISOString(),
+          materializedEnd: expansionWindow.end.toISOString(),
+          materializedTimeZone: timeZone
+        });
+        changed = true;
+      } catch (error) {
+        console.warn(`Failed to expand calendar ${calendar.name} for requested range:`, error);
+      }
+    }
+
+    if (changed) await loadCalendars();
+    return changed;
+  }, [calendars, loadCalendars]);
+
   const forceRefresh = useCallback(() => {
     loadCalendars();
     processSyncQueue();
@@ -850,7 +956,13 @@ export const useICalCalendars = () => {
     removeCalendar,
     syncCalendar,
     syncAllCalendars,
+    importCalendarFile,
+    reimportCalendarFile,
+    saveLocalEvent,
+    deleteLocalEvent,
+    getLocalEvent,
     getICalEvents,
+    ensureRangeMaterialized,
     forceRefresh,
     isBackgroundSyncSupported,
     triggerBackgroundSync
@@ -5,9 +5,21 @@ import { NotionEvent } from '@/types/notion';
 import { useEventFiltering } from '@/hooks/useEventFiltering';
 import { useCalendarSelection } from '@/hooks/useCalendarSelection';
 import { useICalCalendars } from '@/hooks/useICalCalendars';
+import { useEventOverrides } from '@/hooks/useEventOverrides';
+import { applyEventOverrides } from '@/utils/eventOverrides';
 
 export const useIntegratedEvents = (googleEvents: Event[] = [], refreshKey?: number) => {
-  const { selectedCalendarIds, notionEvents, scrapedEvents, enabledCalendars } = useCalendarSelection();
+  const {
+    selectedCalendarIds,
+    notionEvents,
+    scrapedEvents,
+    enabledCalendars,
+    categoryFilter,
+    mergeSettings,
+    familyMembers,
+    memberFilter,
+    colorByMember
+  } = useCalendarSelection();
   
   // Get enabled calendar IDs for sync status filtering from ALL sources
   const enabledCalendarIds = useMemo(() => {
@@ -15,6 +27,22 @@ export const useIntegratedEvents = (googleEvents: Event[] = [], refreshKey?: num
       .filter(cal => cal.enabled)
       .map(cal => cal.id);
   }, [enabledCalendars]); // Remove refreshKey dependency
+
+  const calendarRules = useMemo(() => {
+    return Object.fromEntries(
+      enabledCalendars
+        .filter(cal => Array.isArray(cal.rules) && cal.rules.length > 0)
+        .map(cal => [cal.id, cal.rules])
+    );
+  }, [enabledCalendars]);
+
+  const categoryDefaults = useMemo(() => {
+    return Object.fromEntries(
+      enabledCalendars
+        .filter(cal => cal.defaultCategory)
+        .map(cal => [cal.id, cal.defaultCategory])
+    );
+  }, [enabledCalendars]);
   
   // Ensure all arrays are safe
   const safeGoogleEvents = Array.isArray(googleEvents) ? googleEvents : [];
@@ -25,14 +53,30 @@ export const useIntegratedEvents = (googleEvents: Event[] = [], refreshKey?: num
   
   // debug removed: input state snapshot
   
-  const { filteredEvents, hasGoogleEvents, hasNotionEvents, hasScrapedEvents } = useEventFiltering({
+  const { filteredEvents: sourceEvents, unfilteredEvents, hasGoogleEvents, hasNotionEvents, hasScrapedEvents } = useEventFiltering({
     googleEvents: safeGoogleEvents,
     notionEvents: safeNotionEvents,
     scrapedEvents: safeScrapedEvents,
     selectedCalendarIds: safeSelectedCalendarIds,
-    enabledCalendarIds: safeEnabledCalendarIds
+    enabledCalendarIds: safeEnabledCalendarIds,
+    calendarRules,
+    categoryDefaults,
+    categoryFilter,
+    mergeSettings,
+    familyMembers,
+    memberFilter,
+    colorByMember
   });
 
+  // Household hides, notes and pins, keyed by occurrence ID so they outlive re-syncs
+  const { overrides } = useEventOverrides();
+  const filteredEvents = useMemo(() => applyEventOverrides(sourceEvents, overrides), [sourceEvents, overrides]);
+  // Reminders ignore what is filtered out of view; only occurrences the household hid stay quiet
+  const reminderEvents = useMemo(
+    () => applyEventOverrides(Array.isArray(unfilteredEvents) ? unfilteredEvents : [], overrides),
+    [unfilteredEvents, overrides]
+  );
+
   const eventStats = useMemo(() => {
     const googleEventCount = safeGoogleEvents.length;
     const notionEventCount = safeNotionEvents.length;
@@ -58,6 +102,7 @@ export const useIntegratedEvents = (googleEvents: Event[] = [], refreshKey?: num
 
   return {
     filteredEvents: Array.isArray(filteredEvents) ? filteredEvents : [],
+    reminderEvents,
     eventStats,
     selectedCalendarIds: safeSelectedCalendarIds
   };
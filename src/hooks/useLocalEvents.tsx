@@ -1,22 +1,60 @@
-
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { addDays, endOfMonth, endOfWeek, startOfMonth, startOfWeek } from 'date-fns';
 import { Event } from '@/types/calendar';
 import { useICalCalendars } from './useICalCalendars';
 
+interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+// Extra days loaded around the visible range so day-by-day navigation stays populated
+const RANGE_PADDING_DAYS = 7;
+
+// Until a view reports its range, load the weeks of the current month
+const getDefaultRange = (): DateRange => {
+  const today = new Date();
+  return {
+    start: startOfWeek(startOfMonth(today)),
+    end: addDays(endOfWeek(endOfMonth(today)), 1)
+  };
+};
+
 export const useLocalEvents = () => {
   const [googleEvents, setGoogleEvents] = useState<Event[]>([]);
   const [refreshKey, setRefreshKey] = useState(0);
-  const { calendars: iCalCalendars, getICalEvents, forceRefresh: iCalForceRefresh } = useICalCalendars();
+  const [visibleRange, setVisibleRange] = useState<DateRange>(getDefaultRange);
+  // Wider range kept loaded while the search palette is open
+  const [searchRange, setSearchRange] = useState<DateRange | null>(null);
+  const {
+    calendars: iCalCalendars,
+    getICalEvents,
+    ensureRangeMaterialized,
+    forceRefresh: iCalForceRefresh,
+    saveLocalEvent,
+    deleteLocalEvent,
+    getLocalEvent
+  } = useICalCalendars();
 
   useEffect(() => {
-    // Get ALL iCal events from storage - don't filter by enabled status here
+    // Get iCal events for the visible range only - don't filter by enabled status here
     // Let useIntegratedEvents handle all filtering logic
-    const iCalEvents = getICalEvents();
-    
+    let cancelled = false;
+    const start = searchRange && searchRange.start < visibleRange.start ? searchRange.start : visibleRange.start;
+    const end = searchRange && searchRange.end > visibleRange.end ? searchRange.end : visibleRange.end;
+    getICalEvents({
+      start: addDays(start, -RANGE_PADDING_DAYS),
+      end: addDays(end, RANGE_PADDING_DAYS)
+    }).then(iCalEvents => {
+      if (!cancelled) setGoogleEvents(iCalEvents);
+    });
+
   // debug removed: loading all iCal events
-    
-    setGoogleEvents(iCalEvents);
-  }, [iCalCalendars, getICalEvents, refreshKey]);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [iCalCalendars, getICalEvents, refreshKey, visibleRange, searchRange]);
 
   const forceRefresh = () => {
   // debug removed: force refresh triggered
@@ -26,9 +64,41 @@ export const useLocalEvents = () => {
     setRefreshKey(prev => prev + 1);
   };
 
+  // Called by views with the range they display; loads it and expands it if needed
+  const ensureRange = useCallback(async (start: Date, end: Date, timeZone?: string) => {
+    setVisibleRange(prev =>
+      prev.start.getTime() === start.getTime() && prev.end.getTime() === end.getTime() ? prev : { start, end }
+    );
+    try {
+      if (await ensureRangeMaterialized(start, end, timeZone)) {
+        setRefreshKey(prev => prev + 1);
+      }
+    } catch (error) {
+      console.warn('Failed to expand events for visible range:', error);
+    }
+  }, [ensureRangeMaterialized]);
+
+  // Loads extra days on top of the visible range so search covers them; null drops them again
+  const loadSearchRange = useCallback(async (range: DateRange | null, timeZone?: string) => {
+    setSearchRange(range);
+    if (!range) return;
+    try {
+      if (await ensureRangeMaterialized(range.start, range.end, timeZone)) {
+        setRefreshKey(prev => prev + 1);
+      }
+    } catch (error) {
+      console.warn('Failed to expand events for search:', error);
+    }
+  }, [ensureRangeMaterialized]);
+
   return {
     googleEvents,
     isLoading: false,
-    forceRefresh
+    forceRefresh,
+    ensureRange,
+    loadSearchRange,
+    saveLocalEvent,
+    deleteLocalEvent,
+    getLocalEvent
   };
 };
@@ -15,7 +15,7 @@ import { notionAPIClient } from '@/services/NotionAPIClient';
 import type { PageObjectResponse, DatabaseObjectResponse } from '@notionhq/client/build/src/api-endpoints';
 import { notionPageScraper } from '@/services/NotionPageScraper';
 import { RateLimiter, createDebounce } from '@/lib/rateLimiter';
-import { CalendarRefreshUtils } from '@/hooks/useCalendarRefresh';
+import { CalendarRefreshUtils, useCalendarRefresh } from '@/hooks/useCalendarRefresh';
 
 import { useBackgroundSync } from './useBackgroundSync';
 
@@ -32,6 +32,19 @@ interface NotionDateProperty extends NotionPropertyBase { type: 'date'; date?: {
 type NotionPrimitiveProperty = NotionTitleProperty | NotionRichTextProperty | NotionSelectProperty | NotionMultiSelectProperty | NotionDateProperty;
 type NotionPropertyMap = Record<string, NotionPrimitiveProperty | undefined>;
 
+// Select properties whose values become event categories
+const CATEGORY_PROPERTY_NAMES = ['category', 'categories', 'tags', 'type'];
+
+const getSelectCategories = (properties: NotionPropertyMap): string[] | undefined => {
+  const labels = Object.entries(properties).flatMap(([name, prop]) => {
+    if (!prop || !CATEGORY_PROPERTY_NAMES.includes(name.toLowerCase())) return [];
+    if (prop.type === 'select') return prop.select?.name ? [prop.select.name] : [];
+    if (prop.type === 'multi_select') return (prop.multi_select || []).map(option => option.name || '').filter(Boolean);
+    return [];
+  });
+  return labels.length > 0 ? labels : undefined;
+};
+
 interface NotionApiEvent {
   id: string;
   title: string;
@@ -76,6 +89,7 @@ export const useNotionScrapedCalendars = () => {
     try {
       const storedCalendars = await notionScrapedEventsStorage.getAllCalendars();
       setCalendars(storedCalendars);
+      return storedCalendars;
     } catch (error) {
       console.error('Error loading Notion calendars:', error);
       toast({
@@ -83,6 +97,7 @@ export const useNotionScrapedCalendars = () => {
         description: "Failed to load Notion calendars",
         variant: "destructive"
       });
+      return [];
     }
   }, [toast]);
 
@@ -130,7 +145,11 @@ export const useNotionScrapedCalendars = () => {
   const updateCalendar = useCallback(async (id: string, updates: Partial<NotionScrapedCalendar>) => {
     try {
       await notionScrapedEventsStorage.updateCalendar(id, updates);
-      await loadCalendars();
+      const updated = await loadCalendars();
+      if ('rules' in updates || 'defaultCategory' in updates) {
+        // Rules and default categories change what is displayed without a sync; let the calendar view reload them
+        CalendarRefreshUtils.triggerNotionRefresh(id, updated.find(cal => cal.id === id)?.eventCount || 0, true, 'Rules updated');
+      }
     } catch (error) {
       console.error('Error updating calendar:', error);
       toast({
@@ -225,7 +244,7 @@ export const useNotionScrapedCalendars = () => {
         description: undefined,
         location: undefined,
         status: undefined,
-        categories: undefined,
+        categories: getSelectCategories(simplified),
         priority: undefined,
         properties: simplified,
         sourceUrl: undefined,
@@ -576,6 +595,13 @@ export const useNotionScrapedCalendars = () => {
     loadEvents();
   }, [loadCalendars, loadEvents]);
 
+  // Settings and the calendar view each use their own instance of this hook; reload
+  // when another instance reports finished work so rules and sync results show up
+  const { useRefreshListener } = useCalendarRefresh();
+  useRefreshListener((refresh) => {
+    if (refresh.phase === 'complete' && refresh.type !== 'ical') loadCalendars();
+  });
+
   // Auto-sync scheduler for Notion calendars based on syncFrequencyPerDay
   useEffect(() => {
     const globalAny = window as any;
@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Event, EventReminder } from '@/types/calendar';
+import { reminderStore } from '@/services/reminderStore';
+import { collectReminders, REMINDER_GRACE_MINUTES, ScheduledReminder } from '@/utils/reminders';
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+const GRACE_MS = REMINDER_GRACE_MINUTES * 60 * 1000;
+// How far ahead the service worker gets reminders to fire while the page is in the background
+const SCHEDULE_AHEAD_MS = 24 * 60 * 60 * 1000;
+
+/** Reminders added to events and per-calendar default leads, shared by every component that uses them */
+export const useReminderSettings = () => {
+  const [reminders, setReminders] = useState<EventReminder[]>(() => reminderStore.getReminders());
+  const [calendarDefaults, setCalendarDefaults] = useState<Record<string, number>>(() => reminderStore.getCalendarDefaults());
+
+  useEffect(() => reminderStore.subscribe(() => {
+    setReminders(reminderStore.getReminders());
+    setCalendarDefaults(reminderStore.getCalendarDefaults());
+  }), []);
+
+  const addReminder = useCallback((event: Pick<Event, 'id' | 'title' | 'start'>, minutesBefore: number) => {
+    void reminderStore.addReminder(event, minutesBefore);
+  }, []);
+
+  const removeReminder = useCallback((id: string) => {
+    void reminderStore.removeReminder(id);
+  }, []);
+
+  const setCalendarDefault = useCallback((calendarId: string, minutesBefore?: number) => {
+    void reminderStore.setCalendarDefault(calendarId, minutesBefore);
+  }, []);
+
+  return { reminders, calendarDefaults, addReminder, removeReminder, setCalendarDefault };
+};
+
+const isPageVisible = () => typeof document === 'undefined' || document.visibilityState === 'visible';
+
+// The worker fires from the stored schedule and reports back with REMINDERS_FIRED
+const askServiceWorkerToFire = (): boolean => {
+  const controller = typeof navigator !== 'undefined' && 'serviceWorker' in navigator ? navigator.serviceWorker.controller : null;
+  if (!controller) return false;
+  controller.postMessage({ type: 'CHECK_REMINDERS' });
+  return true;
+};
+
+const showPageNotification = (reminder: ScheduledReminder) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  try {
+    const time = new Date(reminder.start).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+    new Notification(reminder.title, {
+      body: reminder.location ? `${time} · ${reminder.location}` : time,
+      tag: reminder.id
+    });
+  } catch (error) {
+    console.warn('Failed to show reminder notification:', error);
+  }
+};
+
+/**
+ * Fires the reminders of `events`: on the full-screen banner while the page is visible, and
+ * as system notifications through the service worker while it is in the background.
+ */
+export const useReminders = (events: Event[]) => {
+  const { reminders, calendarDefaults } = useReminderSettings();
+  const [activeReminders, setActiveReminders] = useState<ScheduledReminder[]>([]);
+
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+    const handleMessage = (message: MessageEvent) => {
+      if (message.data?.type === 'REMINDERS_FIRED' && Array.isArray(message.data.ids)) {
+        void reminderStore.markFired(message.data.ids);
+      }
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const check = () => {
+      if (!isPageVisible() && askServiceWorkerToFire()) return;
+      const now = Date.now();
+      const due = collectReminders(events, reminders, calendarDefaults, now - GRACE_MS, now + 1)
+        .filter(reminder => !reminderStore.isFired(reminder.id));
+      if (due.length === 0) return;
+      void reminderStore.markFired(due.map(reminder => reminder.id));
+      if (isPageVisible()) {
+        setActiveReminders(prev => [...prev, ...due.filter(reminder => !prev.some(shown => shown.id === reminder.id))]);
+      } else {
+        due.forEach(showPageNotification);
+      }
+    };
+
+    reminderStore.ready.then(async () => {
+      if (cancelled) return;
+      const now = Date.now();
+      await reminderStore.syncSchedule(collectReminders(events, reminders, calendarDefaults, now - GRACE_MS, now + SCHEDULE_AHEAD_MS));
+      if (!cancelled) check();
+    });
+
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+    document.addEventListener('visibilitychange', check);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', check);
+    };
+  }, [events, reminders, calendarDefaults]);
+
+  const dismissReminder = useCallback((id: string) => {
+    setActiveReminders(prev => prev.filter(reminder => reminder.id !== id));
+  }, []);
+
+  const dismissAllReminders = useCallback(() => setActiveReminders([]), []);
+
+  return { activeReminders, dismissReminder, dismissAllReminders };
+};
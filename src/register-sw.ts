@@ -1,4 +1,6 @@
 // Service Worker registration that respects Vite BASE_URL (GitHub Pages subpath)
+import { proxyRegistry } from '@/services/proxyRegistry';
+
 const base = (import.meta as unknown as { env: { BASE_URL: string } }).env?.BASE_URL || '/';
 
 if ('serviceWorker' in navigator) {
@@ -18,5 +20,14 @@ if ('serviceWorker' in navigator) {
         });
       });
     }).catch(() => {});
+
+    // Background syncs go through the same proxies as the page, healthiest first
+    navigator.serviceWorker.ready.then(reg => {
+      const sendProxies = () => {
+        reg.active?.postMessage({ type: 'SET_PROXIES', templates: proxyRegistry.getOrderedProxies().map(proxy => proxy.template) });
+      };
+      sendProxies();
+      proxyRegistry.subscribe(sendProxies);
+    }).catch(() => {});
   });
 }
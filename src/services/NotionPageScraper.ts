@@ -1,4 +1,5 @@
 import { NotionScrapedEvent, NotionPageMetadata, NotionColumnMapping } from '@/types/notion';
+import { proxyRegistry } from './proxyRegistry';
 import { notionTableParser, NotionDebugResult, NotionDebugInfo } from './NotionTableParser';
 
 interface ScrapeResult {
@@ -13,7 +14,6 @@ export interface DebugScrapeResult extends ScrapeResult {
 }
 
 class NotionPageScraper {
-  private readonly corsProxy = 'https://api.allorigins.win/get';
   private readonly DOM_LOAD_DELAY = 20000; // 20 seconds
 
   async scrapePage(pageUrl: string): Promise<ScrapeResult> {
@@ -43,26 +43,14 @@ class NotionPageScraper {
 
       
 
-      const proxyUrl = `${this.corsProxy}?url=${encodeURIComponent(pageUrl)}`;
-      
-      const response = await fetch(proxyUrl, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
+      const htmlContent = await proxyRegistry.fetchThroughProxies(pageUrl, {
+        headers: { 'Accept': 'text/html, */*' },
+        read: async (response) => {
+          if (!response.ok) return null;
+          const html = await response.text();
+          return html.trim().length > 0 ? html : null;
         }
       });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const proxyData = await response.json();
-      
-      if (!proxyData.contents) {
-        throw new Error('No content received from proxy');
-      }
-
-      const htmlContent = proxyData.contents;
       
 
       // Wait for DOM to fully load before parsing
@@ -1,3 +1,8 @@
+import { addDays, format } from 'date-fns';
+import type { Event, EventRule } from '@/types/calendar';
+import type { ICalSyncReport } from '@/types/ical';
+import type { ICalEventOccurrence } from '@/hooks/useICalCalendars';
+import { getEventDayRange, isSpanningEvent } from '@/utils/multiDayLayout';
 
 interface CalendarFeed {
   id: string;
@@ -7,14 +12,79 @@ interface CalendarFeed {
   enabled: boolean;
   lastSync?: string;
   eventCount?: number;
+  // 'file' for calendars imported from an uploaded .ics file (no URL), 'local' for the
+  // household calendar whose .ics document is written by the app
+  sourceType?: 'url' | 'file' | 'local';
+  fileName?: string;
   // Number of times per day to sync automatically (0/undefined = manual only)
   syncFrequencyPerDay?: number;
+  // Rolling expansion horizon in months (undefined = app defaults)
+  expansionPastMonths?: number;
+  expansionFutureMonths?: number;
+  // ISO bounds of the range currently expanded into stored occurrences
+  materializedStart?: string;
+  materializedEnd?: string;
+  // Display zone the stored occurrences were formatted for
+  materializedTimeZone?: string;
+  // HTTP validators from the last full download, sent back on conditional requests
+  etag?: string;
+  lastModified?: string;
+  // Change reports from recent syncs, newest first
+  syncHistory?: ICalSyncReport[];
+  // Category for events whose source labels don't map onto one
+  defaultCategory?: Event['category'];
+  // Transformation rules applied to this calendar's events before display
+  rules?: EventRule[];
 }
 
+// Raw feed body kept so occurrences can be re-expanded for a new range without refetching
+interface CalendarSource {
+  calendarId: string;
+  data: string;
+  fetchedAt: string;
+}
+
+// Expanded occurrence plus its primary key and the local days it is shown on, for the
+// multi-entry day index
+type OccurrenceRecord = ICalEventOccurrence & { storageKey: string[]; days: string[] };
+
+const dayKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const getOccurrenceDays = (occurrence: ICalEventOccurrence): string[] => {
+  if (!isSpanningEvent(occurrence)) return [dayKey(new Date(occurrence.date))];
+  const { start, end } = getEventDayRange(occurrence);
+  const days: string[] = [];
+  for (let day = start; day < end; day = addDays(day, 1)) {
+    days.push(dayKey(day));
+  }
+  return days;
+};
+
+/**
+ * [calendar, UID, instance]: the instance is the RECURRENCE-ID, or the start for occurrences
+ * without one. The occurrence ID only holds the day, so two instances of a UID on one day
+ * (hourly rules, RDATEs, moved overrides) would overwrite each other under it.
+ */
+const getStorageKey = (occurrence: ICalEventOccurrence): string[] => [
+  occurrence.calendarId,
+  occurrence.uid || occurrence.id,
+  occurrence.recurrenceId || new Date(occurrence.start).toISOString()
+];
+
+const toRecord = (occurrence: ICalEventOccurrence): OccurrenceRecord => ({
+  ...occurrence,
+  storageKey: getStorageKey(occurrence),
+  days: getOccurrenceDays(occurrence)
+});
+
+const toOccurrence = ({ storageKey, days, ...occurrence }: OccurrenceRecord): ICalEventOccurrence => occurrence;
+
 class CalendarStorageService {
   private dbName = 'FamilyCalendarDB';
-  private dbVersion = 1;
+  private dbVersion = 4;
   private storeName = 'calendar_feeds';
+  private sourcesStoreName = 'calendar_sources';
+  private occurrencesStoreName = 'ical_occurrences';
   private db: IDBDatabase | null = null;
 
   async init(): Promise<void> {
@@ -34,10 +104,33 @@ class CalendarStorageService {
           store.createIndex('name', 'name', { unique: false });
           store.createIndex('url', 'url', { unique: false });
         }
+        if (!db.objectStoreNames.contains(this.sourcesStoreName)) {
+          db.createObjectStore(this.sourcesStoreName, { keyPath: 'calendarId' });
+        }
+        if (!db.objectStoreNames.contains(this.occurrencesStoreName)) {
+          this.createOccurrencesStore(db);
+        } else if (event.oldVersion < 4) {
+          // Version 3 keyed occurrences by ID; rebuild the store under the compound key
+          const upgrade = (event.target as IDBOpenDBRequest).transaction!;
+          const request = upgrade.objectStore(this.occurrencesStoreName).getAll();
+          request.onsuccess = () => {
+            db.deleteObjectStore(this.occurrencesStoreName);
+            const store = this.createOccurrencesStore(db);
+            (request.result as OccurrenceRecord[]).forEach(record => store.put(toRecord(toOccurrence(record))));
+          };
+        }
       };
     });
   }
 
+  private createOccurrencesStore(db: IDBDatabase): IDBObjectStore {
+    const occurrences = db.createObjectStore(this.occurrencesStoreName, { keyPath: 'storageKey' });
+    occurrences.createIndex('calendarId', 'calendarId', { unique: false });
+    // One entry per covered day so spans are found from any day in the range
+    occurrences.createIndex('days', 'days', { unique: false, multiEntry: true });
+    return occurrences;
+  }
+
   async addCalendar(calendar: CalendarFeed): Promise<void> {
     if (!this.db) await this.init();
     
@@ -78,15 +171,139 @@ class CalendarStorageService {
     if (!this.db) await this.init();
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.storeName], 'readwrite');
-      const store = transaction.objectStore(this.storeName);
-      const request = store.delete(id);
+      const transaction = this.db!.transaction([this.storeName, this.sourcesStoreName, this.occurrencesStoreName], 'readwrite');
+      transaction.objectStore(this.storeName).delete(id);
+      transaction.objectStore(this.sourcesStoreName).delete(id);
+      this.deleteOccurrencesOf(transaction.objectStore(this.occurrencesStoreName), id);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async saveSource(calendarId: string, data: string): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.sourcesStoreName], 'readwrite');
+      const store = transaction.objectStore(this.sourcesStoreName);
+      const source: CalendarSource = { calendarId, data, fetchedAt: new Date().toISOString() };
+      const request = store.put(source);
 
       request.onerror = () => reject(request.error);
       request.onsuccess = () => resolve();
     });
   }
 
+  async getSource(calendarId: string): Promise<CalendarSource | null> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.sourcesStoreName], 'readonly');
+      const store = transaction.objectStore(this.sourcesStoreName);
+      const request = store.get(calendarId);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result || null);
+    });
+  }
+
+  // Remove every stored occurrence of a calendar within an open readwrite transaction
+  private deleteOccurrencesOf(store: IDBObjectStore, calendarId: string, onDone?: () => void): void {
+    const cursorRequest = store.index('calendarId').openKeyCursor(IDBKeyRange.only(calendarId));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+      } else {
+        onDone?.();
+      }
+    };
+  }
+
+  /** Replace all stored occurrences of a calendar with a fresh expansion, atomically */
+  async replaceOccurrences(calendarId: string, occurrences: ICalEventOccurrence[]): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.occurrencesStoreName], 'readwrite');
+      const store = transaction.objectStore(this.occurrencesStoreName);
+      // Old entries are gone once the cursor finishes; write the new set in the same transaction
+      this.deleteOccurrencesOf(store, calendarId, () => {
+        occurrences.forEach(occurrence => store.put(toRecord(occurrence)));
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /** Write occurrences without touching others of the same calendar (used by migrations) */
+  async putOccurrences(occurrences: ICalEventOccurrence[]): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.occurrencesStoreName], 'readwrite');
+      const store = transaction.objectStore(this.occurrencesStoreName);
+      occurrences.forEach(occurrence => store.put(toRecord(occurrence)));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /** All stored occurrences, optionally limited to one calendar */
+  async getOccurrences(calendarId?: string): Promise<ICalEventOccurrence[]> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.occurrencesStoreName], 'readonly');
+      const store = transaction.objectStore(this.occurrencesStoreName);
+      const request = calendarId
+        ? store.index('calendarId').getAll(IDBKeyRange.only(calendarId))
+        : store.getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve((request.result as OccurrenceRecord[]).map(toOccurrence));
+    });
+  }
+
+  /** Occurrences shown on any local day in [start, end), including spans that began earlier */
+  async getOccurrencesInRange(start: Date, end: Date): Promise<ICalEventOccurrence[]> {
+    if (!this.db) await this.init();
+    if (end <= start) return [];
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.occurrencesStoreName], 'readonly');
+      const index = transaction.objectStore(this.occurrencesStoreName).index('days');
+      const request = index.getAll(IDBKeyRange.bound(dayKey(start), dayKey(new Date(end.getTime() - 1))));
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        // A span matches once per covered day in the range
+        const byKey = new Map<string, ICalEventOccurrence>();
+        (request.result as OccurrenceRecord[]).forEach(record => {
+          const key = record.storageKey.join('|');
+          if (!byKey.has(key)) byKey.set(key, toOccurrence(record));
+        });
+        resolve(Array.from(byKey.values()));
+      };
+    });
+  }
+
+  async clearOccurrences(): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.occurrencesStoreName], 'readwrite');
+      transaction.objectStore(this.occurrencesStoreName).clear();
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   async getAllCalendars(): Promise<CalendarFeed[]> {
     if (!this.db) await this.init();
 
@@ -115,4 +332,4 @@ class CalendarStorageService {
 }
 
 export const calendarStorageService = new CalendarStorageService();
-export type { CalendarFeed };
+export type { CalendarFeed, CalendarSource };
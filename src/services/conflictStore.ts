@@ -0,0 +1,82 @@
+import type { ConflictSettings } from '@/types/calendar';
+import { CONFLICT_BUFFER_OPTIONS, DEFAULT_CONFLICT_SETTINGS } from '@/utils/conflicts';
+
+export const CONFLICT_SETTINGS_KEY = 'family_calendar_conflict_settings';
+
+// Oldest dismissals are forgotten past this, long after their events are over
+const MAX_DISMISSED = 500;
+
+/** Conflict detection settings and dismissed conflicts, persisted in localStorage */
+export class ConflictStore {
+  private settings: ConflictSettings = DEFAULT_CONFLICT_SETTINGS;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.load();
+  }
+
+  get(): ConflictSettings {
+    return this.settings;
+  }
+
+  update(changes: Partial<Omit<ConflictSettings, 'dismissed'>>): void {
+    this.settings = { ...this.settings, ...changes };
+    this.save();
+  }
+
+  dismiss(conflictId: string): void {
+    if (this.settings.dismissed.includes(conflictId)) return;
+    this.settings = { ...this.settings, dismissed: [...this.settings.dismissed, conflictId].slice(-MAX_DISMISSED) };
+    this.save();
+  }
+
+  restoreDismissed(): void {
+    this.settings = { ...this.settings, dismissed: [] };
+    this.save();
+  }
+
+  /** Notifies `listener` whenever settings change */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private sanitize(value: unknown): ConflictSettings {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return DEFAULT_CONFLICT_SETTINGS;
+    const saved = value as Partial<ConflictSettings>;
+    return {
+      enabled: typeof saved.enabled === 'boolean' ? saved.enabled : DEFAULT_CONFLICT_SETTINGS.enabled,
+      bufferMinutes: CONFLICT_BUFFER_OPTIONS.includes(saved.bufferMinutes as number)
+        ? (saved.bufferMinutes as number)
+        : DEFAULT_CONFLICT_SETTINGS.bufferMinutes,
+      resources: Array.isArray(saved.resources)
+        ? saved.resources.filter(resource =>
+          resource && typeof resource.id === 'string' && typeof resource.name === 'string' && Array.isArray(resource.keywords)
+        )
+        : [],
+      dismissed: Array.isArray(saved.dismissed) ? saved.dismissed.filter(id => typeof id === 'string') : []
+    };
+  }
+
+  private load(): void {
+    try {
+      const stored = localStorage.getItem(CONFLICT_SETTINGS_KEY);
+      this.settings = stored ? this.sanitize(JSON.parse(stored)) : DEFAULT_CONFLICT_SETTINGS;
+    } catch (error) {
+      console.warn('Failed to load conflict settings:', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(CONFLICT_SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn('Failed to save conflict settings:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const conflictStore = new ConflictStore();
@@ -0,0 +1,98 @@
+import type { Event, EventOverride } from '@/types/calendar';
+
+export const EVENT_OVERRIDES_KEY = 'family_calendar_event_overrides';
+
+export type EventOverrideChanges = Partial<Pick<EventOverride, 'hidden' | 'note' | 'pinned'>>;
+
+const isEmptyOverride = (override: EventOverride) => !override.hidden && !override.pinned && !override.note;
+
+/**
+ * Hide, annotate and pin overrides for individual occurrences, persisted in localStorage.
+ * Overrides that no longer change anything are dropped rather than stored.
+ */
+export class EventOverrideStore {
+  private overrides: Record<string, EventOverride> = {};
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.load();
+  }
+
+  getAll(): Record<string, EventOverride> {
+    return this.overrides;
+  }
+
+  get(eventId: Event['id']): EventOverride | undefined {
+    return this.overrides[String(eventId)];
+  }
+
+  /** Apply changes to an occurrence's override, creating it if needed */
+  update(event: Pick<Event, 'id' | 'title' | 'date'>, changes: EventOverrideChanges): void {
+    const id = String(event.id);
+    const note = changes.note !== undefined ? changes.note.trim() || undefined : undefined;
+    const next: EventOverride = {
+      ...this.overrides[id],
+      ...changes,
+      ...(changes.note !== undefined ? { note } : {}),
+      title: event.title,
+      date: new Date(event.date).toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+    const updated = { ...this.overrides };
+    if (isEmptyOverride(next)) delete updated[id];
+    else updated[id] = next;
+    this.overrides = updated;
+    this.save();
+  }
+
+  remove(eventId: Event['id']): void {
+    if (!this.overrides[String(eventId)]) return;
+    const updated = { ...this.overrides };
+    delete updated[String(eventId)];
+    this.overrides = updated;
+    this.save();
+  }
+
+  /** Replace every override, e.g. from a backup; malformed entries are skipped */
+  replaceAll(overrides: unknown): void {
+    this.overrides = this.sanitize(overrides);
+    this.save();
+  }
+
+  /** Notifies `listener` whenever overrides change */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private sanitize(value: unknown): Record<string, EventOverride> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+    return Object.fromEntries(
+      Object.entries(value as Record<string, EventOverride>).filter(([, override]) =>
+        override && typeof override === 'object' && typeof override.title === 'string' && !isEmptyOverride(override)
+      )
+    );
+  }
+
+  private load(): void {
+    try {
+      const stored = localStorage.getItem(EVENT_OVERRIDES_KEY);
+      this.overrides = stored ? this.sanitize(JSON.parse(stored)) : {};
+    } catch (error) {
+      console.warn('Failed to load event overrides:', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(EVENT_OVERRIDES_KEY, JSON.stringify(this.overrides));
+    } catch (error) {
+      console.warn('Failed to save event overrides:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const eventOverrideStore = new EventOverrideStore();
@@ -0,0 +1,323 @@
+/**
+ * CORS Proxy Registry
+ *
+ * Single list of the public CORS proxies used to reach iCal feeds, Google Photos
+ * albums and Notion pages, plus any self-hosted proxies added in settings.
+ * Tracks success rate and latency per proxy, tries the healthiest first and
+ * puts proxies that keep failing into a cooldown.
+ */
+
+export interface ProxyDefinition {
+  id: string;
+  label: string;
+  /**
+   * Proxy URL with `{url}` (encoded target) or `{rawUrl}` (target as-is). Templates
+   * without a placeholder get the encoded target appended as a `url` query param.
+   */
+  template: string;
+  /** Added by the user (or build config) rather than shipped with the app */
+  custom?: boolean;
+}
+
+export interface ProxyHealth {
+  successCount: number;
+  failureCount: number;
+  consecutiveFailures: number;
+  /** Moving average of successful response times */
+  avgLatencyMs: number | null;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  lastError?: string;
+  cooldownUntil?: number;
+}
+
+export interface ProxyStatus extends ProxyDefinition {
+  health: ProxyHealth;
+  /** Share of successful requests, or null when the proxy hasn't been used yet */
+  successRate: number | null;
+  inCooldown: boolean;
+}
+
+export interface ProxyFetchOptions<T> {
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  /**
+   * Turns a proxy response into a result; return null when it isn't usable so the next
+   * proxy is tried. Only 5xx responses count against the proxy: 4xx and rejected content
+   * usually come from the target, which every proxy would relay alike.
+   */
+  read: (response: Response, proxy: ProxyDefinition) => Promise<T | null>;
+}
+
+interface ProxyRegistryOptions {
+  proxies?: ProxyDefinition[];
+  now?: () => number;
+}
+
+export const BUILT_IN_PROXIES: ProxyDefinition[] = [
+  { id: 'codetabs', label: 'codetabs.com', template: 'https://api.codetabs.com/v1/proxy?quest={url}' },
+  { id: 'allorigins', label: 'allorigins.win', template: 'https://api.allorigins.win/raw?url={url}' },
+  { id: 'corsproxy-io', label: 'corsproxy.io', template: 'https://corsproxy.io/?{url}' },
+  { id: 'thingproxy', label: 'thingproxy.freeboard.io', template: 'https://thingproxy.freeboard.io/fetch/{rawUrl}' },
+  { id: 'cors-anywhere', label: 'cors-anywhere.herokuapp.com', template: 'https://cors-anywhere.herokuapp.com/{rawUrl}' }
+];
+
+const CUSTOM_PROXIES_KEY = 'family_calendar_custom_proxies';
+const PROXY_HEALTH_KEY = 'family_calendar_proxy_health';
+
+// Consecutive failures before a proxy is skipped, and for how long
+const FAILURE_THRESHOLD = 3;
+const COOLDOWN_MS = 5 * 60 * 1000;
+const DEFAULT_TIMEOUT_MS = 15000;
+// Weight of the newest sample in the latency average
+const LATENCY_SMOOTHING = 0.3;
+
+// Optional proxy (e.g. Supabase Edge Function or self-hosted) configured via Vite env
+interface ViteEnvLike { VITE_ICAL_PROXY_URL?: string }
+const ENV_PROXY_TEMPLATE = (typeof import.meta !== 'undefined' ? (import.meta as unknown as { env?: ViteEnvLike }).env?.VITE_ICAL_PROXY_URL : '') || '';
+
+const emptyHealth = (): ProxyHealth => ({
+  successCount: 0,
+  failureCount: 0,
+  consecutiveFailures: 0,
+  avgLatencyMs: null
+});
+
+/** Checks that a template is an http(s) URL once a target is filled in */
+export const validateProxyTemplate = (template: string): { valid: boolean; reason?: string } => {
+  const trimmed = template.trim();
+  if (!trimmed) return { valid: false, reason: 'Proxy URL is required' };
+  try {
+    const sample = new URL(buildProxyUrl(trimmed, 'https://example.com/calendar.ics'));
+    if (sample.protocol !== 'https:' && sample.protocol !== 'http:') {
+      return { valid: false, reason: 'Proxy URL must use http or https' };
+    }
+    return { valid: true };
+  } catch {
+    return { valid: false, reason: 'Proxy URL is not a valid URL' };
+  }
+};
+
+/** Fills the target URL into a proxy template */
+export const buildProxyUrl = (template: string, targetUrl: string): string => {
+  if (template.includes('{url}')) return template.replace('{url}', encodeURIComponent(targetUrl));
+  if (template.includes('{rawUrl}')) return template.replace('{rawUrl}', targetUrl);
+  return `${template}${template.includes('?') ? '&' : '?'}url=${encodeURIComponent(targetUrl)}`;
+};
+
+export class ProxyRegistry {
+  private builtIns: ProxyDefinition[];
+  private configuredProxies: ProxyDefinition[];
+  private customProxies: ProxyDefinition[] = [];
+  private health = new Map<string, ProxyHealth>();
+  private listeners = new Set<() => void>();
+  private now: () => number;
+
+  constructor(options: ProxyRegistryOptions = {}) {
+    this.builtIns = options.proxies ?? BUILT_IN_PROXIES;
+    this.configuredProxies = ENV_PROXY_TEMPLATE && !options.proxies
+      ? [{ id: 'env', label: 'Configured proxy', template: ENV_PROXY_TEMPLATE, custom: true }]
+      : [];
+    this.now = options.now ?? (() => Date.now());
+    this.load();
+  }
+
+  /** All proxies: build-config and user proxies first, then the built-in list */
+  getProxies(): ProxyDefinition[] {
+    return [...this.configuredProxies, ...this.customProxies, ...this.builtIns];
+  }
+
+  /**
+   * Proxies to try, healthiest first: by success rate (untried proxies count as 50%),
+   * then by latency. Proxies in cooldown are left out.
+   */
+  getOrderedProxies(): ProxyDefinition[] {
+    const rate = (status: ProxyStatus) => status.successRate ?? 0.5;
+    return this.getStatuses()
+      .filter(status => !status.inCooldown)
+      .map((status, index) => ({ status, index }))
+      .sort((a, b) =>
+        rate(b.status) - rate(a.status) ||
+        (a.status.health.avgLatencyMs ?? Infinity) - (b.status.health.avgLatencyMs ?? Infinity) ||
+        a.index - b.index
+      )
+      .map(({ status }) => this.toDefinition(status));
+  }
+
+  getStatuses(): ProxyStatus[] {
+    const now = this.now();
+    return this.getProxies().map(proxy => {
+      const health = { ...this.getHealth(proxy.id) };
+      const attempts = health.successCount + health.failureCount;
+      return {
+        ...proxy,
+        health,
+        successRate: attempts > 0 ? health.successCount / attempts : null,
+        inCooldown: !!health.cooldownUntil && health.cooldownUntil > now
+      };
+    });
+  }
+
+  recordSuccess(proxyId: string, latencyMs: number): void {
+    const health = this.getHealth(proxyId);
+    health.successCount++;
+    health.consecutiveFailures = 0;
+    health.cooldownUntil = undefined;
+    health.lastSuccessAt = this.now();
+    health.avgLatencyMs = health.avgLatencyMs === null
+      ? latencyMs
+      : Math.round(health.avgLatencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING);
+    this.saveHealth();
+  }
+
+  recordFailure(proxyId: string, error?: unknown): void {
+    const health = this.getHealth(proxyId);
+    health.failureCount++;
+    health.consecutiveFailures++;
+    health.lastFailureAt = this.now();
+    health.lastError = error instanceof Error ? error.message : error ? String(error) : undefined;
+    if (health.consecutiveFailures >= FAILURE_THRESHOLD) {
+      health.cooldownUntil = this.now() + COOLDOWN_MS;
+    }
+    this.saveHealth();
+  }
+
+  /**
+   * Fetches `targetUrl` through each available proxy in health order until `read`
+   * accepts a response. Network errors, timeouts and 5xx responses mark a proxy as
+   * failing. Throws when no proxy delivers, with the target's own error if one answered,
+   * or when all are cooling down.
+   */
+  async fetchThroughProxies<T>(targetUrl: string, options: ProxyFetchOptions<T>): Promise<T> {
+    const proxies = this.getOrderedProxies();
+    if (proxies.length === 0) {
+      throw new Error('All CORS proxies are cooling down after repeated failures. Please try again in a few minutes.');
+    }
+
+    let lastError: unknown;
+    let upstreamError: Error | undefined;
+    for (const proxy of proxies) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+      const startedAt = this.now();
+      try {
+        const response = await fetch(buildProxyUrl(proxy.template, targetUrl), {
+          headers: options.headers,
+          signal: controller.signal
+        });
+        const result = await options.read(response, proxy);
+        if (result !== null) {
+          this.recordSuccess(proxy.id, this.now() - startedAt);
+          return result;
+        }
+        if (response.status >= 500) {
+          lastError = new Error(`HTTP ${response.status}`);
+          this.recordFailure(proxy.id, lastError);
+        } else {
+          // The proxy got through; a dead or bad target isn't the proxy's fault
+          upstreamError = new Error(response.ok ? 'Unusable response' : `Target responded with HTTP ${response.status}`);
+        }
+      } catch (error) {
+        lastError = error;
+        this.recordFailure(proxy.id, controller.signal.aborted ? new Error('Timed out') : error);
+        console.warn(`Proxy ${proxy.label} failed`);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    if (upstreamError) throw upstreamError;
+    throw new Error(`All CORS proxies failed. Last error: ${lastError instanceof Error ? lastError.message : 'Unknown error'}`);
+  }
+
+  addCustomProxy(label: string, template: string): ProxyDefinition {
+    const { valid, reason } = validateProxyTemplate(template);
+    if (!valid) throw new Error(reason);
+    const proxy: ProxyDefinition = {
+      id: `custom_${this.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`,
+      label: label.trim() || new URL(buildProxyUrl(template.trim(), 'https://example.com')).host,
+      template: template.trim(),
+      custom: true
+    };
+    this.customProxies = [...this.customProxies, proxy];
+    this.saveCustomProxies();
+    return proxy;
+  }
+
+  removeCustomProxy(proxyId: string): void {
+    this.customProxies = this.customProxies.filter(proxy => proxy.id !== proxyId);
+    this.health.delete(proxyId);
+    this.saveCustomProxies();
+    this.saveHealth();
+  }
+
+  /** Forget collected stats, e.g. after the network situation changed */
+  resetHealth(): void {
+    this.health.clear();
+    this.saveHealth();
+  }
+
+  /** Notifies `listener` whenever proxies or their health change */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private getHealth(proxyId: string): ProxyHealth {
+    let health = this.health.get(proxyId);
+    if (!health) {
+      health = emptyHealth();
+      this.health.set(proxyId, health);
+    }
+    return health;
+  }
+
+  private toDefinition({ id, label, template, custom }: ProxyStatus): ProxyDefinition {
+    return custom ? { id, label, template, custom } : { id, label, template };
+  }
+
+  private load(): void {
+    try {
+      const storedProxies = localStorage.getItem(CUSTOM_PROXIES_KEY);
+      if (storedProxies) {
+        const parsed = JSON.parse(storedProxies) as ProxyDefinition[];
+        this.customProxies = Array.isArray(parsed)
+          ? parsed.filter(p => p && typeof p.id === 'string' && typeof p.template === 'string').map(p => ({ ...p, custom: true }))
+          : [];
+      }
+      const storedHealth = localStorage.getItem(PROXY_HEALTH_KEY);
+      if (storedHealth) {
+        const parsed = JSON.parse(storedHealth) as Record<string, ProxyHealth>;
+        Object.entries(parsed).forEach(([id, health]) => this.health.set(id, { ...emptyHealth(), ...health }));
+      }
+    } catch (error) {
+      console.warn('Failed to load proxy settings:', error);
+    }
+  }
+
+  private saveCustomProxies(): void {
+    try {
+      localStorage.setItem(CUSTOM_PROXIES_KEY, JSON.stringify(this.customProxies));
+    } catch (error) {
+      console.warn('Failed to save custom proxies:', error);
+    }
+    this.notify();
+  }
+
+  private saveHealth(): void {
+    try {
+      localStorage.setItem(PROXY_HEALTH_KEY, JSON.stringify(Object.fromEntries(this.health)));
+    } catch (error) {
+      console.warn('Failed to save proxy health:', error);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const proxyRegistry = new ProxyRegistry();
@@ -0,0 +1,221 @@
+import type { Event, EventReminder } from '@/types/calendar';
+import type { ScheduledReminder } from '@/utils/reminders';
+
+export const REMINDERS_DB_NAME = 'FamilyRemindersDB';
+const DB_VERSION = 1;
+const REMINDERS_STORE = 'reminders';
+const DEFAULTS_STORE = 'calendar_defaults';
+// Upcoming reminders and whether they fired; public/sw.js reads and updates this store too
+export const SCHEDULE_STORE = 'schedule';
+
+// Added reminders are dropped once their event is this far in the past
+const PRUNE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+interface ScheduleEntry extends ScheduledReminder {
+  firedAt?: number;
+}
+
+interface CalendarDefaultEntry {
+  calendarId: string;
+  minutesBefore: number;
+}
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * Reminders added to occurrences, per-calendar default leads and which reminders already
+ * fired, persisted in IndexedDB so they survive reloads. Without IndexedDB everything is
+ * kept in memory for the session.
+ */
+export class ReminderStore {
+  private reminders: EventReminder[] = [];
+  private calendarDefaults: Record<string, number> = {};
+  private firedIds = new Set<string>();
+  private listeners = new Set<() => void>();
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  /** Resolves once stored reminders are loaded */
+  readonly ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.load();
+  }
+
+  getReminders(): EventReminder[] {
+    return this.reminders;
+  }
+
+  getCalendarDefaults(): Record<string, number> {
+    return this.calendarDefaults;
+  }
+
+  isFired(id: string): boolean {
+    return this.firedIds.has(id);
+  }
+
+  async addReminder(event: Pick<Event, 'id' | 'title' | 'start'>, minutesBefore: number): Promise<void> {
+    const eventId = String(event.id);
+    if (this.reminders.some(reminder => reminder.eventId === eventId && reminder.minutesBefore === minutesBefore)) return;
+    const reminder: EventReminder = {
+      id: `reminder_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`,
+      eventId,
+      title: event.title,
+      start: new Date(event.start).toISOString(),
+      minutesBefore,
+      createdAt: new Date().toISOString()
+    };
+    this.reminders = [...this.reminders, reminder];
+    this.notify();
+    await this.write(REMINDERS_STORE, store => store.put(reminder));
+  }
+
+  async removeReminder(id: string): Promise<void> {
+    this.reminders = this.reminders.filter(reminder => reminder.id !== id);
+    this.notify();
+    await this.write(REMINDERS_STORE, store => store.delete(id));
+  }
+
+  /** Sets the lead for every event of a calendar whose source has no alarms; undefined clears it */
+  async setCalendarDefault(calendarId: string, minutesBefore?: number): Promise<void> {
+    const updated = { ...this.calendarDefaults };
+    if (minutesBefore === undefined) delete updated[calendarId];
+    else updated[calendarId] = minutesBefore;
+    this.calendarDefaults = updated;
+    this.notify();
+    await this.write(DEFAULTS_STORE, store => {
+      const entry: CalendarDefaultEntry | undefined = minutesBefore === undefined ? undefined : { calendarId, minutesBefore };
+      if (entry) store.put(entry);
+      else store.delete(calendarId);
+    });
+  }
+
+  /** Records reminders as fired, by the page or by the service worker, so they never fire twice */
+  async markFired(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    ids.forEach(id => this.firedIds.add(id));
+    const firedAt = Date.now();
+    await this.write(SCHEDULE_STORE, store => {
+      ids.forEach(id => {
+        const request = store.get(id);
+        request.onsuccess = () => {
+          if (request.result) store.put({ ...request.result, firedAt });
+        };
+      });
+    });
+  }
+
+  /**
+   * Replaces the schedule the service worker fires from while the page is in the background,
+   * keeping the fired state of reminders still on it and picking up ones the worker fired.
+   */
+  async syncSchedule(upcoming: ScheduledReminder[]): Promise<void> {
+    const db = await this.openDB();
+    if (!db) return;
+    try {
+      const transaction = db.transaction(SCHEDULE_STORE, 'readwrite');
+      const store = transaction.objectStore(SCHEDULE_STORE);
+      const existing = await requestResult(store.getAll() as IDBRequest<ScheduleEntry[]>);
+      const fired = new Map(existing.filter(entry => entry.firedAt).map(entry => [entry.id, entry.firedAt]));
+      fired.forEach((_, id) => this.firedIds.add(id));
+      store.clear();
+      upcoming.forEach(reminder => {
+        const firedAt = fired.get(reminder.id);
+        store.put(firedAt ? { ...reminder, firedAt } : reminder);
+      });
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn('Failed to update the reminder schedule:', error);
+    }
+  }
+
+  /** Notifies `listener` whenever reminders or calendar defaults change */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private openDB(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(REMINDERS_DB_NAME, DB_VERSION);
+        request.onerror = () => {
+          console.warn('Failed to open reminder storage:', request.error);
+          resolve(null);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(REMINDERS_STORE)) {
+            db.createObjectStore(REMINDERS_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(DEFAULTS_STORE)) {
+            db.createObjectStore(DEFAULTS_STORE, { keyPath: 'calendarId' });
+          }
+          if (!db.objectStoreNames.contains(SCHEDULE_STORE)) {
+            db.createObjectStore(SCHEDULE_STORE, { keyPath: 'id' });
+          }
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async write(storeName: string, change: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.openDB();
+    if (!db) return;
+    try {
+      const transaction = db.transaction(storeName, 'readwrite');
+      change(transaction.objectStore(storeName));
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn('Failed to save reminders:', error);
+    }
+  }
+
+  private async load(): Promise<void> {
+    const db = await this.openDB();
+    if (!db) return;
+    try {
+      const transaction = db.transaction([REMINDERS_STORE, DEFAULTS_STORE, SCHEDULE_STORE], 'readonly');
+      const [reminders, defaults, schedule] = await Promise.all([
+        requestResult(transaction.objectStore(REMINDERS_STORE).getAll() as IDBRequest<EventReminder[]>),
+        requestResult(transaction.objectStore(DEFAULTS_STORE).getAll() as IDBRequest<CalendarDefaultEntry[]>),
+        requestResult(transaction.objectStore(SCHEDULE_STORE).getAll() as IDBRequest<ScheduleEntry[]>)
+      ]);
+      const cutoff = Date.now() - PRUNE_AFTER_MS;
+      const isExpired = (reminder: EventReminder) => new Date(reminder.start).getTime() < cutoff;
+      const expired = reminders.filter(isExpired);
+      this.reminders = reminders.filter(reminder => !isExpired(reminder));
+      this.calendarDefaults = Object.fromEntries(defaults.map(entry => [entry.calendarId, entry.minutesBefore]));
+      schedule.filter(entry => entry.firedAt).forEach(entry => this.firedIds.add(entry.id));
+      this.notify();
+      if (expired.length > 0) {
+        await this.write(REMINDERS_STORE, store => expired.forEach(reminder => store.delete(reminder.id)));
+      }
+    } catch (error) {
+      console.warn('Failed to load reminders:', error);
+    }
+  }
+}
+
+export const reminderStore = new ReminderStore();
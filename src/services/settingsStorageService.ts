@@ -8,6 +8,7 @@
  */
 
 import { secureStorage } from '@/utils/security/secureStorage';
+import type { ViewMode } from '@/types/calendar';
 
 interface SettingsItem {
   key: string;
@@ -18,7 +19,7 @@ interface SettingsItem {
 
 interface LoadedSettings {
   theme?: 'light' | 'dark' | 'system' | null;
-  defaultView?: 'month' | 'week' | 'timeline' | null;
+  defaultView?: ViewMode | null;
   backgroundDuration?: string | null;
   selectedAlbum?: string | null;
   coordinates?: string | null;
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getDescriptionSegments, getEventLink, getEventStatusClasses, hasEventPassed } from '@/components/event/eventUtils';
+import { getBrowserTimeZone, HOUSEHOLD_TIME_ZONE_KEY } from '@/utils/timeZoneUtils';
+import { createMockEvent } from '../utils/testUtils';
+
+describe('event links', () => {
+  it('finds a meeting link in the description and trims trailing punctuation', () => {
+    const link = getEventLink({
+      location: 'Room 12',
+      description: 'Join from home: https://meet.google.com/abc-defg-hij).'
+    });
+    expect(link).toEqual({ href: 'https://meet.google.com/abc-defg-hij', isMeeting: true });
+  });
+
+  it('falls back to the event URL when there is no meeting link', () => {
+    expect(getEventLink({ url: 'https://school.example.com/events/42', location: '', description: '' }))
+      .toEqual({ href: 'https://school.example.com/events/42', isMeeting: false });
+    expect(getEventLink({ location: 'Gym', description: 'Bring shoes' })).toBeNull();
+  });
+
+  it('styles cancelled and tentative events', () => {
+    expect(getEventStatusClasses({ status: 'cancelled' }).title).toContain('line-through');
+    expect(getEventStatusClasses({ status: 'tentative' }).container).toContain('border-dashed');
+    expect(getEventStatusClasses({ status: 'confirmed' })).toEqual({ title: '', container: '' });
+  });
+
+  it('turns HTML descriptions into text with only web links', () => {
+    const segments = getDescriptionSegments(
+      'Pick-up at 3&amp;4.<br><a href="https://school.example.com/trip">Trip info</a> or <a href="javascript:alert(1)">this</a>. See https://example.com/faq.'
+    );
+    expect(segments).toEqual([
+      { text: 'Pick-up at 3&4.\nTrip info (' },
+      { text: 'https://school.example.com/trip', href: 'https://school.example.com/trip' },
+      { text: ') or this. See ' },
+      { text: 'https://example.com/faq', href: 'https://example.com/faq' },
+      { text: '.' }
+    ]);
+  });
+
+  describe('hasEventPassed', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+      localStorage.removeItem(HOUSEHOLD_TIME_ZONE_KEY);
+    });
+
+    it('compares feed events with the household clock and Notion events with the device clock', () => {
+      // Noon on the device is still early morning in Honolulu, and evening in Tokyo
+      const household = getBrowserTimeZone().startsWith('Pacific/') ? 'Asia/Tokyo' : 'Pacific/Honolulu';
+      localStorage.setItem(HOUSEHOLD_TIME_ZONE_KEY, household);
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(2025, 6, 1, 12));
+
+      const morning = { start: new Date(2025, 6, 1, 9), end: new Date(2025, 6, 1, 10) };
+      expect(hasEventPassed(createMockEvent({ ...morning, source: 'ical' }), 'timeline')).toBe(household === 'Asia/Tokyo');
+      expect(hasEventPassed(createMockEvent({ ...morning, source: 'notion' }), 'timeline')).toBe(true);
+    });
+  });
+});
@@ -4,7 +4,7 @@ import TimelineView from '@/components/TimelineView';
 import WeekView from '@/components/WeekView';
 import MonthView from '@/components/MonthView';
 import { Event } from '@/types/calendar';
-import { compareTimeStrings } from '@/utils/timeUtils';
+import { compareEventsByTime } from '@/utils/timeUtils';
 import { mockSecurityModule, resetSecurityMocks } from '../utils/securityMocks';
 
 // Apply direct module mock at the top level
@@ -19,7 +19,8 @@ const createTestEvents = (): Event[] => [
   {
     id: 1,
     title: 'Early Morning Meeting',
-    time: '8:00 AM',
+    start: new Date(2024, 0, 15, 8, 0),
+    allDay: false,
     date: new Date('2024-01-15'),
     category: 'Work',
     color: '#3b82f6',
@@ -31,7 +32,8 @@ const createTestEvents = (): Event[] => [
   {
     id: 2,
     title: 'All Day Conference',
-    time: 'All day',
+    start: new Date(2024, 0, 15),
+    allDay: true,
     date: new Date('2024-01-15'),
     category: 'Work',
     color: '#ef4444',
@@ -43,7 +45,9 @@ const createTestEvents = (): Event[] => [
   {
     id: 3,
     title: 'Lunch Meeting',
-    time: '12:30 PM - 1:30 PM',
+    start: new Date(2024, 0, 15, 12, 30),
+    end: new Date(2024, 0, 15, 13, 30),
+    allDay: false,
     date: new Date('2024-01-15'),
     category: 'Work',
     color: '#10b981',
@@ -55,7 +59,8 @@ const createTestEvents = (): Event[] => [
   {
     id: 4,
     title: 'Another All Day Event',
-    time: 'All day',
+    start: new Date(2024, 0, 15),
+    allDay: true,
     date: new Date('2024-01-15'),
     category: 'Personal',
     color: '#f59e0b',
@@ -67,7 +72,8 @@ const createTestEvents = (): Event[] => [
   {
     id: 5,
     title: 'Late Evening Call',
-    time: '9:00 PM',
+    start: new Date(2024, 0, 15, 21, 0),
+    allDay: false,
     date: new Date('2024-01-15'),
     category: 'Work',
     color: '#8b5cf6',
@@ -79,7 +85,9 @@ const createTestEvents = (): Event[] => [
   {
     id: 6,
     title: 'Morning Workout',
-    time: '6:30 AM - 7:30 AM',
+    start: new Date(2024, 0, 15, 6, 30),
+    end: new Date(2024, 0, 15, 7, 30),
+    allDay: false,
     date: new Date('2024-01-15'),
     category: 'Personal',
     color: '#06b6d4',
@@ -91,7 +99,8 @@ const createTestEvents = (): Event[] => [
   {
     id: 7,
     title: 'Afternoon Presentation',
-    time: '2:00 PM',
+    start: new Date(2024, 0, 15, 14, 0),
+    allDay: false,
     date: new Date('2024-01-15'),
     category: 'Work',
     color: '#ec4899',
@@ -237,12 +246,8 @@ describe('Event Sorting', () => {
       );
 
       // Separate all-day and timed events
-      const allDayEvents = dayEvents.filter(event => 
-        event.time === 'All day' || event.time.toLowerCase().includes('all day')
-      );
-      const timedEvents = dayEvents.filter(event => 
-        !(event.time === 'All day' || event.time.toLowerCase().includes('all day'))
-      );
+      const allDayEvents = dayEvents.filter(event => event.allDay);
+      const timedEvents = dayEvents.filter(event => !event.allDay);
 
       expect(allDayEvents.length).toBe(2);
       expect(timedEvents.length).toBe(5);
@@ -257,9 +262,7 @@ describe('Event Sorting', () => {
       const events = createTestEvents();
       
       // Get timed events only
-      const timedEvents = events.filter(event => 
-        !(event.time === 'All day' || event.time.toLowerCase().includes('all day'))
-      );
+      const timedEvents = events.filter(event => !event.allDay);
 
       // Expected chronological order based on start times:
       // 6:30 AM (Morning Workout), 8:00 AM (Early Morning Meeting), 
@@ -273,9 +276,7 @@ describe('Event Sorting', () => {
       ];
 
       // Sort using the same logic as the components
-      timedEvents.sort((a, b) => {
-        return compareTimeStrings(a.time, b.time);
-      });
+      timedEvents.sort(compareEventsByTime);
 
       const sortedTitles = timedEvents.map(event => event.title);
       expect(sortedTitles).toEqual(expectedOrder);
@@ -285,17 +286,7 @@ describe('Event Sorting', () => {
       // Test with empty events array
       const emptyEvents: Event[] = [];
       expect(() => {
-        emptyEvents.sort((a, b) => compareTimeStrings(a.time, b.time));
-      }).not.toThrow();
-
-      // Test with invalid time strings
-      expect(() => {
-        compareTimeStrings('invalid', 'also invalid');
-      }).not.toThrow();
-
-      // Test with empty time strings
-      expect(() => {
-        compareTimeStrings('', '');
+        emptyEvents.sort(compareEventsByTime);
       }).not.toThrow();
     });
   });
@@ -28,16 +28,10 @@ vi.mock('@/hooks/useICalCalendars', () => ({
         color: '#3B82F6',
         enabled: true,
         url: 'https://example.com/calendar.ics',
-        lastSync: new Date().toISOString()
+        lastSync: new Date().toISOString(),
+        eventCount: 1
       }
     ],
-    getICalEvents: vi.fn(() => [
-      {
-        id: 1,
-        title: 'Test Event',
-        calendarId: 'ical-calendar-1'
-      }
-    ]),
     isLoading: false,
   })),
 }));
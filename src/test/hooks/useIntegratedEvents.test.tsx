@@ -3,6 +3,7 @@ import { renderHook } from '@testing-library/react';
 import { useIntegratedEvents } from '@/hooks/useIntegratedEvents';
 import { mockSecurityModule, resetSecurityMocks } from '../utils/securityMocks';
 import { Event } from '@/types/calendar';
+import { eventOverrideStore } from '@/services/eventOverrideStore';
 
 // Apply security mock
 mockSecurityModule();
@@ -12,7 +13,8 @@ const mockFilteredEvents: Event[] = [
   {
     id: 1,
     title: 'Filtered Event',
-    time: '10:00 AM',
+    start: new Date(),
+    allDay: false,
     date: new Date(),
     category: 'Work',
     color: '#3b82f6',
@@ -25,9 +27,16 @@ const mockFilteredEvents: Event[] = [
   }
 ];
 
+// Events of calendars that are enabled but not selected for viewing
+const mockHiddenCalendarEvents: Event[] = [
+  { ...mockFilteredEvents[0], id: 'swim', title: 'Swim', calendarId: 'deselected-calendar' },
+  { ...mockFilteredEvents[0], id: 'standup', title: 'Standup', calendarId: 'deselected-calendar' }
+];
+
 vi.mock('@/hooks/useEventFiltering', () => ({
   useEventFiltering: vi.fn(() => ({
     filteredEvents: mockFilteredEvents,
+    unfilteredEvents: [...mockFilteredEvents, ...mockHiddenCalendarEvents],
     hasGoogleEvents: true,
     hasNotionEvents: false,
     hasScrapedEvents: true,
@@ -60,7 +69,7 @@ vi.mock('@/hooks/useCalendarSelection', () => ({
 vi.mock('@/hooks/useICalCalendars', () => ({
   useICalCalendars: vi.fn(() => ({
     calendars: [],
-    getICalEvents: vi.fn(() => []),
+    getICalEvents: vi.fn(() => Promise.resolve([])),
     isLoading: false,
   })),
 }));
@@ -76,7 +85,8 @@ describe('useIntegratedEvents', () => {
       {
         id: 1,
         title: 'Google Event',
-        time: '10:00 AM',
+        start: new Date(),
+        allDay: false,
         date: new Date(),
         category: 'Work',
         color: '#3b82f6',
@@ -113,7 +123,8 @@ describe('useIntegratedEvents', () => {
       {
         id: 1,
         title: 'Google Event',
-        time: '10:00 AM',
+        start: new Date(),
+        allDay: false,
         date: new Date(),
         category: 'Work',
         color: '#3b82f6',
@@ -139,6 +150,15 @@ describe('useIntegratedEvents', () => {
     });
   });
 
+  it('should give reminders every enabled event except occurrences the household hid', () => {
+    eventOverrideStore.update(mockHiddenCalendarEvents[1], { hidden: true });
+    const { result, unmount } = renderHook(() => useIntegratedEvents([]));
+
+    expect(result.current.reminderEvents.map(event => event.id)).toEqual([1, 'swim']);
+    unmount();
+    eventOverrideStore.remove('standup');
+  });
+
   it('should return selected calendar IDs', () => {
     const { result } = renderHook(() => useIntegratedEvents([]));
 
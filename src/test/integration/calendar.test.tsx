@@ -76,7 +76,8 @@ vi.mock('@/hooks/useLocalEvents', () => ({
         id: 1,
         title: 'Test Event',
         date: new Date(),
-        time: '10:00 AM',
+        start: new Date(),
+        allDay: false,
         location: 'Test Location',
         description: 'Test Description',
         attendees: 1,
@@ -105,7 +106,7 @@ vi.mock('@/hooks/useICalCalendars', () => ({
         lastSync: new Date().toISOString()
       }
     ],
-    getICalEvents: vi.fn(() => []),
+    getICalEvents: vi.fn(() => Promise.resolve([])),
     isLoading: false,
     syncStatus: {},
     addCalendar: vi.fn(),
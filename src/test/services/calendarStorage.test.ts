@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { calendarStorageService } from '@/services/calendarStorage';
+import type { ICalEventOccurrence } from '@/hooks/useICalCalendars';
+
+const occurrence = (id: string, calendarId: string, start: Date, end?: Date, allDay = false): ICalEventOccurrence => ({
+  id,
+  title: id,
+  start,
+  end,
+  allDay,
+  isRecurring: false,
+  isMultiDay: allDay && !!end && end.getTime() - start.getTime() > 24 * 60 * 60 * 1000,
+  location: '',
+  attendees: 0,
+  category: 'Personal',
+  color: '#000',
+  description: '',
+  organizer: 'Cal',
+  date: start,
+  calendarId,
+  calendarName: 'Cal',
+  source: 'ical'
+});
+
+describe('calendarStorageService occurrences', () => {
+  beforeEach(async () => {
+    await calendarStorageService.clearOccurrences();
+  });
+
+  it('replaces only the occurrences of the synced calendar', async () => {
+    await calendarStorageService.replaceOccurrences('school', [
+      occurrence('pickup', 'school', new Date(2025, 8, 1, 15)),
+      occurrence('assembly', 'school', new Date(2025, 8, 2, 9))
+    ]);
+    await calendarStorageService.replaceOccurrences('sports', [occurrence('swim', 'sports', new Date(2025, 8, 1, 17))]);
+    await calendarStorageService.replaceOccurrences('school', [occurrence('pickup', 'school', new Date(2025, 8, 1, 15, 30))]);
+
+    const school = await calendarStorageService.getOccurrences('school');
+    expect(school.map(o => o.id)).toEqual(['pickup']);
+    expect(school[0].start).toEqual(new Date(2025, 8, 1, 15, 30));
+    expect((await calendarStorageService.getOccurrences()).map(o => o.id).sort()).toEqual(['pickup', 'swim']);
+  });
+
+  it('returns occurrences on days in the range, including spans that began earlier', async () => {
+    await calendarStorageService.replaceOccurrences('family', [
+      occurrence('before', 'family', new Date(2025, 8, 30, 10)),
+      occurrence('inside', 'family', new Date(2025, 9, 3, 10)),
+      occurrence('after', 'family', new Date(2025, 9, 8, 10)),
+      occurrence('vacation', 'family', new Date(2025, 8, 28), new Date(2025, 9, 6), true)
+    ]);
+
+    const week = await calendarStorageService.getOccurrencesInRange(new Date(2025, 9, 1), new Date(2025, 9, 8));
+    expect(week.map(o => o.id).sort()).toEqual(['inside', 'vacation']);
+    expect(week.find(o => o.id === 'vacation')).not.toHaveProperty('days');
+  });
+
+  it('keeps every instance of a UID on the same day', async () => {
+    const instance = (hour: number): ICalEventOccurrence => ({
+      ...occurrence('ical_same_day', 'school', new Date(2025, 8, 1, hour)),
+      uid: 'bell@school',
+      isRecurring: true,
+      recurrenceId: `2025-09-01T${String(hour).padStart(2, '0')}:00:00`
+    });
+    await calendarStorageService.replaceOccurrences('school', [instance(9), instance(10), instance(11)]);
+    // Same occurrence ID in another calendar
+    await calendarStorageService.replaceOccurrences('sports', [occurrence('ical_same_day', 'sports', new Date(2025, 8, 1, 9))]);
+
+    expect(await calendarStorageService.getOccurrences('school')).toHaveLength(3);
+    const day = await calendarStorageService.getOccurrencesInRange(new Date(2025, 8, 1), new Date(2025, 8, 2));
+    expect(day.map(o => `${o.calendarId} ${o.start.getHours()}`).sort()).toEqual(['school 10', 'school 11', 'school 9', 'sports 9']);
+  });
+
+  it('removes occurrences together with their calendar', async () => {
+    await calendarStorageService.addCalendar({ id: 'gone', name: 'Gone', url: 'https://example.com/a.ics', color: '#000', enabled: true });
+    await calendarStorageService.replaceOccurrences('gone', [occurrence('x', 'gone', new Date(2025, 0, 1, 8))]);
+    await calendarStorageService.deleteCalendar('gone');
+    expect(await calendarStorageService.getOccurrences('gone')).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { server } from '../mocks/server';
+import { ProxyRegistry, buildProxyUrl, validateProxyTemplate } from '@/services/proxyRegistry';
+
+const FEED_URL = 'https://calendar.example.com/family.ics';
+
+const proxies = [
+  { id: 'slow', label: 'Slow proxy', template: 'https://slow-proxy.test/?url={url}' },
+  { id: 'fast', label: 'Fast proxy', template: 'https://fast-proxy.test/fetch/{rawUrl}' }
+];
+
+const readText = async (response: Response) => (response.ok ? response.text() : null);
+
+describe('proxyRegistry', () => {
+  let now: number;
+  let registry: ProxyRegistry;
+
+  beforeEach(() => {
+    now = Date.UTC(2025, 0, 1);
+    registry = new ProxyRegistry({ proxies, now: () => now });
+  });
+
+  describe('buildProxyUrl', () => {
+    it('should fill encoded, raw and query-style templates', () => {
+      expect(buildProxyUrl('https://p.test/?quest={url}', FEED_URL)).toBe(`https://p.test/?quest=${encodeURIComponent(FEED_URL)}`);
+      expect(buildProxyUrl('https://p.test/fetch/{rawUrl}', FEED_URL)).toBe(`https://p.test/fetch/${FEED_URL}`);
+      expect(buildProxyUrl('https://p.test/ics?key=abc', FEED_URL)).toBe(`https://p.test/ics?key=abc&url=${encodeURIComponent(FEED_URL)}`);
+    });
+
+    it('should reject templates that are not http(s) URLs', () => {
+      expect(validateProxyTemplate('proxy.local/{url}').valid).toBe(false);
+      expect(validateProxyTemplate('ftp://proxy.local/{rawUrl}').valid).toBe(false);
+      expect(validateProxyTemplate('https://proxy.local/{url}').valid).toBe(true);
+    });
+  });
+
+  describe('fetchThroughProxies', () => {
+    it('should fall through to the next proxy and prefer the one that worked', async () => {
+      server.use(
+        http.get('https://slow-proxy.test/', () => new HttpResponse(null, { status: 502 })),
+        http.get('https://fast-proxy.test/fetch/*', () => HttpResponse.text('BEGIN:VCALENDAR'))
+      );
+
+      await expect(registry.fetchThroughProxies(FEED_URL, { read: readText })).resolves.toBe('BEGIN:VCALENDAR');
+
+      const [slow, fast] = registry.getStatuses();
+      expect(slow.health).toMatchObject({ failureCount: 1, lastError: 'HTTP 502' });
+      expect(fast.successRate).toBe(1);
+      expect(fast.health.avgLatencyMs).not.toBeNull();
+      expect(registry.getOrderedProxies().map(p => p.id)).toEqual(['fast', 'slow']);
+    });
+
+    it('should try the next proxy on rejected content without marking the proxy as failing', async () => {
+      server.use(
+        http.get('https://slow-proxy.test/', () => HttpResponse.text('Offline')),
+        http.get('https://fast-proxy.test/fetch/*', () => HttpResponse.text('BEGIN:VCALENDAR'))
+      );
+
+      const result = await registry.fetchThroughProxies(FEED_URL, {
+        read: async response => {
+          const text = await response.text();
+          return text.startsWith('BEGIN:VCALENDAR') ? text : null;
+        }
+      });
+
+      expect(result).toBe('BEGIN:VCALENDAR');
+      expect(registry.getStatuses()[0].health.failureCount).toBe(0);
+    });
+
+    it('should return target errors to the caller without cooling proxies down', async () => {
+      server.use(
+        http.get('https://slow-proxy.test/', () => new HttpResponse(null, { status: 404 })),
+        http.get('https://fast-proxy.test/fetch/*', () => new HttpResponse(null, { status: 404 }))
+      );
+
+      for (let i = 0; i < 3; i++) {
+        await expect(registry.fetchThroughProxies(FEED_URL, { read: readText })).rejects.toThrow('Target responded with HTTP 404');
+      }
+
+      expect(registry.getStatuses().every(status => status.health.failureCount === 0 && !status.inCooldown)).toBe(true);
+    });
+
+    it('should skip proxies in cooldown until the cooldown ends', async () => {
+      server.use(
+        http.get('https://slow-proxy.test/', () => HttpResponse.error()),
+        http.get('https://fast-proxy.test/fetch/*', () => HttpResponse.error())
+      );
+
+      for (let i = 0; i < 3; i++) {
+        await expect(registry.fetchThroughProxies(FEED_URL, { read: readText })).rejects.toThrow('All CORS proxies failed');
+      }
+
+      expect(registry.getStatuses().every(status => status.inCooldown)).toBe(true);
+      await expect(registry.fetchThroughProxies(FEED_URL, { read: readText })).rejects.toThrow('cooling down');
+
+      now += 6 * 60 * 1000;
+      expect(registry.getOrderedProxies()).toHaveLength(2);
+    });
+  });
+
+  describe('custom proxies', () => {
+    it('should persist user proxies and try them first while untested', () => {
+      const added = registry.addCustomProxy('Home server', 'https://home.example.net/cors?target={url}');
+      const reloaded = new ProxyRegistry({ proxies, now: () => now });
+
+      expect(reloaded.getProxies()[0]).toEqual(added);
+      expect(reloaded.getOrderedProxies()[0].id).toBe(added.id);
+
+      reloaded.removeCustomProxy(added.id);
+      expect(new ProxyRegistry({ proxies }).getProxies().map(p => p.id)).toEqual(['slow', 'fast']);
+    });
+
+    it('should refuse invalid templates', () => {
+      expect(() => registry.addCustomProxy('Broken', 'not a url')).toThrow('not a valid URL');
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { Event, FamilyMember, SharedResource } from '@/types/calendar';
+import { describeConflict, detectConflicts, getConflictsOnDay } from '@/utils/conflicts';
+import { createMockEvent } from './testUtils';
+
+const day = new Date(2025, 6, 1);
+
+const event = (id: string, start: [number, number], end: [number, number], extra: Partial<Event> = {}): Event => createMockEvent({
+  id,
+  title: id,
+  start: new Date(2025, 6, 1, ...start),
+  end: new Date(2025, 6, 1, ...end),
+  date: day,
+  category: 'Family',
+  calendarName: 'Family',
+  ...extra
+});
+
+const member = (id: string): FamilyMember => ({ id, name: id, color: '#ef4444', calendarIds: [], matchTitle: true, aliases: [] });
+
+const car: SharedResource = { id: 'car', name: 'Car', keywords: ['minivan'] };
+
+describe('conflict detection', () => {
+  const members = [member('ana'), member('ben')];
+
+  it('flags overlapping events of the same member only', () => {
+    const conflicts = detectConflicts([
+      event('Swim', [9, 0], [10, 0], { memberIds: ['ana'] }),
+      event('Piano', [9, 30], [10, 30], { memberIds: ['ana'] }),
+      event('Soccer', [9, 30], [10, 30], { memberIds: ['ben'] })
+    ], members, [], 0);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ kind: 'overlap', ownerId: 'ana', start: new Date(2025, 6, 1, 9, 30) });
+    expect(describeConflict(conflicts[0])).toBe('ana: Swim overlaps Piano');
+  });
+
+  it('flags back-to-back events at different locations within the travel buffer', () => {
+    const events = [
+      event('Dentist', [9, 0], [10, 0], { memberIds: ['ana'], location: 'Main St Clinic' }),
+      event('Swim', [10, 10], [11, 0], { memberIds: ['ana'], location: 'Pool' }),
+      event('Lunch', [11, 5], [12, 0], { memberIds: ['ana'], location: 'pool ' })
+    ];
+
+    const conflicts = detectConflicts(events, members, [], 15);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ kind: 'travel', gapMinutes: 10, start: new Date(2025, 6, 1, 10, 0) });
+    expect(describeConflict(conflicts[0])).toBe('ana: 10 min from Dentist to Swim');
+    expect(detectConflicts(events, members, [], 10)).toEqual([]);
+  });
+
+  it('matches shared resources by name or keyword', () => {
+    const conflicts = detectConflicts([
+      event('Take car to garage', [8, 0], [9, 0]),
+      event('School run', [8, 30], [9, 0], { description: 'Minivan' }),
+      event('Carpool meeting', [8, 30], [9, 0])
+    ], [], [car], 0);
+
+    expect(conflicts.map(conflict => conflict.id)).toEqual(['overlap:car:School run|Take car to garage']);
+  });
+
+  it('ignores all-day, cancelled and duplicated events', () => {
+    expect(detectConflicts([
+      event('Camp', [0, 0], [23, 59], { memberIds: ['ana'], allDay: true }),
+      event('Swim', [9, 0], [10, 0], { memberIds: ['ana'] }),
+      event('Piano', [9, 0], [10, 0], { memberIds: ['ana'], status: 'cancelled' }),
+      event('swim-copy', [9, 0], [10, 0], { memberIds: ['ana'], title: 'Swim' })
+    ], members, [], 15)).toEqual([]);
+  });
+
+  it('groups conflicts by the day they start', () => {
+    const conflicts = detectConflicts([
+      event('Swim', [9, 0], [10, 0], { memberIds: ['ana'] }),
+      event('Piano', [9, 30], [10, 30], { memberIds: ['ana'] })
+    ], members, [], 0);
+
+    expect(getConflictsOnDay(conflicts, day)).toHaveLength(1);
+    expect(getConflictsOnDay(conflicts, new Date(2025, 6, 2))).toEqual([]);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { format } from 'date-fns';
+import { getTimelineDays } from '@/utils/dateUtils';
+
+const thursday = new Date(2025, 2, 13, 9, 30);
+const labels = (days: Date[]) => days.map(day => format(day, 'EEE d'));
+
+describe('getTimelineDays', () => {
+  it('lists the chosen number of days from today', () => {
+    expect(labels(getTimelineDays({ dayCount: 3, skipWeekends: false, skipPastDays: true }, thursday)))
+      .toEqual(['Thu 13', 'Fri 14', 'Sat 15']);
+  });
+
+  it('skips weekends without shortening the timeline', () => {
+    expect(labels(getTimelineDays({ dayCount: 3, skipWeekends: true, skipPastDays: true }, thursday)))
+      .toEqual(['Thu 13', 'Fri 14', 'Mon 17']);
+  });
+
+  it('adds the earlier days of the week when past days are kept', () => {
+    expect(labels(getTimelineDays({ dayCount: 2, skipWeekends: true, skipPastDays: false }, thursday)))
+      .toEqual(['Mon 10', 'Tue 11', 'Wed 12', 'Thu 13', 'Fri 14']);
+  });
+});
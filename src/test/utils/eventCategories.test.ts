@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { Event } from '@/types/calendar';
+import { ALL_CATEGORIES_VISIBLE, applyCategoryDefaults, categorizeFromLabels, isCategoryVisible } from '@/utils/eventCategories';
+import { createMockEvent } from './testUtils';
+
+const event = (id: string, calendarId: string, categories?: string[]): Event => createMockEvent({
+  id,
+  title: id,
+  start: new Date(2025, 4, 6, 18),
+  date: new Date(2025, 4, 6),
+  category: 'Personal',
+  categories,
+  calendarId
+});
+
+describe('eventCategories', () => {
+  it('maps source labels onto categories by keyword, first mapped label wins', () => {
+    expect(categorizeFromLabels(['Kids Activities'])).toBe('Kids');
+    expect(categorizeFromLabels(['Urgent', 'Business trip', 'Vacation'])).toBe('Work');
+    expect(categorizeFromLabels(['PUBLIC HOLIDAY'])).toBe('Holidays');
+    expect(categorizeFromLabels(['Misc'])).toBeUndefined();
+    expect(categorizeFromLabels(undefined)).toBeUndefined();
+  });
+
+  it('prefers source labels over the calendar default', () => {
+    const [labelled, unlabelled, otherCalendar] = applyCategoryDefaults(
+      [event('recital', 'school', ['Family']), event('pickup', 'school'), event('gym', 'me')],
+      { school: 'Kids' }
+    );
+    expect(labelled.category).toBe('Family');
+    expect(unlabelled.category).toBe('Kids');
+    expect(otherCalendar.category).toBe('Personal');
+  });
+
+  it('hides only categories switched off in the filter', () => {
+    const filter = { ...ALL_CATEGORIES_VISIBLE, Work: false };
+    expect(isCategoryVisible({ category: 'Work' }, filter)).toBe(false);
+    expect(isCategoryVisible({ category: 'Kids' }, filter)).toBe(true);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { Event, MergeSettings } from '@/types/calendar';
+import { createMergeExclusion, mergeDuplicateEvents, normalizeTitle } from '@/utils/eventDedupe';
+import { createMockEvent } from './testUtils';
+
+const event = (title: string, calendarId: string, extra: Partial<Event> = {}): Event => createMockEvent({
+  id: `${calendarId}-${title}`,
+  title,
+  start: new Date(2025, 4, 10, 9),
+  end: new Date(2025, 4, 10, 10, 30),
+  date: new Date(2025, 4, 10),
+  category: 'Kids',
+  color: calendarId === 'school' ? '#22c55e' : '#8b5cf6',
+  description: '',
+  calendarId,
+  calendarName: calendarId === 'school' ? 'School iCal' : 'Family Notion',
+  ...extra
+});
+
+const settings = (overrides: Partial<MergeSettings> = {}): MergeSettings => ({
+  enabled: true,
+  calendarPriority: [],
+  exclusions: [],
+  ...overrides
+});
+
+describe('eventDedupe', () => {
+  it('merges the same event from an iCal feed and a Notion page and lists both sources', () => {
+    const ical = event('Soccer Practice', 'school', { location: 'Riverside Field 3', source: 'ical' });
+    const notion = event('soccer practice!', 'family', {
+      source: 'notion',
+      allDay: true,
+      start: new Date(2025, 4, 10),
+      end: undefined,
+      location: 'Riverside field',
+      description: 'Bring shin guards'
+    });
+
+    const result = mergeDuplicateEvents([ical, notion, event('Piano', 'family')], settings());
+
+    expect(result.map(e => e.title)).toEqual(['Soccer Practice', 'Piano']);
+    expect(result[0].description).toBe('Bring shin guards');
+    expect(result[0].mergedFrom?.map(ref => ref.calendarName)).toEqual(['School iCal', 'Family Notion']);
+  });
+
+  it('takes fields from the higher-priority calendar', () => {
+    const school = event('Recital', 'school', { location: 'Hall' });
+    const family = event('Recital', 'family', { location: 'Main Hall', start: new Date(2025, 4, 10, 9, 15) });
+
+    const [merged] = mergeDuplicateEvents([school, family], settings({ calendarPriority: ['family', 'school'] }));
+
+    expect(merged).toMatchObject({ id: family.id, location: 'Main Hall', color: family.color });
+    expect(merged.mergedFrom?.map(ref => ref.calendarId)).toEqual(['family', 'school']);
+  });
+
+  it('leaves copies apart when times, locations or calendars differ', () => {
+    const events = [
+      event('Swim', 'school', { location: 'Northside Pool' }),
+      event('Swim', 'family', { location: 'Lakeview Gym' }),
+      event('Standup', 'school'),
+      event('Standup', 'school', { id: 'second' }),
+      event('Dentist', 'school'),
+      event('Dentist', 'family', { start: new Date(2025, 4, 10, 14), end: new Date(2025, 4, 10, 15) })
+    ];
+
+    expect(mergeDuplicateEvents(events, settings())).toHaveLength(6);
+    expect(mergeDuplicateEvents(events, settings({ enabled: false }))).toBe(events);
+  });
+
+  it('never merges titles the user kept separate for those calendars', () => {
+    const events = [event('Lunch', 'school'), event('Lunch', 'family')];
+    const [merged] = mergeDuplicateEvents(events, settings());
+    const exclusion = createMergeExclusion(merged);
+
+    expect(exclusion).toEqual({ titleKey: 'lunch', calendarIds: ['school', 'family'] });
+    expect(mergeDuplicateEvents(events, settings({ exclusions: [exclusion] }))).toHaveLength(2);
+    expect(normalizeTitle('  Café  Lunch! ')).toBe('cafe lunch');
+  });
+});
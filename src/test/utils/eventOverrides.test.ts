@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Event } from '@/types/calendar';
+import { EVENT_OVERRIDES_KEY, EventOverrideStore } from '@/services/eventOverrideStore';
+import { applyEventOverrides } from '@/utils/eventOverrides';
+import { createMockEvent } from './testUtils';
+
+const event = (id: string, title: string): Event => createMockEvent({
+  id,
+  title,
+  start: new Date(2025, 2, 3, 9),
+  date: new Date(2025, 2, 3),
+  calendarId: 'work',
+  source: 'ical'
+});
+
+describe('event overrides', () => {
+  beforeEach(() => {
+    localStorage.removeItem(EVENT_OVERRIDES_KEY);
+  });
+
+  it('hides, annotates and pins occurrences by ID', () => {
+    const store = new EventOverrideStore();
+    const standup = event('ical_standup', "Dad's standup");
+    const recital = event('ical_recital', 'Recital');
+    store.update(standup, { hidden: true });
+    store.update(recital, { note: '  bring snacks ', pinned: true });
+
+    const result = applyEventOverrides([standup, recital, event('ical_other', 'Lunch')], store.getAll());
+    expect(result.map(e => e.title)).toEqual(['Recital', 'Lunch']);
+    expect(result[0]).toMatchObject({ note: 'bring snacks', pinned: true });
+    expect(result[1].note).toBeUndefined();
+  });
+
+  it('persists across instances and drops overrides that no longer change anything', () => {
+    const recital = event('ical_recital', 'Recital');
+    new EventOverrideStore().update(recital, { pinned: true, note: 'Front row' });
+
+    const reloaded = new EventOverrideStore();
+    expect(reloaded.get('ical_recital')).toMatchObject({ pinned: true, note: 'Front row', title: 'Recital' });
+
+    reloaded.update(recital, { pinned: false, note: '' });
+    expect(reloaded.get('ical_recital')).toBeUndefined();
+    expect(new EventOverrideStore().getAll()).toEqual({});
+  });
+
+  it('imports only well-formed overrides from a backup', () => {
+    const store = new EventOverrideStore();
+    store.replaceAll({
+      ical_a: { hidden: true, title: 'A', date: '2025-03-03T00:00:00.000Z', updatedAt: '2025-03-01T00:00:00.000Z' },
+      ical_b: { title: 'B', date: '2025-03-03T00:00:00.000Z', updatedAt: '2025-03-01T00:00:00.000Z' },
+      ical_c: 'pinned'
+    });
+    expect(Object.keys(store.getAll())).toEqual(['ical_a']);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { Event, EventRule } from '@/types/calendar';
+import { applyCalendarRules, getRuleMatches, validateRulePattern } from '@/utils/eventRules';
+import { createMockEvent } from './testUtils';
+
+const event = (title: string, calendarId = 'work', extra: Partial<Event> = {}): Event => createMockEvent({
+  id: `${calendarId}-${title}`,
+  title,
+  start: new Date(2025, 2, 3, 9),
+  date: new Date(2025, 2, 3),
+  category: 'Personal',
+  calendarId,
+  ...extra
+});
+
+const rule = (overrides: Partial<EventRule>): EventRule => ({
+  id: 'r1',
+  enabled: true,
+  fields: ['title'],
+  matchType: 'keywords',
+  pattern: '',
+  actions: {},
+  ...overrides
+});
+
+describe('eventRules', () => {
+  it('hides events matching any keyword, only in the rule\'s calendar', () => {
+    const events = [event('Focus time'), event('Team lunch'), event('Standup'), event('Focus time', 'family')];
+    const result = applyCalendarRules(events, {
+      work: [rule({ pattern: 'focus time, LUNCH', actions: { hide: true } })]
+    });
+    expect(result.map(e => `${e.calendarId}:${e.title}`)).toEqual(['work:Standup', 'family:Focus time']);
+  });
+
+  it('rewrites only the matched part of the title for regex rules', () => {
+    const result = applyCalendarRules([event('[HS] Band', 'school'), event('Assembly', 'school')], {
+      school: [rule({ matchType: 'regex', pattern: '^\\[HS\\]\\s*', actions: { title: '', category: 'Kids', icon: 'music' } })]
+    });
+    expect(result[0]).toMatchObject({ title: 'Band', category: 'Kids', icon: 'music' });
+    expect(result[1]).toMatchObject({ title: 'Assembly', category: 'Personal' });
+    expect(result[1].icon).toBeUndefined();
+  });
+
+  it('matches location and description, and applies later rules over earlier ones', () => {
+    const result = applyCalendarRules([event('Practice', 'sports', { location: 'Riverside Pool' })], {
+      sports: [
+        rule({ id: 'a', fields: ['location'], pattern: 'pool', actions: { title: 'Swim practice', color: '#06b6d4' } }),
+        rule({ id: 'b', fields: ['title', 'location'], pattern: 'riverside', actions: { color: '#22c55e' } })
+      ]
+    });
+    expect(result[0]).toMatchObject({ title: 'Swim practice', color: '#22c55e' });
+  });
+
+  it('matches each rule against what earlier rules made of the event', () => {
+    const result = applyCalendarRules([event('Practice', 'sports', { location: 'Riverside Pool' })], {
+      sports: [
+        rule({ id: 'a', fields: ['location'], pattern: 'pool', actions: { title: 'Swim practice' } }),
+        rule({ id: 'b', pattern: 'swim', actions: { category: 'Kids' } })
+      ]
+    });
+    expect(result[0]).toMatchObject({ title: 'Swim practice', category: 'Kids' });
+  });
+
+  it('leaves the title alone when a regex rule matched another field', () => {
+    const result = applyCalendarRules([event('Rehearsal', 'school', { description: '[HS] Bring music' })], {
+      school: [rule({ matchType: 'regex', fields: ['title', 'description'], pattern: '\\[HS\\]', actions: { title: 'High school', color: '#a855f7' } })]
+    });
+    expect(result[0]).toMatchObject({ title: 'Rehearsal', color: '#a855f7' });
+  });
+
+  it('skips disabled rules and invalid patterns', () => {
+    const events = [event('Lunch')];
+    expect(applyCalendarRules(events, { work: [rule({ enabled: false, pattern: 'lunch', actions: { hide: true } })] })).toEqual(events);
+    expect(applyCalendarRules(events, { work: [rule({ matchType: 'regex', pattern: '(', actions: { hide: true } })] })).toEqual(events);
+    expect(validateRulePattern({ matchType: 'regex', pattern: '(' })).not.toBeNull();
+    expect(validateRulePattern({ matchType: 'keywords', pattern: ' , ' })).toBe('Enter at least one keyword');
+  });
+
+  it('previews matches for rules that are still switched off', () => {
+    const matches = getRuleMatches([event('Lunch'), event('Standup')], rule({ enabled: false, pattern: 'lunch' }));
+    expect(matches.map(e => e.title)).toEqual(['Lunch']);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { Event } from '@/types/calendar';
+import { buildSearchIndex, parseSearchQuery, searchEvents } from '@/utils/eventSearch';
+import { createMockEvent } from './testUtils';
+
+const now = new Date(2025, 2, 12, 8); // Wednesday
+
+const event = (id: string, title: string, day: number, extra: Partial<Event> = {}): Event => createMockEvent({
+  id,
+  title,
+  start: new Date(2025, 2, day, 15),
+  end: new Date(2025, 2, day, 16),
+  date: new Date(2025, 2, day),
+  category: 'Family',
+  calendarName: 'Family',
+  source: 'ical',
+  ...extra
+});
+
+const index = buildSearchIndex([
+  event('past-dentist', 'Dentist - Emma', 3),
+  event('dentist', 'Dentist - Emma', 20, { location: 'Smile Dental, Main St' }),
+  event('checkup', 'Checkup', 14, { description: 'Annual visit at the dentist office' }),
+  event('recital', 'Piano recital', 26, { source: 'local', calendarName: 'Family Calendar' }),
+  event('april-recital', 'Spring recital', 40, { source: 'notion', calendarName: 'School' })
+]);
+
+const search = (input: string) => searchEvents(index, parseSearchQuery(input, now), now).map(result => result.event.id);
+
+describe('event search', () => {
+  it('ranks title matches first and upcoming events before past ones', () => {
+    expect(search('when is the dentist?')).toEqual(['dentist', 'past-dentist', 'checkup']);
+    expect(search('smile')).toEqual(['dentist']);
+  });
+
+  it('tolerates typos and matches word prefixes', () => {
+    expect(search('dentsit emma')).toEqual(['dentist', 'past-dentist']);
+    expect(search('reci')).toEqual(['recital', 'april-recital']);
+  });
+
+  it('filters by date phrases and sources', () => {
+    expect(search('recital next month')).toEqual(['april-recital']);
+    expect(search('recital source:local')).toEqual(['recital']);
+    expect(search('next week')).toEqual(['dentist']);
+    expect(parseSearchQuery('dentist in june', now).range).toMatchObject({
+      start: new Date(2025, 5, 1),
+      end: new Date(2025, 6, 1),
+      label: 'june'
+    });
+  });
+
+  it('reads "this weekend" on a Sunday as the weekend under way', () => {
+    const sunday = new Date(2025, 2, 16, 10);
+    expect(parseSearchQuery('this weekend', sunday).range).toMatchObject({
+      start: new Date(2025, 2, 15),
+      end: new Date(2025, 2, 17)
+    });
+    expect(parseSearchQuery('this weekend', now).range?.start).toEqual(new Date(2025, 2, 15));
+  });
+
+  it('reads month names as dates only on their own or after "in" or "during"', () => {
+    expect(parseSearchQuery('march madness', now)).toEqual({ terms: ['march', 'madness'] });
+    expect(parseSearchQuery('may fair source:local', now)).toEqual({ terms: ['may', 'fair'], sources: ['local'] });
+    expect(parseSearchQuery('recital during april', now)).toMatchObject({ terms: ['recital'], range: { start: new Date(2025, 3, 1) } });
+    expect(parseSearchQuery(' April ', now).range?.label).toBe('april');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { Event, FamilyMember } from '@/types/calendar';
+import { assignEventMembers, colorEventsByMember, getMemberInitials, isMemberVisible } from '@/utils/familyMembers';
+import { createMockEvent } from './testUtils';
+
+const event = (id: string, title: string, extra: Partial<Event> = {}): Event => createMockEvent({
+  id,
+  title,
+  start: new Date(2025, 6, 1, 9),
+  end: new Date(2025, 6, 1, 10),
+  date: new Date(2025, 6, 1),
+  category: 'Family',
+  calendarName: 'Family',
+  ...extra
+});
+
+const member = (id: string, name: string, extra: Partial<FamilyMember> = {}): FamilyMember => ({
+  id,
+  name,
+  color: '#ef4444',
+  calendarIds: [],
+  matchTitle: true,
+  aliases: [],
+  ...extra
+});
+
+describe('family members', () => {
+  const emma = member('emma', 'Emma', { calendarIds: ['school'], color: '#22c55e' });
+  const al = member('al', 'Alistair', { aliases: ['Al'] });
+
+  it('tags events by calendar and by whole names in the title', () => {
+    const [school, lesson, algebra, party] = assignEventMembers([
+      event('1', 'Parent evening', { calendarId: 'school' }),
+      event('2', "Al's piano lesson"),
+      event('3', 'Algebra test'),
+      event('4', 'Party for Emma and Al')
+    ], [emma, al]);
+
+    expect(school.memberIds).toEqual(['emma']);
+    expect(lesson.memberIds).toEqual(['al']);
+    expect(algebra.memberIds).toBeUndefined();
+    expect(party.memberIds).toEqual(['emma', 'al']);
+  });
+
+  it('skips title matching for members who opted out', () => {
+    const [tagged] = assignEventMembers([event('1', 'Emma swim')], [{ ...emma, matchTitle: false }]);
+    expect(tagged.memberIds).toBeUndefined();
+  });
+
+  it('filters, colors and abbreviates by member', () => {
+    const tagged = event('1', 'Swim', { memberIds: ['emma'] });
+    const untagged = event('2', 'Dinner');
+
+    expect(isMemberVisible(untagged, [])).toBe(true);
+    expect(isMemberVisible(untagged, ['emma'])).toBe(false);
+    expect(isMemberVisible(tagged, ['al', 'emma'])).toBe(true);
+    expect(colorEventsByMember([tagged, untagged], [emma]).map(e => e.color)).toEqual(['#22c55e', '#3b82f6']);
+    expect(getMemberInitials('Mary Ann Smith')).toBe('MA');
+    expect(getMemberInitials(' emma ')).toBe('E');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  eventOccursOnDay,
+  getEventDayRange,
+  getSpanContinuation,
+  groupEventsByDay,
+  isSpanningEvent,
+  layoutSpanningEvents
+} from '@/utils/multiDayLayout';
+
+const allDay = (title: string, start: Date, end: Date) => ({
+  title,
+  calendarId: 'family',
+  date: start,
+  start,
+  end,
+  allDay: true,
+  isMultiDay: true
+});
+
+const timed = (title: string, start: Date, end: Date) => ({
+  title,
+  calendarId: 'family',
+  date: start,
+  start,
+  end,
+  allDay: false
+});
+
+describe('multiDayLayout', () => {
+  describe('getEventDayRange', () => {
+    it('should treat all-day ends as exclusive', () => {
+      const range = getEventDayRange(allDay('Camp', new Date(2025, 6, 7), new Date(2025, 6, 12)));
+      expect(range).toEqual({ start: new Date(2025, 6, 7), end: new Date(2025, 6, 12) });
+    });
+
+    it('should include the day a timed event ends on', () => {
+      const range = getEventDayRange(timed('Trip', new Date(2025, 6, 7, 18), new Date(2025, 6, 9, 10)));
+      expect(range.end).toEqual(new Date(2025, 6, 10));
+    });
+  });
+
+  describe('isSpanningEvent', () => {
+    it('should span multi-day all-day events and day-long timed events', () => {
+      expect(isSpanningEvent(allDay('Camp', new Date(2025, 6, 7), new Date(2025, 6, 12)))).toBe(true);
+      expect(isSpanningEvent(timed('Trip', new Date(2025, 6, 7, 18), new Date(2025, 6, 9, 10)))).toBe(true);
+    });
+
+    it('should keep single days and overnight events on their start day', () => {
+      expect(isSpanningEvent(allDay('Holiday', new Date(2025, 6, 4), new Date(2025, 6, 5)))).toBe(false);
+      const lateShow = timed('Late show', new Date(2025, 6, 4, 22), new Date(2025, 6, 5, 1));
+      expect(isSpanningEvent(lateShow)).toBe(false);
+      expect(eventOccursOnDay(lateShow, new Date(2025, 6, 5))).toBe(false);
+    });
+  });
+
+  describe('eventOccursOnDay and getSpanContinuation', () => {
+    const camp = allDay('Camp', new Date(2025, 6, 7), new Date(2025, 6, 12));
+
+    it('should place spanning events on every covered day', () => {
+      expect(eventOccursOnDay(camp, new Date(2025, 6, 6))).toBe(false);
+      expect(eventOccursOnDay(camp, new Date(2025, 6, 9, 15))).toBe(true);
+      expect(eventOccursOnDay(camp, new Date(2025, 6, 11))).toBe(true);
+      expect(eventOccursOnDay(camp, new Date(2025, 6, 12))).toBe(false);
+    });
+
+    it('should report continuation on either side of a day', () => {
+      expect(getSpanContinuation(camp, new Date(2025, 6, 7))).toEqual({ continuesBefore: false, continuesAfter: true });
+      expect(getSpanContinuation(camp, new Date(2025, 6, 9))).toEqual({ continuesBefore: true, continuesAfter: true });
+      expect(getSpanContinuation(camp, new Date(2025, 6, 11))).toEqual({ continuesBefore: true, continuesAfter: false });
+    });
+
+    it('should group events onto the days of a window', () => {
+      const dinner = timed('Dinner', new Date(2025, 6, 5, 18), new Date(2025, 6, 5, 20));
+      const later = timed('Later', new Date(2025, 6, 20, 9), new Date(2025, 6, 20, 10));
+      const days = groupEventsByDay([camp, dinner, later], new Date(2025, 6, 5), 5);
+
+      expect(days.map(d => d.day.getDate())).toEqual([5, 6, 7, 8, 9]);
+      expect(days.map(d => d.events.map(e => e.title))).toEqual([['Dinner'], [], ['Camp'], ['Camp'], ['Camp']]);
+    });
+  });
+
+  describe('layoutSpanningEvents', () => {
+    // Week of Sun Jul 6 - Sat Jul 12, 2025
+    const weekStart = new Date(2025, 6, 6);
+
+    it('should split events at the row edges and flag them as continuing', () => {
+      const vacation = allDay('Vacation', new Date(2025, 6, 3), new Date(2025, 6, 15));
+      const { segments } = layoutSpanningEvents([vacation], weekStart, 7);
+      expect(segments).toHaveLength(1);
+      expect(segments[0]).toMatchObject({ startIndex: 0, length: 7, lane: 0, continuesBefore: true, continuesAfter: true });
+    });
+
+    it('should stack overlapping events in separate lanes and reuse free lanes', () => {
+      const camp = allDay('Camp', new Date(2025, 6, 7), new Date(2025, 6, 10));
+      const visit = allDay('Grandma visiting', new Date(2025, 6, 8), new Date(2025, 6, 12));
+      const trip = allDay('Trip', new Date(2025, 6, 10), new Date(2025, 6, 12));
+      const layout = layoutSpanningEvents([trip, visit, camp], weekStart, 7);
+
+      expect(layout.laneCount).toBe(2);
+      const byTitle = Object.fromEntries(layout.segments.map(s => [s.event.title, s]));
+      expect(byTitle['Camp']).toMatchObject({ startIndex: 1, length: 3, lane: 0 });
+      expect(byTitle['Grandma visiting']).toMatchObject({ startIndex: 2, length: 4, lane: 1 });
+      expect(byTitle['Trip']).toMatchObject({ startIndex: 4, length: 2, lane: 0 });
+    });
+
+    it('should ignore single-day events, events outside the row and per-day duplicates', () => {
+      const camp = allDay('Camp', new Date(2025, 6, 7), new Date(2025, 6, 10));
+      const layout = layoutSpanningEvents([
+        camp,
+        { ...camp, date: new Date(2025, 6, 8) },
+        allDay('Holiday', new Date(2025, 6, 8), new Date(2025, 6, 9)),
+        allDay('Next week', new Date(2025, 6, 13), new Date(2025, 6, 16))
+      ], weekStart, 7);
+      expect(layout.segments.map(s => s.event.title)).toEqual(['Camp']);
+    });
+  });
+});
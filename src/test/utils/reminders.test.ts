@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { Event, EventReminder } from '@/types/calendar';
+import { collectReminders, formatReminderLead, getReminderId } from '@/utils/reminders';
+import { createMockEvent } from './testUtils';
+
+const event = (id: string, start: Date, extra: Partial<Event> = {}): Event => createMockEvent({
+  id,
+  title: id,
+  start,
+  end: new Date(start.getTime() + 60 * 60 * 1000),
+  date: start,
+  category: 'Kids',
+  calendarId: 'kids',
+  calendarName: 'Kids',
+  ...extra
+});
+
+const at = (hour: number, minute = 0) => new Date(2025, 6, 1, hour, minute).getTime();
+
+describe('reminders', () => {
+  const swim = event('swim', new Date(2025, 6, 1, 16));
+  const dentist = event('dentist', new Date(2025, 6, 1, 10), { alarms: [60], calendarId: 'family' });
+  const camp = event('camp', new Date(2025, 6, 1), { allDay: true });
+
+  it('uses source alarms first and calendar defaults for timed events without any', () => {
+    const reminders = collectReminders([swim, dentist, camp], [], { kids: 15, family: 30 }, at(0), at(24));
+    expect(reminders.map(r => [r.id, r.fireAt])).toEqual([
+      [getReminderId('dentist', 60), at(9)],
+      [getReminderId('swim', 15), at(15, 45)]
+    ]);
+  });
+
+  it('follows a moved event for added reminders and keeps the saved start otherwise', () => {
+    const added: EventReminder[] = [
+      { id: 'r1', eventId: 'swim', title: 'swim', start: new Date(2025, 6, 1, 12).toISOString(), minutesBefore: 10, createdAt: '' },
+      { id: 'r2', eventId: 'piano', title: 'Piano', start: new Date(2025, 6, 1, 18).toISOString(), minutesBefore: 0, createdAt: '' }
+    ];
+    const reminders = collectReminders([swim], added, {}, at(0), at(24));
+    expect(reminders.map(r => [r.title, r.fireAt])).toEqual([
+      ['swim', at(15, 50)],
+      ['Piano', at(18)]
+    ]);
+  });
+
+  it('only returns reminders firing inside the window and skips cancelled events', () => {
+    const cancelled = event('match', new Date(2025, 6, 1, 16), { status: 'cancelled' });
+    expect(collectReminders([swim, cancelled], [], { kids: 15 }, at(15, 46), at(24))).toEqual([]);
+    expect(collectReminders([swim, cancelled], [], { kids: 15 }, at(15, 30), at(16)).map(r => r.eventId)).toEqual(['swim']);
+  });
+
+  it('fires at the real instant when the household zone differs from the device zone', () => {
+    const household = Intl.DateTimeFormat().resolvedOptions().timeZone === 'America/New_York' ? 'Asia/Tokyo' : 'America/New_York';
+    const offsetHours = household === 'America/New_York' ? -4 : 9;
+    const [reminder] = collectReminders([swim], [], { kids: 15 }, 0, Number.MAX_SAFE_INTEGER, household);
+
+    // 4 PM on the household clock, whatever the device clock says
+    expect(reminder.fireAt).toBe(Date.UTC(2025, 6, 1, 16 - offsetHours, -15));
+    expect(reminder.start).toBe(at(16));
+  });
+
+  it('describes leads', () => {
+    expect(formatReminderLead(0)).toBe('At start');
+    expect(formatReminderLead(15)).toBe('15 minutes before');
+    expect(formatReminderLead(60)).toBe('1 hour before');
+    expect(formatReminderLead(2880)).toBe('2 days before');
+    expect(formatReminderLead(-30)).toBe('30 minutes after start');
+  });
+});
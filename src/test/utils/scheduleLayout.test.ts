@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { Event, FamilyMember } from '@/types/calendar';
+import { getScheduleLanes, layoutSchedule, UNASSIGNED_LANE_ID } from '@/utils/scheduleLayout';
+import { createMockEvent } from './testUtils';
+
+const day = new Date(2025, 6, 1);
+
+const event = (id: string, startHour: number, endHour: number, memberIds?: string[], extra: Partial<Event> = {}): Event => createMockEvent({
+  id,
+  title: id,
+  start: new Date(2025, 6, 1, startHour),
+  end: new Date(2025, 6, 1, endHour),
+  date: day,
+  category: 'Family',
+  calendarName: 'Family',
+  memberIds,
+  ...extra
+});
+
+const member = (id: string): FamilyMember => ({ id, name: id, color: '#ef4444', calendarIds: [], matchTitle: true, aliases: [] });
+
+describe('schedule layout', () => {
+  const members = [member('ana'), member('ben'), member('cy')];
+
+  it('gives filtered members a lane each, then the unassigned lane', () => {
+    expect(getScheduleLanes(members, []).map(lane => lane.id)).toEqual(['ana', 'ben', 'cy', UNASSIGNED_LANE_ID]);
+    expect(getScheduleLanes(members, ['cy']).map(lane => lane.id)).toEqual(['cy', UNASSIGNED_LANE_ID]);
+  });
+
+  it('spans shared events across free neighbouring lanes and repeats them otherwise', () => {
+    const lanes = getScheduleLanes(members, []);
+    const { blocks, allDay } = layoutSchedule([
+      event('breakfast', 7, 8, ['ana', 'ben', 'cy']),
+      event('dentist', 9, 10, ['ana', 'ben']),
+      event('swim', 9, 10, ['ben']),
+      event('bins', 18, 19),
+      event('camp', 0, 0, ['cy'], { allDay: true })
+    ], lanes, day);
+
+    const placed = (id: string) => blocks
+      .filter(block => block.event.id === id)
+      .map(({ lane, laneSpan, column, columnCount }) => ({ lane, laneSpan, column, columnCount }));
+
+    expect(placed('breakfast')).toEqual([{ lane: 0, laneSpan: 3, column: 0, columnCount: 1 }]);
+    // Ben's swim shares his lane, so the dentist can't stretch over it
+    expect(placed('dentist')).toEqual([
+      { lane: 0, laneSpan: 1, column: 0, columnCount: 1 },
+      { lane: 1, laneSpan: 1, column: 0, columnCount: 2 }
+    ]);
+    expect(placed('bins')).toEqual([{ lane: 3, laneSpan: 1, column: 0, columnCount: 1 }]);
+    expect(allDay.map(({ event: e, lane, laneSpan }) => [e.id, lane, laneSpan])).toEqual([['camp', 2, 1]]);
+  });
+});
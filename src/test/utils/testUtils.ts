@@ -4,6 +4,7 @@ import { render, RenderOptions } from '@testing-library/react';
 import { act } from '@testing-library/react';
 import { vi } from 'vitest';
 import { AllTheProviders } from './testComponents';
+import { Event } from '@/types/calendar';
 
 // Enhanced custom render with better async handling and error recovery
 export const customRender = async (
@@ -32,10 +33,11 @@ export const customRender = async (
 };
 
 // Enhanced mock utilities with better defaults
-export const createMockEvent = (overrides = {}) => ({
+export const createMockEvent = (overrides: Partial<Event> = {}): Event => ({
   id: 1,
   title: 'Test Event',
-  time: '10:00 AM',
+  start: new Date(),
+  allDay: false,
   date: new Date(),
   category: 'Work',
   color: '#3b82f6',
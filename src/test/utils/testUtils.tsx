@@ -35,7 +35,8 @@ const customRender = async (
 export const createMockEvent = (overrides = {}) => ({
   id: 1,
   title: 'Test Event',
-  time: '10:00 AM',
+  start: new Date(),
+  allDay: false,
   date: new Date(),
   category: 'Work',
   color: '#3b82f6',
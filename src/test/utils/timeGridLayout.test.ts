@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { layoutDayEvents } from '@/utils/timeGridLayout';
+
+const day = new Date(2025, 2, 4);
+const at = (hours: number, minutes = 0) => new Date(2025, 2, 4, hours, minutes);
+const block = (title: string, start: Date, end?: Date) => ({ title, start, end });
+
+const byTitle = (items: Array<{ event: { title: string }; column: number; columnCount: number; columnSpan: number }>) =>
+  Object.fromEntries(items.map(item => [item.event.title, [item.column, item.columnCount, item.columnSpan]]));
+
+describe('layoutDayEvents', () => {
+  it('splits overlapping events into columns and reuses freed columns', () => {
+    const layout = byTitle(layoutDayEvents([
+      block('Lunch', at(12), at(13)),
+      block('Standup', at(9), at(10)),
+      block('Dentist', at(9, 30), at(10, 30)),
+      block('Call', at(10), at(11))
+    ], day));
+
+    expect(layout).toEqual({
+      Standup: [0, 2, 1],
+      Dentist: [1, 2, 1],
+      Call: [0, 2, 1],
+      Lunch: [0, 1, 1]
+    });
+  });
+
+  it('widens events into neighbouring columns that stay free', () => {
+    const layout = byTitle(layoutDayEvents([
+      block('Party', at(18), at(21)),
+      block('Dinner', at(18), at(19)),
+      block('Snack', at(18), at(18, 30)),
+      block('Bath', at(19), at(20))
+    ], day));
+
+    expect(layout.Snack).toEqual([2, 3, 1]);
+    expect(layout.Bath).toEqual([1, 3, 2]);
+  });
+
+  it('clamps overnight events to the day and gives open-ended events a minimum length', () => {
+    const items = layoutDayEvents([
+      block('Late show', at(23), new Date(2025, 2, 5, 1)),
+      block('Reminder', at(7))
+    ], day);
+
+    expect(items.map(item => [item.startMinute, item.endMinute])).toEqual([[420, 440], [1380, 1440]]);
+  });
+});
@@ -1,6 +1,6 @@
 
 import { describe, it, expect } from 'vitest';
-import { extractStartTime, timeToMinutes, compareTimeStrings } from '@/utils/timeUtils';
+import { extractStartTime, timeToMinutes, parseTimeRange, compareEventsByTime } from '@/utils/timeUtils';
 
 describe('timeUtils', () => {
   describe('extractStartTime', () => {
@@ -70,38 +70,39 @@ describe('timeUtils', () => {
     });
   });
 
-  describe('compareTimeStrings', () => {
-    it('should sort morning times chronologically', () => {
-      expect(compareTimeStrings('9:00 AM', '10:00 AM')).toBeLessThan(0);
-      expect(compareTimeStrings('8:30 AM', '8:45 AM')).toBeLessThan(0);
-      expect(compareTimeStrings('11:00 AM', '9:00 AM')).toBeGreaterThan(0);
-    });
+  describe('parseTimeRange', () => {
+    const day = new Date(2025, 4, 20);
 
-    it('should sort afternoon times chronologically', () => {
-      expect(compareTimeStrings('1:00 PM', '2:00 PM')).toBeLessThan(0);
-      expect(compareTimeStrings('3:30 PM', '1:15 PM')).toBeGreaterThan(0);
+    it('should build start and end dates on the given day', () => {
+      const range = parseTimeRange(day, '9:00 AM - 10:30 AM');
+      expect(range.allDay).toBe(false);
+      expect(range.start).toEqual(new Date(2025, 4, 20, 9, 0));
+      expect(range.end).toEqual(new Date(2025, 4, 20, 10, 30));
     });
 
-    it('should properly sort across AM/PM boundary', () => {
-      expect(compareTimeStrings('11:30 AM', '12:30 PM')).toBeLessThan(0);
-      expect(compareTimeStrings('9:00 AM', '1:00 PM')).toBeLessThan(0);
-      expect(compareTimeStrings('2:00 PM', '10:00 AM')).toBeGreaterThan(0);
+    it('should ignore parenthetical annotations', () => {
+      expect(parseTimeRange(day, '2:00 PM (Recurring)').start).toEqual(new Date(2025, 4, 20, 14, 0));
     });
 
-    it('should handle midnight and noon correctly', () => {
-      expect(compareTimeStrings('12:00 AM', '1:00 AM')).toBeLessThan(0);
-      expect(compareTimeStrings('11:59 PM', '12:00 AM')).toBeGreaterThan(0);
-      expect(compareTimeStrings('11:59 AM', '12:00 PM')).toBeLessThan(0);
+    it('should roll ranges past midnight onto the next day', () => {
+      expect(parseTimeRange(day, '10:00 PM - 1:00 AM').end).toEqual(new Date(2025, 4, 21, 1, 0));
     });
 
-    it('should return 0 for identical times', () => {
-      expect(compareTimeStrings('2:30 PM', '2:30 PM')).toBe(0);
-      expect(compareTimeStrings('9:00 AM', '9:00 AM')).toBe(0);
+    it('should treat missing or unparseable times as all day', () => {
+      expect(parseTimeRange(day, 'All day')).toEqual({ start: new Date(2025, 4, 20), allDay: true });
+      expect(parseTimeRange(day).allDay).toBe(true);
     });
+  });
 
-    it('should handle time ranges correctly', () => {
-      expect(compareTimeStrings('9:00 AM - 11:00 AM', '10:00 AM - 12:00 PM')).toBeLessThan(0);
-      expect(compareTimeStrings('2:00 PM - 4:00 PM', '1:00 PM - 3:00 PM')).toBeGreaterThan(0);
+  describe('compareEventsByTime', () => {
+    it('should put all-day events first, then order by start and title', () => {
+      const events = [
+        { title: 'B', allDay: false, start: new Date(2025, 4, 20, 9) },
+        { title: 'A', allDay: false, start: new Date(2025, 4, 20, 9) },
+        { title: 'Holiday', allDay: true, start: new Date(2025, 4, 20) },
+        { title: 'Early', allDay: false, start: new Date(2025, 4, 20, 7) }
+      ];
+      expect([...events].sort(compareEventsByTime).map(e => e.title)).toEqual(['Holiday', 'Early', 'A', 'B']);
     });
   });
 });
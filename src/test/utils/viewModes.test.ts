@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TIMELINE_OPTIONS,
+  getDisplayProfileFromUrl,
+  getTimelineOptionsKey,
+  getViewFromUrl,
+  isViewMode,
+  parseTimelineOptions
+} from '@/utils/viewModes';
+
+describe('view modes', () => {
+  it('reads a known view from the URL and ignores anything else', () => {
+    expect(getViewFromUrl('?view=agenda')).toBe('agenda');
+    expect(getViewFromUrl('?lang=en&view=week')).toBe('week');
+    expect(getViewFromUrl('?view=twoWeek')).toBe('twoWeek');
+    expect(getViewFromUrl('?view=schedule')).toBe('schedule');
+    expect(getViewFromUrl('?view=year-ish')).toBeNull();
+    expect(getViewFromUrl('')).toBeNull();
+    expect(isViewMode('month')).toBe(true);
+    expect(isViewMode(null)).toBe(false);
+  });
+
+  it('reads saved timeline options and falls back to the defaults', () => {
+    expect(parseTimelineOptions('{"dayCount":5,"skipWeekends":true,"skipPastDays":false}'))
+      .toEqual({ dayCount: 5, skipWeekends: true, skipPastDays: false });
+    expect(parseTimelineOptions('{"dayCount":4}')).toEqual(DEFAULT_TIMELINE_OPTIONS);
+    expect(parseTimelineOptions('not json')).toEqual(DEFAULT_TIMELINE_OPTIONS);
+    expect(parseTimelineOptions(null)).toEqual(DEFAULT_TIMELINE_OPTIONS);
+  });
+
+  it('keys timeline options by the display named in the URL', () => {
+    expect(getDisplayProfileFromUrl('?view=timeline&display=Kitchen')).toBe('kitchen');
+    expect(getDisplayProfileFromUrl('?display=%20')).toBe('default');
+    expect(getDisplayProfileFromUrl('')).toBe('default');
+    expect(getTimelineOptionsKey('default')).toBe('timelineOptions');
+    expect(getTimelineOptionsKey('kitchen')).toBe('timelineOptions:kitchen');
+  });
+});
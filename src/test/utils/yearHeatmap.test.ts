@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { Event } from '@/types/calendar';
+import { getDayDensity, getHeatLevel } from '@/utils/yearHeatmap';
+import { createMockEvent } from './testUtils';
+
+const event = (id: string, start: Date, end: Date, extra: Partial<Event> = {}): Event => createMockEvent({
+  id,
+  title: id,
+  start,
+  end,
+  date: start,
+  category: 'Family',
+  calendarName: 'Family',
+  ...extra
+});
+
+describe('year heatmap', () => {
+  const events = [
+    event('swim', new Date(2025, 6, 1, 9), new Date(2025, 6, 1, 10), { category: 'Kids' }),
+    event('dinner', new Date(2025, 6, 1, 18), new Date(2025, 6, 1, 20)),
+    event('trip', new Date(2025, 6, 1), new Date(2025, 6, 5), { allDay: true, category: 'Holidays' })
+  ];
+
+  it('counts single-day events while keeping spanning events for the day list', () => {
+    const days = getDayDensity(events, new Date(2025, 6, 1), 3);
+
+    expect(days.map(day => day.count)).toEqual([2, 0, 0]);
+    expect(days[1].events.map(e => e.id)).toEqual(['trip']);
+    expect(getDayDensity(events, new Date(2025, 6, 1), 1, 'Kids')[0].count).toBe(1);
+  });
+
+  it('scales shades to the busiest day', () => {
+    expect([0, 1, 2, 5, 8].map(count => getHeatLevel(count, 8))).toEqual([0, 1, 1, 3, 4]);
+    expect(getHeatLevel(3, 0)).toBe(0);
+  });
+});
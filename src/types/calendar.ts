@@ -1,21 +1,201 @@
 
+/** Wall-clock start of an event in its own zone, kept when that zone differs from the household zone */
+export interface SourceTimeZone {
+  /** Short zone name, e.g. "PDT" or "GMT+2" */
+  name: string;
+  /** Start time with local fields set to the source zone's wall-clock time */
+  start: Date;
+}
+
+/** iCal STATUS of an event; events without one are treated as confirmed */
+export type EventStatus = 'confirmed' | 'tentative' | 'cancelled';
+
+/** iCal CLASS; private and confidential events usually come with their details withheld */
+export type EventVisibility = 'public' | 'private' | 'confidential';
+
+export interface EventAttendee {
+  name?: string;
+  email?: string;
+  /** Participation status (iCal PARTSTAT), lower-case, e.g. "accepted" or "needs-action" */
+  status?: string;
+  /** Participation role (iCal ROLE), lower-case, e.g. "chair" or "opt-participant" */
+  role?: string;
+}
+
+/** One calendar's copy of an event that was merged with copies from other calendars */
+export interface EventSourceRef {
+  eventId: number | string;
+  calendarId?: string;
+  calendarName?: string;
+  color: string;
+  source?: 'ical' | 'notion' | 'local';
+}
+
+/** Icons a calendar rule can put on events in place of the calendar's colored dot */
+export type EventIconName = 'briefcase' | 'school' | 'utensils' | 'dumbbell' | 'music' | 'stethoscope' | 'plane' | 'cake' | 'star';
+
 export interface Event {
   id: number | string;
+  /** UID of the source VEVENT; shared by all occurrences of a series */
+  uid?: string;
   title: string;
-  time: string;
+  /** Start of the event; local midnight for all-day events */
+  start: Date;
+  /** Exclusive end; omitted when the source gives no end */
+  end?: Date;
+  allDay: boolean;
+  isRecurring?: boolean;
+  /** RRULE of the series this occurrence belongs to, e.g. `FREQ=WEEKLY;BYDAY=TU` */
+  recurrenceRule?: string;
+  /** Spans several days; `date` is then the day this copy is shown on */
+  isMultiDay?: boolean;
+  sourceTimeZone?: SourceTimeZone;
   location?: string;
+  /** Number of invitees */
   attendees: number;
+  attendeeList?: EventAttendee[];
   category: 'Personal' | 'Work' | 'Family' | 'Kids' | 'Holidays';
+  /** Free-form categories from the source (iCal CATEGORIES) */
+  categories?: string[];
   color: string;
   description: string;
+  /** Organizer display name, or the calendar name when the source has none */
   organizer: string;
+  organizerEmail?: string;
+  status?: EventStatus;
+  visibility?: EventVisibility;
+  /** Link attached to the event, e.g. a meeting or info page */
+  url?: string;
+  /** Set by a calendar rule */
+  icon?: EventIconName;
+  /** Copies from each calendar when duplicates were merged, the one whose fields won first */
+  mergedFrom?: EventSourceRef[];
+  /** Household note added to this occurrence */
+  note?: string;
+  /** Marked as important by the household */
+  pinned?: boolean;
+  /** Family members the event belongs to, from their calendars or their names in the title */
+  memberIds?: string[];
+  /** Reminders from the source (iCal VALARM), in minutes before the start */
+  alarms?: number[];
+  /** Day the event is displayed on */
   date: Date;
   calendarId?: string;
   calendarName?: string;
   source?: 'ical' | 'notion' | 'local';
 }
 
-export type ViewMode = 'month' | 'timeline' | 'week';
+export type EventRuleField = 'title' | 'description' | 'location';
+
+export interface EventRuleActions {
+  hide?: boolean;
+  /**
+   * New title. For a regex rule on the title only the matched text is replaced and
+   * `$1`... refer to its groups (so an empty string strips a prefix); otherwise the
+   * whole title is replaced.
+   */
+  title?: string;
+  color?: string;
+  category?: Event['category'];
+  icon?: EventIconName;
+}
+
+/**
+ * Per-calendar transformation applied before events are shown. Rules run in order,
+ * each matched against the event as it came from the source; when several match,
+ * later actions win.
+ */
+export interface EventRule {
+  id: string;
+  enabled: boolean;
+  fields: EventRuleField[];
+  matchType: 'keywords' | 'regex';
+  /** Comma-separated keywords (any of them, case-insensitive) or a regular expression */
+  pattern: string;
+  actions: EventRuleActions;
+}
+
+/**
+ * Household changes to one occurrence of an event the app can't edit at its source,
+ * keyed by the occurrence's deterministic ID so they survive re-syncs
+ */
+export interface EventOverride {
+  hidden?: boolean;
+  note?: string;
+  pinned?: boolean;
+  /** Title and day when the override was made, to list it after the event is hidden */
+  title: string;
+  date: string;
+  updatedAt: string;
+}
+
+/** A reminder the household added to one occurrence, kept with enough of the event to fire on its own */
+export interface EventReminder {
+  id: string;
+  eventId: string;
+  title: string;
+  /** ISO start of the occurrence when the reminder was set */
+  start: string;
+  minutesBefore: number;
+  createdAt: string;
+}
+
+/** A person in the household, whose calendars and events can be filtered and colored */
+export interface FamilyMember {
+  id: string;
+  name: string;
+  color: string;
+  /** Picture shown instead of the initials */
+  avatarUrl?: string;
+  /** Calendars whose events all belong to this member */
+  calendarIds: string[];
+  /** Tag events from any calendar whose title mentions the member, e.g. "Dentist - Emma" */
+  matchTitle: boolean;
+  /** Other names to look for in titles, e.g. nicknames */
+  aliases: string[];
+}
+
+/** Something the family shares and can only use for one thing at a time, e.g. the car */
+export interface SharedResource {
+  id: string;
+  name: string;
+  /** Words in an event's title, location or description meaning it needs the resource, e.g. "drive" */
+  keywords: string[];
+}
+
+/** How double-bookings are looked for, and the ones the household waved off */
+export interface ConflictSettings {
+  enabled: boolean;
+  /** Minutes needed between back-to-back events at different locations */
+  bufferMinutes: number;
+  resources: SharedResource[];
+  /** IDs of dismissed conflicts */
+  dismissed: string[];
+}
+
+/** Events with this normalized title are never merged between these calendars */
+export interface MergeExclusion {
+  titleKey: string;
+  calendarIds: string[];
+}
+
+export interface MergeSettings {
+  enabled: boolean;
+  /** Calendar IDs, highest priority first; its copy's fields win in a merged event */
+  calendarPriority: string[];
+  exclusions: MergeExclusion[];
+}
+
+export type ViewMode = 'month' | 'timeline' | 'week' | 'twoWeek' | 'agenda' | 'year' | 'schedule';
+
+/** Which days the timeline lists; saved with each display's settings */
+export interface TimelineOptions {
+  /** Days listed from today on, not counting skipped weekend days */
+  dayCount: number;
+  skipWeekends: boolean;
+  /** When off, the days of the current week before today are listed too */
+  skipPastDays: boolean;
+}
 
 export interface FilterState {
   Personal: boolean;
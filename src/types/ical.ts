@@ -1,3 +1,4 @@
+import type { Event, EventRule } from './calendar';
 
 export interface ICalCalendar {
   id: string;
@@ -9,12 +10,53 @@ export interface ICalCalendar {
   eventCount?: number;
   hasEvents?: boolean;
   source?: string;
+  /**
+   * Where the feed comes from: a subscribed URL (default) or an uploaded .ics file,
+   * which has no URL and is only updated by importing a newer file.
+   */
+  sourceType?: 'url' | 'file' | 'local';
+  /** Name of the last imported file, for file calendars */
+  fileName?: string;
   /**
    * Number of times per day this calendar should auto-sync.
    * 0 or undefined means manual only.
    * Example values: 1,2,4,6,8,12,24
    */
   syncFrequencyPerDay?: number;
+  /**
+   * Rolling expansion horizon for recurring events, in months before and
+   * after today. Undefined falls back to the app defaults (3 back, 18 ahead).
+   */
+  expansionPastMonths?: number;
+  expansionFutureMonths?: number;
+  /** ISO bounds of the range currently expanded into stored occurrences */
+  materializedStart?: string;
+  materializedEnd?: string;
+  /** Household display zone the stored occurrences were formatted for */
+  materializedTimeZone?: string;
+  /** HTTP validators from the last full download, sent back on conditional requests */
+  etag?: string;
+  lastModified?: string;
+  /** Change reports from recent syncs that downloaded a new feed, newest first */
+  syncHistory?: ICalSyncReport[];
+  /** Category for events whose source labels don't map onto one */
+  defaultCategory?: Event['category'];
+  /** Hide, rename, recolor or recategorize events from this calendar */
+  rules?: EventRule[];
+}
+
+/**
+ * Occurrences added, moved, edited or removed by one sync, compared with the previous
+ * sync over the range both expansions cover.
+ */
+export interface ICalSyncReport {
+  syncedAt: string;
+  added: number;
+  moved?: number;
+  edited?: number;
+  /** Moves and edits together, in reports stored before they were told apart */
+  changed?: number;
+  removed: number;
 }
 
 export interface SyncStatus {
@@ -4,6 +4,7 @@ import {
   DatabaseObjectResponse, 
   QueryDatabaseResponse 
 } from '@notionhq/client/build/src/api-endpoints';
+import type { Event, EventRule } from './calendar';
 
 export interface NotionIntegrationToken {
   token: string;
@@ -146,4 +147,6 @@ export interface NotionScrapedCalendar {
   type: 'notion-scraped';
   metadata?: NotionPageMetadata;
   syncFrequencyPerDay?: number; // per-day auto-sync frequency
+  defaultCategory?: Event['category']; // for events whose select values don't map onto one
+  rules?: EventRule[]; // transformation rules applied before display
 }
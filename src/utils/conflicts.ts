@@ -0,0 +1,131 @@
+import { differenceInMinutes, isSameDay } from 'date-fns';
+import { ConflictSettings, Event, FamilyMember, SharedResource } from '@/types/calendar';
+import { compileWordPattern } from '@/utils/familyMembers';
+import { isSpanningEvent } from '@/utils/multiDayLayout';
+
+/** Travel buffers offered in settings, in minutes */
+export const CONFLICT_BUFFER_OPTIONS = [0, 10, 15, 30, 45, 60];
+
+export const DEFAULT_CONFLICT_SETTINGS: ConflictSettings = {
+  enabled: true,
+  bufferMinutes: 15,
+  resources: [],
+  dismissed: []
+};
+
+/**
+ * Two events of one member or resource that clash: `overlap` when they run at the same
+ * time, `travel` when there is too little time to get from one location to the next.
+ */
+export interface EventConflict {
+  /** Stable across refreshes, so a dismissal sticks */
+  id: string;
+  kind: 'overlap' | 'travel';
+  ownerId: string;
+  ownerName: string;
+  first: Event;
+  second: Event;
+  /** Start of the overlap, or the end of the first event for a travel conflict */
+  start: Date;
+  /** Minutes between the two events, for travel conflicts */
+  gapMinutes?: number;
+}
+
+interface ConflictOwner {
+  id: string;
+  name: string;
+  events: Event[];
+}
+
+export const createSharedResource = (name: string): SharedResource => ({
+  id: `resource_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`,
+  name: name.trim(),
+  keywords: []
+});
+
+const normalizeLocation = (location?: string) => (location || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+const getEnd = (event: Event) => new Date(event.end || event.start);
+
+// The same event copied into two calendars, when duplicates aren't merged
+const isSameEvent = (a: Event, b: Event) =>
+  a.title.trim().toLowerCase() === b.title.trim().toLowerCase() &&
+  new Date(a.start).getTime() === new Date(b.start).getTime() &&
+  getEnd(a).getTime() === getEnd(b).getTime();
+
+const getConflictId = (kind: EventConflict['kind'], ownerId: string, a: Event, b: Event) =>
+  `${kind}:${ownerId}:${[String(a.id), String(b.id)].sort().join('|')}`;
+
+const findOwnerConflicts = (owner: ConflictOwner, bufferMinutes: number): EventConflict[] => {
+  const conflicts: EventConflict[] = [];
+  const sorted = [...owner.events].sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+  sorted.forEach((first, index) => {
+    const firstEnd = getEnd(first);
+    for (const second of sorted.slice(index + 1)) {
+      const secondStart = new Date(second.start);
+      const gapMinutes = differenceInMinutes(secondStart, firstEnd);
+      // Later events start later still, so nothing further can clash with `first`
+      if (gapMinutes >= bufferMinutes && secondStart >= firstEnd) break;
+      if (isSameEvent(first, second)) continue;
+
+      const base = { ownerId: owner.id, ownerName: owner.name, first, second };
+      if (secondStart < firstEnd) {
+        conflicts.push({ ...base, id: getConflictId('overlap', owner.id, first, second), kind: 'overlap', start: secondStart });
+      } else {
+        const from = normalizeLocation(first.location);
+        const to = normalizeLocation(second.location);
+        if (from && to && from !== to) {
+          conflicts.push({ ...base, id: getConflictId('travel', owner.id, first, second), kind: 'travel', start: firstEnd, gapMinutes });
+        }
+      }
+    }
+  });
+  return conflicts;
+};
+
+/**
+ * Finds double-bookings among timed events, per family member and per shared resource.
+ * Back-to-back events at different locations clash when fewer than `bufferMinutes` apart;
+ * events without a location are assumed not to need travel.
+ */
+export const detectConflicts = (
+  events: Event[],
+  members: FamilyMember[],
+  resources: SharedResource[],
+  bufferMinutes: number
+): EventConflict[] => {
+  const timed = events.filter(event =>
+    event && !event.allDay && !isSpanningEvent(event) && event.status !== 'cancelled'
+  );
+
+  const owners: ConflictOwner[] = [
+    ...members.map(member => ({
+      id: member.id,
+      name: member.name,
+      events: timed.filter(event => event.memberIds?.includes(member.id))
+    })),
+    ...resources.map(resource => {
+      const pattern = compileWordPattern([resource.name, ...resource.keywords]);
+      return {
+        id: resource.id,
+        name: resource.name,
+        events: pattern
+          ? timed.filter(event => pattern.test(`${event.title}\n${event.location || ''}\n${event.description || ''}`))
+          : []
+      };
+    })
+  ];
+
+  return owners
+    .flatMap(owner => findOwnerConflicts(owner, bufferMinutes))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+export const getConflictsOnDay = (conflicts: EventConflict[], day: Date): EventConflict[] =>
+  conflicts.filter(conflict => isSameDay(conflict.start, day));
+
+/** "Emma: Swim overlaps Piano" or "Car: 10 min from Dentist to Swim" */
+export const describeConflict = (conflict: EventConflict): string =>
+  conflict.kind === 'overlap'
+    ? `${conflict.ownerName}: ${conflict.first.title} overlaps ${conflict.second.title}`
+    : `${conflict.ownerName}: ${conflict.gapMinutes} min from ${conflict.first.title} to ${conflict.second.title}`;
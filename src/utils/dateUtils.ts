@@ -1,11 +1,29 @@
+import { addDays, isWeekend, startOfDay, startOfWeek } from 'date-fns';
+import type { TimelineOptions } from '@/types/calendar';
 
-export const getNext3Days = () => {
-  const today = new Date();
-  const days = [];
-  for (let i = 0; i < 3; i++) {
-    const date = new Date(today);
-    date.setDate(today.getDate() + i);
-    days.push(date);
+/**
+ * Days the timeline lists: `dayCount` days from today, leaving out weekends if asked.
+ * Keeping past days adds the days of the current week before today in front.
+ */
+export const getTimelineDays = (
+  { dayCount, skipWeekends, skipPastDays }: TimelineOptions,
+  today: Date = new Date()
+) => {
+  const first = startOfDay(today);
+  const days: Date[] = [];
+  const include = (day: Date) => !skipWeekends || !isWeekend(day);
+
+  if (!skipPastDays) {
+    for (let day = startOfWeek(first); day < first; day = addDays(day, 1)) {
+      if (include(day)) days.push(day);
+    }
+  }
+
+  let listed = 0;
+  for (let day = first; listed < dayCount; day = addDays(day, 1)) {
+    if (!include(day)) continue;
+    days.push(day);
+    listed++;
   }
   return days;
 };
@@ -0,0 +1,57 @@
+import { Event, FilterState } from '@/types/calendar';
+
+type EventCategory = Event['category'];
+
+export const EVENT_CATEGORIES: EventCategory[] = ['Personal', 'Work', 'Family', 'Kids', 'Holidays'];
+
+export const ALL_CATEGORIES_VISIBLE: FilterState = {
+  Personal: true,
+  Work: true,
+  Family: true,
+  Kids: true,
+  Holidays: true
+};
+
+// Words in source labels (iCal CATEGORIES, Notion selects) that map onto a category
+const CATEGORY_KEYWORDS: Record<EventCategory, string[]> = {
+  Work: ['work', 'business', 'meeting', 'meetings', 'office', 'job', 'client', 'project'],
+  Kids: ['kids', 'kid', 'children', 'child', 'school', 'class', 'homework', 'daycare', 'practice', 'sports', 'playdate'],
+  Family: ['family', 'home', 'household', 'relatives', 'chores'],
+  Holidays: ['holiday', 'holidays', 'vacation', 'observance', 'festival'],
+  Personal: ['personal', 'private', 'health', 'doctor', 'appointment', 'fitness']
+};
+
+const KEYWORD_CATEGORIES = new Map<string, EventCategory>(
+  EVENT_CATEGORIES.flatMap(category => CATEGORY_KEYWORDS[category].map(keyword => [keyword, category] as const))
+);
+
+/**
+ * Category for a set of source labels: the first label that names a category or
+ * contains one of its keywords decides. Undefined when none of them map.
+ */
+export const categorizeFromLabels = (labels: string[] | undefined): EventCategory | undefined => {
+  for (const label of labels || []) {
+    const words = label.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+    for (const word of words) {
+      const category = KEYWORD_CATEGORIES.get(word);
+      if (category) return category;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Fills in categories for display: source labels first, then the calendar's default
+ * category; events with neither keep the category they were created with.
+ */
+export const applyCategoryDefaults = (events: Event[], defaultsByCalendar: Record<string, EventCategory | undefined>): Event[] =>
+  events.map(event => {
+    const category = categorizeFromLabels(event.categories)
+      ?? (event.calendarId ? defaultsByCalendar[event.calendarId] : undefined)
+      ?? event.category;
+    return category === event.category ? event : { ...event, category };
+  });
+
+/** Whether the category filter lets an event through; unknown categories are always shown */
+export const isCategoryVisible = (event: Pick<Event, 'category'>, filter: FilterState): boolean =>
+  filter[event.category] !== false;
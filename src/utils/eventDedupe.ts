@@ -0,0 +1,154 @@
+import { isSameDay } from 'date-fns';
+import { Event, MergeExclusion, MergeSettings } from '@/types/calendar';
+
+export const DEFAULT_MERGE_SETTINGS: MergeSettings = {
+  enabled: true,
+  calendarPriority: [],
+  exclusions: []
+};
+
+// Events without an end are treated as lasting 20 minutes, as elsewhere in the views
+const DEFAULT_DURATION_MS = 20 * 60 * 1000;
+// Share of location words two copies must have in common
+const LOCATION_SIMILARITY_THRESHOLD = 0.3;
+
+/** Title reduced to lower-case words, so "Soccer Practice!" and "soccer  practice" match */
+export const normalizeTitle = (title: string): string =>
+  title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const locationWords = (location: string): Set<string> =>
+  new Set(normalizeTitle(location).split(' ').filter(word => word.length > 1));
+
+/**
+ * Whether two locations can describe the same place: either is blank, one contains the
+ * other, or enough of their words overlap.
+ */
+export const locationsMatch = (a?: string, b?: string): boolean => {
+  const left = normalizeTitle(a || '');
+  const right = normalizeTitle(b || '');
+  if (!left || !right || left.includes(right) || right.includes(left)) return true;
+  const leftWords = locationWords(left);
+  const rightWords = locationWords(right);
+  const shared = [...leftWords].filter(word => rightWords.has(word)).length;
+  const union = new Set([...leftWords, ...rightWords]).size;
+  return union > 0 && shared / union >= LOCATION_SIMILARITY_THRESHOLD;
+};
+
+/**
+ * Whether two copies happen at the same time. Timed copies must overlap; when either
+ * is all-day (e.g. a Notion row without a time) falling on the same day is enough.
+ */
+export const timesMatch = (a: Event, b: Event): boolean => {
+  const aStart = new Date(a.start);
+  const bStart = new Date(b.start);
+  if (a.allDay || b.allDay) return isSameDay(aStart, bStart);
+  const aEnd = a.end ? new Date(a.end).getTime() : aStart.getTime() + DEFAULT_DURATION_MS;
+  const bEnd = b.end ? new Date(b.end).getTime() : bStart.getTime() + DEFAULT_DURATION_MS;
+  return aStart.getTime() < bEnd && bStart.getTime() < aEnd;
+};
+
+const isExcluded = (titleKey: string, a: Event, b: Event, exclusions: MergeExclusion[]): boolean =>
+  exclusions.some(exclusion =>
+    exclusion.titleKey === titleKey &&
+    !!a.calendarId && !!b.calendarId &&
+    exclusion.calendarIds.includes(a.calendarId) &&
+    exclusion.calendarIds.includes(b.calendarId)
+  );
+
+const isDuplicate = (titleKey: string, a: Event, b: Event, exclusions: MergeExclusion[]): boolean =>
+  a.calendarId !== b.calendarId &&
+  timesMatch(a, b) &&
+  locationsMatch(a.location, b.location) &&
+  !isExcluded(titleKey, a, b, exclusions);
+
+/** Winner's fields, with blanks filled from the other copies in priority order */
+const mergeCluster = (cluster: Event[]): Event => {
+  const [winner, ...others] = cluster;
+  const memberIds = [...new Set(cluster.flatMap(event => event.memberIds || []))];
+  const pick = <K extends keyof Event>(key: K): Event[K] => {
+    if (winner[key]) return winner[key];
+    return others.find(other => other[key])?.[key] ?? winner[key];
+  };
+  return {
+    ...winner,
+    location: pick('location'),
+    description: pick('description'),
+    url: pick('url'),
+    organizerEmail: pick('organizerEmail'),
+    attendeeList: pick('attendeeList'),
+    categories: pick('categories'),
+    // Every copy's members, e.g. a game on both kids' team calendars belongs to both
+    memberIds: memberIds.length > 0 ? memberIds : undefined,
+    mergedFrom: cluster.map(event => ({
+      eventId: event.id,
+      calendarId: event.calendarId,
+      calendarName: event.calendarName,
+      color: event.color,
+      source: event.source
+    }))
+  };
+};
+
+/**
+ * Collapses copies of the same event from different calendars into one: same normalized
+ * title, matching times and compatible locations. A calendar contributes at most one copy
+ * to a merged event, and copies from calendars earlier in `calendarPriority` win.
+ */
+export const mergeDuplicateEvents = (events: Event[], settings: MergeSettings = DEFAULT_MERGE_SETTINGS): Event[] => {
+  if (!settings.enabled) return events;
+
+  const byTitle = new Map<string, number[]>();
+  events.forEach((event, index) => {
+    const key = normalizeTitle(event.title);
+    if (!key) return;
+    const indexes = byTitle.get(key);
+    if (indexes) indexes.push(index);
+    else byTitle.set(key, [index]);
+  });
+
+  const rank = (event: Event) => {
+    const position = event.calendarId ? settings.calendarPriority.indexOf(event.calendarId) : -1;
+    return position === -1 ? settings.calendarPriority.length : position;
+  };
+
+  // Index of the first copy of each cluster -> the merged event; other copies are dropped
+  const replacements = new Map<number, Event>();
+  const dropped = new Set<number>();
+
+  byTitle.forEach((indexes, titleKey) => {
+    if (indexes.length < 2) return;
+    const clusters: number[][] = [];
+    indexes.forEach(index => {
+      const event = events[index];
+      const cluster = clusters.find(members =>
+        members.every(member => events[member].calendarId !== event.calendarId) &&
+        members.some(member => isDuplicate(titleKey, events[member], event, settings.exclusions))
+      );
+      if (cluster) cluster.push(index);
+      else clusters.push([index]);
+    });
+
+    clusters.filter(members => members.length > 1).forEach(members => {
+      const ordered = members.map(member => events[member]).sort((a, b) => rank(a) - rank(b));
+      replacements.set(members[0], mergeCluster(ordered));
+      members.slice(1).forEach(member => dropped.add(member));
+    });
+  });
+
+  if (replacements.size === 0) return events;
+  return events.flatMap((event, index) => {
+    if (dropped.has(index)) return [];
+    return [replacements.get(index) ?? event];
+  });
+};
+
+/** Exclusion that keeps the copies of a merged event apart from now on */
+export const createMergeExclusion = (event: Event): MergeExclusion => ({
+  titleKey: normalizeTitle(event.title),
+  calendarIds: [...new Set((event.mergedFrom || []).map(ref => ref.calendarId).filter((id): id is string => !!id))]
+});
@@ -0,0 +1,64 @@
+import * as ICAL from 'ical.js';
+import { addDays, format } from 'date-fns';
+import type { Event } from '@/types/calendar';
+import { getHouseholdTimeZone } from './timeZoneUtils';
+
+// Views hold household wall-clock times, so timed events are written with the household zone
+const toICalTime = (date: Date, isDate: boolean): ICAL.Time =>
+  ICAL.Time.fromData({
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+    hour: isDate ? 0 : date.getHours(),
+    minute: isDate ? 0 : date.getMinutes(),
+    second: 0,
+    isDate
+  });
+
+const addTimeProperty = (vevent: ICAL.Component, name: string, date: Date, allDay: boolean, timeZone: string) => {
+  const property = vevent.addPropertyWithValue(name, toICalTime(date, allDay));
+  if (!allDay) property.setParameter('tzid', timeZone);
+};
+
+/**
+ * Standalone .ics document holding one occurrence, for opening in another calendar app.
+ * The occurrence is exported on its own, without the series' recurrence rule.
+ */
+export const createEventICS = (event: Event, timeZone: string = getHouseholdTimeZone()): string => {
+  const vcalendar = new ICAL.Component('vcalendar');
+  vcalendar.addPropertyWithValue('prodid', '-//Family Calendar//Event Export//EN');
+  vcalendar.addPropertyWithValue('version', '2.0');
+
+  const vevent = new ICAL.Component('vevent');
+  const start = new Date(event.start);
+  vevent.addPropertyWithValue('uid', `${String(event.id)}@family-calendar.local`);
+  vevent.addPropertyWithValue('dtstamp', ICAL.Time.fromJSDate(new Date(), true));
+  vevent.addPropertyWithValue('summary', event.title);
+  addTimeProperty(vevent, 'dtstart', start, event.allDay, timeZone);
+  const end = event.end ? new Date(event.end) : event.allDay ? addDays(start, 1) : undefined;
+  if (end && end > start) addTimeProperty(vevent, 'dtend', end, event.allDay, timeZone);
+  if (event.location) vevent.addPropertyWithValue('location', event.location);
+  const description = [event.description, event.note].filter(Boolean).join('\n\n');
+  if (description) vevent.addPropertyWithValue('description', description);
+  if (event.url) vevent.addPropertyWithValue('url', event.url);
+  if (event.status) vevent.addPropertyWithValue('status', event.status.toUpperCase());
+  vcalendar.addSubcomponent(vevent);
+  return vcalendar.toString();
+};
+
+/** File name for an exported occurrence, e.g. `soccer-practice-2025-03-04.ics` */
+export const getEventFileName = (event: Pick<Event, 'title' | 'date'>): string => {
+  const slug = event.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+  return `${slug || 'event'}-${format(new Date(event.date), 'yyyy-MM-dd')}.ics`;
+};
+
+/** Saves one occurrence as an .ics file through the browser's download */
+export const downloadEventICS = (event: Event): void => {
+  const blob = new Blob([createEventICS(event)], { type: 'text/calendar' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getEventFileName(event);
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,15 @@
+import type { Event, EventOverride } from '@/types/calendar';
+
+/**
+ * Household overrides on top of the source events: hidden occurrences are dropped,
+ * notes and pins are attached. Events without an override are returned unchanged.
+ */
+export const applyEventOverrides = (events: Event[], overrides: Record<string, EventOverride>): Event[] => {
+  if (Object.keys(overrides).length === 0) return events;
+  return events.flatMap(event => {
+    const override = overrides[String(event.id)];
+    if (!override) return [event];
+    if (override.hidden) return [];
+    return [{ ...event, note: override.note, pinned: override.pinned || undefined }];
+  });
+};
@@ -0,0 +1,127 @@
+import { Event, EventRule, EventRuleField } from '@/types/calendar';
+
+type RuleTarget = Pick<Event, EventRuleField>;
+
+/** Rule with its pattern compiled once, ready to test many events */
+interface CompiledRule {
+  rule: EventRule;
+  test: (event: RuleTarget) => boolean;
+  /** Regex used to rewrite just the matched part of the title */
+  titlePattern?: RegExp;
+}
+
+export const EVENT_RULE_FIELDS: EventRuleField[] = ['title', 'description', 'location'];
+
+export const createEventRule = (): EventRule => ({
+  id: `rule_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`,
+  enabled: true,
+  fields: ['title'],
+  matchType: 'keywords',
+  pattern: '',
+  actions: {}
+});
+
+const parseKeywords = (pattern: string): string[] =>
+  pattern.split(',').map(keyword => keyword.trim().toLowerCase()).filter(Boolean);
+
+/** Why a rule's pattern can't be used, or null when it is fine */
+export const validateRulePattern = (rule: Pick<EventRule, 'matchType' | 'pattern'>): string | null => {
+  if (rule.matchType === 'keywords') {
+    return parseKeywords(rule.pattern).length > 0 ? null : 'Enter at least one keyword';
+  }
+  if (!rule.pattern.trim()) return 'Enter a regular expression';
+  try {
+    new RegExp(rule.pattern, 'i');
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression';
+  }
+};
+
+const compileRule = (rule: EventRule): CompiledRule | null => {
+  if (!rule.enabled || rule.fields.length === 0 || validateRulePattern(rule)) return null;
+  const texts = (event: RuleTarget) => rule.fields.map(field => event[field] || '');
+
+  if (rule.matchType === 'keywords') {
+    const keywords = parseKeywords(rule.pattern);
+    return {
+      rule,
+      test: event => texts(event).some(text => {
+        const lower = text.toLowerCase();
+        return keywords.some(keyword => lower.includes(keyword));
+      })
+    };
+  }
+
+  const regex = new RegExp(rule.pattern, 'i');
+  return {
+    rule,
+    test: event => texts(event).some(text => regex.test(text)),
+    titlePattern: rule.fields.includes('title') ? regex : undefined
+  };
+};
+
+const applyActions = (event: Event, compiled: CompiledRule): Event | null => {
+  const { actions, matchType } = compiled.rule;
+  if (actions.hide) return null;
+
+  const next = { ...event };
+  if (actions.title !== undefined) {
+    if (matchType === 'regex') {
+      // Regex rules rewrite the matched text, so only a match in the title changes it
+      if (compiled.titlePattern?.test(event.title)) {
+        next.title = event.title.replace(compiled.titlePattern, actions.title).trim() || event.title;
+      }
+    } else if (actions.title.trim()) {
+      next.title = actions.title.trim();
+    }
+  }
+  if (actions.color) next.color = actions.color;
+  if (actions.category) next.category = actions.category;
+  if (actions.icon) next.icon = actions.icon;
+  return next;
+};
+
+const runRules = (event: Event, compiledRules: CompiledRule[]): Event | null => {
+  // Each rule sees what earlier rules made of the event, so rules can chain
+  let result = event;
+  for (const compiled of compiledRules) {
+    if (!compiled.test(result)) continue;
+    const next = applyActions(result, compiled);
+    if (!next) return null;
+    result = next;
+  }
+  return result;
+};
+
+/**
+ * Applies each calendar's rules to its events, dropping hidden ones. Disabled rules and
+ * rules with an invalid pattern are skipped.
+ */
+export const applyCalendarRules = (events: Event[], rulesByCalendar: Record<string, EventRule[] | undefined>): Event[] => {
+  const compiledByCalendar = new Map<string, CompiledRule[]>();
+  Object.entries(rulesByCalendar).forEach(([calendarId, rules]) => {
+    const compiled = (rules || []).map(compileRule).filter((rule): rule is CompiledRule => rule !== null);
+    if (compiled.length > 0) compiledByCalendar.set(calendarId, compiled);
+  });
+  if (compiledByCalendar.size === 0) return events;
+
+  return events.flatMap(event => {
+    const compiled = event.calendarId ? compiledByCalendar.get(event.calendarId) : undefined;
+    if (!compiled) return [event];
+    const result = runRules(event, compiled);
+    return result ? [result] : [];
+  });
+};
+
+/** Events a single rule matches, for previewing it while it is being edited */
+export const getRuleMatches = <T extends RuleTarget>(events: T[], rule: EventRule): T[] => {
+  const compiled = compileRule({ ...rule, enabled: true });
+  return compiled ? events.filter(event => compiled.test(event)) : [];
+};
+
+/** What a rule turns a matching event into, or null when the rule hides it */
+export const previewRuleResult = (event: Event, rule: EventRule): Event | null => {
+  const compiled = compileRule({ ...rule, enabled: true });
+  return compiled ? applyActions(event, compiled) : event;
+};
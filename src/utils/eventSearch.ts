@@ -0,0 +1,208 @@
+import { addDays, addMonths, addWeeks, startOfDay, startOfMonth, startOfWeek } from 'date-fns';
+import type { Event } from '@/types/calendar';
+import { normalizeTitle } from './eventDedupe';
+
+export type EventSearchSource = NonNullable<Event['source']>;
+
+export interface EventSearchRange {
+  start: Date;
+  /** Exclusive */
+  end: Date;
+  /** The phrase the range was read from, e.g. "next month" */
+  label: string;
+}
+
+export interface EventSearchQuery {
+  /** Normalized words every result has to match */
+  terms: string[];
+  range?: EventSearchRange;
+  sources?: EventSearchSource[];
+}
+
+export interface EventSearchEntry {
+  event: Event;
+  titleWords: string[];
+  /** Words of the description, location and calendar name */
+  detailWords: string[];
+  start: number;
+  end: number;
+}
+
+export interface EventSearchResult {
+  event: Event;
+  score: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Question words carry no meaning for matching: "when is the dentist" looks for "dentist"
+const STOP_WORDS = new Set(['when', 'whens', 'what', 'whats', 'where', 'is', 'are', 'the', 'a', 'an', 'my', 'our', 'on', 'in', 'during', 'at', 'for', 'of']);
+
+const SOURCE_ALIASES: Record<string, EventSearchSource> = {
+  ical: 'ical',
+  feed: 'ical',
+  feeds: 'ical',
+  notion: 'notion',
+  local: 'local',
+  family: 'local'
+};
+
+const words = (text: string | undefined): string[] => (text ? normalizeTitle(text).split(' ').filter(Boolean) : []);
+
+// Phrases read as date filters, tried in order; each maps "now" to a range
+const DATE_PHRASES: Array<{ pattern: RegExp; range: (now: Date, match: RegExpMatchArray) => { start: Date; end: Date } }> = [
+  { pattern: /\btoday\b/, range: now => ({ start: startOfDay(now), end: addDays(startOfDay(now), 1) }) },
+  { pattern: /\btomorrow\b/, range: now => ({ start: addDays(startOfDay(now), 1), end: addDays(startOfDay(now), 2) }) },
+  { pattern: /\byesterday\b/, range: now => ({ start: addDays(startOfDay(now), -1), end: startOfDay(now) }) },
+  {
+    pattern: /\bthis weekend\b/,
+    range: now => {
+      // On a Sunday the weekend is already under way
+      const saturday = now.getDay() === 0 ? addDays(startOfDay(now), -1) : addDays(startOfWeek(now), 6);
+      return { start: saturday, end: addDays(saturday, 2) };
+    }
+  },
+  {
+    pattern: /\b(this|next|last) week\b/,
+    range: (now, match) => {
+      const start = addWeeks(startOfWeek(now), match[1] === 'next' ? 1 : match[1] === 'last' ? -1 : 0);
+      return { start, end: addWeeks(start, 1) };
+    }
+  },
+  {
+    pattern: /\b(this|next|last) month\b/,
+    range: (now, match) => {
+      const start = addMonths(startOfMonth(now), match[1] === 'next' ? 1 : match[1] === 'last' ? -1 : 0);
+      return { start, end: addMonths(start, 1) };
+    }
+  },
+  {
+    // A month name on its own or after "in"/"during" means its next occurrence, this month included;
+    // elsewhere it is a search word ("march madness", "may fair")
+    pattern: new RegExp(`(?<=^\\s*)(${MONTHS.join('|')})(?=\\s*$)|(?<=\\b(?:in|during)\\s+)(${MONTHS.join('|')})\\b`),
+    range: (now, match) => {
+      const month = MONTHS.indexOf(match[1] ?? match[2]);
+      const year = month < now.getMonth() ? now.getFullYear() + 1 : now.getFullYear();
+      const start = new Date(year, month, 1);
+      return { start, end: addMonths(start, 1) };
+    }
+  }
+];
+
+/**
+ * Splits what was typed into search words and filters: date phrases such as "tomorrow",
+ * "next week" or "june", and `source:` / `from:` tokens (ical, notion, local).
+ */
+export const parseSearchQuery = (input: string, now: Date = new Date()): EventSearchQuery => {
+  let text = input.toLowerCase();
+  const query: EventSearchQuery = { terms: [] };
+
+  text = text.replace(/\b(?:source|from):(\w+)/g, (token, name: string) => {
+    const source = SOURCE_ALIASES[name];
+    if (!source) return token;
+    query.sources = [...(query.sources || []), source];
+    return ' ';
+  });
+
+  for (const phrase of DATE_PHRASES) {
+    const match = text.match(phrase.pattern);
+    if (!match) continue;
+    query.range = { ...phrase.range(now, match), label: match[0] };
+    text = text.replace(phrase.pattern, ' ');
+    break;
+  }
+
+  query.terms = words(text).filter(word => !STOP_WORDS.has(word));
+  return query;
+};
+
+/** Search entries for events, one per event ID */
+export const buildSearchIndex = (events: Event[]): EventSearchEntry[] => {
+  const seen = new Set<string>();
+  return events.flatMap(event => {
+    const key = String(event.id);
+    if (seen.has(key)) return [];
+    seen.add(key);
+    const start = new Date(event.start).getTime();
+    const end = event.end ? new Date(event.end).getTime() : start + (event.allDay ? DAY_MS : 60 * 1000);
+    return [{
+      event,
+      titleWords: words(event.title),
+      detailWords: [...words(event.description), ...words(event.location), ...words(event.calendarName)],
+      start,
+      end: Math.max(end, start + 1)
+    }];
+  });
+};
+
+// Levenshtein distance, giving up once it exceeds `max`
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Best match of one search word against a field's words: exact, prefix, contained, then a typo away
+const matchWord = (term: string, fieldWords: string[]): number => {
+  let best = 0;
+  const allowedTypos = term.length >= 7 ? 2 : term.length >= 4 ? 1 : 0;
+  for (const word of fieldWords) {
+    if (word === term) return 4;
+    if (word.startsWith(term)) best = Math.max(best, 3);
+    else if (word.includes(term)) best = Math.max(best, 2);
+    else if (best < 1 && allowedTypos > 0 && editDistance(term, word, allowedTypos) <= allowedTypos) best = 1;
+  }
+  return best;
+};
+
+/**
+ * Events matching every search word, best matches first. Title matches count double;
+ * equal scores list upcoming events soonest first, then past events most recent first.
+ */
+export const searchEvents = (
+  index: EventSearchEntry[],
+  query: EventSearchQuery,
+  now: Date = new Date(),
+  limit = 50
+): EventSearchResult[] => {
+  if (query.terms.length === 0 && !query.range && !query.sources) return [];
+  const time = now.getTime();
+  const results: Array<EventSearchResult & { entry: EventSearchEntry }> = [];
+
+  for (const entry of index) {
+    if (query.sources && !query.sources.includes(entry.event.source || 'ical')) continue;
+    if (query.range && (entry.start >= query.range.end.getTime() || entry.end <= query.range.start.getTime())) continue;
+    let score = 0;
+    let matchesAll = true;
+    for (const term of query.terms) {
+      const termScore = Math.max(matchWord(term, entry.titleWords) * 2, matchWord(term, entry.detailWords));
+      if (termScore === 0) {
+        matchesAll = false;
+        break;
+      }
+      score += termScore;
+    }
+    if (matchesAll) results.push({ event: entry.event, score, entry });
+  }
+
+  return results
+    .sort((a, b) => {
+      if (a.score !== b.score) return b.score - a.score;
+      const aUpcoming = a.entry.end > time;
+      if (aUpcoming !== b.entry.end > time) return aUpcoming ? -1 : 1;
+      return aUpcoming ? a.entry.start - b.entry.start : b.entry.start - a.entry.start;
+    })
+    .slice(0, limit)
+    .map(({ event, score }) => ({ event, score }));
+};
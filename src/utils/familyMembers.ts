@@ -0,0 +1,76 @@
+import { Event, FamilyMember } from '@/types/calendar';
+
+export const createFamilyMember = (name: string, color: string): FamilyMember => ({
+  id: `member_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`,
+  name: name.trim(),
+  color,
+  calendarIds: [],
+  matchTitle: true,
+  aliases: []
+});
+
+/** Up to two initials, e.g. "Mary Ann" -> "MA", "emma" -> "E" */
+export const getMemberInitials = (name: string): string =>
+  name
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(word => word[0].toUpperCase())
+    .join('');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Matches any of `words` as a whole word, case-insensitively, so "Al" doesn't match "Algebra" */
+export const compileWordPattern = (words: string[]): RegExp | null => {
+  const trimmed = words.map(word => word.trim()).filter(Boolean);
+  if (trimmed.length === 0) return null;
+  return new RegExp(`(^|[^\\p{L}\\p{N}])(${trimmed.map(escapeRegExp).join('|')})(?=$|[^\\p{L}\\p{N}])`, 'iu');
+};
+
+const compileTitlePattern = (member: FamilyMember): RegExp | null =>
+  member.matchTitle ? compileWordPattern([member.name, ...member.aliases]) : null;
+
+/**
+ * Tags events with the members they belong to: members assigned to the event's calendar,
+ * plus members whose name appears in the title. Events nobody matches are left untouched.
+ */
+export const assignEventMembers = (events: Event[], members: FamilyMember[]): Event[] => {
+  if (members.length === 0) return events;
+  const byCalendar = new Map<string, string[]>();
+  members.forEach(member => {
+    member.calendarIds.forEach(calendarId => {
+      byCalendar.set(calendarId, [...(byCalendar.get(calendarId) || []), member.id]);
+    });
+  });
+  const titlePatterns = members
+    .map(member => ({ id: member.id, pattern: compileTitlePattern(member) }))
+    .filter((entry): entry is { id: string; pattern: RegExp } => entry.pattern !== null);
+
+  return events.map(event => {
+    const ids = new Set(event.memberIds || []);
+    (event.calendarId ? byCalendar.get(event.calendarId) || [] : []).forEach(id => ids.add(id));
+    titlePatterns.forEach(({ id, pattern }) => {
+      if (pattern.test(event.title || '')) ids.add(id);
+    });
+    if (ids.size === (event.memberIds?.length ?? 0)) return event;
+    // Keep the household's member order so avatars line up the same on every card
+    return { ...event, memberIds: members.filter(member => ids.has(member.id)).map(member => member.id) };
+  });
+};
+
+/** Colors each event like its first member, for telling people apart on a busy week */
+export const colorEventsByMember = (events: Event[], members: FamilyMember[]): Event[] => {
+  const colors = new Map(members.map(member => [member.id, member.color]));
+  return events.map(event => {
+    const color = event.memberIds?.map(id => colors.get(id)).find(Boolean);
+    return color && color !== event.color ? { ...event, color } : event;
+  });
+};
+
+/**
+ * Whether an event passes the member filter. An empty filter shows everything; otherwise
+ * only events of at least one chosen member are shown.
+ */
+export const isMemberVisible = (event: Pick<Event, 'memberIds'>, memberFilter: string[]): boolean =>
+  memberFilter.length === 0 || (event.memberIds || []).some(id => memberFilter.includes(id));
@@ -2,7 +2,7 @@
 
 import { extractAlbumIdFromUrl } from './urlExtractor';
 import { extractImagesFromHtml } from './imageExtractor';
-import { CORS_PROXIES, buildProxyUrl, getProxyHeaders, extractResponseContent } from './corsProxies';
+import { proxyRegistry } from '@/services/proxyRegistry';
 
 export const fetchAlbumImages = async (albumUrl: string): Promise<string[]> => {
   // debug removed: album fetch start and url diagnostics
@@ -88,46 +88,20 @@ const tryDirectAccess = async (albumUrl: string): Promise<string[]> => {
 };
 
 const tryProxyServices = async (albumUrl: string): Promise<string[]> => {
-  for (let i = 0; i < CORS_PROXIES.length; i++) {
-    const proxyConfig = CORS_PROXIES[i];
-  // debug removed: trying proxy attempt
-    
-    try {
-      const fetchUrl = buildProxyUrl(proxyConfig, albumUrl);
-      const fetchOptions: RequestInit = {
-        method: 'GET',
-        headers: getProxyHeaders(proxyConfig)
-      };
-      
-      const response = await fetch(fetchUrl, fetchOptions);
-      
-      if (!response.ok) {
-  // debug removed: proxy failed status
-        continue;
-      }
-      
-      const html = await extractResponseContent(response, proxyConfig);
-      
-  // debug removed: fetched album html length
-      
-      if (html.length < 1000) {
-  // debug removed: insufficient content
-        continue;
-      }
-      
-      const images = extractImagesFromHtml(html);
-      
-      if (images.length > 0) {
-  // debug removed: images found via proxy
-        return images;
+  try {
+    // A proxy that returns a stub page or no images counts as failing for this album
+    return await proxyRegistry.fetchThroughProxies(albumUrl, {
+      headers: { 'Accept': 'application/json, text/html, */*' },
+      read: async (response) => {
+        if (!response.ok) return null;
+        const html = await response.text();
+        if (html.length < 1000) return null;
+        const images = extractImagesFromHtml(html);
+        return images.length > 0 ? images : null;
       }
-      
-  // debug removed: proxy returned no images
-      
-    } catch (error) {
-  // debug removed: proxy failure error
-      continue;
-    }
+    });
+  } catch (error) {
+    console.warn('Google Photos album could not be fetched through any proxy:', error);
   }
   
   // If all proxies failed, throw a comprehensive error
@@ -3,6 +3,9 @@
 
 import type * as ICAL from 'ical.js';
 import type { ICalCalendar, ICalEventOccurrence } from '@/hooks/useICalCalendars';
+import type { ICalSyncReport } from '@/types/ical';
+import type { ExpansionWindow } from './icalExpansionTestable';
+import { parseTimeRange } from './timeUtils';
 
 // Deterministic hash-based ID generator (mirrors hook logic)
 export function generateOccurrenceId(
@@ -20,12 +23,177 @@ export function generateOccurrenceId(
   return `ical_${Math.abs(hash).toString(36)}`;
 }
 
-// Comparison helper to decide if event data changed materially
-export function hasOccurrenceChanged(oldEvt: ICalEventOccurrence, newEvt: ICalEventOccurrence): boolean {
+const timeOf = (d?: Date) => (d ? d.getTime() : undefined);
+
+// The occurrence now starts or ends at a different time
+export function hasOccurrenceMoved(oldEvt: ICalEventOccurrence, newEvt: ICalEventOccurrence): boolean {
   return (
-    oldEvt.description !== newEvt.description ||
-    oldEvt.location !== newEvt.location ||
-    oldEvt.time !== newEvt.time ||
-    oldEvt.organizer !== newEvt.organizer
+    timeOf(oldEvt.start) !== timeOf(newEvt.start) ||
+    timeOf(oldEvt.end) !== timeOf(newEvt.end) ||
+    oldEvt.allDay !== newEvt.allDay
   );
 }
+
+const hasDetailsChanged = (oldEvt: ICalEventOccurrence, newEvt: ICalEventOccurrence): boolean =>
+  oldEvt.title !== newEvt.title ||
+  oldEvt.description !== newEvt.description ||
+  oldEvt.location !== newEvt.location ||
+  oldEvt.organizer !== newEvt.organizer ||
+  oldEvt.status !== newEvt.status;
+
+const isCancelled = (occ: ICalEventOccurrence) => occ.status === 'cancelled';
+
+// Comparison helper to decide if event data changed materially
+export function hasOccurrenceChanged(oldEvt: ICalEventOccurrence, newEvt: ICalEventOccurrence): boolean {
+  return hasOccurrenceMoved(oldEvt, newEvt) || hasDetailsChanged(oldEvt, newEvt);
+}
+
+export interface OccurrenceDiff {
+  added: ICalEventOccurrence[];
+  /** Rescheduled, whether or not their details changed too */
+  moved: ICalEventOccurrence[];
+  /** Same time, different title, description, location, organizer or status */
+  edited: ICalEventOccurrence[];
+  /** Gone from the feed, or kept by it with STATUS:CANCELLED */
+  removed: ICalEventOccurrence[];
+}
+
+// Identity of an instance across syncs: its UID plus RECURRENCE-ID, which stays the same
+// when the instance is rescheduled. The occurrence ID holds the day, so it is only a fallback.
+const getOccurrenceKey = (occ: ICalEventOccurrence): string =>
+  occ.uid && (occ.recurrenceId || !occ.isRecurring) ? `${occ.uid}|${occ.recurrenceId || ''}` : occ.id;
+
+/**
+ * Compare two expansions of the same calendar instance by instance. When a window is
+ * given, only occurrences shown inside it are compared, so instances entering or leaving
+ * a rolling expansion window are not reported as added or removed.
+ */
+export function diffOccurrences(
+  previous: ICalEventOccurrence[],
+  next: ICalEventOccurrence[],
+  window?: ExpansionWindow
+): OccurrenceDiff {
+  const inWindow = (occ: ICalEventOccurrence) =>
+    !window || (occ.date >= window.start && occ.date < window.end);
+  // Occurrences stored before instances carried their RECURRENCE-ID can only be matched by ID
+  const keyOf = previous.some(occ => occ.isRecurring && !occ.recurrenceId)
+    ? (occ: ICalEventOccurrence) => occ.id
+    : getOccurrenceKey;
+  // A cancelled occurrence counts as gone: cancelling reports a removal, reinstating an addition
+  const previousByKey = new Map(previous.filter(occ => inWindow(occ) && !isCancelled(occ)).map(occ => [keyOf(occ), occ]));
+  const diff: OccurrenceDiff = { added: [], moved: [], edited: [], removed: [] };
+
+  next.filter(occ => inWindow(occ) && !isCancelled(occ)).forEach(occ => {
+    const key = keyOf(occ);
+    const before = previousByKey.get(key);
+    if (!before) {
+      diff.added.push(occ);
+    } else {
+      if (hasOccurrenceMoved(before, occ)) {
+        diff.moved.push(occ);
+      } else if (hasDetailsChanged(before, occ)) {
+        diff.edited.push(occ);
+      }
+      previousByKey.delete(key);
+    }
+  });
+  diff.removed = Array.from(previousByKey.values());
+  return diff;
+}
+
+/** Number of sync reports kept per calendar */
+export const SYNC_HISTORY_LIMIT = 10;
+
+/**
+ * Build the report for a sync that downloaded a new feed and prepend it to the history.
+ * Only the range covered by both the previous and the new expansion is compared.
+ */
+export function recordSyncReport(
+  history: ICalSyncReport[] | undefined,
+  previous: ICalEventOccurrence[],
+  next: ICalEventOccurrence[],
+  previousWindow: Partial<ExpansionWindow>,
+  nextWindow: ExpansionWindow,
+  syncedAt: string
+): ICalSyncReport[] {
+  const start = previousWindow.start && previousWindow.start > nextWindow.start ? previousWindow.start : nextWindow.start;
+  const end = previousWindow.end && previousWindow.end < nextWindow.end ? previousWindow.end : nextWindow.end;
+  const diff = diffOccurrences(previous, next, { start, end });
+  const report: ICalSyncReport = {
+    syncedAt,
+    added: diff.added.length,
+    moved: diff.moved.length,
+    edited: diff.edited.length,
+    removed: diff.removed.length
+  };
+  return [report, ...(history || [])].slice(0, SYNC_HISTORY_LIMIT);
+}
+
+/** e.g. "3 new, 1 moved, 1 edited, 2 cancelled" or "No changes" */
+export function formatSyncReport(report: ICalSyncReport): string {
+  const parts = [
+    report.added ? `${report.added} new` : '',
+    report.moved ? `${report.moved} moved` : '',
+    report.edited ? `${report.edited} edited` : '',
+    report.changed ? `${report.changed} changed` : '',
+    report.removed ? `${report.removed} cancelled` : ''
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+}
+
+/**
+ * Display name for a calendar imported from a file: the feed's X-WR-CALNAME when
+ * present, otherwise the file name without its extension.
+ */
+export function getImportedCalendarName(icalData: string, fileName: string): string {
+  // Unfold continuation lines (RFC 5545 3.1) before looking for the property
+  const unfolded = icalData.replace(/\r?\n[ \t]/g, '');
+  const match = unfolded.match(/^X-WR-CALNAME(?:;[^:]*)?:(.*)$/im);
+  const calName = match?.[1].replace(/\\([,;\\])/g, '$1').trim();
+  return calName || fileName.replace(/\.(ics|ical|ifb|icalendar)$/i, '').trim() || 'Imported calendar';
+}
+
+type StoredOccurrence = Omit<ICalEventOccurrence, 'date' | 'start' | 'end' | 'allDay' | 'isRecurring' | 'sourceTimeZone'> & {
+  date: string | Date;
+  start?: string | Date;
+  end?: string | Date;
+  allDay?: boolean;
+  isRecurring?: boolean;
+  sourceTimeZone?: { name: string; start: string | Date };
+  /** Preformatted time text written by versions before structured times */
+  time?: string;
+};
+
+/**
+ * Restore Date fields of an occurrence read back from JSON storage. Entries stored before
+ * structured times existed only have a `time` string, which is parsed once here.
+ */
+export function reviveStoredOccurrence(stored: StoredOccurrence): ICalEventOccurrence {
+  const { time, ...rest } = stored;
+  const date = new Date(stored.date);
+  if (stored.start) {
+    return {
+      ...rest,
+      date,
+      start: new Date(stored.start),
+      end: stored.end ? new Date(stored.end) : undefined,
+      allDay: !!stored.allDay,
+      isRecurring: !!stored.isRecurring,
+      isMultiDay: !!stored.isMultiDay,
+      sourceTimeZone: stored.sourceTimeZone
+        ? { name: stored.sourceTimeZone.name, start: new Date(stored.sourceTimeZone.start) }
+        : undefined
+    };
+  }
+  const { start, end, allDay } = parseTimeRange(date, time);
+  return {
+    ...rest,
+    date,
+    start,
+    end,
+    allDay: allDay || !!stored.isMultiDay,
+    isRecurring: !!time && time.includes('Recurring'),
+    isMultiDay: !!stored.isMultiDay,
+    sourceTimeZone: undefined
+  };
+}
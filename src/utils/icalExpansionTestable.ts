@@ -1,102 +1,457 @@
 import * as ICAL from 'ical.js';
 import { ICalCalendar, ICalEventOccurrence } from '@/hooks/useICalCalendars';
 import { generateOccurrenceId } from './icalEventUtils';
+import { categorizeFromLabels } from './eventCategories';
+import type { EventAttendee, EventStatus, EventVisibility, SourceTimeZone } from '@/types/calendar';
+import {
+  formatUtcOffset,
+  getHouseholdTimeZone,
+  getZoneAbbreviation,
+  getZoneOffsetMinutes,
+  isValidTimeZone,
+  toZoneWallTime
+} from './timeZoneUtils';
+
+// Safety caps per master event: occurrences kept inside the window, and raw iterator steps
+// (long-running series may need many steps before reaching the requested window)
+const MAX_OCCURRENCES = 1000;
+const MAX_ITERATIONS = 50000;
+
+/** Half-open date range [start, end) that occurrences are materialized for */
+export interface ExpansionWindow {
+  start: Date;
+  end: Date;
+}
+
+/** Default rolling horizon used when a calendar has no explicit setting */
+export const DEFAULT_EXPANSION_PAST_MONTHS = 3;
+export const DEFAULT_EXPANSION_FUTURE_MONTHS = 18;
+
+/**
+ * Build a rolling window around a reference date, aligned to whole months so that a
+ * month view is either fully materialized or not at all.
+ */
+export function createExpansionWindow(
+  pastMonths: number = DEFAULT_EXPANSION_PAST_MONTHS,
+  futureMonths: number = DEFAULT_EXPANSION_FUTURE_MONTHS,
+  reference: Date = new Date()
+): ExpansionWindow {
+  return {
+    start: new Date(reference.getFullYear(), reference.getMonth() - Math.max(0, pastMonths), 1),
+    end: new Date(reference.getFullYear(), reference.getMonth() + Math.max(0, futureMonths) + 1, 1)
+  };
+}
+
+/** Window derived from a calendar's own horizon settings */
+export function getCalendarExpansionWindow(
+  calendar: Pick<ICalCalendar, 'expansionPastMonths' | 'expansionFutureMonths'>,
+  reference: Date = new Date()
+): ExpansionWindow {
+  return createExpansionWindow(
+    calendar.expansionPastMonths ?? DEFAULT_EXPANSION_PAST_MONTHS,
+    calendar.expansionFutureMonths ?? DEFAULT_EXPANSION_FUTURE_MONTHS,
+    reference
+  );
+}
 
 // Determine if event spans multiple all-day days
 export function isMultiDayEvent(event: ICAL.Event): boolean {
   try {
     if (!event.startDate || !event.endDate) return false;
-    if (event.startDate.isDate && event.endDate.isDate) {
-      const start = event.startDate.toJSDate();
-      const end = event.endDate.toJSDate();
-      const diffDays = Math.ceil((end.getTime() - start.getTime()) / 86400000);
-      return diffDays > 1;
-    }
+    return isMultiDaySpan(event.startDate, event.endDate);
+  } catch {
     return false;
+  }
+}
+
+function isMultiDaySpan(start: ICAL.Time, end: ICAL.Time): boolean {
+  if (!start || !end || !start.isDate || !end.isDate) return false;
+  const diffDays = Math.ceil((end.toJSDate().getTime() - start.toJSDate().getTime()) / 86400000);
+  return diffDays > 1;
+}
+
+const isInWindow = (d: Date, window: ExpansionWindow) => d >= window.start && d < window.end;
+
+const isCancelled = (event: ICAL.Event): boolean => {
+  try {
+    const status = event.component.getFirstPropertyValue('status');
+    return typeof status === 'string' && status.toUpperCase() === 'CANCELLED';
   } catch {
     return false;
   }
+};
+
+// Floating times (no TZID) are already wall-clock times in the household zone
+const isFloatingTime = (time: ICAL.Time): boolean =>
+  !time.zone || time.zone === ICAL.Timezone.localTimezone || time.zone.tzid === 'floating';
+
+// Zones that carry no meaningful "original" location to show alongside the household time
+const NEUTRAL_ZONES = new Set(['UTC', 'Z', 'GMT', 'floating']);
+
+/**
+ * The event's own wall-clock start when its zone differs from the display zone at that
+ * instant, so it can be shown as e.g. "(12:00 PM PDT)". Undefined for UTC and floating times.
+ */
+function getSourceTimeZone(start: ICAL.Time, instant: Date, timeZone: string): SourceTimeZone | undefined {
+  try {
+    const tzid: string | undefined = start.zone?.tzid;
+    if (!tzid || NEUTRAL_ZONES.has(tzid) || start.zone === ICAL.Timezone.localTimezone) return undefined;
+    const originalOffset = Math.round(start.utcOffset() / 60);
+    if (originalOffset === getZoneOffsetMinutes(instant, timeZone)) return undefined;
+    return {
+      name: isValidTimeZone(tzid) ? getZoneAbbreviation(instant, tzid) : formatUtcOffset(originalOffset),
+      start: new Date(start.year, start.month - 1, start.day, start.hour, start.minute)
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+type EventDetails = Pick<
+  ICalEventOccurrence,
+  'attendees' | 'attendeeList' | 'organizer' | 'organizerEmail' | 'status' | 'categories' | 'url' | 'visibility' | 'alarms'
+>;
+
+const EVENT_STATUSES = new Set<EventStatus>(['confirmed', 'tentative', 'cancelled']);
+const EVENT_VISIBILITIES = new Set<EventVisibility>(['public', 'private', 'confidential']);
+
+const stripMailto = (value: unknown): string | undefined => {
+  const text = typeof value === 'string' ? value.trim() : '';
+  return text ? text.replace(/^mailto:/i, '') : undefined;
+};
+
+const lowerParam = (prop: ICAL.Property, name: string): string | undefined => {
+  const value = prop.getParameter(name);
+  return typeof value === 'string' && value ? value.toLowerCase() : undefined;
+};
+
+/**
+ * Minutes before the start of each VALARM. Triggers relative to the end are moved by the
+ * event's length, and absolute triggers are measured against the series' first start so
+ * every occurrence keeps the same lead.
+ */
+function readAlarms(event: ICAL.Event): number[] {
+  const minutes = event.component.getAllSubcomponents('valarm').flatMap((alarm: ICAL.Component) => {
+    const triggerProp: ICAL.Property | null = alarm.getFirstProperty('trigger');
+    const trigger = triggerProp?.getFirstValue();
+    if (!trigger) return [];
+    if (trigger instanceof ICAL.Duration) {
+      let seconds = -trigger.toSeconds();
+      if (lowerParam(triggerProp as ICAL.Property, 'related') === 'end' && event.duration) {
+        seconds -= event.duration.toSeconds();
+      }
+      return [Math.round(seconds / 60)];
+    }
+    if (trigger instanceof ICAL.Time && event.startDate) {
+      return [Math.round((event.startDate.toJSDate().getTime() - trigger.toJSDate().getTime()) / 60000)];
+    }
+    return [];
+  });
+  return Array.from(new Set<number>(minutes)).sort((a, b) => a - b);
+}
+
+/**
+ * People, status, categories, link, classification and alarms of a VEVENT (or of the
+ * override for a moved instance). Malformed properties are skipped rather than failing the event.
+ */
+function readEventDetails(event: ICAL.Event, calendar: ICalCalendar): EventDetails {
+  const component: ICAL.Component = event.component;
+  const details: EventDetails = { attendees: 0, organizer: calendar.name };
+  try {
+    const attendeeList: EventAttendee[] = component.getAllProperties('attendee').map((prop: ICAL.Property) => {
+      const name = prop.getParameter('cn');
+      return {
+        name: typeof name === 'string' && name ? name : undefined,
+        email: stripMailto(prop.getFirstValue()),
+        status: lowerParam(prop, 'partstat'),
+        role: lowerParam(prop, 'role')
+      };
+    });
+    if (attendeeList.length > 0) {
+      details.attendees = attendeeList.length;
+      details.attendeeList = attendeeList;
+    }
+
+    const organizer: ICAL.Property | null = component.getFirstProperty('organizer');
+    if (organizer) {
+      const name = organizer.getParameter('cn');
+      details.organizerEmail = stripMailto(organizer.getFirstValue());
+      details.organizer = (typeof name === 'string' && name) || details.organizerEmail || calendar.name;
+    }
+
+    const status = String(component.getFirstPropertyValue('status') || '').toLowerCase() as EventStatus;
+    if (EVENT_STATUSES.has(status)) details.status = status;
+
+    const visibility = String(component.getFirstPropertyValue('class') || '').toLowerCase() as EventVisibility;
+    if (EVENT_VISIBILITIES.has(visibility)) details.visibility = visibility;
+
+    const categories = component.getAllProperties('categories')
+      .flatMap((prop: ICAL.Property) => prop.getValues())
+      .map((value: unknown) => String(value).trim())
+      .filter(Boolean);
+    if (categories.length > 0) details.categories = Array.from(new Set<string>(categories));
+
+    const url = component.getFirstPropertyValue('url');
+    if (typeof url === 'string' && /^https?:\/\//i.test(url.trim())) details.url = url.trim();
+
+    const alarms = readAlarms(event);
+    if (alarms.length > 0) details.alarms = alarms;
+  } catch {/* keep whatever was read before the malformed property */}
+  return details;
 }
 
-const isEventInYear = (d: Date, year: number) => d.getFullYear() === year;
+// Per-event color (RFC 7986 COLOR); only values that are safe to use as a CSS color
+const readEventColor = (event: ICAL.Event): string | undefined => {
+  const color = event.component.getFirstPropertyValue('color');
+  return typeof color === 'string' && /^(#[0-9a-f]{3,8}|[a-z]+)$/i.test(color.trim()) ? color.trim() : undefined;
+};
 
-function createOccurrence(event: ICAL.Event, calendar: ICalCalendar, eventDate: Date, isRecurring: boolean, isMultiDay: boolean): ICalEventOccurrence {
-  let timeString = 'All day';
+function createOccurrence(
+  event: ICAL.Event,
+  calendar: ICalCalendar,
+  eventDate: Date,
+  isRecurring: boolean,
+  isMultiDay: boolean,
+  timeZone: string,
+  startTime?: ICAL.Time,
+  endTime?: ICAL.Time
+): ICalEventOccurrence {
+  const startValue = startTime || event.startDate;
+  const endValue = endTime || event.endDate;
+  const allDay = !startValue || startValue.isDate;
+  let start = eventDate;
+  let end: Date | undefined;
+  let displayDate = eventDate;
+  let sourceTimeZone: SourceTimeZone | undefined;
   try {
-    if (event.startDate && !event.startDate.isDate) {
-      const endDate = event.endDate ? event.endDate.toJSDate() : eventDate;
-      timeString = `${eventDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} - ${endDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
-    } else if (isMultiDay) {
-      timeString = 'All day (Multi-day)';
+    if (!allDay) {
+      // Timed instants are stored as household wall-clock times so views place them on the right day;
+      // floating times and the household's own local events already are one
+      const onHouseholdClock = (time: ICAL.Time) => calendar.sourceType === 'local' || isFloatingTime(time);
+      start = onHouseholdClock(startValue) ? eventDate : toZoneWallTime(eventDate, timeZone);
+      end = endValue
+        ? onHouseholdClock(endValue) ? endValue.toJSDate() : toZoneWallTime(endValue.toJSDate(), timeZone)
+        : undefined;
+      displayDate = start;
+      sourceTimeZone = getSourceTimeZone(startValue, eventDate, timeZone);
+    } else if (startValue) {
+      // All-day spans keep their full range; `date` is the day this copy is shown on
+      start = startValue.toJSDate();
+      end = endValue ? endValue.toJSDate() : undefined;
     }
-  } catch {/* intentionally ignore formatting errors */}
-  if (isRecurring && !timeString.includes('Recurring')) timeString = `${timeString} (Recurring)`;
+  } catch {/* keep the occurrence on its day if conversion fails */}
+  const details = readEventDetails(event, calendar);
+  const recurrenceId = event.component.getFirstPropertyValue('recurrence-id');
   return {
-    id: generateOccurrenceId(event, calendar, eventDate, isMultiDay),
+    id: generateOccurrenceId(event, calendar, displayDate, isMultiDay),
+    uid: event.uid || undefined,
     title: (event.summary as string) || 'Untitled Event',
-    time: timeString,
+    start,
+    end,
+    allDay,
+    isRecurring,
+    recurrenceId: recurrenceId ? recurrenceId.toString() : undefined,
+    isMultiDay,
+    sourceTimeZone,
     location: (event.location as string) || '',
-    attendees: 0,
-    category: 'Personal',
-    color: calendar.color,
+    category: categorizeFromLabels(details.categories) ?? calendar.defaultCategory ?? 'Personal',
+    color: readEventColor(event) || calendar.color,
     description: (event.description as string) || '',
-    organizer: calendar.name,
-    date: eventDate,
+    ...details,
+    date: displayDate,
     calendarId: calendar.id,
     calendarName: calendar.name,
-    source: 'ical',
-    isMultiDay
+    source: calendar.sourceType === 'local' ? 'local' : 'ical'
   };
 }
 
-export function generateMultiDayOccurrences(event: ICAL.Event, calendar: ICalCalendar, year: number): ICalEventOccurrence[] {
+// Emit a single occurrence per span; multi-day spans are kept whole (start/end) and laid out by the views
+function expandSpan(
+  event: ICAL.Event,
+  calendar: ICalCalendar,
+  start: ICAL.Time,
+  end: ICAL.Time,
+  window: ExpansionWindow,
+  isRecurring: boolean,
+  timeZone: string
+): ICalEventOccurrence[] {
+  const startDate = start.toJSDate();
+  if (!isMultiDaySpan(start, end)) {
+    return isInWindow(startDate, window)
+      ? [createOccurrence(event, calendar, startDate, isRecurring, false, timeZone, start, end)]
+      : [];
+  }
+  // Spans that began before the window still cover visible days
+  const endDate = end.toJSDate();
+  if (startDate >= window.end || endDate <= window.start) return [];
+  return [createOccurrence(event, calendar, startDate, isRecurring, true, timeZone, start, end)];
+}
+
+export function generateMultiDayOccurrences(
+  event: ICAL.Event,
+  calendar: ICalCalendar,
+  window: ExpansionWindow,
+  timeZone: string = getHouseholdTimeZone()
+): ICalEventOccurrence[] {
+  try {
+    return expandSpan(event, calendar, event.startDate, event.endDate || event.startDate, window, false, timeZone);
+  } catch {
+    const fallback = event.startDate ? event.startDate.toJSDate() : new Date();
+    return isInWindow(fallback, window) ? [createOccurrence(event, calendar, fallback, false, false, timeZone)] : [];
+  }
+}
+
+/**
+ * Collects EXDATE values as lookup keys. ical.js' own exclusion check silently misses
+ * consecutive EXDATEs and DATE-valued exclusions on timed series, so we filter again.
+ */
+function collectExclusions(event: ICAL.Event): { exact: Set<number>; days: Set<string> } {
+  const exact = new Set<number>();
+  const days = new Set<string>();
+  try {
+    event.component.getAllProperties('exdate').forEach((prop: ICAL.Property) => {
+      prop.getValues().forEach((value: ICAL.Time) => {
+        if (!value) return;
+        if (value.isDate) {
+          days.add(dayKey(value));
+        } else {
+          exact.add(value.toUnixTime());
+        }
+      });
+    });
+  } catch {/* malformed EXDATE: rely on ical.js handling */}
+  return { exact, days };
+}
+
+const dayKey = (t: ICAL.Time) => `${t.year}-${t.month}-${t.day}`;
+
+function isExcluded(occurrence: ICAL.Time, exclusions: { exact: Set<number>; days: Set<string> }): boolean {
+  if (exclusions.days.size > 0 && exclusions.days.has(dayKey(occurrence))) return true;
+  return exclusions.exact.size > 0 && exclusions.exact.has(occurrence.toUnixTime());
+}
+
+/**
+ * Expand a single VEVENT into occurrences inside the given window following RFC 5545:
+ * RRULE and RDATE instances are generated, EXDATE instances removed, and instances
+ * with a related RECURRENCE-ID override take the override's title, time and location.
+ * Overrides marked STATUS:CANCELLED remove their instance.
+ */
+export function expandRecurringEvent(
+  event: ICAL.Event,
+  calendar: ICalCalendar,
+  window: ExpansionWindow,
+  timeZone: string = getHouseholdTimeZone()
+): ICalEventOccurrence[] {
   const occurrences: ICalEventOccurrence[] = [];
   try {
-    if (!isMultiDayEvent(event)) {
-      const d = event.startDate.toJSDate();
-      if (isEventInYear(d, year)) occurrences.push(createOccurrence(event, calendar, d, false, false));
-      return occurrences;
+    if (!event.isRecurring()) {
+      return generateMultiDayOccurrences(event, calendar, window, timeZone);
     }
-    const start = event.startDate.toJSDate();
-    const end = event.endDate.toJSDate();
-    const current = new Date(start);
-    while (current < end && isEventInYear(current, year)) {
-      occurrences.push(createOccurrence(event, calendar, new Date(current), false, true));
-      current.setDate(current.getDate() + 1);
+    const exclusions = collectExclusions(event);
+    const rrule = event.component.getFirstPropertyValue('rrule');
+    const recurrenceRule = rrule ? rrule.toString() : undefined;
+    const iterator = event.iterator();
+    let next: ICAL.Time;
+    let steps = 0;
+    let kept = 0;
+    while ((next = iterator.next()) && steps < MAX_ITERATIONS && kept < MAX_OCCURRENCES) {
+      steps++;
+      if (isExcluded(next, exclusions)) continue;
+      const details = event.getOccurrenceDetails(next);
+      const item: ICAL.Event = details.item || event;
+      const start: ICAL.Time = details.startDate;
+      const end: ICAL.Time = details.endDate || details.startDate;
+      // Overrides can move an instance across the window boundary, so test the resolved span
+      const spanStart = start.toJSDate();
+      const spanEnd = end.toJSDate();
+      if (next.toJSDate() >= window.end && spanStart >= window.end) break;
+      if (item !== event && isCancelled(item)) continue;
+      if (spanEnd < window.start) continue;
+      kept++;
+      // Overrides carry no RRULE of their own; every instance reports the master's rule
+      const recurrenceId = next.toString();
+      occurrences.push(...expandSpan(item, calendar, start, end, window, true, timeZone)
+        .map(occurrence => ({ ...occurrence, recurrenceRule, recurrenceId })));
     }
   } catch {
     const fallback = event.startDate ? event.startDate.toJSDate() : new Date();
-    if (isEventInYear(fallback, year)) occurrences.push(createOccurrence(event, calendar, fallback, false, false));
+    if (isInWindow(fallback, window)) occurrences.push(createOccurrence(event, calendar, fallback, false, false, timeZone));
   }
   return occurrences;
 }
 
-export function expandRecurringEvent(event: ICAL.Event, calendar: ICalCalendar, year: number): ICalEventOccurrence[] {
-  const yearStart = new Date(year, 0, 1);
-  const yearEnd = new Date(year, 11, 31);
+/**
+ * Register the feed's VTIMEZONE definitions so TZID-qualified times resolve to the
+ * right instant instead of being read as floating local times. Must run before any
+ * property values of the feed are decoded.
+ */
+export function registerFeedTimezones(vcalendar: ICAL.Component): void {
+  vcalendar.getAllSubcomponents('vtimezone').forEach((vtimezone: ICAL.Component) => {
+    try {
+      ICAL.TimezoneService.register(vtimezone);
+    } catch (error) {
+      console.warn('Skipping invalid VTIMEZONE:', error);
+    }
+  });
+}
+
+/**
+ * Expand every VEVENT in a parsed VCALENDAR. Override components (RECURRENCE-ID) are
+ * attached to the master sharing their UID instead of being expanded on their own, so
+ * moved instances appear once. Overrides whose master is missing from the feed are kept
+ * as standalone events unless cancelled. Cancelled one-off events are kept with
+ * `status: 'cancelled'` so views can strike them through. Timed events are shown in `timeZone`.
+ */
+export function expandCalendarEvents(
+  vcalendar: ICAL.Component,
+  calendar: ICalCalendar,
+  window: ExpansionWindow,
+  timeZone: string = getHouseholdTimeZone()
+): ICalEventOccurrence[] {
+  registerFeedTimezones(vcalendar);
+  const vevents: ICAL.Component[] = vcalendar.getAllSubcomponents('vevent');
+  const masters: ICAL.Component[] = [];
+  const overridesByUid = new Map<string, ICAL.Component[]>();
+
+  vevents.forEach((vevent) => {
+    if (vevent.hasProperty('recurrence-id')) {
+      const uid = String(vevent.getFirstPropertyValue('uid') || '');
+      const list = overridesByUid.get(uid) || [];
+      list.push(vevent);
+      overridesByUid.set(uid, list);
+    } else {
+      masters.push(vevent);
+    }
+  });
+
   const occurrences: ICalEventOccurrence[] = [];
-  try {
-    if (event.isRecurring()) {
-      const iterator = event.iterator();
-      let next; let count = 0; const max = 366;
-      while ((next = iterator.next()) && count < max) {
-        const od = next.toJSDate();
-        if (od >= yearStart && od <= yearEnd) {
-          if (isMultiDayEvent(event)) {
-            occurrences.push(...generateMultiDayOccurrences(event, calendar, year));
-          } else {
-            occurrences.push(createOccurrence(event, calendar, od, true, false));
-          }
+  const masterUids = new Set<string>();
+
+  masters.forEach((vevent) => {
+    const uid = String(vevent.getFirstPropertyValue('uid') || '');
+    masterUids.add(uid);
+    try {
+      const exceptions = (overridesByUid.get(uid) || []).map((c) => new ICAL.Event(c));
+      const event = new ICAL.Event(vevent, { strictExceptions: true, exceptions });
+      occurrences.push(...expandRecurringEvent(event, calendar, window, timeZone));
+    } catch (error) {
+      console.warn('Error expanding iCal event:', error);
+    }
+  });
+
+  overridesByUid.forEach((components, uid) => {
+    if (masterUids.has(uid)) return;
+    components.forEach((component) => {
+      try {
+        const orphan = new ICAL.Event(component, { exceptions: [] });
+        if (!isCancelled(orphan)) {
+          occurrences.push(...generateMultiDayOccurrences(orphan, calendar, window, timeZone));
         }
-        if (od > yearEnd) break;
-        count++;
+      } catch (error) {
+        console.warn('Error expanding orphaned iCal override:', error);
       }
-    } else {
-      occurrences.push(...generateMultiDayOccurrences(event, calendar, year));
-    }
-  } catch {
-    const fallback = event.startDate ? event.startDate.toJSDate() : new Date();
-    if (isEventInYear(fallback, year)) occurrences.push(createOccurrence(event, calendar, fallback, false, false));
-  }
+    });
+  });
+
   return occurrences;
 }
@@ -1,10 +1,14 @@
 
-import { Event } from '@/types/calendar';
+import { Event, EventOverride } from '@/types/calendar';
 import { settingsStorageService } from '@/services/settingsStorageService';
+import { calendarStorageService } from '@/services/calendarStorage';
+import { eventOverrideStore } from '@/services/eventOverrideStore';
 
 interface ExportData {
   events: Event[];
   settings: unknown;
+  // Hides, notes and pins on feed events (added after 2.0; absent in older backups)
+  eventOverrides?: Record<string, EventOverride>;
   exportDate: string;
   version: string;
 }
@@ -21,6 +25,7 @@ class LocalDataManager {
       const exportData: ExportData = {
         events,
         settings,
+        eventOverrides: eventOverrideStore.getAll(),
         exportDate: new Date().toISOString(),
         version: '2.0'
       };
@@ -60,6 +65,10 @@ class LocalDataManager {
                 }
               }
             }
+
+            if (importData.eventOverrides) {
+              eventOverrideStore.replaceAll(importData.eventOverrides);
+            }
             
             resolve();
           } else {
@@ -80,6 +89,8 @@ class LocalDataManager {
       localStorage.removeItem('family_calendar_events');
       localStorage.removeItem('family_calendar_events_version');
       localStorage.removeItem('family_calendar_ical_events');
+      await calendarStorageService.clearOccurrences();
+      eventOverrideStore.replaceAll({});
       
       // Clear settings cache
       settingsStorageService.clearCache();
@@ -0,0 +1,263 @@
+import * as ICAL from 'ical.js';
+import { addDays, format } from 'date-fns';
+import type { Event } from '@/types/calendar';
+import { EVENT_CATEGORIES } from './eventCategories';
+
+/** The household's own calendar; its events are written by the app instead of a feed */
+export const LOCAL_CALENDAR_ID = 'local_calendar';
+export const LOCAL_CALENDAR_NAME = 'Family Calendar';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+/** iCal weekday codes in `Date.getDay()` order */
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQUENCIES: Record<RecurrenceFrequency, string> = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY',
+  yearly: 'YEARLY'
+};
+
+export interface LocalRecurrence {
+  frequency: RecurrenceFrequency;
+  /** Repeat every `interval` days/weeks/months/years */
+  interval: number;
+  /** Weekdays of a weekly rule; empty repeats on the start's weekday */
+  byDay: Weekday[];
+  /** Last day of the series, inclusive */
+  until?: Date;
+  /** Number of occurrences; ignored when `until` is set */
+  count?: number;
+}
+
+/** Editable fields of a local event; `start`/`end` are household wall-clock times */
+export interface LocalEventDraft {
+  /** Set when editing an existing event */
+  uid?: string;
+  title: string;
+  start: Date;
+  /** Exclusive end; the day after the last day for all-day events */
+  end: Date;
+  allDay: boolean;
+  location: string;
+  description: string;
+  /** Overrides the calendar color when set */
+  color?: string;
+  category: Event['category'];
+  recurrence?: LocalRecurrence;
+}
+
+/** New event on a day: 9:00-10:00, family category, no recurrence */
+export const createLocalEventDraft = (day: Date): LocalEventDraft => {
+  const start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 9);
+  return {
+    title: '',
+    start,
+    end: new Date(start.getTime() + 60 * 60 * 1000),
+    allDay: false,
+    location: '',
+    description: '',
+    category: 'Family'
+  };
+};
+
+/** New local event copying one occurrence of another event, e.g. to keep a school event in the Family Calendar */
+export const createLocalEventDraftFrom = (
+  event: Pick<Event, 'title' | 'start' | 'end' | 'allDay' | 'location' | 'description' | 'category'>
+): LocalEventDraft => {
+  const start = new Date(event.start);
+  const fallbackEnd = event.allDay ? addDays(start, 1) : new Date(start.getTime() + 60 * 60 * 1000);
+  return {
+    title: event.title,
+    start,
+    end: event.end && new Date(event.end) > start ? new Date(event.end) : fallbackEnd,
+    allDay: event.allDay,
+    location: event.location || '',
+    description: event.description || '',
+    category: event.category
+  };
+};
+
+// Local events are stored as floating times so a weekly 9:00 stays 9:00 across DST changes
+const toICalTime = (date: Date, isDate: boolean): ICAL.Time =>
+  ICAL.Time.fromData({
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+    hour: isDate ? 0 : date.getHours(),
+    minute: isDate ? 0 : date.getMinutes(),
+    second: 0,
+    isDate
+  });
+
+const fromICalTime = (time: ICAL.Time): Date =>
+  new Date(time.year, time.month - 1, time.day, time.isDate ? 0 : time.hour, time.isDate ? 0 : time.minute);
+
+/** RRULE value for a recurrence, e.g. `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10` */
+export const buildRRule = (recurrence: LocalRecurrence, allDay: boolean): string => {
+  const parts = [`FREQ=${FREQUENCIES[recurrence.frequency]}`];
+  if (recurrence.interval > 1) parts.push(`INTERVAL=${Math.floor(recurrence.interval)}`);
+  if (recurrence.frequency === 'weekly' && recurrence.byDay.length > 0) {
+    parts.push(`BYDAY=${WEEKDAYS.filter(day => recurrence.byDay.includes(day)).join(',')}`);
+  }
+  if (recurrence.until) {
+    // UNTIL has to match DTSTART's type; a floating date-time covers the whole last day
+    parts.push(`UNTIL=${format(recurrence.until, allDay ? 'yyyyMMdd' : "yyyyMMdd'T'235959")}`);
+  } else if (recurrence.count && recurrence.count > 0) {
+    parts.push(`COUNT=${Math.floor(recurrence.count)}`);
+  }
+  return parts.join(';');
+};
+
+/**
+ * Recurrence described by an RRULE value, or undefined when it uses parts the builder
+ * can't represent (hourly rules, BYMONTHDAY lists and the like).
+ */
+export const parseRRule = (value: string): LocalRecurrence | undefined => {
+  const parts = new Map(value.split(';').map(part => {
+    const [key, ...rest] = part.split('=');
+    return [key.toUpperCase(), rest.join('=')] as const;
+  }));
+  const frequency = (Object.keys(FREQUENCIES) as RecurrenceFrequency[]).find(key => FREQUENCIES[key] === parts.get('FREQ'));
+  if (!frequency) return undefined;
+  const supported = new Set(['FREQ', 'INTERVAL', 'BYDAY', 'UNTIL', 'COUNT', 'WKST']);
+  if ([...parts.keys()].some(key => !supported.has(key))) return undefined;
+
+  const byDay = (parts.get('BYDAY') || '').split(',').filter(Boolean);
+  if (byDay.some(day => !WEEKDAYS.includes(day as Weekday)) || (byDay.length > 0 && frequency !== 'weekly')) return undefined;
+
+  const untilMatch = /^(\d{4})(\d{2})(\d{2})/.exec(parts.get('UNTIL') || '');
+  const count = Number(parts.get('COUNT'));
+  return {
+    frequency,
+    interval: Math.max(1, Number(parts.get('INTERVAL')) || 1),
+    byDay: byDay as Weekday[],
+    until: untilMatch ? new Date(Number(untilMatch[1]), Number(untilMatch[2]) - 1, Number(untilMatch[3])) : undefined,
+    count: count > 0 ? count : undefined
+  };
+};
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year'
+};
+
+/** Short description such as "Every Tue until Jun 5" or "Every 2 weeks on Mon, Wed, 10 times" */
+export const describeRecurrence = (recurrence: LocalRecurrence): string => {
+  const unit = UNIT_LABELS[recurrence.frequency];
+  const days = recurrence.frequency === 'weekly'
+    ? WEEKDAYS.filter(day => recurrence.byDay.includes(day))
+      .map(day => format(addDays(new Date(2024, 0, 7), WEEKDAYS.indexOf(day)), 'EEE'))
+    : [];
+  let text: string;
+  if (recurrence.interval > 1) {
+    text = `Every ${recurrence.interval} ${unit}s${days.length > 0 ? ` on ${days.join(', ')}` : ''}`;
+  } else {
+    text = days.length > 0 ? `Every ${days.join(', ')}` : `Every ${unit}`;
+  }
+  if (recurrence.until) {
+    const sameYear = recurrence.until.getFullYear() === new Date().getFullYear();
+    text += ` until ${format(recurrence.until, sameYear ? 'MMM d' : 'MMM d, yyyy')}`;
+  } else if (recurrence.count) {
+    text += `, ${recurrence.count} time${recurrence.count !== 1 ? 's' : ''}`;
+  }
+  return text;
+};
+
+/**
+ * Description of any RRULE value; rules the builder can't represent fall back to their
+ * frequency, e.g. "Repeats monthly".
+ */
+export const describeRRule = (value: string): string => {
+  const recurrence = parseRRule(value);
+  if (recurrence) return describeRecurrence(recurrence);
+  const frequency = (Object.keys(FREQUENCIES) as RecurrenceFrequency[])
+    .find(key => value.toUpperCase().includes(`FREQ=${FREQUENCIES[key]}`));
+  return frequency ? `Repeats ${frequency}` : 'Repeats';
+};
+
+const createLocalCalendarComponent = (): ICAL.Component => {
+  const vcalendar = new ICAL.Component('vcalendar');
+  vcalendar.addPropertyWithValue('prodid', '-//Family Calendar//Local Events//EN');
+  vcalendar.addPropertyWithValue('version', '2.0');
+  vcalendar.addPropertyWithValue('x-wr-calname', LOCAL_CALENDAR_NAME);
+  return vcalendar;
+};
+
+const parseLocalCalendar = (icalData: string | undefined): ICAL.Component =>
+  icalData ? new ICAL.Component(ICAL.parse(icalData)) : createLocalCalendarComponent();
+
+const findEvents = (vcalendar: ICAL.Component, uid: string): ICAL.Component[] =>
+  vcalendar.getAllSubcomponents('vevent').filter((vevent: ICAL.Component) => vevent.getFirstPropertyValue('uid') === uid);
+
+const createUid = () => `${Date.now()}-${Math.random().toString(36).slice(2, 11)}@family-calendar.local`;
+
+const createEventComponent = (draft: LocalEventDraft, uid: string): ICAL.Component => {
+  const vevent = new ICAL.Component('vevent');
+  vevent.addPropertyWithValue('uid', uid);
+  vevent.addPropertyWithValue('dtstamp', ICAL.Time.fromJSDate(new Date(), true));
+  vevent.addPropertyWithValue('summary', draft.title.trim() || 'Untitled Event');
+  vevent.addPropertyWithValue('dtstart', toICalTime(draft.start, draft.allDay));
+  // All-day events always cover at least their first day
+  const end = draft.allDay && draft.end <= draft.start ? addDays(draft.start, 1) : draft.end;
+  if (end > draft.start) vevent.addPropertyWithValue('dtend', toICalTime(end, draft.allDay));
+  if (draft.location.trim()) vevent.addPropertyWithValue('location', draft.location.trim());
+  if (draft.description.trim()) vevent.addPropertyWithValue('description', draft.description.trim());
+  vevent.addPropertyWithValue('categories', draft.category);
+  if (draft.color) vevent.addPropertyWithValue('color', draft.color);
+  if (draft.recurrence) {
+    vevent.addPropertyWithValue('rrule', ICAL.Recur.fromString(buildRRule(draft.recurrence, draft.allDay)));
+  }
+  return vevent;
+};
+
+/**
+ * Adds or replaces an event in the local calendar's .ics document and returns the new
+ * document with the event's UID. Editing replaces the whole series, including any
+ * per-instance overrides it had.
+ */
+export const upsertLocalEvent = (icalData: string | undefined, draft: LocalEventDraft): { icalData: string; uid: string } => {
+  const vcalendar = parseLocalCalendar(icalData);
+  const uid = draft.uid || createUid();
+  findEvents(vcalendar, uid).forEach(vevent => vcalendar.removeSubcomponent(vevent));
+  vcalendar.addSubcomponent(createEventComponent(draft, uid));
+  return { icalData: vcalendar.toString(), uid };
+};
+
+/** The local calendar's .ics document without the event (and its overrides) */
+export const removeLocalEvent = (icalData: string | undefined, uid: string): string => {
+  const vcalendar = parseLocalCalendar(icalData);
+  findEvents(vcalendar, uid).forEach(vevent => vcalendar.removeSubcomponent(vevent));
+  return vcalendar.toString();
+};
+
+/** Editable fields of a stored local event, read from its series master */
+export const readLocalEvent = (icalData: string | undefined, uid: string): LocalEventDraft | null => {
+  if (!icalData) return null;
+  const vevent = findEvents(parseLocalCalendar(icalData), uid).find(component => !component.hasProperty('recurrence-id'));
+  if (!vevent) return null;
+
+  const event = new ICAL.Event(vevent);
+  const allDay = event.startDate.isDate;
+  const start = fromICalTime(event.startDate);
+  const end = event.endDate ? fromICalTime(event.endDate) : allDay ? addDays(start, 1) : start;
+  const rrule = vevent.getFirstPropertyValue('rrule');
+  const category = vevent.getFirstPropertyValue('categories');
+  const color = vevent.getFirstPropertyValue('color');
+  return {
+    uid,
+    title: event.summary || '',
+    start,
+    end,
+    allDay,
+    location: event.location || '',
+    description: event.description || '',
+    color: typeof color === 'string' && color ? color : undefined,
+    category: EVENT_CATEGORIES.find(value => value === category) ?? 'Family',
+    recurrence: rrule ? parseRRule(rrule.toString()) : undefined
+  };
+};
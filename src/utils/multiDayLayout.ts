@@ -0,0 +1,175 @@
+import { addDays, differenceInCalendarDays, isSameDay, startOfDay } from 'date-fns';
+import { Event } from '@/types/calendar';
+
+type SpanEvent = Pick<Event, 'start' | 'end' | 'date' | 'allDay' | 'isMultiDay'>;
+
+/** Days covered by an event, from the start of its first day to the start of the day after its last */
+export interface DayRange {
+  start: Date;
+  end: Date;
+}
+
+/** The part of a spanning event that falls inside one row of days */
+export interface SpanSegment<T extends SpanEvent = Event> {
+  event: T;
+  /** Index of the first covered day within the row */
+  startIndex: number;
+  /** Number of days covered within the row */
+  length: number;
+  lane: number;
+  /** The event started before the row and continues from an earlier day */
+  continuesBefore: boolean;
+  /** The event ends after the row and continues on a later day */
+  continuesAfter: boolean;
+}
+
+export interface SpanLayout<T extends SpanEvent = Event> {
+  segments: SpanSegment<T>[];
+  laneCount: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days covered by an event. All-day ends are exclusive (iCal DTEND), and timed
+ * events ending part-way through a day still cover that day.
+ */
+export const getEventDayRange = (event: SpanEvent): DayRange => {
+  const rawStart = new Date(event.start ?? event.date);
+  const start = startOfDay(rawStart);
+  const rawEnd = event.end ? new Date(event.end) : undefined;
+  if (!rawEnd || Number.isNaN(rawEnd.getTime()) || rawEnd <= rawStart) {
+    return { start, end: addDays(start, 1) };
+  }
+  const endDay = startOfDay(rawEnd);
+  const end = endDay.getTime() === rawEnd.getTime() ? endDay : addDays(endDay, 1);
+  return { start, end: end > start ? end : addDays(start, 1) };
+};
+
+/**
+ * Events drawn as a continuous bar: all-day events covering several days, and timed
+ * events lasting a day or more. Overnight timed events stay on their start day.
+ */
+export const isSpanningEvent = (event: SpanEvent): boolean => {
+  try {
+    const range = getEventDayRange(event);
+    if (differenceInCalendarDays(range.end, range.start) < 2) return false;
+    if (event.allDay || event.isMultiDay) return true;
+    return !!event.end && new Date(event.end).getTime() - new Date(event.start).getTime() >= DAY_MS;
+  } catch (error) {
+    console.warn('Error checking if event spans days:', error);
+    return false;
+  }
+};
+
+/** Whether the event should be shown on `day`: every covered day for spans, the display day otherwise */
+export const eventOccursOnDay = (event: SpanEvent, day: Date): boolean => {
+  try {
+    if (isSpanningEvent(event)) {
+      const range = getEventDayRange(event);
+      const dayStart = startOfDay(day);
+      return range.start <= dayStart && dayStart < range.end;
+    }
+    return !!event.date && isSameDay(new Date(event.date), day);
+  } catch (error) {
+    console.warn('Error checking event day:', error);
+    return false;
+  }
+};
+
+/** Whether a spanning event began before `day` and/or carries on after it */
+export const getSpanContinuation = (event: SpanEvent, day: Date) => {
+  const range = getEventDayRange(event);
+  const dayStart = startOfDay(day);
+  return {
+    continuesBefore: range.start < dayStart,
+    continuesAfter: addDays(dayStart, 1) < range.end
+  };
+};
+
+/**
+ * Events of each day in the `dayCount` days from `start`, placed as `eventOccursOnDay`
+ * would place them. Buckets events once instead of testing every event against every day.
+ */
+export const groupEventsByDay = <T extends SpanEvent>(events: T[], start: Date, dayCount: number): Array<{ day: Date; events: T[] }> => {
+  const firstDay = startOfDay(start);
+  const days = Array.from({ length: dayCount }, (_, i) => ({ day: addDays(firstDay, i), events: [] as T[] }));
+  events.forEach(event => {
+    try {
+      if (isSpanningEvent(event)) {
+        const range = getEventDayRange(event);
+        const from = Math.max(0, differenceInCalendarDays(range.start, firstDay));
+        const to = Math.min(dayCount, differenceInCalendarDays(range.end, firstDay));
+        for (let i = from; i < to; i++) days[i].events.push(event);
+      } else if (event.date) {
+        const index = differenceInCalendarDays(new Date(event.date), firstDay);
+        if (index >= 0 && index < dayCount) days[index].events.push(event);
+      }
+    } catch (error) {
+      console.warn('Error placing event on its day:', error);
+    }
+  });
+  return days;
+};
+
+// Caches written before spans were kept whole hold one copy per covered day
+const spanKey = (event: SpanEvent & Partial<Pick<Event, 'calendarId' | 'title'>>) => {
+  const range = getEventDayRange(event);
+  return `${event.calendarId ?? ''}|${event.title ?? ''}|${range.start.getTime()}|${range.end.getTime()}`;
+};
+
+/**
+ * Assigns spanning events to lanes for a row of `dayCount` consecutive days starting at
+ * `rowStart`. Earlier and longer events take the top lanes; an event keeps one lane for
+ * the whole row and is split at the row edges, flagged so views can show it continuing.
+ */
+export const layoutSpanningEvents = <T extends SpanEvent & Partial<Pick<Event, 'calendarId' | 'title'>>>(
+  events: T[],
+  rowStart: Date,
+  dayCount: number
+): SpanLayout<T> => {
+  const first = startOfDay(rowStart);
+  const seen = new Set<string>();
+  const placed = (events || [])
+    .filter(event => {
+      if (!event || !isSpanningEvent(event)) return false;
+      const key = spanKey(event);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(event => {
+      const range = getEventDayRange(event);
+      return {
+        event,
+        from: differenceInCalendarDays(range.start, first),
+        to: differenceInCalendarDays(range.end, first)
+      };
+    })
+    .filter(({ from, to }) => to > 0 && from < dayCount)
+    .sort((a, b) =>
+      a.from - b.from ||
+      (b.to - b.from) - (a.to - a.from) ||
+      (a.event.title || '').localeCompare(b.event.title || '')
+    );
+
+  // Index (exclusive) of the last day taken in each lane
+  const laneEnds: number[] = [];
+  const segments = placed.map(({ event, from, to }) => {
+    const startIndex = Math.max(0, from);
+    const endIndex = Math.min(dayCount, to);
+    let lane = laneEnds.findIndex(laneEnd => laneEnd <= startIndex);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = endIndex;
+    return {
+      event,
+      startIndex,
+      length: endIndex - startIndex,
+      lane,
+      continuesBefore: from < 0,
+      continuesAfter: to > dayCount
+    };
+  });
+
+  return { segments, laneCount: laneEnds.length };
+};
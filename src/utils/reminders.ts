@@ -0,0 +1,90 @@
+import { isSameDay } from 'date-fns';
+import { Event, EventReminder } from '@/types/calendar';
+import { fromZoneWallTime, getHouseholdTimeZone } from '@/utils/timeZoneUtils';
+
+/** Leads offered when adding a reminder, in minutes before the start */
+export const REMINDER_PRESETS = [0, 5, 10, 15, 30, 60, 120, 1440];
+
+// Reminders found this late still fire, e.g. after a reload; older ones are skipped rather than piling up
+export const REMINDER_GRACE_MINUTES = 15;
+
+/** One reminder of one occurrence, as handed to the banner and the service worker */
+export interface ScheduledReminder {
+  /** Stable per occurrence and lead, so a fired reminder is recognized after a reload */
+  id: string;
+  eventId: string;
+  title: string;
+  location?: string;
+  /** Event start as a household wall-clock time, for display, in ms since the epoch */
+  start: number;
+  /** Real instant the reminder fires, in ms since the epoch */
+  fireAt: number;
+  minutesBefore: number;
+}
+
+export const getReminderId = (eventId: Event['id'], minutesBefore: number): string => `${eventId}@${minutesBefore}`;
+
+/** "At start", "15 minutes before", "2 hours before", "1 day before" */
+export const formatReminderLead = (minutesBefore: number): string => {
+  if (minutesBefore === 0) return 'At start';
+  const minutes = Math.abs(minutesBefore);
+  const when = minutesBefore > 0 ? 'before' : 'after start';
+  const [count, unit] = minutes % 1440 === 0
+    ? [minutes / 1440, 'day']
+    : minutes % 60 === 0
+      ? [minutes / 60, 'hour']
+      : [minutes, 'minute'];
+  return `${count} ${unit}${count !== 1 ? 's' : ''} ${when}`;
+};
+
+/**
+ * Leads that apply to an event: the source's own alarms, or else its calendar's default.
+ * Calendar defaults skip all-day events, where "15 minutes before" would mean 11:45 PM.
+ */
+export const getEventReminderLeads = (event: Event, calendarDefaults: Record<string, number>): number[] => {
+  if (event.alarms && event.alarms.length > 0) return event.alarms;
+  const fallback = event.calendarId ? calendarDefaults[event.calendarId] : undefined;
+  return fallback !== undefined && !event.allDay ? [fallback] : [];
+};
+
+/**
+ * Every reminder firing in [from, to): source alarms and calendar defaults of the loaded
+ * events, plus reminders the household added. Added reminders follow their event when it
+ * is loaded (it may have moved) and fall back to the start saved with them otherwise.
+ * Event starts are household wall-clock times, so firing times are taken back to real
+ * instants in `timeZone` before they are compared with the clock.
+ */
+export const collectReminders = (
+  events: Event[],
+  added: EventReminder[],
+  calendarDefaults: Record<string, number>,
+  from: number,
+  to: number,
+  timeZone: string = getHouseholdTimeZone()
+): ScheduledReminder[] => {
+  const reminders = new Map<string, ScheduledReminder>();
+  const loaded = new Map<string, Event>();
+  const add = (eventId: Event['id'], title: string, start: number, minutesBefore: number, location?: string) => {
+    const fireAt = fromZoneWallTime(new Date(start), timeZone).getTime() - minutesBefore * 60 * 1000;
+    if (fireAt < from || fireAt >= to) return;
+    const id = getReminderId(eventId, minutesBefore);
+    reminders.set(id, { id, eventId: String(eventId), title, location: location || undefined, start, fireAt, minutesBefore });
+  };
+
+  events.forEach(event => {
+    if (!event || event.status === 'cancelled') return;
+    // Multi-day events have a copy per day; only the first day's copy reminds
+    if (event.isMultiDay && !isSameDay(new Date(event.date), new Date(event.start))) return;
+    loaded.set(String(event.id), event);
+    const start = new Date(event.start).getTime();
+    getEventReminderLeads(event, calendarDefaults).forEach(lead => add(event.id, event.title, start, lead, event.location));
+  });
+
+  added.forEach(reminder => {
+    const event = loaded.get(reminder.eventId);
+    if (event) add(event.id, event.title, new Date(event.start).getTime(), reminder.minutesBefore, event.location);
+    else add(reminder.eventId, reminder.title, new Date(reminder.start).getTime(), reminder.minutesBefore);
+  });
+
+  return Array.from(reminders.values()).sort((a, b) => a.fireAt - b.fireAt);
+};
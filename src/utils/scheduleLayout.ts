@@ -0,0 +1,84 @@
+import { Event, FamilyMember } from '@/types/calendar';
+import { eventOccursOnDay, isSpanningEvent } from '@/utils/multiDayLayout';
+import { layoutDayEvents, TimeGridItem } from '@/utils/timeGridLayout';
+
+/** A column of the schedule view: one family member, or the events nobody is assigned to */
+export interface ScheduleLane {
+  id: string;
+  member?: FamilyMember;
+}
+
+/** An event placed across one or more neighbouring lanes */
+export interface ScheduleSpan {
+  event: Event;
+  lane: number;
+  laneSpan: number;
+}
+
+/** A timed event placed in the schedule's hour grid; `column` and friends apply within its lane */
+export type ScheduleBlock = TimeGridItem & ScheduleSpan;
+
+export const UNASSIGNED_LANE_ID = 'unassigned';
+
+/** Lanes for the members being shown (all of them unless the member filter picks some), then unassigned */
+export const getScheduleLanes = (members: FamilyMember[], memberFilter: string[]): ScheduleLane[] => [
+  ...members
+    .filter(member => memberFilter.length === 0 || memberFilter.includes(member.id))
+    .map(member => ({ id: member.id, member })),
+  { id: UNASSIGNED_LANE_ID }
+];
+
+const getEventLanes = (event: Event, lanes: ScheduleLane[]): number[] => {
+  const memberLanes = lanes
+    .map((lane, index) => (lane.member && event.memberIds?.includes(lane.id) ? index : -1))
+    .filter(index => index !== -1);
+  if (memberLanes.length > 0 || event.memberIds?.length) return memberLanes;
+  const unassigned = lanes.findIndex(lane => lane.id === UNASSIGNED_LANE_ID);
+  return unassigned === -1 ? [] : [unassigned];
+};
+
+/** Joins an event's entries in neighbouring lanes into one span when `canJoin` allows it */
+const joinLanes = <T extends ScheduleSpan>(entries: T[], canJoin: (previous: T, next: T) => boolean): T[] => {
+  const joined: T[] = [];
+  const lastByEvent = new Map<Event, T>();
+  entries
+    .sort((a, b) => a.lane - b.lane)
+    .forEach(entry => {
+      const previous = lastByEvent.get(entry.event);
+      if (previous && previous.lane + previous.laneSpan === entry.lane && canJoin(previous, entry)) {
+        previous.laneSpan++;
+        return;
+      }
+      joined.push(entry);
+      lastByEvent.set(entry.event, entry);
+    });
+  return joined;
+};
+
+const fillsLane = (item: TimeGridItem) => item.column === 0 && item.columnSpan === item.columnCount;
+
+/**
+ * Lays out a day's events with one lane per member. Events go in the lanes of each member
+ * they belong to, untagged events in the unassigned lane; a shared event spans neighbouring
+ * lanes wherever it has each of them to itself at that time, and is repeated otherwise.
+ */
+export const layoutSchedule = (events: Event[], lanes: ScheduleLane[], day: Date): { allDay: ScheduleSpan[]; blocks: ScheduleBlock[] } => {
+  const dayEvents = events.filter(event => event && event.date && eventOccursOnDay(event, day));
+  const laneEvents = lanes.map(() => [] as Event[]);
+  dayEvents.forEach(event => getEventLanes(event, lanes).forEach(lane => laneEvents[lane].push(event)));
+
+  const allDay = joinLanes(
+    laneEvents.flatMap((list, lane) => list
+      .filter(event => event.allDay || isSpanningEvent(event))
+      .map(event => ({ event, lane, laneSpan: 1 }))),
+    () => true
+  );
+
+  const blocks = joinLanes(
+    laneEvents.flatMap((list, lane) => layoutDayEvents(list.filter(event => !event.allDay && !isSpanningEvent(event)), day)
+      .map(item => ({ ...item, lane, laneSpan: 1 }))),
+    (previous, next) => fillsLane(previous) && fillsLane(next)
+  );
+
+  return { allDay, blocks };
+};
@@ -0,0 +1,80 @@
+import { differenceInMinutes, startOfDay } from 'date-fns';
+import { Event } from '@/types/calendar';
+
+type GridEvent = Pick<Event, 'start' | 'end'>;
+
+/** A timed event placed in a day's hour grid */
+export interface TimeGridItem<T extends GridEvent = Event> {
+  event: T;
+  /** Minutes after midnight, clamped to the day */
+  startMinute: number;
+  endMinute: number;
+  /** Column within its group of overlapping events, from the left */
+  column: number;
+  /** Columns the group of overlapping events is split into */
+  columnCount: number;
+  /** Columns the event may fill, its own plus free neighbours to the right */
+  columnSpan: number;
+}
+
+const DAY_MINUTES = 24 * 60;
+// Short and open-ended events still get a readable block; events without an end count as 20 minutes
+export const MIN_EVENT_MINUTES = 20;
+
+const finishGroup = <T extends GridEvent>(group: TimeGridItem<T>[], columnCount: number) => {
+  group.forEach(item => {
+    item.columnCount = columnCount;
+    // Widen into columns to the right that stay free for the whole event
+    let span = 1;
+    while (
+      item.column + span < columnCount &&
+      !group.some(other =>
+        other.column === item.column + span &&
+        other.startMinute < item.endMinute &&
+        item.startMinute < other.endMinute
+      )
+    ) {
+      span++;
+    }
+    item.columnSpan = span;
+  });
+};
+
+/**
+ * Lays out a day's timed events side by side. Events are grouped into runs that overlap
+ * one another directly or through a chain; each group is split into as many columns as
+ * its largest set of simultaneous events (greedy coloring of the interval graph, which
+ * is optimal for intervals), and every event takes the leftmost column free at its start.
+ */
+export const layoutDayEvents = <T extends GridEvent>(events: T[], day: Date): TimeGridItem<T>[] => {
+  const dayStart = startOfDay(day);
+  const items = events
+    .map(event => {
+      const start = new Date(event.start);
+      const end = event.end ? new Date(event.end) : undefined;
+      const startMinute = Math.max(0, differenceInMinutes(start, dayStart));
+      const rawEnd = end && end > start ? differenceInMinutes(end, dayStart) : startMinute + MIN_EVENT_MINUTES;
+      const endMinute = Math.min(DAY_MINUTES, Math.max(rawEnd, startMinute + MIN_EVENT_MINUTES));
+      return { event, startMinute, endMinute, column: 0, columnCount: 1, columnSpan: 1 };
+    })
+    .filter(item => item.startMinute < DAY_MINUTES && item.endMinute > 0)
+    .sort((a, b) => a.startMinute - b.startMinute || b.endMinute - a.endMinute);
+
+  let group: TimeGridItem<T>[] = [];
+  let columnEnds: number[] = [];
+  let groupEnd = 0;
+  items.forEach(item => {
+    if (group.length > 0 && item.startMinute >= groupEnd) {
+      finishGroup(group, columnEnds.length);
+      group = [];
+      columnEnds = [];
+    }
+    const freeColumn = columnEnds.findIndex(end => end <= item.startMinute);
+    item.column = freeColumn === -1 ? columnEnds.length : freeColumn;
+    columnEnds[item.column] = item.endMinute;
+    groupEnd = group.length === 0 ? item.endMinute : Math.max(groupEnd, item.endMinute);
+    group.push(item);
+  });
+  if (group.length > 0) finishGroup(group, columnEnds.length);
+  return items;
+};
@@ -100,21 +100,45 @@ export const timeToMinutes = (timeString: string): number => {
 };
 
 /**
- * Compares two time strings chronologically
- * Returns: negative if a < b, positive if a > b, 0 if equal
+ * Builds structured start/end values from a day and a free-text time such as
+ * "1:00 PM - 5:00 PM" or "All day". Used when ingesting sources that only give text
+ * (Notion, scraped pages, events stored before structured times existed).
  */
-export const compareTimeStrings = (timeA: string, timeB: string): number => {
-  try {
-    // Handle null/undefined values
-    if (!timeA && !timeB) return 0;
-    if (!timeA) return 1; // Move invalid times to end
-    if (!timeB) return -1; // Move invalid times to end
-    
-    const minutesA = timeToMinutes(timeA);
-    const minutesB = timeToMinutes(timeB);
-    return minutesA - minutesB;
-  } catch (error) {
-    console.warn('Error comparing time strings:', error);
-    return 0; // Default to equal if comparison fails
+export const parseTimeRange = (day: Date, timeString?: string): { start: Date; end?: Date; allDay: boolean } => {
+  const dayStart = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+  // Drop annotations such as "(Recurring)" before parsing
+  const text = (timeString || '').replace(/\s*\([^)]*\)/g, '').trim();
+  const startMinutes = text ? timeToMinutes(text) : 9999;
+  if (!extractStartTime(text) || startMinutes >= 9999) {
+    return { start: dayStart, allDay: true };
+  }
+
+  const start = new Date(dayStart);
+  start.setMinutes(startMinutes);
+
+  const separator = [' - ', ' – ', ' to ', ' until '].find(sep => text.includes(sep));
+  const endMinutes = separator ? timeToMinutes(text.split(separator)[1]) : 9999;
+  if (endMinutes >= 9999) return { start, allDay: false };
+
+  const end = new Date(dayStart);
+  end.setMinutes(endMinutes);
+  // Ranges like "10:00 PM - 1:00 AM" end on the following day
+  if (end <= start) end.setDate(end.getDate() + 1);
+  return { start, end, allDay: false };
+};
+
+/**
+ * Orders events for display within a day: all-day events first (alphabetically),
+ * then timed events by start time, then by title.
+ */
+export const compareEventsByTime = (
+  a: { allDay: boolean; start: Date; title?: string },
+  b: { allDay: boolean; start: Date; title?: string }
+): number => {
+  if (a.allDay !== b.allDay) return a.allDay ? -1 : 1;
+  if (!a.allDay) {
+    const diff = new Date(a.start).getTime() - new Date(b.start).getTime();
+    if (diff !== 0 && !Number.isNaN(diff)) return diff;
   }
+  return (a.title || '').localeCompare(b.title || '');
 };
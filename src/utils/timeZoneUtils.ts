@@ -0,0 +1,122 @@
+/**
+ * Time zone helpers for the household display zone.
+ *
+ * Timed events are kept as household wall-clock times: their local getters read the time
+ * in the household zone, whatever zone the device is in. These helpers convert between
+ * real instants and that representation, and build the secondary label for events whose
+ * original zone differs.
+ */
+
+export const HOUSEHOLD_TIME_ZONE_KEY = 'householdTimeZone';
+
+export const getBrowserTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+export const isValidTimeZone = (zone: string | null | undefined): zone is string => {
+  if (!zone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Household display zone as persisted by the display settings.
+ * Read synchronously so sync code outside React can use it.
+ */
+export const getHouseholdTimeZone = (): string => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(HOUSEHOLD_TIME_ZONE_KEY) : null;
+    if (isValidTimeZone(stored)) return stored;
+  } catch {/* storage unavailable: fall back to the device zone */}
+  return getBrowserTimeZone();
+};
+
+/** All zones the runtime knows about, falling back to a short common list */
+export const getSupportedTimeZones = (): string[] => {
+  const intl = Intl as unknown as { supportedValuesOf?: (key: string) => string[] };
+  if (typeof intl.supportedValuesOf === 'function') {
+    try {
+      return intl.supportedValuesOf('timeZone');
+    } catch {/* fall through */}
+  }
+  return [
+    'UTC',
+    'America/New_York',
+    'America/Chicago',
+    'America/Denver',
+    'America/Phoenix',
+    'America/Los_Angeles',
+    'America/Anchorage',
+    'Pacific/Honolulu',
+    'Europe/London',
+    'Europe/Paris',
+    'Europe/Berlin',
+    'Asia/Kolkata',
+    'Asia/Tokyo',
+    'Australia/Sydney'
+  ];
+};
+
+/** Offset of a zone from UTC at the given instant, in minutes */
+export const getZoneOffsetMinutes = (date: Date, zone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: zone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric'
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'));
+  const truncated = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes());
+  return Math.round((asUtc - truncated) / 60000);
+};
+
+/**
+ * Shift an instant so that its local getters read the wall-clock time in `zone`.
+ * Views bucket events by local day, so this keeps them on the household's day.
+ */
+export const toZoneWallTime = (date: Date, zone: string): Date => {
+  const shift = getZoneOffsetMinutes(date, zone) + date.getTimezoneOffset();
+  return shift === 0 ? date : new Date(date.getTime() + shift * 60000);
+};
+
+/**
+ * Inverse of `toZoneWallTime`: the real instant of a household wall-clock time.
+ * Needed wherever an event time is compared with the actual clock, e.g. reminders.
+ */
+export const fromZoneWallTime = (wallTime: Date, zone: string): Date => {
+  const guess = new Date(wallTime.getTime() - (getZoneOffsetMinutes(wallTime, zone) + wallTime.getTimezoneOffset()) * 60000);
+  // Recompute the offset at the real instant, which matters next to DST changes
+  const shift = getZoneOffsetMinutes(guess, zone) + guess.getTimezoneOffset();
+  return shift === 0 ? wallTime : new Date(wallTime.getTime() - shift * 60000);
+};
+
+/** Short zone name at an instant, e.g. "PDT", falling back to "GMT-7" style offsets */
+export const getZoneAbbreviation = (date: Date, zone: string): string => {
+  try {
+    const part = new Intl.DateTimeFormat('en-US', { timeZone: zone, timeZoneName: 'short' })
+      .formatToParts(date)
+      .find(p => p.type === 'timeZoneName');
+    if (part?.value) return part.value;
+  } catch {/* fall through to offset */}
+  return formatUtcOffset(getZoneOffsetMinutes(date, zone));
+};
+
+export const formatUtcOffset = (offsetMinutes: number): string => {
+  if (offsetMinutes === 0) return 'GMT';
+  const sign = offsetMinutes > 0 ? '+' : '-';
+  const abs = Math.abs(offsetMinutes);
+  const minutes = abs % 60;
+  return `GMT${sign}${Math.floor(abs / 60)}${minutes ? `:${String(minutes).padStart(2, '0')}` : ''}`;
+};
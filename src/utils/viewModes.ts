@@ -0,0 +1,56 @@
+import type { TimelineOptions, ViewMode } from '@/types/calendar';
+
+/** Calendar views in the order the view switcher lists them */
+export const VIEW_MODES: ViewMode[] = ['timeline', 'schedule', 'week', 'twoWeek', 'month', 'year', 'agenda'];
+
+/** Timeline lengths offered in settings, for displays of different sizes */
+export const TIMELINE_DAY_COUNTS = [1, 2, 3, 5, 7, 10, 14];
+
+export const DEFAULT_TIMELINE_OPTIONS: TimelineOptions = {
+  dayCount: 3,
+  skipWeekends: false,
+  skipPastDays: true
+};
+
+export const isViewMode = (value: unknown): value is ViewMode =>
+  typeof value === 'string' && (VIEW_MODES as string[]).includes(value);
+
+/** View asked for with `?view=` in the page URL, e.g. `?view=agenda` for a wall display */
+export const getViewFromUrl = (search: string = typeof window !== 'undefined' ? window.location.search : ''): ViewMode | null => {
+  const view = new URLSearchParams(search).get('view');
+  return isViewMode(view) ? view : null;
+};
+
+/** Profile of a display opened without `?display=`; it keeps the original settings key */
+export const DEFAULT_DISPLAY_PROFILE = 'default';
+
+/**
+ * Display profile named with `?display=` in the page URL, e.g. `?display=kitchen`,
+ * so each wall display keeps its own timeline options
+ */
+export const getDisplayProfileFromUrl = (search: string = typeof window !== 'undefined' ? window.location.search : ''): string => {
+  const profile = new URLSearchParams(search).get('display')?.trim().toLowerCase().replace(/[^a-z0-9_-]/g, '');
+  return profile || DEFAULT_DISPLAY_PROFILE;
+};
+
+/** Settings key the timeline options of a display profile are saved under */
+export const getTimelineOptionsKey = (profile: string): string =>
+  profile === DEFAULT_DISPLAY_PROFILE ? 'timelineOptions' : `timelineOptions:${profile}`;
+
+/** Reads saved timeline options, falling back to the defaults for anything missing or invalid */
+export const parseTimelineOptions = (value: string | null | undefined): TimelineOptions => {
+  if (!value) return DEFAULT_TIMELINE_OPTIONS;
+  try {
+    const saved = JSON.parse(value) as Partial<TimelineOptions>;
+    return {
+      dayCount: TIMELINE_DAY_COUNTS.includes(saved.dayCount as number)
+        ? saved.dayCount as number
+        : DEFAULT_TIMELINE_OPTIONS.dayCount,
+      skipWeekends: typeof saved.skipWeekends === 'boolean' ? saved.skipWeekends : DEFAULT_TIMELINE_OPTIONS.skipWeekends,
+      skipPastDays: typeof saved.skipPastDays === 'boolean' ? saved.skipPastDays : DEFAULT_TIMELINE_OPTIONS.skipPastDays
+    };
+  } catch (error) {
+    console.warn('Ignoring invalid timeline options:', error);
+    return DEFAULT_TIMELINE_OPTIONS;
+  }
+};
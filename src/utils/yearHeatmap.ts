@@ -0,0 +1,36 @@
+import { Event } from '@/types/calendar';
+import { groupEventsByDay, isSpanningEvent } from './multiDayLayout';
+
+/** Shades a day can take, from 0 (no events) to HEAT_LEVELS - 1 (the busiest days) */
+export const HEAT_LEVELS = 5;
+
+export interface DayDensity {
+  day: Date;
+  /** Events on the day, spanning events included, for drilling into the day */
+  events: Event[];
+  /** Events counted towards the shade: single-day events of the chosen category */
+  count: number;
+}
+
+/**
+ * Event counts for each of the `dayCount` days from `start`. Spanning events are left
+ * out of the count since the year view draws them as bars; a week-long trip would
+ * otherwise shade the whole week as busy.
+ */
+export const getDayDensity = (
+  events: Event[],
+  start: Date,
+  dayCount: number,
+  category?: Event['category']
+): DayDensity[] =>
+  groupEventsByDay(events, start, dayCount).map(({ day, events: dayEvents }) => ({
+    day,
+    events: dayEvents,
+    count: dayEvents.filter(event => !isSpanningEvent(event) && (!category || event.category === category)).length
+  }));
+
+/** Shade for a day relative to the busiest day in view, so quiet years still show contrast */
+export const getHeatLevel = (count: number, maxCount: number): number => {
+  if (count <= 0 || maxCount <= 0) return 0;
+  return Math.max(1, Math.ceil((count / maxCount) * (HEAT_LEVELS - 1)));
+};
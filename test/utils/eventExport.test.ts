@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import * as ICAL from 'ical.js';
+import type { Event } from '@/types/calendar';
+import { createEventICS, getEventFileName } from '@/utils/eventExport';
+
+const recital: Event = {
+  id: 'ical_recital_20250304',
+  title: 'Spring Recital',
+  start: new Date(2025, 2, 4, 18, 30),
+  end: new Date(2025, 2, 4, 20),
+  allDay: false,
+  isRecurring: true,
+  recurrenceRule: 'FREQ=YEARLY',
+  location: 'Main Hall',
+  attendees: 0,
+  category: 'Kids',
+  color: '#3b82f6',
+  description: 'Doors open at 6',
+  note: 'Bring flowers',
+  organizer: 'School',
+  date: new Date(2025, 2, 4),
+  source: 'ical'
+};
+
+describe('event export', () => {
+  it('writes a single occurrence in the household zone', () => {
+    const vevent = new ICAL.Component(ICAL.parse(createEventICS(recital, 'Europe/Berlin'))).getFirstSubcomponent('vevent')!;
+    const dtstart = vevent.getFirstProperty('dtstart')!;
+
+    expect(dtstart.getParameter('tzid')).toBe('Europe/Berlin');
+    expect(dtstart.getFirstValue().toString()).toBe('2025-03-04T18:30:00');
+    expect(vevent.getFirstPropertyValue('summary')).toBe('Spring Recital');
+    expect(vevent.getFirstPropertyValue('description')).toBe('Doors open at 6\n\nBring flowers');
+    expect(vevent.hasProperty('rrule')).toBe(false);
+    expect(getEventFileName(recital)).toBe('spring-recital-2025-03-04.ics');
+  });
+});
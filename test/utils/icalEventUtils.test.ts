@@ -1,9 +1,19 @@
 import { describe, it, expect } from 'vitest';
 import * as ICAL from 'ical.js';
-import { generateOccurrenceId, hasOccurrenceChanged } from '@/utils/icalEventUtils';
+import {
+  diffOccurrences,
+  formatSyncReport,
+  getImportedCalendarName,
+  generateOccurrenceId,
+  hasOccurrenceChanged,
+  recordSyncReport,
+  reviveStoredOccurrence,
+  SYNC_HISTORY_LIMIT
+} from '@/utils/icalEventUtils';
 import type { ICalCalendar, ICalEventOccurrence } from '@/hooks/useICalCalendars';
 import { expandRecurringEvent, generateMultiDayOccurrences } from '@/utils/icalExpansionTestable';
 
+const year2025 = { start: new Date(2025, 0, 1), end: new Date(2026, 0, 1) };
 const makeCalendar = () => ({ id: 'cal1', name: 'Cal', url: '', color: '#123456', enabled: true } as const);
 
 function buildEvent(ical: string) {
@@ -22,18 +32,26 @@ describe('iCal occurrence utilities', () => {
     expect(id1).toBe(id2);
   });
 
-  it('expands multi-day all-day event across days', () => {
+  it('keeps a multi-day all-day event as one spanning occurrence', () => {
     const cal = makeCalendar();
     const ev = buildEvent(`BEGIN:VCALENDAR\nBEGIN:VEVENT\nUID:multi1\nDTSTART;VALUE=DATE:20250201\nDTEND;VALUE=DATE:20250204\nSUMMARY:Trip\nEND:VEVENT\nEND:VCALENDAR`);
-    const occ = generateMultiDayOccurrences(ev, cal, 2025);
-    expect(occ.length).toBe(3); // 1st,2nd,3rd (DTEND is exclusive)
-    expect(new Set(occ.map(o => o.id)).size).toBe(3);
+    const occ = generateMultiDayOccurrences(ev, cal, year2025);
+    expect(occ).toHaveLength(1);
+    expect(occ[0].isMultiDay).toBe(true);
+    expect(occ[0].start).toEqual(new Date(2025, 1, 1));
+    expect(occ[0].end).toEqual(new Date(2025, 1, 4)); // DTEND is exclusive
+  });
+
+  it('keeps spans that start before the window', () => {
+    const cal = makeCalendar();
+    const ev = buildEvent(`BEGIN:VCALENDAR\nBEGIN:VEVENT\nUID:multi2\nDTSTART;VALUE=DATE:20241230\nDTEND;VALUE=DATE:20250103\nSUMMARY:Winter break\nEND:VEVENT\nEND:VCALENDAR`);
+    expect(generateMultiDayOccurrences(ev, cal, year2025)).toHaveLength(1);
   });
 
   it('expands simple yearly recurring event within year bounds', () => {
     const cal = makeCalendar();
     const ev = buildEvent(`BEGIN:VCALENDAR\nBEGIN:VEVENT\nUID:rec1\nDTSTART;VALUE=DATE:20250105\nRRULE:FREQ=MONTHLY;BYMONTHDAY=5\nSUMMARY:Monthly\nEND:VEVENT\nEND:VCALENDAR`);
-    const occ = expandRecurringEvent(ev, cal, 2025);
+    const occ = expandRecurringEvent(ev, cal, year2025);
     // Should not exceed 12 or max limiter 366
     expect(occ.length).toBeGreaterThan(5);
     expect(occ.length).toBeLessThanOrEqual(12);
@@ -43,7 +61,9 @@ describe('iCal occurrence utilities', () => {
     const sample: ICalEventOccurrence = {
       id: 'x',
       title: 'T',
-      time: 'All day',
+      start: new Date('2025-01-01'),
+      allDay: true,
+      isRecurring: false,
       location: 'Loc',
       attendees: 0,
       category: 'Personal',
@@ -59,5 +79,126 @@ describe('iCal occurrence utilities', () => {
     const changed: ICalEventOccurrence = { ...sample, description: 'New Desc' };
     expect(hasOccurrenceChanged(sample, changed)).toBe(true);
     expect(hasOccurrenceChanged(sample, { ...sample })).toBe(false);
+    expect(hasOccurrenceChanged(sample, { ...sample, start: new Date('2025-01-02') })).toBe(true);
+  });
+
+  it('revives legacy stored occurrences that only have a time string', () => {
+    const revived = reviveStoredOccurrence({
+      id: 'legacy',
+      title: 'Piano',
+      time: '4:00 PM - 5:00 PM (Recurring)',
+      location: '',
+      attendees: 0,
+      category: 'Personal',
+      color: '#000',
+      description: '',
+      organizer: 'Org',
+      date: new Date(2025, 2, 3).toISOString(),
+      calendarId: 'cal1',
+      calendarName: 'Cal',
+      source: 'ical',
+      isMultiDay: false
+    });
+    expect(revived.allDay).toBe(false);
+    expect(revived.isRecurring).toBe(true);
+    expect(revived.start).toEqual(new Date(2025, 2, 3, 16, 0));
+    expect(revived.end).toEqual(new Date(2025, 2, 3, 17, 0));
+    expect('time' in revived).toBe(false);
+  });
+
+  describe('sync reports', () => {
+    const occurrence = (id: string, day: number, hour = 9): ICalEventOccurrence => ({
+      id,
+      title: id,
+      start: new Date(2025, 4, day, hour),
+      end: new Date(2025, 4, day, hour + 1),
+      allDay: false,
+      isRecurring: false,
+      isMultiDay: false,
+      location: '',
+      attendees: 0,
+      category: 'Personal',
+      color: '#000',
+      description: '',
+      organizer: 'Cal',
+      date: new Date(2025, 4, day, hour),
+      calendarId: 'cal1',
+      calendarName: 'Cal',
+      source: 'ical'
+    });
+
+    it('classifies occurrences as added, moved, edited or removed', () => {
+      const previous = [occurrence('a', 1), occurrence('b', 2), occurrence('c', 3), occurrence('e', 5)];
+      const next = [occurrence('a', 1), occurrence('b', 2, 14), occurrence('d', 4), { ...occurrence('e', 5), location: 'Gym' }];
+      const diff = diffOccurrences(previous, next);
+      expect(diff.added.map(o => o.id)).toEqual(['d']);
+      expect(diff.moved.map(o => o.id)).toEqual(['b']);
+      expect(diff.edited.map(o => o.id)).toEqual(['e']);
+      expect(diff.removed.map(o => o.id)).toEqual(['c']);
+    });
+
+    it('matches rescheduled instances by UID and RECURRENCE-ID', () => {
+      const instance = (day: number): ICalEventOccurrence => ({
+        ...occurrence(`swim-${day}`, day),
+        uid: 'swim',
+        isRecurring: true,
+        recurrenceId: '2025-05-02T09:00:00'
+      });
+      const diff = diffOccurrences([instance(2)], [instance(3)]);
+      expect(diff.moved.map(o => o.id)).toEqual(['swim-3']);
+      expect(diff.added).toEqual([]);
+      expect(diff.removed).toEqual([]);
+    });
+
+    it('reports a cancelled occurrence as removed and a reinstated one as added', () => {
+      const recital = occurrence('recital', 6);
+      const cancelled: ICalEventOccurrence = { ...recital, status: 'cancelled' };
+
+      expect(diffOccurrences([recital], [cancelled])).toEqual({ added: [], moved: [], edited: [], removed: [recital] });
+      expect(diffOccurrences([cancelled], [recital])).toEqual({ added: [recital], moved: [], edited: [], removed: [] });
+      expect(diffOccurrences([recital], [{ ...recital, status: 'tentative' }]).edited.map(o => o.id)).toEqual(['recital']);
+    });
+
+    it('ignores occurrences entering or leaving the rolling window', () => {
+      const previous = [occurrence('old', 1), occurrence('kept', 10)];
+      const next = [occurrence('kept', 10), occurrence('horizon', 30)];
+      const history = recordSyncReport(
+        undefined,
+        previous,
+        next,
+        { start: new Date(2025, 4, 1), end: new Date(2025, 4, 20) },
+        { start: new Date(2025, 4, 5), end: new Date(2025, 5, 1) },
+        '2025-05-05T00:00:00.000Z'
+      );
+      expect(history).toEqual([{ syncedAt: '2025-05-05T00:00:00.000Z', added: 0, moved: 0, edited: 0, removed: 0 }]);
+    });
+
+    it('keeps the newest reports first and caps the history', () => {
+      let history = recordSyncReport(undefined, [], [occurrence('a', 1)], {}, { start: new Date(2025, 0, 1), end: new Date(2026, 0, 1) }, 'first');
+      for (let i = 0; i < SYNC_HISTORY_LIMIT; i++) {
+        history = recordSyncReport(history, [], [], {}, { start: new Date(2025, 0, 1), end: new Date(2026, 0, 1) }, `sync ${i}`);
+      }
+      expect(history).toHaveLength(SYNC_HISTORY_LIMIT);
+      expect(history[0].syncedAt).toBe(`sync ${SYNC_HISTORY_LIMIT - 1}`);
+      expect(history.some(report => report.syncedAt === 'first')).toBe(false);
+    });
+
+    it('formats reports for display', () => {
+      expect(formatSyncReport({ syncedAt: '', added: 3, moved: 1, edited: 1, removed: 2 })).toBe('3 new, 1 moved, 1 edited, 2 cancelled');
+      expect(formatSyncReport({ syncedAt: '', added: 0, moved: 1, edited: 0, removed: 0 })).toBe('1 moved');
+      expect(formatSyncReport({ syncedAt: '', added: 0, changed: 2, removed: 0 })).toBe('2 changed');
+      expect(formatSyncReport({ syncedAt: '', added: 0, moved: 0, edited: 0, removed: 0 })).toBe('No changes');
+    });
+  });
+
+  describe('getImportedCalendarName', () => {
+    it('should prefer the calendar name in the file, unfolded and unescaped', () => {
+      const ics = 'BEGIN:VCALENDAR\r\nX-WR-CALNAME:Lincoln Elementary\\, 2025\r\n -26\r\nEND:VCALENDAR';
+      expect(getImportedCalendarName(ics, 'export.ics')).toBe('Lincoln Elementary, 2025-26');
+    });
+
+    it('should fall back to the file name without extension', () => {
+      expect(getImportedCalendarName('BEGIN:VCALENDAR\nEND:VCALENDAR', 'school-year.ics')).toBe('school-year');
+    });
   });
 });
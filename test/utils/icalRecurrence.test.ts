@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import * as ICAL from 'ical.js';
+import { expandCalendarEvents, createExpansionWindow, getCalendarExpansionWindow } from '@/utils/icalExpansionTestable';
+import type { ICalCalendar } from '@/hooks/useICalCalendars';
+import { getBrowserTimeZone } from '@/utils/timeZoneUtils';
+
+const year2025 = { start: new Date(2025, 0, 1), end: new Date(2026, 0, 1) };
+// Both exception fixtures are Eastern feeds; show them in their own zone so assertions read as wall times
+const eastern = 'America/New_York';
+const makeCalendar = (): ICalCalendar => ({ id: 'cal1', name: 'Family', url: '', color: '#123456', enabled: true });
+
+function loadFixture(name: string) {
+  const raw = readFileSync(path.resolve(__dirname, '../fixtures/ical', name), 'utf8');
+  return new ICAL.Component(ICAL.parse(raw));
+}
+
+const dayOf = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+describe('iCal recurrence expansion (RFC 5545 exceptions)', () => {
+  describe('Google Calendar export', () => {
+    const occurrences = expandCalendarEvents(loadFixture('google-weekly-exdate.ics'), makeCalendar(), year2025, eastern);
+    const swim = occurrences.filter(o => o.title.startsWith('Swim Practice'));
+
+    it('removes EXDATE occurrences from the weekly series', () => {
+      const days = swim.map(o => dayOf(o.date));
+      expect(days).not.toContain('2025-01-14');
+      expect(days).not.toContain('2025-01-21');
+      expect(days).toContain('2025-01-07');
+      expect(days).toContain('2025-01-28');
+    });
+
+    it('replaces the overridden occurrence instead of duplicating it', () => {
+      const days = swim.map(o => dayOf(o.date));
+      expect(days).not.toContain('2025-02-04');
+      const moved = swim.filter(o => dayOf(o.date) === '2025-02-06');
+      expect(moved).toHaveLength(1);
+      expect(moved[0].title).toBe('Swim Practice (moved)');
+      expect(moved[0].location).toBe('High School Pool');
+      // Keeps the slot it was moved from, so syncs can tell a move from a new instance
+      expect(moved[0].recurrenceId).toBe('2025-02-04T12:00:00');
+      // 6 instances - 2 EXDATEs; the override replaces one instance rather than adding one
+      expect(swim).toHaveLength(4);
+    });
+
+    it('keeps non-overridden instances on master details', () => {
+      const first = swim.find(o => dayOf(o.date) === '2025-01-07');
+      expect(first?.title).toBe('Swim Practice');
+      expect(first?.location).toBe('Community Pool');
+      expect(first?.description).toBe('Bring goggles');
+    });
+
+    it('expands yearly all-day events once within the year', () => {
+      const birthdays = occurrences.filter(o => o.title === "Sam's Birthday");
+      expect(birthdays.map(o => dayOf(o.date))).toEqual(['2025-03-01']);
+    });
+  });
+
+  describe('Outlook / Exchange export', () => {
+    const occurrences = expandCalendarEvents(loadFixture('outlook-exceptions.ics'), makeCalendar(), year2025, eastern);
+
+    it('honors comma-separated EXDATE lists and cancelled RECURRENCE-ID instances', () => {
+      const days = occurrences.map(o => dayOf(o.date)).sort();
+      // Apr 7-14 weekdays: 7, 8, 9, 10, 11, 14 minus EXDATE 9/10 and cancelled 11
+      expect(days).toEqual(['2025-04-07', '2025-04-08', '2025-04-14']);
+    });
+
+    it('applies the override title, time and location', () => {
+      const moved = occurrences.find(o => dayOf(o.date) === '2025-04-08');
+      expect(moved?.title).toBe('Daily Standup (Room 4B)');
+      expect(moved?.location).toBe('Room 4B');
+      expect(moved?.date.getHours()).not.toBe(occurrences.find(o => dayOf(o.date) === '2025-04-07')?.date.getHours());
+    });
+
+    it('never emits the cancelled override as an event', () => {
+      expect(occurrences.some(o => o.title.startsWith('Canceled'))).toBe(false);
+    });
+  });
+
+  describe('iCloud export', () => {
+    const occurrences = expandCalendarEvents(loadFixture('icloud-rdate.ics'), makeCalendar(), year2025);
+    const visits = occurrences.filter(o => o.title.startsWith('Grandma Visiting'));
+
+    it('adds RDATE instances and removes EXDATE instances for multi-day events', () => {
+      const days = visits.map(o => dayOf(o.date)).sort();
+      expect(days).toContain('2025-05-01');
+      expect(dayOf(visits.find(o => dayOf(o.date) === '2025-05-01')!.end!)).toBe('2025-05-03');
+      expect(days).not.toContain('2025-06-01');
+      expect(days).toContain('2025-06-12');
+    });
+
+    it('applies date-valued overrides to RDATE instances', () => {
+      const july = visits.filter(o => o.date.getMonth() === 6);
+      expect(july.map(o => dayOf(o.date))).toEqual(['2025-07-12']);
+      expect(july[0].title).toBe('Grandma Visiting (weekend)');
+    });
+
+    it('keeps overrides whose master is not in the feed as standalone events', () => {
+      const recital = occurrences.filter(o => o.title === 'Piano Recital (rescheduled)');
+      expect(recital).toHaveLength(1);
+      expect(dayOf(recital[0].date)).toBe('2025-08-15');
+    });
+  });
+
+  it('produces unique occurrence IDs across a feed', () => {
+    const occurrences = expandCalendarEvents(loadFixture('google-weekly-exdate.ics'), makeCalendar(), year2025, eastern);
+    expect(new Set(occurrences.map(o => o.id)).size).toBe(occurrences.length);
+  });
+
+  describe('rolling expansion window', () => {
+    it('aligns the default window to whole months around the reference date', () => {
+      const range = createExpansionWindow(undefined, undefined, new Date(2025, 10, 20));
+      expect(range.start).toEqual(new Date(2025, 7, 1));
+      expect(range.end).toEqual(new Date(2027, 5, 1));
+    });
+
+    it('uses per-calendar horizons when set', () => {
+      const range = getCalendarExpansionWindow({ expansionPastMonths: 1, expansionFutureMonths: 2 }, new Date(2025, 11, 15));
+      expect(range.start).toEqual(new Date(2025, 10, 1));
+      expect(range.end).toEqual(new Date(2026, 2, 1));
+    });
+
+    it('reaches into the next year when the horizon crosses it', () => {
+      const range = createExpansionWindow(1, 2, new Date(2025, 11, 15));
+      const occurrences = expandCalendarEvents(loadFixture('google-weekly-exdate.ics'), makeCalendar(), range);
+      const birthdays = occurrences.filter(o => o.title === "Sam's Birthday");
+      // Yearly on Mar 1 falls outside Nov 2025 - Feb 2026
+      expect(birthdays).toHaveLength(0);
+      const extended = expandCalendarEvents(loadFixture('google-weekly-exdate.ics'), makeCalendar(), createExpansionWindow(1, 3, new Date(2025, 11, 15)));
+      expect(extended.filter(o => o.title === "Sam's Birthday").map(o => dayOf(o.date))).toEqual(['2026-03-01']);
+    });
+  });
+
+  describe('time zones', () => {
+    const expand = (zone: string) => expandCalendarEvents(loadFixture('relative-timezone.ics'), makeCalendar(), year2025, zone);
+
+    it('resolves TZID times through the feed VTIMEZONE and shows them in the household zone', () => {
+      const call = expand('America/New_York').find(o => o.title === 'Video call with Grandpa');
+      expect(call?.start.getHours()).toBe(15);
+      expect(call?.end?.getHours()).toBe(16);
+      expect(call?.sourceTimeZone?.name).toBe('PDT');
+      expect(call?.sourceTimeZone?.start.getHours()).toBe(12);
+    });
+
+    it('moves late events onto the household day', () => {
+      const show = expand('America/New_York').find(o => o.title === 'Late show');
+      expect(dayOf(show!.date)).toBe('2025-06-13');
+      expect(show?.start.getHours()).toBe(1);
+    });
+
+    it('omits the source zone when zones match or the source is UTC', () => {
+      const occurrences = expand('America/Los_Angeles');
+      const call = occurrences.find(o => o.title === 'Video call with Grandpa');
+      const utc = occurrences.find(o => o.title === 'UTC event');
+      expect(call?.start.getHours()).toBe(12);
+      expect(call?.sourceTimeZone).toBeUndefined();
+      expect(utc?.start.getHours()).toBe(9);
+      expect(utc?.sourceTimeZone).toBeUndefined();
+    });
+
+    it('keeps floating times on the household clock when the device zone differs', () => {
+      const household = getBrowserTimeZone() === 'Asia/Tokyo' ? 'America/New_York' : 'Asia/Tokyo';
+      const floating = new ICAL.Component(ICAL.parse([
+        'BEGIN:VCALENDAR', 'VERSION:2.0', 'BEGIN:VEVENT', 'UID:floating-1', 'DTSTAMP:20250501T000000Z',
+        'DTSTART:20250610T090000', 'DTEND:20250610T100000', 'SUMMARY:Dentist', 'END:VEVENT', 'END:VCALENDAR'
+      ].join('\r\n')));
+      const [dentist] = expandCalendarEvents(floating, makeCalendar(), year2025, household);
+      expect(dentist.start.getHours()).toBe(9);
+      expect(dentist.end?.getHours()).toBe(10);
+      expect(dayOf(dentist.date)).toBe('2025-06-10');
+      expect(dentist.sourceTimeZone).toBeUndefined();
+    });
+  });
+
+  describe('event properties', () => {
+    const occurrences = expandCalendarEvents(loadFixture('event-properties.ics'), makeCalendar(), year2025, eastern);
+    const meeting = occurrences.find(o => o.title === 'PTA Meeting');
+    const bakeSale = occurrences.find(o => o.title === 'Bake Sale');
+
+    it('maps attendees and the organizer from the feed', () => {
+      expect(meeting?.attendees).toBe(2);
+      expect(meeting?.attendeeList).toEqual([
+        { name: 'Sam Lee', email: 'sam@example.com', status: 'accepted', role: 'req-participant' },
+        { name: undefined, email: 'alex@example.com', status: 'tentative', role: 'opt-participant' }
+      ]);
+      expect(meeting?.organizer).toBe('Dana Ruiz');
+      expect(meeting?.organizerEmail).toBe('dana@lincoln.example');
+      expect(bakeSale?.organizer).toBe('Family');
+    });
+
+    it('keeps status, categories, url and visibility', () => {
+      expect(meeting?.status).toBe('tentative');
+      expect(meeting?.categories).toEqual(['School', 'Meetings']);
+      expect(meeting?.category).toBe('Kids');
+      expect(meeting?.url).toBe('https://lincoln.zoom.us/j/123456');
+      expect(meeting?.visibility).toBe('public');
+    });
+
+    it('keeps cancelled one-off events and drops non-web links', () => {
+      expect(bakeSale?.status).toBe('cancelled');
+      expect(bakeSale?.visibility).toBe('private');
+      expect(bakeSale?.url).toBeUndefined();
+    });
+
+    it('reads VALARM triggers as minutes before the start', () => {
+      // 15 minutes before, 90 minutes before a one-hour event's end, and a day ahead
+      expect(meeting?.alarms).toEqual([15, 30, 1440]);
+      expect(bakeSale?.alarms).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import * as ICAL from 'ical.js';
+import { expandCalendarEvents } from '@/utils/icalExpansionTestable';
+import type { ICalCalendar } from '@/hooks/useICalCalendars';
+import {
+  LocalEventDraft,
+  buildRRule,
+  createLocalEventDraft,
+  describeRRule,
+  parseRRule,
+  readLocalEvent,
+  removeLocalEvent,
+  upsertLocalEvent
+} from '@/utils/localEvents';
+
+const spring2025 = { start: new Date(2025, 2, 1), end: new Date(2025, 5, 1) };
+// Local events are floating times; expanding in the runtime's own zone keeps them as entered
+const runtimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const localCalendar: ICalCalendar = {
+  id: 'local_calendar',
+  name: 'Family Calendar',
+  url: '',
+  color: '#3b82f6',
+  enabled: true,
+  sourceType: 'local'
+};
+
+const expand = (icalData: string) =>
+  expandCalendarEvents(new ICAL.Component(ICAL.parse(icalData)), localCalendar, spring2025, runtimeZone);
+
+const practice: LocalEventDraft = {
+  ...createLocalEventDraft(new Date(2025, 2, 3)),
+  title: 'Soccer practice',
+  start: new Date(2025, 2, 3, 17, 30),
+  end: new Date(2025, 2, 3, 19),
+  location: 'Riverside Field',
+  category: 'Kids',
+  color: '#22c55e',
+  recurrence: { frequency: 'weekly', interval: 1, byDay: ['MO', 'WE'], count: 6 }
+};
+
+describe('local events', () => {
+  it('builds and reads back RRULEs from the recurrence builder', () => {
+    expect(buildRRule({ frequency: 'weekly', interval: 2, byDay: ['WE', 'MO'], count: 5 }, false))
+      .toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=5');
+    expect(buildRRule({ frequency: 'monthly', interval: 1, byDay: [], until: new Date(2025, 11, 31) }, true))
+      .toBe('FREQ=MONTHLY;UNTIL=20251231');
+    expect(parseRRule('FREQ=DAILY;INTERVAL=3;UNTIL=20250630T235959')).toEqual({
+      frequency: 'daily',
+      interval: 3,
+      byDay: [],
+      until: new Date(2025, 5, 30),
+      count: undefined
+    });
+    expect(parseRRule('FREQ=MONTHLY;BYMONTHDAY=1,15')).toBeUndefined();
+  });
+
+  it('expands a saved series with the iCal engine, keeping its color, category and wall times', () => {
+    const { icalData, uid } = upsertLocalEvent(undefined, practice);
+    const occurrences = expand(icalData);
+
+    expect(occurrences).toHaveLength(6);
+    expect(occurrences.map(o => o.start.getDate())).toEqual([3, 5, 10, 12, 17, 19]);
+    expect(occurrences[0]).toMatchObject({
+      uid,
+      title: 'Soccer practice',
+      category: 'Kids',
+      color: '#22c55e',
+      source: 'local',
+      isRecurring: true,
+      recurrenceRule: expect.stringContaining('FREQ=WEEKLY')
+    });
+    expect(occurrences[0].start.getHours()).toBe(17);
+    expect(occurrences[0].end?.getMinutes()).toBe(0);
+  });
+
+  it('keeps saved wall times when the household zone differs from the device zone', () => {
+    const household = runtimeZone === 'Asia/Tokyo' ? 'America/New_York' : 'Asia/Tokyo';
+    const { icalData } = upsertLocalEvent(undefined, { ...practice, recurrence: undefined });
+    const [occurrence] = expandCalendarEvents(new ICAL.Component(ICAL.parse(icalData)), localCalendar, spring2025, household);
+
+    expect(occurrence.start).toEqual(new Date(2025, 2, 3, 17, 30));
+    expect(occurrence.end).toEqual(new Date(2025, 2, 3, 19));
+    expect(occurrence.date).toEqual(new Date(2025, 2, 3, 17, 30));
+  });
+
+  it('edits and deletes events by UID', () => {
+    const first = upsertLocalEvent(undefined, practice);
+    const second = upsertLocalEvent(first.icalData, {
+      ...createLocalEventDraft(new Date(2025, 3, 18)),
+      title: 'Grandma visits',
+      allDay: true,
+      start: new Date(2025, 3, 18),
+      end: new Date(2025, 3, 21)
+    });
+
+    const stored = readLocalEvent(second.icalData, first.uid);
+    expect(stored).toMatchObject({ title: 'Soccer practice', location: 'Riverside Field', category: 'Kids' });
+    expect(stored?.recurrence).toEqual(practice.recurrence);
+
+    const edited = upsertLocalEvent(second.icalData, { ...stored!, title: 'Soccer (moved)', recurrence: undefined });
+    expect(edited.uid).toBe(first.uid);
+    expect(expand(edited.icalData).map(o => o.title).sort()).toEqual(['Grandma visits', 'Soccer (moved)']);
+    expect(readLocalEvent(edited.icalData, second.uid)).toMatchObject({ allDay: true, end: new Date(2025, 3, 21) });
+
+    const remaining = expand(removeLocalEvent(edited.icalData, first.uid));
+    expect(remaining.map(o => o.title)).toEqual(['Grandma visits']);
+  });
+
+  it('describes recurrence rules from any calendar', () => {
+    const year = new Date().getFullYear();
+    expect(describeRRule(`FREQ=WEEKLY;BYDAY=TU;UNTIL=${year}0605T235959Z`)).toBe('Every Tue until Jun 5');
+    expect(describeRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10')).toBe('Every 2 weeks on Mon, Wed, 10 times');
+    expect(describeRRule('FREQ=MONTHLY;BYMONTHDAY=1,15')).toBe('Repeats monthly');
+  });
+});